@@ -1,6 +1,9 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { qualificationLabel } from "@/lib/drivers/qualifications";
+import { isFailingStatus, overallStatusLabel } from "@/lib/inspections/status";
+import { expiryStatus } from "@/lib/vehicles/compliance";
 
 type DashboardCounts = {
   drivers: number;
@@ -21,6 +24,31 @@ type RecentInspection = {
   submitted_at: string | null;
 };
 
+type DispatchAlert = {
+  id: string;
+  kind: string;
+  priority: "normal" | "high";
+  message: string;
+  vehicle_id: string | null;
+  inspection_id: string | null;
+  created_at: string;
+  dispatch_alert_notifications: { channel: string; recipient: string; status: string }[];
+};
+
+type ExpiringQualification = {
+  id: string;
+  driver_id: string;
+  driver_name: string;
+  kind: string;
+  expires_on: string;
+};
+
+type UnreviewedCounts = {
+  total: number;
+  out_of_service: number;
+  oldest_submitted_at: string | null;
+};
+
 function formatStatusPill(status: string | null) {
   if (!status) {
     return (
@@ -38,10 +66,17 @@ function formatStatusPill(status: string | null) {
       </span>
     );
   }
-  if (s === "fail") {
+  if (s === "pass_minor_defects") {
+    return (
+      <span className="inline-flex rounded-full bg-amber-500/20 px-2 py-0.5 text-[10px] font-semibold text-amber-100 ring-1 ring-amber-500/50">
+        {overallStatusLabel(s).toUpperCase()}
+      </span>
+    );
+  }
+  if (isFailingStatus(s)) {
     return (
       <span className="inline-flex rounded-full bg-red-600/30 px-2 py-0.5 text-[10px] font-semibold text-red-100 ring-1 ring-red-500/60">
-        FAIL
+        {overallStatusLabel(s).toUpperCase()}
       </span>
     );
   }
@@ -69,9 +104,16 @@ function formatShortDate(iso: string | null) {
   });
 }
 
-export default function AdminDashboardTab() {
+type AdminDashboardTabProps = {
+  canEdit: boolean;
+};
+
+export default function AdminDashboardTab({ canEdit }: AdminDashboardTabProps) {
   const [counts, setCounts] = useState<DashboardCounts | null>(null);
   const [recentInspections, setRecentInspections] = useState<RecentInspection[]>([]);
+  const [alerts, setAlerts] = useState<DispatchAlert[]>([]);
+  const [expiringQualifications, setExpiringQualifications] = useState<ExpiringQualification[]>([]);
+  const [unreviewed, setUnreviewed] = useState<UnreviewedCounts | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -87,6 +129,14 @@ export default function AdminDashboardTab() {
 
         setCounts(body.counts);
         setRecentInspections(body.recentInspections || []);
+        setExpiringQualifications(body.expiringQualifications || []);
+        setUnreviewed(body.unreviewed ?? null);
+
+        const alertsRes = await fetch("/api/admin/dispatch-alerts");
+        if (alertsRes.ok) {
+          const alertsBody = await alertsRes.json();
+          setAlerts(alertsBody.alerts || []);
+        }
       } catch (err: any) {
         console.error("Error loading admin dashboard:", err);
         setError(err?.message || "Failed to load dashboard data.");
@@ -98,6 +148,51 @@ export default function AdminDashboardTab() {
     loadDashboard();
   }, []);
 
+  // Keep dispatch alerts current so urgent ones show up without a refresh
+  useEffect(() => {
+    const refreshAlerts = async () => {
+      try {
+        const res = await fetch("/api/admin/dispatch-alerts");
+        if (!res.ok) return;
+        const body = await res.json();
+        setAlerts(body.alerts || []);
+      } catch (err) {
+        console.error("Error refreshing dispatch alerts:", err);
+      }
+    };
+
+    const intervalId = setInterval(refreshAlerts, 30000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const handleResolveAlert = async (alert: DispatchAlert) => {
+    const isChildAlert = alert.kind === "child_left_on_vehicle";
+    const note = window.prompt(
+      isChildAlert
+        ? "How was every child accounted for? (required – e.g. vehicle checked, student confirmed at school)"
+        : "How was this handled? (e.g. spare vehicle assigned)"
+    );
+    if (note === null) return;
+    if (isChildAlert && !note.trim()) {
+      setError("A child-left-on-vehicle alert can only be resolved with a note.");
+      return;
+    }
+
+    try {
+      const res = await fetch("/api/admin/dispatch-alerts", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: alert.id, note }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to resolve alert");
+      setAlerts((prev) => prev.filter((a) => a.id !== alert.id));
+    } catch (err) {
+      console.error("Error resolving dispatch alert:", err);
+      setError(err instanceof Error ? err.message : "Failed to resolve alert.");
+    }
+  };
+
   return (
     <div className="space-y-4">
       {/* Top summary / error state */}
@@ -109,6 +204,142 @@ export default function AdminDashboardTab() {
         </section>
       )}
 
+      {/* Dispatch alerts */}
+      {alerts.length > 0 && (
+        <section className="card space-y-2 border border-red-500/60 bg-red-950/30">
+          <h2 className="text-sm font-semibold uppercase tracking-[0.16em] text-red-200">
+            Dispatch alerts ({alerts.length})
+          </h2>
+          <div className="space-y-1.5">
+            {alerts.map((alert) => (
+              <div
+                key={alert.id}
+                className={`flex flex-wrap items-center justify-between gap-2 rounded-xl px-3 py-2 text-[11px] ${
+                  alert.priority === "high" ? "bg-red-700/60 ring-2 ring-red-400" : "bg-slate-950/60"
+                }`}
+              >
+                <div className="space-y-0.5">
+                  <p className="font-semibold text-red-100">
+                    {alert.priority === "high" && (
+                      <span className="mr-1.5 rounded-full bg-red-50 px-2 py-0.5 text-[10px] font-bold text-red-800">
+                        URGENT
+                      </span>
+                    )}
+                    {alert.message}
+                  </p>
+                  <p className="text-slate-400">
+                    {formatShortDate(alert.created_at)}
+                    {alert.inspection_id && (
+                      <>
+                        {" · "}
+                        <a
+                          href={`/inspection/${alert.inspection_id}?from=admin-dashboard`}
+                          className="underline-offset-2 hover:underline"
+                        >
+                          View inspection
+                        </a>
+                      </>
+                    )}
+                    {alert.vehicle_id && (
+                      <>
+                        {" · "}
+                        <a
+                          href={`/admin/vehicles/${alert.vehicle_id}`}
+                          className="underline-offset-2 hover:underline"
+                        >
+                          Vehicle
+                        </a>
+                      </>
+                    )}
+                    {alert.dispatch_alert_notifications?.length > 0 && (
+                      <>
+                        {" · "}
+                        {alert.dispatch_alert_notifications
+                          .map((n) => `${n.channel.toUpperCase()} ${n.recipient}${n.status === "failed" ? " (failed)" : ""}`)
+                          .join(", ")}
+                      </>
+                    )}
+                  </p>
+                </div>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => handleResolveAlert(alert)}
+                    className="btn-ghost px-3 py-1 text-[11px]"
+                  >
+                    Mark handled
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Driver qualifications expiring or lapsed */}
+      {expiringQualifications.length > 0 && (
+        <section className="card space-y-2 border border-amber-500/50 bg-amber-950/20">
+          <h2 className="text-sm font-semibold uppercase tracking-[0.16em] text-amber-200">
+            Driver qualifications ({expiringQualifications.length})
+          </h2>
+          <p className="text-[11px] text-slate-400">
+            Drivers with a lapsed license, 7D certificate, background check or
+            CPR can&apos;t be assigned to routes.
+          </p>
+          <div className="space-y-1.5">
+            {expiringQualifications.map((q) => {
+              const { days_left } = expiryStatus(q.expires_on);
+              const lapsed = days_left !== null && days_left < 0;
+              return (
+                <div
+                  key={q.id}
+                  className="flex flex-wrap items-center justify-between gap-2 rounded-xl bg-slate-950/60 px-3 py-2 text-[11px]"
+                >
+                  <p className={lapsed ? "font-semibold text-red-200" : "text-amber-100"}>
+                    {q.driver_name} – {qualificationLabel(q.kind)}{" "}
+                    {lapsed
+                      ? `expired ${q.expires_on}`
+                      : days_left === 0
+                        ? "expires today"
+                        : `expires ${q.expires_on} (${days_left} day${days_left === 1 ? "" : "s"})`}
+                  </p>
+                  <a
+                    href={`/admin/drivers/${q.driver_id}`}
+                    className="btn-ghost px-3 py-1 text-[11px]"
+                  >
+                    Driver
+                  </a>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      {/* Failed or noted inspections waiting on a supervisor */}
+      {unreviewed && unreviewed.total > 0 && (
+        <section
+          className={`card space-y-1 border ${
+            unreviewed.out_of_service > 0
+              ? "border-red-500/60 bg-red-950/30"
+              : "border-amber-500/50 bg-amber-950/20"
+          }`}
+        >
+          <h2 className="text-sm font-semibold uppercase tracking-[0.16em] text-amber-200">
+            Awaiting supervisor review ({unreviewed.total})
+          </h2>
+          <p className="text-[11px] text-slate-300">
+            {unreviewed.out_of_service > 0 && (
+              <span className="font-semibold text-red-200">
+                {unreviewed.out_of_service} out of service.{" "}
+              </span>
+            )}
+            Oldest submitted {formatShortDate(unreviewed.oldest_submitted_at)}. Sign
+            them off in the Review Queue tab.
+          </p>
+        </section>
+      )}
+
       {/* KPI cards */}
       <section className="grid gap-3 md:grid-cols-3 lg:grid-cols-6">
         {[
@@ -0,0 +1,336 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type AdminRole = "owner" | "dispatcher" | "payroll" | "read_only";
+
+type AdminUser = {
+  id: string;
+  email: string;
+  full_name: string;
+  role: AdminRole;
+  is_active: boolean;
+  last_login_at: string | null;
+  created_at: string;
+};
+
+const ROLE_OPTIONS: { value: AdminRole; label: string; description: string }[] = [
+  { value: "owner", label: "Owner", description: "Everything, including admin accounts" },
+  { value: "dispatcher", label: "Dispatcher", description: "Edit routes, students, drivers, vehicles" },
+  { value: "payroll", label: "Payroll", description: "View everything and timecards; no edits" },
+  { value: "read_only", label: "Read-only", description: "View operations; no timecards or edits" },
+];
+
+function formatDateTime(iso: string | null): string {
+  if (!iso) return "Never";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`;
+}
+
+type AdminUsersTabProps = {
+  currentAdminId: string;
+};
+
+export default function AdminUsersTab({ currentAdminId }: AdminUsersTabProps) {
+  const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newName, setNewName] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [newRole, setNewRole] = useState<AdminRole>("dispatcher");
+  const [newPassword, setNewPassword] = useState("");
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function loadAdminUsers() {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/admin/admin-users");
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to load admin users.");
+        if (isMounted) setAdminUsers(body.adminUsers as AdminUser[]);
+      } catch (err) {
+        console.error(err);
+        if (isMounted) {
+          setError(err instanceof Error ? err.message : "Failed to load admin users.");
+        }
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    }
+
+    loadAdminUsers();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const updateAdminUser = async (id: string, fields: Record<string, unknown>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/admin-users", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, ...fields }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to update admin user.");
+      setAdminUsers((prev) =>
+        prev.map((u) => (u.id === id ? (body.adminUser as AdminUser) : u)),
+      );
+      return true;
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to update admin user.");
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/admin-users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          full_name: newName.trim(),
+          email: newEmail.trim(),
+          role: newRole,
+          password: newPassword,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to create admin user.");
+      setAdminUsers((prev) =>
+        [...prev, body.adminUser as AdminUser].sort((a, b) =>
+          a.full_name.localeCompare(b.full_name),
+        ),
+      );
+      setNewName("");
+      setNewEmail("");
+      setNewRole("dispatcher");
+      setNewPassword("");
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to create admin user.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (user: AdminUser) => {
+    const password = window.prompt(
+      `Enter a new password for ${user.full_name} (at least 10 characters).\nLeave blank to cancel.`,
+    );
+    if (!password) return;
+    const ok = await updateAdminUser(user.id, { password });
+    if (ok) alert(`Password updated for ${user.full_name}.`);
+  };
+
+  const handleDelete = async (user: AdminUser) => {
+    const confirmed = window.confirm(
+      `Delete the admin account for ${user.full_name}? They will be signed out immediately.`,
+    );
+    if (!confirmed) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/admin-users?id=${user.id}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to delete admin user.");
+      setAdminUsers((prev) => prev.filter((u) => u.id !== user.id));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to delete admin user.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass =
+    "w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2";
+
+  return (
+    <section className="space-y-4" id="admins">
+      <section className="card">
+        <h2 className="text-sm font-semibold uppercase tracking-[0.14em] text-slate-300">
+          Admin users
+        </h2>
+        <p className="text-[11px] text-slate-400">
+          Give each office staff member their own sign-in and a role that limits
+          what they can see and change.
+        </p>
+      </section>
+
+      {error && (
+        <section className="card border border-red-500/50 bg-red-950/40">
+          <p className="text-xs font-medium text-red-200">{error}</p>
+        </section>
+      )}
+
+      <section className="card space-y-3">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-300">
+          Add admin
+        </h3>
+        <div className="grid gap-2 sm:grid-cols-2">
+          <div className="space-y-1">
+            <label className="text-[11px] font-medium text-slate-200">Full name</label>
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[11px] font-medium text-slate-200">Email</label>
+            <input
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[11px] font-medium text-slate-200">Role</label>
+            <select
+              value={newRole}
+              onChange={(e) => setNewRole(e.target.value as AdminRole)}
+              className={inputClass}
+            >
+              {ROLE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label} — {opt.description}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-[11px] font-medium text-slate-200">
+              Temporary password
+            </label>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className={inputClass}
+              placeholder="At least 10 characters"
+            />
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={loading || !newName.trim() || !newEmail.trim() || !newPassword}
+          className="btn-primary px-4 py-2 text-xs font-semibold"
+        >
+          + Add admin
+        </button>
+      </section>
+
+      <section className="card space-y-3">
+        <div className="relative overflow-hidden rounded-2xl bg-slate-950/40">
+          <div className="max-h-[460px] overflow-auto text-[11px] sm:text-xs">
+            {adminUsers.length === 0 ? (
+              <p className="p-3 text-[11px] text-slate-400">
+                {loading ? "Loading admin users..." : "No admin accounts yet."}
+              </p>
+            ) : (
+              <table className="min-w-full border-separate border-spacing-0">
+                <thead>
+                  <tr className="bg-slate-900/90 text-slate-200">
+                    <th className="sticky top-0 border-b border-slate-800 px-3 py-2 text-left text-[11px] font-semibold backdrop-blur">Name</th>
+                    <th className="sticky top-0 border-b border-slate-800 px-3 py-2 text-left text-[11px] font-semibold backdrop-blur">Email</th>
+                    <th className="sticky top-0 border-b border-slate-800 px-3 py-2 text-left text-[11px] font-semibold backdrop-blur">Role</th>
+                    <th className="sticky top-0 border-b border-slate-800 px-3 py-2 text-left text-[11px] font-semibold backdrop-blur">Status</th>
+                    <th className="sticky top-0 border-b border-slate-800 px-3 py-2 text-left text-[11px] font-semibold backdrop-blur">Last sign-in</th>
+                    <th className="sticky top-0 border-b border-slate-800 px-3 py-2 text-right text-[11px] font-semibold backdrop-blur">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {adminUsers.map((user, idx) => {
+                    const isSelf = user.id === currentAdminId;
+                    return (
+                      <tr
+                        key={user.id}
+                        className={`border-b border-slate-800/60 transition hover:bg-slate-900/80 ${
+                          idx % 2 === 0 ? "bg-slate-950/70" : "bg-slate-900/60"
+                        }`}
+                      >
+                        <td className="px-3 py-2 text-slate-100">
+                          {user.full_name}
+                          {isSelf && <span className="ml-1 text-slate-400">(you)</span>}
+                        </td>
+                        <td className="px-3 py-2 text-slate-100">{user.email}</td>
+                        <td className="px-3 py-2 text-slate-100">
+                          <select
+                            value={user.role}
+                            disabled={loading}
+                            onChange={(e) =>
+                              updateAdminUser(user.id, { role: e.target.value as AdminRole })
+                            }
+                            className="rounded-lg border border-white/15 bg-slate-900 px-2 py-1 text-[11px] text-slate-100"
+                          >
+                            {ROLE_OPTIONS.map((opt) => (
+                              <option key={opt.value} value={opt.value}>
+                                {opt.label}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2 text-slate-100">
+                          {user.is_active ? (
+                            <span className="inline-flex items-center rounded-full bg-emerald-500/15 px-2 py-0.5 text-[11px] font-semibold text-emerald-200">Active</span>
+                          ) : (
+                            <span className="inline-flex items-center rounded-full bg-slate-500/20 px-2 py-0.5 text-[11px] font-semibold text-slate-200">Deactivated</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-slate-300">{formatDateTime(user.last_login_at)}</td>
+                        <td className="px-3 py-2 text-right">
+                          <div className="flex flex-wrap items-center justify-end gap-1.5">
+                            <button type="button" onClick={() => handleResetPassword(user)} className="btn-ghost px-3 py-1 text-[11px]" disabled={loading}>
+                              Reset password
+                            </button>
+                            {!isSelf && (
+                              <>
+                                <button
+                                  type="button"
+                                  onClick={() => updateAdminUser(user.id, { is_active: !user.is_active })}
+                                  className="btn-ghost px-3 py-1 text-[11px]"
+                                  disabled={loading}
+                                >
+                                  {user.is_active ? "Deactivate" : "Activate"}
+                                </button>
+                                <button type="button" onClick={() => handleDelete(user)} className="btn-ghost px-3 py-1 text-[11px]" disabled={loading}>
+                                  Delete
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </section>
+    </section>
+  );
+}
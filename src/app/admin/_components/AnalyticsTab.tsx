@@ -0,0 +1,466 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type Rate = { failed: number; failure_rate: number };
+
+type Analytics = {
+  from: string;
+  to: string;
+  bucket: "week" | "month";
+  periods: string[];
+  totals: Rate & { inspections: number };
+  trend: { period: string; inspections: number; failed: number }[];
+  items: (Rate & { item_key: string; label: string; category: string | null; checked: number })[];
+  vehicles: (Rate & {
+    vehicle_id: string;
+    vehicle_label: string;
+    make_model: string;
+    inspections: number;
+    failed_items: number;
+    repairs: number;
+    mean_repair_hours: number | null;
+  })[];
+  makeModels: (Rate & { make_model: string; vehicles: number; inspections: number })[];
+  drivers: (Rate & {
+    driver_id: string;
+    driver_name: string;
+    inspections: number;
+    periods: Record<string, { inspections: number; failed: number }>;
+  })[];
+  repeatFailures: {
+    vehicle_id: string;
+    vehicle_label: string;
+    item_key: string;
+    label: string;
+    failures: number;
+    first_failed: string;
+    last_failed: string;
+    inspection_ids: string[];
+  }[];
+  repairs: { repaired: number; still_open: number; mean_repair_hours: number | null };
+};
+
+function daysAgoYmd(days: number) {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+function pct(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function formatHours(hours: number | null) {
+  if (hours == null) return "—";
+  if (hours < 1) return "< 1 h";
+  if (hours < 48) return `${Math.round(hours)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+}
+
+function formatPeriod(period: string, bucket: "week" | "month") {
+  const d = new Date(`${period}T00:00:00Z`);
+  return bucket === "month"
+    ? d.toLocaleDateString(undefined, { month: "short", year: "numeric", timeZone: "UTC" })
+    : d.toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function rateClass(rate: number) {
+  if (rate >= 0.25) return "text-red-300";
+  if (rate >= 0.1) return "text-amber-300";
+  return "text-emerald-300";
+}
+
+function RateBar({ rate }: { rate: number }) {
+  return (
+    <div className="h-1.5 w-full rounded-full bg-slate-800">
+      <div
+        className={`h-1.5 rounded-full ${rate >= 0.25 ? "bg-red-500" : rate >= 0.1 ? "bg-amber-400" : "bg-emerald-500"}`}
+        style={{ width: `${Math.max(2, Math.round(rate * 100))}%` }}
+      />
+    </div>
+  );
+}
+
+const ITEM_ROWS_COLLAPSED = 15;
+
+/**
+ * Failure trends across inspections: which items, vehicles, makes/models and
+ * drivers fail most, repeat failures and how long repairs take. Aggregated on
+ * the server.
+ */
+export default function AnalyticsTab() {
+  const [from, setFrom] = useState(() => daysAgoYmd(89));
+  const [to, setTo] = useState(() => daysAgoYmd(0));
+  const [bucket, setBucket] = useState<"week" | "month">("week");
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [showAllItems, setShowAllItems] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function loadAnalytics() {
+      try {
+        const res = await fetch(`/api/admin/inspection-analytics?from=${from}&to=${to}&bucket=${bucket}`);
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to load analytics.");
+        if (isMounted) {
+          setAnalytics(body as Analytics);
+          setError(null);
+        }
+      } catch (err) {
+        console.error(err);
+        if (isMounted) setError(err instanceof Error ? err.message : "Failed to load analytics.");
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    }
+
+    loadAnalytics();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [from, to, bucket]);
+
+  const inputClass =
+    "rounded-xl border border-white/15 bg-slate-900 px-3 py-1.5 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2";
+  const sectionTitle = "text-sm font-semibold uppercase tracking-[0.16em] text-slate-300";
+
+  const items = analytics
+    ? showAllItems
+      ? analytics.items
+      : analytics.items.slice(0, ITEM_ROWS_COLLAPSED)
+    : [];
+
+  return (
+    <section className="space-y-4" id="analytics">
+      <section className="card space-y-3">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <h2 className="text-sm font-semibold uppercase tracking-[0.18em] text-slate-300">
+              Failure analytics
+            </h2>
+            <p className="text-[11px] text-slate-400">
+              Failure rates use answers as amended. An inspection counts as
+              failed when any item failed.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => {
+                setLoading(true);
+                setFrom(e.target.value);
+              }}
+              className={inputClass}
+              aria-label="From date"
+            />
+            <span className="text-[11px] text-slate-500">to</span>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => {
+                setLoading(true);
+                setTo(e.target.value);
+              }}
+              className={inputClass}
+              aria-label="To date"
+            />
+            <select
+              value={bucket}
+              onChange={(e) => {
+                setLoading(true);
+                setBucket(e.target.value as "week" | "month");
+              }}
+              className={inputClass}
+            >
+              <option value="week">By week</option>
+              <option value="month">By month</option>
+            </select>
+          </div>
+        </div>
+        {loading && <p className="text-[11px] text-slate-400">Loading…</p>}
+      </section>
+
+      {error && (
+        <section className="card border border-red-500/50 bg-red-950/40">
+          <p className="text-xs font-medium text-red-200">{error}</p>
+        </section>
+      )}
+
+      {analytics && !error && (
+        <>
+          {/* Summary */}
+          <section className="grid gap-3 md:grid-cols-4">
+            {[
+              { label: "Inspections", value: analytics.totals.inspections.toLocaleString() },
+              {
+                label: "Failed",
+                value: `${analytics.totals.failed.toLocaleString()} (${pct(analytics.totals.failure_rate)})`,
+              },
+              { label: "Repeat failures", value: analytics.repeatFailures.length.toLocaleString() },
+              {
+                label: "Mean time to repair",
+                value: formatHours(analytics.repairs.mean_repair_hours),
+                hint: `${analytics.repairs.repaired} repaired, ${analytics.repairs.still_open} not yet repaired`,
+              },
+            ].map((kpi) => (
+              <div key={kpi.label} className="card bg-slate-950/70 px-3 py-3">
+                <p className="text-[10px] font-semibold uppercase tracking-[0.18em] text-slate-400">{kpi.label}</p>
+                <p className="mt-1 text-xl font-bold text-emerald-300">{kpi.value}</p>
+                {kpi.hint && <p className="mt-1 text-[11px] text-slate-400">{kpi.hint}</p>}
+              </div>
+            ))}
+          </section>
+
+          {/* Trend */}
+          <section className="card space-y-2">
+            <h3 className={sectionTitle}>Failure rate over time</h3>
+            <div className="space-y-1 text-[11px]">
+              {analytics.trend.map((p) => {
+                const r = p.inspections > 0 ? p.failed / p.inspections : 0;
+                return (
+                  <div key={p.period} className="grid grid-cols-[80px_1fr_110px] items-center gap-2">
+                    <span className="text-slate-400">{formatPeriod(p.period, analytics.bucket)}</span>
+                    <RateBar rate={r} />
+                    <span className="text-right text-slate-300">
+                      {p.inspections === 0 ? "—" : `${p.failed}/${p.inspections} (${pct(r)})`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          {/* Items */}
+          <section className="card space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className={sectionTitle}>By checklist item</h3>
+              {analytics.items.length > ITEM_ROWS_COLLAPSED && (
+                <button
+                  type="button"
+                  onClick={() => setShowAllItems((prev) => !prev)}
+                  className="btn-ghost px-3 py-1 text-[11px]"
+                >
+                  {showAllItems ? "Show fewer" : `Show all ${analytics.items.length}`}
+                </button>
+              )}
+            </div>
+            <table className="w-full text-left text-[11px]">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="py-1 pr-2 font-semibold">Item</th>
+                  <th className="py-1 pr-2 text-right font-semibold">Failed</th>
+                  <th className="py-1 pr-2 text-right font-semibold">Checked</th>
+                  <th className="w-1/4 py-1 font-semibold">Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr key={item.item_key} className="border-t border-white/5">
+                    <td className="py-1.5 pr-2 text-slate-100">
+                      {item.label}
+                      {item.category && <span className="ml-1 text-slate-500">· {item.category}</span>}
+                    </td>
+                    <td className="py-1.5 pr-2 text-right text-slate-300">{item.failed}</td>
+                    <td className="py-1.5 pr-2 text-right text-slate-400">{item.checked}</td>
+                    <td className="py-1.5">
+                      <div className="flex items-center gap-2">
+                        <RateBar rate={item.failure_rate} />
+                        <span className={`w-9 text-right ${rateClass(item.failure_rate)}`}>
+                          {pct(item.failure_rate)}
+                        </span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {/* Vehicles */}
+          <section className="card space-y-2">
+            <h3 className={sectionTitle}>By vehicle</h3>
+            <table className="w-full text-left text-[11px]">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="py-1 pr-2 font-semibold">Vehicle</th>
+                  <th className="py-1 pr-2 font-semibold">Make / model</th>
+                  <th className="py-1 pr-2 text-right font-semibold">Inspections</th>
+                  <th className="py-1 pr-2 text-right font-semibold">Failed</th>
+                  <th className="py-1 pr-2 text-right font-semibold">Failed items</th>
+                  <th className="py-1 pr-2 text-right font-semibold">Rate</th>
+                  <th className="py-1 text-right font-semibold">Mean repair</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.vehicles.map((v) => (
+                  <tr key={v.vehicle_id} className="border-t border-white/5">
+                    <td className="py-1.5 pr-2 text-slate-100">
+                      <Link href={`/admin/vehicles/${v.vehicle_id}`} className="underline-offset-2 hover:underline">
+                        {v.vehicle_label}
+                      </Link>
+                    </td>
+                    <td className="py-1.5 pr-2 text-slate-400">{v.make_model}</td>
+                    <td className="py-1.5 pr-2 text-right text-slate-300">{v.inspections}</td>
+                    <td className="py-1.5 pr-2 text-right text-slate-300">{v.failed}</td>
+                    <td className="py-1.5 pr-2 text-right text-slate-400">{v.failed_items}</td>
+                    <td className={`py-1.5 pr-2 text-right font-semibold ${rateClass(v.failure_rate)}`}>
+                      {pct(v.failure_rate)}
+                    </td>
+                    <td className="py-1.5 text-right text-slate-300">
+                      {formatHours(v.mean_repair_hours)}
+                      {v.repairs > 0 && <span className="text-slate-500"> ({v.repairs})</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {/* Make / model */}
+          <section className="card space-y-2">
+            <h3 className={sectionTitle}>By make / model</h3>
+            <table className="w-full text-left text-[11px]">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="py-1 pr-2 font-semibold">Make / model</th>
+                  <th className="py-1 pr-2 text-right font-semibold">Vehicles</th>
+                  <th className="py-1 pr-2 text-right font-semibold">Inspections</th>
+                  <th className="py-1 pr-2 text-right font-semibold">Failed</th>
+                  <th className="py-1 text-right font-semibold">Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.makeModels.map((m) => (
+                  <tr key={m.make_model} className="border-t border-white/5">
+                    <td className="py-1.5 pr-2 text-slate-100">{m.make_model}</td>
+                    <td className="py-1.5 pr-2 text-right text-slate-400">{m.vehicles}</td>
+                    <td className="py-1.5 pr-2 text-right text-slate-300">{m.inspections}</td>
+                    <td className="py-1.5 pr-2 text-right text-slate-300">{m.failed}</td>
+                    <td className={`py-1.5 text-right font-semibold ${rateClass(m.failure_rate)}`}>
+                      {pct(m.failure_rate)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {/* Drivers over time */}
+          <section className="card space-y-2">
+            <h3 className={sectionTitle}>By driver over time</h3>
+            <p className="text-[11px] text-slate-400">
+              Share of each driver&apos;s inspections with a failed item, per{" "}
+              {analytics.bucket}.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-[11px]">
+                <thead className="text-slate-400">
+                  <tr>
+                    <th className="py-1 pr-2 font-semibold">Driver</th>
+                    <th className="py-1 pr-2 text-right font-semibold">Overall</th>
+                    {analytics.periods.map((p) => (
+                      <th key={p} className="whitespace-nowrap py-1 pr-2 text-right font-semibold">
+                        {formatPeriod(p, analytics.bucket)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.drivers.map((d) => (
+                    <tr key={d.driver_id} className="border-t border-white/5">
+                      <td className="whitespace-nowrap py-1.5 pr-2 text-slate-100">{d.driver_name}</td>
+                      <td className={`py-1.5 pr-2 text-right font-semibold ${rateClass(d.failure_rate)}`}>
+                        {pct(d.failure_rate)}
+                        <span className="font-normal text-slate-500"> ({d.inspections})</span>
+                      </td>
+                      {analytics.periods.map((p) => {
+                        const cell = d.periods[p];
+                        if (!cell) {
+                          return (
+                            <td key={p} className="py-1.5 pr-2 text-right text-slate-600">
+                              —
+                            </td>
+                          );
+                        }
+                        const r = cell.failed / cell.inspections;
+                        return (
+                          <td
+                            key={p}
+                            className={`py-1.5 pr-2 text-right ${rateClass(r)}`}
+                            title={`${cell.failed} of ${cell.inspections} failed`}
+                          >
+                            {pct(r)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {/* Repeat failures */}
+          <section className="card space-y-2">
+            <h3 className={sectionTitle}>Repeat failures</h3>
+            <p className="text-[11px] text-slate-400">
+              The same item failing more than once on the same vehicle in this
+              period.
+            </p>
+            {analytics.repeatFailures.length === 0 ? (
+              <p className="text-[11px] text-emerald-300">No repeat failures.</p>
+            ) : (
+              <table className="w-full text-left text-[11px]">
+                <thead className="text-slate-400">
+                  <tr>
+                    <th className="py-1 pr-2 font-semibold">Vehicle</th>
+                    <th className="py-1 pr-2 font-semibold">Item</th>
+                    <th className="py-1 pr-2 text-right font-semibold">Failures</th>
+                    <th className="py-1 pr-2 font-semibold">First / last</th>
+                    <th className="py-1 font-semibold">Inspections</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.repeatFailures.map((r) => (
+                    <tr key={`${r.vehicle_id}:${r.item_key}`} className="border-t border-white/5 align-top">
+                      <td className="py-1.5 pr-2 text-slate-100">
+                        <Link href={`/admin/vehicles/${r.vehicle_id}`} className="underline-offset-2 hover:underline">
+                          {r.vehicle_label}
+                        </Link>
+                      </td>
+                      <td className="py-1.5 pr-2 text-slate-300">{r.label}</td>
+                      <td className="py-1.5 pr-2 text-right font-semibold text-red-300">{r.failures}</td>
+                      <td className="py-1.5 pr-2 font-mono text-slate-400">
+                        {r.first_failed} – {r.last_failed}
+                      </td>
+                      <td className="py-1.5">
+                        <div className="flex flex-wrap gap-1">
+                          {r.inspection_ids.map((id, idx) => (
+                            <Link
+                              key={id}
+                              href={`/inspection/${id}?from=admin-inspections`}
+                              className="text-slate-300 underline-offset-2 hover:underline"
+                            >
+                              #{idx + 1}
+                            </Link>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      )}
+    </section>
+  );
+}
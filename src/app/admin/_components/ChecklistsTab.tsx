@@ -0,0 +1,608 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { describeApplicability } from "@/lib/inspections/applicability";
+import {
+  LOCALE_NAMES,
+  TRANSLATED_LOCALES,
+  type ItemTranslations,
+  type TranslatedLocale,
+} from "@/lib/i18n";
+import {
+  ITEM_SEVERITIES,
+  SEVERITY_LABELS,
+  type ItemSeverity,
+} from "@/lib/inspections/status";
+
+type InspectionType = "pre" | "post";
+
+type ChecklistItem = {
+  item_key: string;
+  label: string;
+  category: string;
+  sort_order: number;
+  severity: ItemSeverity;
+  translations: ItemTranslations;
+  requires_wheelchair: boolean;
+  requires_lift: boolean;
+  min_vehicle_year: number | null;
+  min_seating_capacity: number | null;
+};
+
+type ChecklistTemplate = {
+  id: string;
+  inspection_type: InspectionType;
+  version: number;
+  is_active: boolean;
+  notes: string | null;
+  created_at: string;
+  items: ChecklistItem[];
+};
+
+// item_key is null for items added in the editor; the server assigns one
+type DraftItem = {
+  rowId: string;
+  item_key: string | null;
+  label: string;
+  category: string;
+  severity: ItemSeverity;
+  translations: ItemTranslations;
+  requires_wheelchair: boolean;
+  requires_lift: boolean;
+  min_vehicle_year: string;
+  min_seating_capacity: string;
+};
+
+function toDraft(items: ChecklistItem[]): DraftItem[] {
+  return items.map((item) => ({
+    rowId: item.item_key,
+    item_key: item.item_key,
+    label: item.label,
+    category: item.category,
+    severity: item.severity,
+    translations: item.translations ?? {},
+    requires_wheelchair: item.requires_wheelchair,
+    requires_lift: item.requires_lift,
+    min_vehicle_year: item.min_vehicle_year != null ? String(item.min_vehicle_year) : "",
+    min_seating_capacity:
+      item.min_seating_capacity != null ? String(item.min_seating_capacity) : "",
+  }));
+}
+
+function formatDate(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleDateString();
+}
+
+type ChecklistsTabProps = {
+  canEdit: boolean;
+};
+
+export default function ChecklistsTab({ canEdit }: ChecklistsTabProps) {
+  const [inspectionType, setInspectionType] = useState<InspectionType>("pre");
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [draft, setDraft] = useState<DraftItem[]>([]);
+  const [draftBase, setDraftBase] = useState<number | null>(null);
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const activeTemplate = templates.find((t) => t.is_active) ?? null;
+  const nextVersion = (templates[0]?.version ?? 0) + 1;
+
+  const startDraftFrom = (template: ChecklistTemplate | null) => {
+    setDraft(template ? toDraft(template.items) : []);
+    setDraftBase(template?.version ?? null);
+    setNotes("");
+  };
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function loadTemplates() {
+      setLoading(true);
+      setError(null);
+      setMessage(null);
+      try {
+        const res = await fetch(`/api/admin/checklist-templates?type=${inspectionType}`);
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to load checklists.");
+        if (!isMounted) return;
+
+        const loaded = body.templates as ChecklistTemplate[];
+        setTemplates(loaded);
+        const active = loaded.find((t) => t.is_active) ?? loaded[0] ?? null;
+        setDraft(active ? toDraft(active.items) : []);
+        setDraftBase(active?.version ?? null);
+        setNotes("");
+      } catch (err) {
+        console.error(err);
+        if (isMounted) {
+          setError(err instanceof Error ? err.message : "Failed to load checklists.");
+        }
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    }
+
+    loadTemplates();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [inspectionType]);
+
+  const updateDraftItem = (rowId: string, fields: Partial<DraftItem>) => {
+    setDraft((prev) => prev.map((d) => (d.rowId === rowId ? { ...d, ...fields } : d)));
+  };
+
+  const updateTranslation = (
+    rowId: string,
+    locale: TranslatedLocale,
+    field: "label" | "category",
+    value: string
+  ) => {
+    setDraft((prev) =>
+      prev.map((d) =>
+        d.rowId === rowId
+          ? {
+              ...d,
+              translations: {
+                ...d.translations,
+                [locale]: { ...d.translations[locale], [field]: value },
+              },
+            }
+          : d
+      )
+    );
+  };
+
+  const moveDraftItem = (index: number, direction: -1 | 1) => {
+    setDraft((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addDraftItem = () => {
+    setDraft((prev) => [
+      ...prev,
+      {
+        rowId: `new-${Date.now()}`,
+        item_key: null,
+        label: "",
+        category: prev[prev.length - 1]?.category ?? "",
+        severity: "major",
+        translations: {},
+        requires_wheelchair: false,
+        requires_lift: false,
+        min_vehicle_year: "",
+        min_seating_capacity: "",
+      },
+    ]);
+  };
+
+  const handlePublish = async () => {
+    const confirmed = window.confirm(
+      `Publish this checklist as version ${nextVersion}? Drivers will see it on their next ${
+        inspectionType === "pre" ? "pre-trip" : "post-trip"
+      } inspection. Past inspections keep the version they were completed on.`,
+    );
+    if (!confirmed) return;
+
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/admin/checklist-templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          inspection_type: inspectionType,
+          notes,
+          items: draft.map((d) => ({
+            item_key: d.item_key,
+            label: d.label,
+            category: d.category,
+            severity: d.severity,
+            translations: d.translations,
+            requires_wheelchair: d.requires_wheelchair,
+            requires_lift: d.requires_lift,
+            min_vehicle_year: d.min_vehicle_year,
+            min_seating_capacity: d.min_seating_capacity,
+          })),
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to publish checklist.");
+
+      const published = body.template as ChecklistTemplate;
+      setTemplates((prev) => [
+        published,
+        ...prev.map((t) => ({ ...t, is_active: false })),
+      ]);
+      startDraftFrom(published);
+      setMessage(`Version ${published.version} is now the active checklist.`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to publish checklist.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleActivate = async (template: ChecklistTemplate) => {
+    const confirmed = window.confirm(
+      `Make version ${template.version} the active checklist again?`,
+    );
+    if (!confirmed) return;
+
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/admin/checklist-templates", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: template.id }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to activate version.");
+
+      setTemplates((prev) =>
+        prev.map((t) => ({ ...t, is_active: t.id === template.id })),
+      );
+      setMessage(`Version ${template.version} is now the active checklist.`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to activate version.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const numberInputClass =
+    "rounded-lg border border-white/15 bg-slate-900 px-2 py-1 text-[11px] text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2";
+  const inputClass =
+    "w-full rounded-lg border border-white/15 bg-slate-900 px-2 py-1 text-[11px] text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2";
+
+  return (
+    <section className="space-y-4" id="checklists">
+      <section className="card flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-sm font-semibold uppercase tracking-[0.14em] text-slate-300">
+            Inspection checklists
+          </h2>
+          <p className="text-[11px] text-slate-400">
+            Edit the items drivers check on each inspection. Every publish
+            creates a new version; past inspections keep the version they used.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(["pre", "post"] as InspectionType[]).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setInspectionType(type)}
+              className={`rounded-2xl px-4 py-2 text-xs font-semibold ${
+                inspectionType === type
+                  ? "bg-emerald-500 text-slate-950"
+                  : "bg-slate-900 text-slate-100 ring-1 ring-white/10 hover:bg-slate-800"
+              }`}
+            >
+              {type === "pre" ? "Pre-trip" : "Post-trip"}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {error && (
+        <section className="card border border-red-500/50 bg-red-950/40">
+          <p className="text-xs font-medium text-red-200">{error}</p>
+        </section>
+      )}
+
+      {message && (
+        <section className="card border border-emerald-500/50 bg-emerald-950/40">
+          <p className="text-xs font-medium text-emerald-200">{message}</p>
+        </section>
+      )}
+
+      {/* Version history */}
+      <section className="card space-y-2">
+        <h3 className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-300">
+          Versions
+        </h3>
+        {templates.length === 0 ? (
+          <p className="text-[11px] text-slate-400">
+            {loading ? "Loading checklists..." : "No versions published yet."}
+          </p>
+        ) : (
+          <div className="space-y-1.5">
+            {templates.map((t) => (
+              <div
+                key={t.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-xl bg-slate-950/60 px-3 py-2 text-[11px]"
+              >
+                <div className="text-slate-200">
+                  <span className="font-semibold">v{t.version}</span> ·{" "}
+                  {t.items.length} items · {formatDate(t.created_at)}
+                  {t.notes && <span className="text-slate-400"> · {t.notes}</span>}
+                </div>
+                <div className="flex items-center gap-1.5">
+                  {t.is_active ? (
+                    <span className="inline-flex items-center rounded-full bg-emerald-500/15 px-2 py-0.5 font-semibold text-emerald-200">
+                      Active
+                    </span>
+                  ) : (
+                    canEdit && (
+                      <button
+                        type="button"
+                        onClick={() => handleActivate(t)}
+                        className="btn-ghost px-3 py-1 text-[11px]"
+                        disabled={loading}
+                      >
+                        Make active
+                      </button>
+                    )
+                  )}
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => startDraftFrom(t)}
+                      className="btn-ghost px-3 py-1 text-[11px]"
+                      disabled={loading}
+                    >
+                      Edit from v{t.version}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Editor */}
+      {canEdit ? (
+        <section className="card space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-300">
+              {draftBase != null
+                ? `Editing from v${draftBase}`
+                : "New checklist"}
+            </h3>
+            {activeTemplate && draftBase !== activeTemplate.version && (
+              <button
+                type="button"
+                onClick={() => startDraftFrom(activeTemplate)}
+                className="btn-ghost px-3 py-1 text-[11px]"
+              >
+                Start over from active (v{activeTemplate.version})
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            {draft.map((item, index) => (
+              <div
+                key={item.rowId}
+                className="grid gap-1.5 rounded-xl bg-slate-950/60 p-2 sm:grid-cols-[10rem_1fr_auto]"
+              >
+                <input
+                  type="text"
+                  value={item.category}
+                  onChange={(e) => updateDraftItem(item.rowId, { category: e.target.value })}
+                  className={inputClass}
+                  placeholder="Category"
+                />
+                <div className="space-y-0.5">
+                  <input
+                    type="text"
+                    value={item.label}
+                    onChange={(e) => updateDraftItem(item.rowId, { label: e.target.value })}
+                    className={inputClass}
+                    placeholder="Checklist item"
+                  />
+                  <p className="font-mono text-[10px] text-slate-500">
+                    {item.item_key ?? "new item"}
+                  </p>
+                </div>
+                <div className="flex items-start gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveDraftItem(index, -1)}
+                    className="btn-ghost px-2 py-1 text-[11px]"
+                    disabled={index === 0}
+                    aria-label="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveDraftItem(index, 1)}
+                    className="btn-ghost px-2 py-1 text-[11px]"
+                    disabled={index === draft.length - 1}
+                    aria-label="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft((prev) => prev.filter((d) => d.rowId !== item.rowId))
+                    }
+                    className="btn-ghost px-2 py-1 text-[11px] text-red-300"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {/* Vehicles this item applies to; blank = every vehicle */}
+                <div className="flex flex-wrap items-center gap-3 text-[11px] text-slate-300 sm:col-span-3">
+                  <label
+                    className="inline-flex items-center gap-1 font-semibold text-slate-200"
+                    title="Minor: passes with a defect noted. Major: fails the inspection. Critical: fails and takes the vehicle out of service."
+                  >
+                    Severity
+                    <select
+                      value={item.severity}
+                      onChange={(e) =>
+                        updateDraftItem(item.rowId, { severity: e.target.value as ItemSeverity })
+                      }
+                      className={`rounded-lg border border-white/15 bg-slate-900 px-1.5 py-0.5 text-[11px] ${
+                        item.severity === "critical" ? "text-red-200" : "text-slate-100"
+                      }`}
+                    >
+                      {ITEM_SEVERITIES.map((severity) => (
+                        <option key={severity} value={severity}>
+                          {SEVERITY_LABELS[severity]}
+                          {severity === "critical" ? " (out of service)" : ""}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <span className="text-slate-500">Applies to:</span>
+                  <label className="inline-flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={item.requires_wheelchair}
+                      onChange={(e) =>
+                        updateDraftItem(item.rowId, { requires_wheelchair: e.target.checked })
+                      }
+                    />
+                    Wheelchair-equipped only
+                  </label>
+                  <label className="inline-flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={item.requires_lift}
+                      onChange={(e) =>
+                        updateDraftItem(item.rowId, { requires_lift: e.target.checked })
+                      }
+                    />
+                    Lift installed only
+                  </label>
+                  <label className="inline-flex items-center gap-1">
+                    Year ≥
+                    <input
+                      type="number"
+                      value={item.min_vehicle_year}
+                      onChange={(e) =>
+                        updateDraftItem(item.rowId, { min_vehicle_year: e.target.value })
+                      }
+                      className={`${numberInputClass} w-20`}
+                      placeholder="Any"
+                    />
+                  </label>
+                  <label className="inline-flex items-center gap-1">
+                    Seats ≥
+                    <input
+                      type="number"
+                      value={item.min_seating_capacity}
+                      onChange={(e) =>
+                        updateDraftItem(item.rowId, { min_seating_capacity: e.target.value })
+                      }
+                      className={`${numberInputClass} w-16`}
+                      placeholder="Any"
+                    />
+                  </label>
+                </div>
+                {/* Driver portal wording; blank falls back to the English text */}
+                <details className="text-[11px] text-slate-300 sm:col-span-3">
+                  <summary className="cursor-pointer text-slate-400">
+                    Translations (
+                    {
+                      TRANSLATED_LOCALES.filter((locale) => item.translations[locale]?.label?.trim())
+                        .length
+                    }
+                    /{TRANSLATED_LOCALES.length})
+                  </summary>
+                  <div className="mt-1.5 space-y-1.5">
+                    {TRANSLATED_LOCALES.map((locale) => (
+                      <div key={locale} className="grid gap-1.5 sm:grid-cols-[10rem_1fr]">
+                        <input
+                          type="text"
+                          value={item.translations[locale]?.category ?? ""}
+                          onChange={(e) =>
+                            updateTranslation(item.rowId, locale, "category", e.target.value)
+                          }
+                          className={inputClass}
+                          placeholder={`Category (${LOCALE_NAMES[locale]})`}
+                        />
+                        <input
+                          type="text"
+                          value={item.translations[locale]?.label ?? ""}
+                          onChange={(e) =>
+                            updateTranslation(item.rowId, locale, "label", e.target.value)
+                          }
+                          className={inputClass}
+                          placeholder={`Checklist item (${LOCALE_NAMES[locale]})`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            onClick={addDraftItem}
+            className="btn-ghost px-3 py-1 text-[11px]"
+          >
+            + Add item
+          </button>
+
+          <div className="space-y-1">
+            <label className="text-[11px] font-medium text-slate-200">
+              What changed (optional)
+            </label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className={inputClass}
+              placeholder="e.g. Split lights into front and rear"
+            />
+          </div>
+
+          <button
+            type="button"
+            onClick={handlePublish}
+            className="btn-primary px-4 py-2 text-xs font-semibold"
+            disabled={loading || draft.length === 0}
+          >
+            Publish as v{nextVersion}
+          </button>
+        </section>
+      ) : (
+        activeTemplate && (
+          <section className="card space-y-1">
+            <h3 className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-300">
+              Active items (v{activeTemplate.version})
+            </h3>
+            {activeTemplate.items.map((item) => (
+              <p key={item.item_key} className="text-[11px] text-slate-200">
+                <span className="text-slate-400">{item.category}:</span> {item.label}
+                {item.severity === "critical" ? (
+                  <span className="font-semibold text-red-300"> · Critical</span>
+                ) : item.severity === "minor" ? (
+                  <span className="text-slate-400"> · Minor</span>
+                ) : null}
+                {describeApplicability(item) && (
+                  <span className="text-slate-500"> ({describeApplicability(item)})</span>
+                )}
+              </p>
+            ))}
+          </section>
+        )
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,332 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+
+type DefectStatus = "open" | "deferred" | "in_repair" | "repaired" | "verified";
+
+type Defect = {
+  id: string;
+  vehicle_id: string;
+  item_key: string;
+  item_label: string;
+  status: DefectStatus;
+  inspection_id: string | null;
+  driver_notes: string | null;
+  deferred_until: string | null;
+  repaired_at: string | null;
+  verified_at: string | null;
+  created_at: string;
+  updated_at: string;
+  vehicles: { label: string; plate: string | null } | null;
+};
+
+type DefectEvent = {
+  id: string;
+  status: DefectStatus;
+  note: string | null;
+  actor: string;
+  inspection_id: string | null;
+  created_at: string;
+};
+
+type StatusFilter = "outstanding" | "all" | DefectStatus;
+
+const STATUS_LABELS: Record<DefectStatus, string> = {
+  open: "Open",
+  deferred: "Deferred",
+  in_repair: "In repair",
+  repaired: "Repaired – awaiting driver",
+  verified: "Verified by driver",
+};
+
+const STATUS_CLASSES: Record<DefectStatus, string> = {
+  open: "bg-red-700/80 text-red-50",
+  deferred: "bg-amber-600/80 text-amber-50",
+  in_repair: "bg-sky-700/80 text-sky-50",
+  repaired: "bg-emerald-700/60 text-emerald-50",
+  verified: "bg-slate-700/80 text-slate-50",
+};
+
+// Mirrors the server rules in lib/inspections/defects.ts
+const NEXT_STATUSES: Record<DefectStatus, DefectStatus[]> = {
+  open: ["in_repair", "deferred", "repaired"],
+  deferred: ["open", "in_repair", "repaired"],
+  in_repair: ["repaired", "deferred", "open"],
+  repaired: ["open"],
+  verified: [],
+};
+
+const ACTION_LABELS: Record<DefectStatus, string> = {
+  open: "Re-open",
+  deferred: "Defer",
+  in_repair: "Start repair",
+  repaired: "Mark repaired",
+  verified: "",
+};
+
+function formatDateTime(iso: string | null) {
+  if (!iso) return "N/A";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`;
+}
+
+type DefectsTabProps = {
+  canEdit: boolean;
+};
+
+export default function DefectsTab({ canEdit }: DefectsTabProps) {
+  const [defects, setDefects] = useState<Defect[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("outstanding");
+  const [history, setHistory] = useState<Record<string, DefectEvent[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function loadDefects() {
+      setLoading(true);
+      setError(null);
+      try {
+        const query = statusFilter === "outstanding" ? "" : `?status=${statusFilter}`;
+        const res = await fetch(`/api/admin/defects${query}`);
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to load defects.");
+        if (isMounted) setDefects(body.defects as Defect[]);
+      } catch (err) {
+        console.error(err);
+        if (isMounted) {
+          setError(err instanceof Error ? err.message : "Failed to load defects.");
+        }
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    }
+
+    loadDefects();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [statusFilter]);
+
+  // Group by vehicle so each vehicle's outstanding work is in one place
+  const byVehicle = useMemo(() => {
+    const groups = new Map<string, { label: string; plate: string | null; defects: Defect[] }>();
+    for (const defect of defects) {
+      const group = groups.get(defect.vehicle_id) ?? {
+        label: defect.vehicles?.label ?? "Unknown vehicle",
+        plate: defect.vehicles?.plate ?? null,
+        defects: [],
+      };
+      group.defects.push(defect);
+      groups.set(defect.vehicle_id, group);
+    }
+    return [...groups.entries()].sort((a, b) => a[1].label.localeCompare(b[1].label));
+  }, [defects]);
+
+  const handleMove = async (defect: Defect, status: DefectStatus) => {
+    let note: string | null = null;
+    let deferredUntil: string | null = null;
+
+    if (status === "deferred") {
+      note = window.prompt(`Why is "${defect.item_label}" being deferred?`);
+      if (!note?.trim()) return;
+      deferredUntil =
+        window.prompt("Defer until (YYYY-MM-DD, optional):")?.trim() || null;
+    } else {
+      note = window.prompt(`Note for "${ACTION_LABELS[status]}" (optional):`);
+      if (note === null) return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/defects", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: defect.id,
+          status,
+          note,
+          deferred_until: deferredUntil,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to update defect.");
+
+      setDefects((prev) => prev.map((d) => (d.id === defect.id ? (body.defect as Defect) : d)));
+      setHistory((prev) => {
+        const next = { ...prev };
+        delete next[defect.id];
+        return next;
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to update defect.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleHistory = async (defect: Defect) => {
+    if (history[defect.id]) {
+      setHistory((prev) => {
+        const next = { ...prev };
+        delete next[defect.id];
+        return next;
+      });
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/admin/defects?id=${defect.id}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to load history.");
+      setHistory((prev) => ({ ...prev, [defect.id]: body.events as DefectEvent[] }));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to load history.");
+    }
+  };
+
+  return (
+    <section className="space-y-4" id="defects">
+      <section className="card space-y-3">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-sm font-semibold uppercase tracking-[0.18em] text-slate-300">
+              Vehicle defects
+            </h2>
+            <p className="text-[11px] text-slate-400">
+              Every failed inspection item opens a ticket here. Repaired items
+              close once a driver passes them on a later inspection.
+            </p>
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+          >
+            <option value="outstanding">Outstanding</option>
+            {(Object.keys(STATUS_LABELS) as DefectStatus[]).map((s) => (
+              <option key={s} value={s}>
+                {STATUS_LABELS[s]}
+              </option>
+            ))}
+            <option value="all">All</option>
+          </select>
+        </div>
+      </section>
+
+      {error && (
+        <section className="card border border-red-500/50 bg-red-950/40">
+          <p className="text-xs font-medium text-red-200">{error}</p>
+        </section>
+      )}
+
+      {byVehicle.length === 0 && (
+        <section className="card">
+          <p className="text-[11px] text-slate-400">
+            {loading ? "Loading defects..." : "No defects match this filter."}
+          </p>
+        </section>
+      )}
+
+      {byVehicle.map(([vehicleId, group]) => (
+        <section key={vehicleId} className="card space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-sm font-semibold text-slate-100">
+              {group.label}
+              {group.plate && (
+                <span className="ml-2 text-[11px] font-normal text-slate-400">
+                  Plate {group.plate}
+                </span>
+              )}
+            </h3>
+            <span className="text-[11px] text-slate-400">
+              {group.defects.length} defect{group.defects.length === 1 ? "" : "s"}
+            </span>
+          </div>
+
+          <div className="space-y-1.5">
+            {group.defects.map((defect) => (
+              <div key={defect.id} className="space-y-1.5 rounded-xl bg-slate-950/60 px-3 py-2 text-[11px]">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="space-y-0.5">
+                    <p className="text-xs font-semibold text-slate-100">{defect.item_label}</p>
+                    <p className="text-slate-400">
+                      Reported {formatDateTime(defect.created_at)}
+                      {defect.inspection_id && (
+                        <>
+                          {" · "}
+                          <Link
+                            href={`/inspection/${defect.inspection_id}?from=admin-defects`}
+                            className="underline-offset-2 hover:underline"
+                          >
+                            View inspection
+                          </Link>
+                        </>
+                      )}
+                    </p>
+                    {defect.driver_notes && (
+                      <p className="text-slate-300">Driver notes: {defect.driver_notes}</p>
+                    )}
+                    {defect.status === "deferred" && defect.deferred_until && (
+                      <p className="text-amber-200">Deferred until {defect.deferred_until}</p>
+                    )}
+                  </div>
+                  <span
+                    className={`inline-flex rounded-full px-2 py-0.5 text-[10px] font-semibold ${STATUS_CLASSES[defect.status]}`}
+                  >
+                    {STATUS_LABELS[defect.status]}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap gap-1.5">
+                  {canEdit &&
+                    NEXT_STATUSES[defect.status].map((status) => (
+                      <button
+                        key={status}
+                        type="button"
+                        onClick={() => handleMove(defect, status)}
+                        className="btn-ghost px-3 py-1 text-[11px]"
+                        disabled={loading}
+                      >
+                        {ACTION_LABELS[status]}
+                      </button>
+                    ))}
+                  <button
+                    type="button"
+                    onClick={() => toggleHistory(defect)}
+                    className="btn-ghost px-3 py-1 text-[11px]"
+                  >
+                    {history[defect.id] ? "Hide history" : "History"}
+                  </button>
+                </div>
+
+                {history[defect.id] && (
+                  <ol className="space-y-0.5 border-l border-white/10 pl-3 text-slate-300">
+                    {history[defect.id].map((event) => (
+                      <li key={event.id}>
+                        <span className="text-slate-500">{formatDateTime(event.created_at)}</span>{" "}
+                        <span className="font-semibold">{STATUS_LABELS[event.status]}</span> ·{" "}
+                        {event.actor}
+                        {event.note && <span className="text-slate-400"> – {event.note}</span>}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </section>
+  );
+}
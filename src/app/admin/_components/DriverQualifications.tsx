@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  driverQualificationStatus,
+  lapsedRequiredQualifications,
+  type DriverQualification,
+  type QualificationEntry,
+  type QualificationKind,
+} from "@/lib/drivers/qualifications";
+import type { ComplianceStatus } from "@/lib/vehicles/compliance";
+
+const STATUS_BADGES: Record<ComplianceStatus, { label: string; className: string }> = {
+  expired: { label: "Expired", className: "bg-red-700/80 text-red-50" },
+  due_soon: { label: "Expiring soon", className: "bg-amber-500/20 text-amber-200" },
+  missing: { label: "Not on file", className: "bg-slate-500/20 text-slate-300" },
+  ok: { label: "Current", className: "bg-emerald-500/15 text-emerald-200" },
+};
+
+const inputClass =
+  "w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-1.5 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2";
+
+function QualificationEditor({
+  driverId,
+  entry,
+  onSaved,
+  onCancel,
+}: {
+  driverId: string;
+  entry: QualificationEntry;
+  onSaved: (qualification: DriverQualification) => void;
+  onCancel: () => void;
+}) {
+  const [reference, setReference] = useState(entry.qualification?.reference ?? "");
+  const [issuedOn, setIssuedOn] = useState(entry.qualification?.issued_on ?? "");
+  const [expiresOn, setExpiresOn] = useState(entry.qualification?.expires_on ?? "");
+  const [file, setFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.set("driver_id", driverId);
+      form.set("kind", entry.kind);
+      form.set("reference", reference);
+      form.set("issued_on", issuedOn);
+      form.set("expires_on", expiresOn);
+      if (file) form.set("file", file);
+
+      const res = await fetch("/api/admin/driver-qualifications", { method: "POST", body: form });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to save qualification.");
+      onSaved(body.qualification as DriverQualification);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to save qualification.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-xl bg-slate-900/70 p-3">
+      <div className="grid gap-2 sm:grid-cols-3">
+        <label className="space-y-1">
+          <span className="text-[11px] text-slate-300">Number / reference</span>
+          <input
+            type="text"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-[11px] text-slate-300">Issued</span>
+          <input type="date" value={issuedOn} onChange={(e) => setIssuedOn(e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-[11px] text-slate-300">
+            Expires <span className="text-rose-400">*</span>
+          </span>
+          <input type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+      <label className="block space-y-1">
+        <span className="text-[11px] text-slate-300">
+          Document (PDF or photo){entry.qualification?.document_path ? " – replaces the current one" : ""}
+        </span>
+        <input
+          type="file"
+          accept="application/pdf,image/jpeg,image/png,image/webp,image/heic"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="block w-full text-[11px] text-slate-300"
+        />
+      </label>
+      {error && <p className="text-[11px] font-medium text-red-300">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          className="btn-primary px-3 py-1 text-[11px]"
+          disabled={saving || !expiresOn}
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+        <button type="button" onClick={onCancel} className="btn-ghost px-3 py-1 text-[11px]" disabled={saving}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A driver's expiry-dated qualifications with their scanned documents.
+ */
+export default function DriverQualifications({ driverId }: { driverId: string }) {
+  const [qualifications, setQualifications] = useState<DriverQualification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<QualificationKind | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function loadQualifications() {
+      try {
+        const res = await fetch(`/api/admin/driver-qualifications?driverId=${driverId}`);
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to load qualifications.");
+        if (isMounted) setQualifications(body.qualifications as DriverQualification[]);
+      } catch (err) {
+        console.error(err);
+        if (isMounted) setError(err instanceof Error ? err.message : "Failed to load qualifications.");
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    }
+
+    loadQualifications();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [driverId]);
+
+  const handleSaved = (saved: DriverQualification) => {
+    setQualifications((prev) => [...prev.filter((q) => q.kind !== saved.kind), saved]);
+    setEditing(null);
+  };
+
+  const handleRemove = async (qualification: DriverQualification) => {
+    if (!window.confirm("Remove this qualification and its document?")) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/driver-qualifications?id=${qualification.id}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to remove qualification.");
+      setQualifications((prev) => prev.filter((q) => q.id !== qualification.id));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to remove qualification.");
+    }
+  };
+
+  const entries = driverQualificationStatus(qualifications);
+  const lapsed = lapsedRequiredQualifications(qualifications);
+
+  return (
+    <section className="card space-y-3">
+      <div>
+        <h2 className="text-sm font-semibold uppercase tracking-[0.16em] text-slate-300">Qualifications</h2>
+        <p className="text-[11px] text-slate-400">
+          Expiry dates and documents. A driver whose required qualifications
+          have lapsed or aren&apos;t on file can&apos;t be assigned to routes.
+        </p>
+      </div>
+
+      {lapsed.length > 0 && (
+        <p className="text-xs font-semibold text-red-300">
+          Not assignable: {lapsed.join(", ")}.
+        </p>
+      )}
+      {error && <p className="text-xs font-medium text-red-300">{error}</p>}
+      {loading && <p className="text-[11px] text-slate-400">Loading…</p>}
+
+      {!loading && (
+        <div className="space-y-2">
+          {entries.map((entry) => {
+            const q = entry.qualification;
+            const badge = STATUS_BADGES[entry.status];
+            return (
+              <div key={entry.kind} className="space-y-2 rounded-xl bg-slate-950/60 px-3 py-2">
+                <div className="flex flex-wrap items-center justify-between gap-2 text-[11px]">
+                  <div className="space-y-0.5">
+                    <p className="font-semibold text-slate-100">
+                      {entry.label}
+                      {!entry.required && <span className="font-normal text-slate-500"> (optional)</span>}{" "}
+                      <span className={`ml-1 rounded-full px-2 py-0.5 text-[10px] font-semibold ${badge.className}`}>
+                        {badge.label}
+                      </span>
+                    </p>
+                    {q && (
+                      <p className="text-slate-400">
+                        {q.reference && <>#{q.reference} · </>}
+                        {q.issued_on && <>issued {q.issued_on} · </>}
+                        expires <span className="font-mono">{q.expires_on ?? "—"}</span>
+                        {q.document_path && (
+                          <>
+                            {" · "}
+                            <a
+                              href={`/api/admin/driver-qualification-documents?id=${q.id}`}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="underline-offset-2 hover:underline"
+                            >
+                              View document
+                            </a>
+                          </>
+                        )}
+                      </p>
+                    )}
+                  </div>
+                  {editing !== entry.kind && (
+                    <div className="flex gap-1.5">
+                      <button
+                        type="button"
+                        onClick={() => setEditing(entry.kind)}
+                        className="btn-ghost px-3 py-1 text-[11px]"
+                      >
+                        {q ? "Renew / edit" : "Add"}
+                      </button>
+                      {q && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(q)}
+                          className="btn-ghost px-3 py-1 text-[11px] text-red-300 hover:text-red-200"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+                {editing === entry.kind && (
+                  <QualificationEditor
+                    driverId={driverId}
+                    entry={entry}
+                    onSaved={handleSaved}
+                    onCancel={() => setEditing(null)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -5,12 +5,15 @@ import Link from "next/link";
 
 type Driver = {
   id: string;
+  employee_number: string;
   full_name: string;
   license_number: string | null;
   phone: string | null;
   hourly_rate: number | null;
   is_active: boolean;
-  pin: string | null;
+  pin_set: boolean;
+  pin_failed_attempts: number | null;
+  pin_locked_until: string | null;
   created_at: string;
 };
 
@@ -23,6 +26,13 @@ function formatPhone(phone: string | null): string {
   return phone;
 }
 
+function isLockedOut(driver: Driver): boolean {
+  return (
+    !!driver.pin_locked_until &&
+    new Date(driver.pin_locked_until).getTime() > Date.now()
+  );
+}
+
 type DriversTabProps = {
   drivers: Driver[];
   setDrivers: React.Dispatch<React.SetStateAction<Driver[]>>;
@@ -36,8 +46,10 @@ export default function DriversTab({ drivers, setDrivers }: DriversTabProps) {
   const filteredDrivers = useMemo(() => {
     const query = driverSearch.trim().toLowerCase();
     if (!query) return drivers;
-    return drivers.filter((d) =>
-      (d.full_name ?? "").toLowerCase().includes(query),
+    return drivers.filter(
+      (d) =>
+        (d.full_name ?? "").toLowerCase().includes(query) ||
+        (d.employee_number ?? "").toLowerCase().includes(query),
     );
   }, [drivers, driverSearch]);
 
@@ -83,17 +95,17 @@ export default function DriversTab({ drivers, setDrivers }: DriversTabProps) {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch("/api/admin/drivers", {
-        method: "PATCH",
+      const res = await fetch("/api/admin/driver-pin", {
+        method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id: driver.id, pin: trimmed }),
+        body: JSON.stringify({ driverId: driver.id, pin: trimmed }),
       });
+      const body = await res.json();
       if (!res.ok) {
-        const body = await res.json();
         throw new Error(body.error || "Failed to update PIN.");
       }
       setDrivers((prev) =>
-        prev.map((d) => (d.id === driver.id ? { ...d, pin: trimmed } : d)),
+        prev.map((d) => (d.id === driver.id ? (body.driver as Driver) : d)),
       );
       alert(`PIN updated for ${driver.full_name}.`);
     } catch (err: any) {
@@ -155,7 +167,7 @@ export default function DriversTab({ drivers, setDrivers }: DriversTabProps) {
             value={driverSearch}
             onChange={(e) => setDriverSearch(e.target.value)}
             className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
-            placeholder="Type a driver name..."
+            placeholder="Type a driver name or employee number..."
           />
         </div>
 
@@ -169,6 +181,7 @@ export default function DriversTab({ drivers, setDrivers }: DriversTabProps) {
               <table className="min-w-full border-separate border-spacing-0">
                 <thead>
                   <tr className="bg-slate-900/90 text-slate-200">
+                    <th className="sticky top-0 border-b border-slate-800 px-3 py-2 text-left text-[11px] font-semibold backdrop-blur">Emp #</th>
                     <th className="sticky top-0 border-b border-slate-800 px-3 py-2 text-left text-[11px] font-semibold backdrop-blur">Name</th>
                     <th className="sticky top-0 border-b border-slate-800 px-3 py-2 text-left text-[11px] font-semibold backdrop-blur">License #</th>
                     <th className="sticky top-0 border-b border-slate-800 px-3 py-2 text-left text-[11px] font-semibold backdrop-blur">Phone</th>
@@ -188,6 +201,7 @@ export default function DriversTab({ drivers, setDrivers }: DriversTabProps) {
                           idx % 2 === 0 ? "bg-slate-950/70" : "bg-slate-900/60"
                         }`}
                       >
+                        <td className="px-3 py-2 font-mono text-slate-300">{driver.employee_number}</td>
                         <td className="px-3 py-2 text-slate-100">{driver.full_name}</td>
                         <td className="px-3 py-2 text-slate-100">{driver.license_number || "N/A"}</td>
                         <td className="px-3 py-2 text-slate-100">
@@ -217,7 +231,9 @@ export default function DriversTab({ drivers, setDrivers }: DriversTabProps) {
                           )}
                         </td>
                         <td className="px-3 py-2 text-slate-100">
-                          {driver.pin ? (
+                          {isLockedOut(driver) ? (
+                            <span className="inline-flex items-center rounded-full bg-red-500/15 px-2 py-0.5 text-[10px] font-semibold text-red-200 ring-1 ring-red-500/40">Locked out</span>
+                          ) : driver.pin_set ? (
                             <span className="inline-flex items-center rounded-full bg-emerald-500/15 px-2 py-0.5 text-[10px] font-semibold text-emerald-200 ring-1 ring-emerald-500/40">PIN set</span>
                           ) : (
                             <span className="inline-flex items-center rounded-full bg-amber-500/15 px-2 py-0.5 text-[10px] font-semibold text-amber-200 ring-1 ring-amber-500/40">PIN not set</span>
@@ -1,7 +1,8 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
+import { isFailingStatus, overallStatusLabel } from "@/lib/inspections/status";
 
 // ---- TYPES ----
 
@@ -14,8 +15,26 @@ type InspectionSummary = {
   submitted_at: string | null;
   inspection_date: string | null;
   overall_status: string | null;
+  photo_count: number;
 };
 
+type VehicleOption = { id: string; label: string };
+type DriverOption = { id: string; full_name: string };
+
+type Filters = {
+  from: string;
+  to: string;
+  driverId: string;
+  vehicleId: string;
+  type: string;
+  shift: string;
+  status: string;
+};
+
+const PAGE_SIZE = 50;
+
+const STATUS_OPTIONS = ["pass", "pass_minor_defects", "fail", "fail_out_of_service"];
+
 // ---- HELPERS ----
 
 function formatDateTime(iso: string | null) {
@@ -28,66 +47,68 @@ function formatDateTime(iso: string | null) {
   })}`;
 }
 
+function daysAgo(days: number) {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+// Only the filters that are set, in the API's query-string names
+function filterQuery(filters: Filters) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  return params.toString();
+}
+
 // ---- COMPONENT ----
 
-export default function InspectionsTab() {
+type InspectionsTabProps = {
+  vehicles: VehicleOption[];
+  drivers: DriverOption[];
+};
+
+export default function InspectionsTab({ vehicles, drivers }: InspectionsTabProps) {
   const [inspections, setInspections] = useState<InspectionSummary[]>([]);
-  const [search, setSearch] = useState("");
-  const [loading, setLoading] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<Filters>(() => ({
+    from: daysAgo(90),
+    to: new Date().toISOString().slice(0, 10),
+    driverId: "",
+    vehicleId: "",
+    type: "",
+    shift: "",
+    status: "",
+  }));
+  const [reloadKey, setReloadKey] = useState(0);
+  const [packetSubject, setPacketSubject] = useState("");
+  const [packetFrom, setPacketFrom] = useState("");
+  const [packetTo, setPacketTo] = useState("");
+  const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load inspections on mount
+  const query = filterQuery(filters);
+
+  // Load the current page whenever the filters or page change
   useEffect(() => {
     let isMounted = true;
 
     async function loadInspections() {
-      setLoading(true);
-      setError(null);
-
       try {
-        const res = await fetch("/api/admin/inspections");
+        const res = await fetch(
+          `/api/admin/inspections?${query}&page=${page}&pageSize=${PAGE_SIZE}`
+        );
+        const body = await res.json().catch(() => ({}));
         if (!res.ok) {
-          const body = await res.json().catch(() => ({}));
           throw new Error(body.error || "Failed to load inspections.");
         }
-        const data = await res.json();
 
         if (!isMounted) return;
-
-        let mapped: InspectionSummary[] = (data.inspections || data || []).map(
-          (row: any) => ({
-            id: row.id,
-            inspection_type:
-              (row.inspection_type ?? row.type ?? "pre") as "pre" | "post",
-            shift: row.shift ?? row.shift_name ?? null,
-            submitted_at: row.submitted_at ?? row.created_at ?? null,
-            inspection_date: row.inspection_date ?? row.date ?? null,
-            overall_status: row.overall_status ?? row.status ?? null,
-            driver_name:
-              row.driver_name ??
-              row.driver ??
-              row.driver_full_name ??
-              (row.driver_id ? `Driver ${row.driver_id}` : "Unknown driver"),
-            vehicle_label:
-              row.vehicle_label ??
-              row.vehicle ??
-              row.vehicle_label_full ??
-              (row.vehicle_id ? `Vehicle ${row.vehicle_id}` : null),
-          }),
-        );
-
-        // Newest first
-        mapped = mapped.sort((a, b) => {
-          const aTime = new Date(
-            a.submitted_at || a.inspection_date || 0,
-          ).getTime();
-          const bTime = new Date(
-            b.submitted_at || b.inspection_date || 0,
-          ).getTime();
-          return bTime - aTime;
-        });
-
-        setInspections(mapped);
+        setInspections(body.inspections ?? []);
+        setTotal(body.total ?? 0);
+        setError(null);
       } catch (err: any) {
         console.error(err);
         if (isMounted) setError(err.message ?? "Failed to load inspections.");
@@ -101,162 +122,43 @@ export default function InspectionsTab() {
     return () => {
       isMounted = false;
     };
-  }, []);
+  }, [query, page, reloadKey]);
 
-  // Refresh handler
-  const handleRefresh = async () => {
+  const updateFilter = (key: keyof Filters, value: string) => {
     setLoading(true);
-    setError(null);
-
-    try {
-      const res = await fetch("/api/admin/inspections");
-      if (!res.ok) {
-        const body = await res.json().catch(() => ({}));
-        throw new Error(body.error || "Failed to load inspections.");
-      }
-      const data = await res.json();
-
-      let mapped: InspectionSummary[] = (data.inspections || data || []).map(
-        (row: any) => ({
-          id: row.id,
-          inspection_type:
-            (row.inspection_type ?? row.type ?? "pre") as "pre" | "post",
-          shift: row.shift ?? row.shift_name ?? null,
-          submitted_at: row.submitted_at ?? row.created_at ?? null,
-          inspection_date: row.inspection_date ?? row.date ?? null,
-          overall_status: row.overall_status ?? row.status ?? null,
-          driver_name:
-            row.driver_name ??
-            row.driver ??
-            row.driver_full_name ??
-            (row.driver_id ? `Driver ${row.driver_id}` : "Unknown driver"),
-          vehicle_label:
-            row.vehicle_label ??
-            row.vehicle ??
-            row.vehicle_label_full ??
-            (row.vehicle_id ? `Vehicle ${row.vehicle_id}` : null),
-        }),
-      );
-
-      mapped = mapped.sort((a, b) => {
-        const aTime = new Date(
-          a.submitted_at || a.inspection_date || 0,
-        ).getTime();
-        const bTime = new Date(
-          b.submitted_at || b.inspection_date || 0,
-        ).getTime();
-        return bTime - aTime;
-      });
-
-      setInspections(mapped);
-    } catch (err: any) {
-      console.error(err);
-      setError(err.message ?? "Failed to load inspections.");
-    } finally {
-      setLoading(false);
-    }
+    setPage(1);
+    setFilters((prev) => ({ ...prev, [key]: value }));
   };
 
-  // Filtered inspections
-  const filteredInspections = useMemo(() => {
-    if (!search.trim()) return inspections;
-    const q = search.trim().toLowerCase();
-
-    return inspections.filter((rec) => {
-      const driver = rec.driver_name?.toLowerCase() ?? "";
-      const vehicle = rec.vehicle_label?.toLowerCase() ?? "";
-      const type =
-        rec.inspection_type === "pre"
-          ? "pre-trip"
-          : rec.inspection_type === "post"
-          ? "post-trip"
-          : "";
-      const shift = rec.shift?.toLowerCase() ?? "";
-      const status = rec.overall_status?.toLowerCase() ?? "";
-      const date = (rec.submitted_at || rec.inspection_date || "")
-        .toLowerCase()
-        .slice(0, 10);
-
-      return (
-        driver.includes(q) ||
-        vehicle.includes(q) ||
-        type.includes(q) ||
-        shift.includes(q) ||
-        status.includes(q) ||
-        date.includes(q)
-      );
-    });
-  }, [search, inspections]);
-
-  // CSV export
-  const handleExportCsv = () => {
-    if (filteredInspections.length === 0) {
-      alert("No inspection records to export.");
-      return;
-    }
+  const goToPage = (next: number) => {
+    setLoading(true);
+    setPage(next);
+  };
 
-    const header = [
-      "id",
-      "submitted_at",
-      "driver_name",
-      "vehicle_label",
-      "inspection_type",
-      "shift",
-      "overall_status",
-    ];
-
-    const rows = filteredInspections.map((rec) => [
-      rec.id,
-      rec.submitted_at || rec.inspection_date || "",
-      rec.driver_name || "",
-      rec.vehicle_label || "",
-      rec.inspection_type === "pre" ? "pre-trip" : "post-trip",
-      rec.shift || "",
-      rec.overall_status || "",
-    ]);
-
-    const csvLines = [
-      header.join(","),
-      ...rows.map((row) =>
-        row
-          .map((field) => {
-            const str = String(field ?? "");
-            if (str.includes(",") || str.includes('"') || str.includes("\n")) {
-              return `"${str.replace(/"/g, '""')}"`;
-            }
-            return str;
-          })
-          .join(","),
-      ),
-    ];
-
-    const csvContent = csvLines.join("\n");
-    const blob = new Blob([csvContent], {
-      type: "text/csv;charset=utf-8;",
-    });
-    const url = URL.createObjectURL(blob);
-
-    const link = document.createElement("a");
-    const today = new Date().toISOString().slice(0, 10);
-    link.href = url;
-    link.setAttribute("download", `transafe_inspections_${today}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  const handleRefresh = () => {
+    setLoading(true);
+    setReloadKey((k) => k + 1);
   };
 
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const firstShown = total === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+  const lastShown = Math.min(total, page * PAGE_SIZE);
+
+  const fieldClass =
+    "w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2";
+
   return (
     <section className="space-y-4">
       <section className="card space-y-3">
         <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <div>
             <h2 className="text-sm font-semibold uppercase tracking-[0.18em] text-slate-300">
-              Inspection submissions (last 90 days)
+              Inspection submissions
             </h2>
             <p className="text-[11px] text-slate-400">
-              Search, review, print, or export all driver pre- and post-trip
-              inspections.
+              Filter, review, print, or export driver pre- and post-trip
+              inspections. Exports include notes, odometer, signature and
+              every checklist answer.
             </p>
           </div>
           <div className="flex flex-wrap items-center gap-2">
@@ -268,27 +170,169 @@ export default function InspectionsTab() {
             >
               {loading ? "Refreshing..." : "Refresh"}
             </button>
-            <button
-              type="button"
-              onClick={handleExportCsv}
-              className="btn-ghost px-3 py-1 text-[11px]"
-            >
-              Export CSV
-            </button>
+            {(["csv", "xlsx", "json"] as const).map((format) => (
+              <a
+                key={format}
+                href={`/api/admin/inspection-export?${query}&format=${format}`}
+                className="btn-ghost px-3 py-1 text-[11px]"
+              >
+                Export {format.toUpperCase()}
+              </a>
+            ))}
           </div>
         </div>
 
-        <div className="space-y-1">
-          <label className="text-[11px] font-medium text-slate-200">
-            Search inspections
+        <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+          <label className="space-y-1">
+            <span className="text-[11px] font-medium text-slate-200">From</span>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              className={fieldClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] font-medium text-slate-200">To</span>
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+              className={fieldClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] font-medium text-slate-200">Driver</span>
+            <select
+              value={filters.driverId}
+              onChange={(e) => updateFilter("driverId", e.target.value)}
+              className={fieldClass}
+            >
+              <option value="">All drivers</option>
+              {drivers.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.full_name}
+                </option>
+              ))}
+            </select>
           </label>
+          <label className="space-y-1">
+            <span className="text-[11px] font-medium text-slate-200">Vehicle</span>
+            <select
+              value={filters.vehicleId}
+              onChange={(e) => updateFilter("vehicleId", e.target.value)}
+              className={fieldClass}
+            >
+              <option value="">All vehicles</option>
+              {vehicles.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] font-medium text-slate-200">Type</span>
+            <select
+              value={filters.type}
+              onChange={(e) => updateFilter("type", e.target.value)}
+              className={fieldClass}
+            >
+              <option value="">All types</option>
+              <option value="pre">Pre-trip</option>
+              <option value="post">Post-trip</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] font-medium text-slate-200">Shift</span>
+            <select
+              value={filters.shift}
+              onChange={(e) => updateFilter("shift", e.target.value)}
+              className={fieldClass}
+            >
+              <option value="">All shifts</option>
+              <option value="AM">AM</option>
+              <option value="Midday">Midday</option>
+              <option value="PM">PM</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] font-medium text-slate-200">Status</span>
+            <select
+              value={filters.status}
+              onChange={(e) => updateFilter("status", e.target.value)}
+              className={fieldClass}
+            >
+              <option value="">All statuses</option>
+              {STATUS_OPTIONS.map((status) => (
+                <option key={status} value={status}>
+                  {overallStatusLabel(status)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </section>
+
+      {/* DVIR packet: every inspection for one vehicle or driver over a date range */}
+      <section className="card space-y-2">
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+            DVIR packet (PDF)
+          </h3>
+          <p className="text-[11px] text-slate-400">
+            One PDF with every inspection for a vehicle or driver, for
+            handing to a state inspector.
+          </p>
+        </div>
+        <div className="grid gap-2 sm:grid-cols-[2fr_1fr_1fr_auto]">
+          <select
+            value={packetSubject}
+            onChange={(e) => setPacketSubject(e.target.value)}
+            className="rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+          >
+            <option value="">Vehicle or driver…</option>
+            <optgroup label="Vehicles">
+              {vehicles.map((v) => (
+                <option key={v.id} value={`vehicleId=${v.id}`}>
+                  {v.label}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Drivers">
+              {drivers.map((d) => (
+                <option key={d.id} value={`driverId=${d.id}`}>
+                  {d.full_name}
+                </option>
+              ))}
+            </optgroup>
+          </select>
           <input
-            type="text"
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
-            placeholder="Filter by driver, vehicle, date (YYYY-MM-DD), shift, status, or type (pre / post)..."
+            type="date"
+            value={packetFrom}
+            onChange={(e) => setPacketFrom(e.target.value)}
+            className="rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+            aria-label="From date"
           />
+          <input
+            type="date"
+            value={packetTo}
+            onChange={(e) => setPacketTo(e.target.value)}
+            className="rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+            aria-label="To date"
+          />
+          {packetSubject && packetFrom && packetTo ? (
+            <a
+              href={`/api/admin/inspection-pdf?${packetSubject}&from=${packetFrom}&to=${packetTo}`}
+              className="btn-primary px-3 py-2 text-center text-xs"
+            >
+              Download PDF
+            </a>
+          ) : (
+            <span className="btn-primary cursor-not-allowed px-3 py-2 text-center text-xs opacity-50">
+              Download PDF
+            </span>
+          )}
         </div>
       </section>
 
@@ -300,17 +344,36 @@ export default function InspectionsTab() {
 
       <section className="card space-y-3">
         <div className="flex flex-wrap items-center justify-between gap-2">
-          <p className="text-[11px] text-slate-400">
-            Showing{" "}
-            <span className="font-semibold text-slate-100">
-              {filteredInspections.length}
-            </span>{" "}
-            of{" "}
-            <span className="font-semibold text-slate-100">
-              {inspections.length}
-            </span>{" "}
-            records in the last 90 days.
-          </p>
+          <div className="flex flex-wrap items-center gap-2 text-[11px] text-slate-400">
+            <p>
+              Showing{" "}
+              <span className="font-semibold text-slate-100">
+                {firstShown}–{lastShown}
+              </span>{" "}
+              of{" "}
+              <span className="font-semibold text-slate-100">{total}</span>{" "}
+              matching records.
+            </p>
+            <button
+              type="button"
+              onClick={() => goToPage(page - 1)}
+              className="btn-ghost px-2 py-0.5 text-[11px]"
+              disabled={loading || page <= 1}
+            >
+              Prev
+            </button>
+            <span>
+              Page {page} of {pageCount}
+            </span>
+            <button
+              type="button"
+              onClick={() => goToPage(page + 1)}
+              className="btn-ghost px-2 py-0.5 text-[11px]"
+              disabled={loading || page >= pageCount}
+            >
+              Next
+            </button>
+          </div>
           <div className="flex flex-wrap items-center gap-2 text-[10px] text-slate-400">
             <div className="flex items-center gap-1">
               <span className="h-2 w-2 rounded-full bg-emerald-500" />
@@ -329,9 +392,9 @@ export default function InspectionsTab() {
 
         <div className="relative overflow-hidden rounded-2xl bg-slate-950/40">
           <div className="max-h-[460px] overflow-auto text-[11px]">
-            {filteredInspections.length === 0 && !loading ? (
+            {inspections.length === 0 && !loading ? (
               <p className="p-3 text-[11px] text-slate-400">
-                No inspections match your search in the last 90 days.
+                No inspections match these filters.
               </p>
             ) : (
               <table className="min-w-full border-separate border-spacing-0">
@@ -355,13 +418,16 @@ export default function InspectionsTab() {
                     <th className="sticky top-0 border-b border-slate-800 px-2 py-2 text-left text-[11px] font-semibold backdrop-blur">
                       Status
                     </th>
+                    <th className="sticky top-0 border-b border-slate-800 px-2 py-2 text-left text-[11px] font-semibold backdrop-blur">
+                      Photos
+                    </th>
                     <th className="sticky top-0 border-b border-slate-800 px-2 py-2 text-left text-[11px] font-semibold backdrop-blur">
                       View
                     </th>
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredInspections.map((rec, idx) => (
+                  {inspections.map((rec, idx) => (
                     <tr
                       key={rec.id}
                       className={`border-b border-slate-800/60 transition hover:bg-slate-900/80 ${
@@ -400,18 +466,27 @@ export default function InspectionsTab() {
                       <td className="px-2 py-1">
                         <span
                           className={`inline-flex rounded-full px-2 py-0.5 text-[10px] font-semibold ${
-                            rec.overall_status === "fail"
+                            isFailingStatus(rec.overall_status)
                               ? "bg-red-700/80 text-red-50"
                               : rec.overall_status === "pass"
                               ? "bg-emerald-700/80 text-emerald-50"
+                              : rec.overall_status === "pass_minor_defects"
+                              ? "bg-amber-600/70 text-amber-50"
                               : "bg-slate-700/80 text-slate-50"
                           }`}
                         >
-                          {rec.overall_status
-                            ? rec.overall_status.toUpperCase()
-                            : "N/A"}
+                          {overallStatusLabel(rec.overall_status)}
                         </span>
                       </td>
+                      <td className="px-2 py-1 text-slate-200">
+                        {rec.photo_count > 0 ? (
+                          <span className="inline-flex rounded-full bg-red-500/15 px-2 py-0.5 text-[10px] font-semibold text-red-200">
+                            📷 {rec.photo_count}
+                          </span>
+                        ) : (
+                          <span className="text-slate-500">—</span>
+                        )}
+                      </td>
                       <td className="px-2 py-1">
                         <Link
                           href={`/inspection/${rec.id}?from=admin-inspections`}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type ChainProblem = {
+  seq: number | null;
+  record_type: "inspection" | "amendment";
+  record_id: string;
+  problem: "hash_mismatch" | "broken_link" | "missing_record" | "unchained_record";
+  detail: string;
+};
+
+type VehicleChain = {
+  vehicle_id: string;
+  label: string;
+  plate: string | null;
+  entries: number;
+  ok: boolean;
+  problems: ChainProblem[];
+  unsealed_inspections: number;
+  verified_at: string;
+};
+
+const PROBLEM_LABELS: Record<ChainProblem["problem"], string> = {
+  hash_mismatch: "Record altered",
+  broken_link: "Broken link",
+  missing_record: "Record removed",
+  unchained_record: "Not in chain",
+};
+
+/**
+ * Verifies each vehicle's inspection hash chain and flags anything that was
+ * altered, removed or added outside the normal submit/amend flow.
+ */
+export default function IntegrityTab() {
+  const [vehicles, setVehicles] = useState<VehicleChain[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function verify() {
+      try {
+        const res = await fetch("/api/admin/inspection-chain");
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to verify records.");
+        if (isMounted) {
+          setVehicles(body.vehicles as VehicleChain[]);
+          setError(null);
+        }
+      } catch (err) {
+        console.error(err);
+        if (isMounted) {
+          setError(err instanceof Error ? err.message : "Failed to verify records.");
+        }
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    }
+
+    verify();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [reloadKey]);
+
+  const broken = vehicles.filter((v) => !v.ok);
+
+  return (
+    <section className="space-y-4" id="integrity">
+      <section className="card space-y-3">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-sm font-semibold uppercase tracking-[0.18em] text-slate-300">
+              Inspection record integrity
+            </h2>
+            <p className="text-[11px] text-slate-400">
+              Every inspection and amendment is sealed into a hash chain per
+              vehicle. Verification recomputes each chain from the stored
+              records.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => {
+              setLoading(true);
+              setReloadKey((k) => k + 1);
+            }}
+            className="btn-ghost px-3 py-1 text-xs"
+            disabled={loading}
+          >
+            {loading ? "Verifying..." : "Verify again"}
+          </button>
+        </div>
+        {!loading && !error && (
+          <p
+            className={`text-xs font-semibold ${
+              broken.length ? "text-red-300" : "text-emerald-300"
+            }`}
+          >
+            {broken.length
+              ? `${broken.length} vehicle${broken.length === 1 ? " has a" : "s have"} broken chain${
+                  broken.length === 1 ? "" : "s"
+                }.`
+              : `All ${vehicles.length} vehicle chains verified.`}
+          </p>
+        )}
+      </section>
+
+      {error && (
+        <section className="card border border-red-500/50 bg-red-950/40">
+          <p className="text-xs font-medium text-red-200">{error}</p>
+        </section>
+      )}
+
+      <section className="card">
+        <table className="w-full text-left text-[11px]">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="py-1 pr-2 font-semibold">Vehicle</th>
+              <th className="py-1 pr-2 font-semibold">Sealed records</th>
+              <th className="py-1 pr-2 font-semibold">Before chaining</th>
+              <th className="py-1 font-semibold">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {vehicles.map((vehicle) => (
+              <tr key={vehicle.vehicle_id} className="border-t border-white/5 align-top">
+                <td className="py-1.5 pr-2 text-slate-100">
+                  {vehicle.label}
+                  {vehicle.plate && <span className="text-slate-500"> · {vehicle.plate}</span>}
+                </td>
+                <td className="py-1.5 pr-2 text-slate-300">{vehicle.entries}</td>
+                <td className="py-1.5 pr-2 text-slate-500">{vehicle.unsealed_inspections}</td>
+                <td className="py-1.5">
+                  {vehicle.ok ? (
+                    <span className="rounded-full bg-emerald-700/60 px-2 py-0.5 text-[10px] font-semibold text-emerald-50">
+                      Verified
+                    </span>
+                  ) : (
+                    <div className="space-y-1">
+                      <span className="rounded-full bg-red-700/80 px-2 py-0.5 text-[10px] font-semibold text-red-50">
+                        Broken
+                      </span>
+                      <ul className="space-y-0.5 text-red-200">
+                        {vehicle.problems.map((p) => (
+                          <li key={`${p.record_type}:${p.record_id}:${p.problem}`}>
+                            {p.seq !== null && <span className="text-slate-500">#{p.seq} </span>}
+                            <span className="font-semibold">{PROBLEM_LABELS[p.problem]}</span> –{" "}
+                            {p.detail}{" "}
+                            {p.record_type === "inspection" && p.problem !== "missing_record" && (
+                              <Link
+                                href={`/inspection/${p.record_id}?from=admin-integrity`}
+                                className="underline-offset-2 hover:underline"
+                              >
+                                View
+                              </Link>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!loading && vehicles.length === 0 && (
+          <p className="text-[11px] text-slate-400">No vehicles yet.</p>
+        )}
+      </section>
+    </section>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type OdometerReading = {
+  inspection_id: string;
+  inspection_type: string;
+  submitted_at: string;
+  driver_name: string;
+  miles: number;
+  override_reason: string | null;
+  amended: boolean;
+};
+
+type MileageDay = {
+  date: string;
+  start_miles: number | null;
+  end_miles: number | null;
+  miles: number | null;
+  unlogged_miles: number | null;
+  estimated_miles: number | null;
+  readings: OdometerReading[];
+};
+
+type Ledger = {
+  from: string;
+  to: string;
+  days: MileageDay[];
+  totals: { miles: number; estimated_miles: number; unlogged_miles: number };
+};
+
+// Daily mileage this far off the route estimate is worth a look
+const VARIANCE_MILES = 10;
+const VARIANCE_RATIO = 0.25;
+
+function isOffEstimate(day: MileageDay) {
+  if (day.miles == null || day.estimated_miles == null) return false;
+  const diff = Math.abs(day.miles - day.estimated_miles);
+  return diff > Math.max(VARIANCE_MILES, day.estimated_miles * VARIANCE_RATIO);
+}
+
+function formatMiles(value: number | null) {
+  return value == null ? "—" : value.toLocaleString();
+}
+
+function formatTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Per-day odometer mileage for one vehicle against its routes' estimated
+ * round-trip mileage.
+ */
+export default function MileageLedger({ vehicleId }: { vehicleId: string }) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [ledger, setLedger] = useState<Ledger | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function loadLedger() {
+      try {
+        const params = new URLSearchParams({ vehicleId });
+        if (from) params.set("from", from);
+        if (to) params.set("to", to);
+        const res = await fetch(`/api/admin/vehicle-mileage?${params}`);
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to load mileage.");
+        if (isMounted) {
+          setLedger(body as Ledger);
+          setError(null);
+        }
+      } catch (err) {
+        console.error(err);
+        if (isMounted) setError(err instanceof Error ? err.message : "Failed to load mileage.");
+      }
+    }
+
+    loadLedger();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [vehicleId, from, to]);
+
+  const inputClass =
+    "rounded-xl border border-white/15 bg-slate-900 px-3 py-1.5 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2";
+
+  return (
+    <section className="card space-y-3">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-sm font-semibold uppercase tracking-[0.18em] text-slate-300">
+            Mileage ledger
+          </h2>
+          <p className="text-[11px] text-slate-400">
+            Daily miles from pre-trip and post-trip odometer readings, compared
+            with the estimated round-trip mileage of routes assigned to this
+            vehicle.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={from || ledger?.from || ""}
+            onChange={(e) => setFrom(e.target.value)}
+            className={inputClass}
+            aria-label="From date"
+          />
+          <span className="text-[11px] text-slate-500">to</span>
+          <input
+            type="date"
+            value={to || ledger?.to || ""}
+            onChange={(e) => setTo(e.target.value)}
+            className={inputClass}
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-medium text-red-300">{error}</p>}
+
+      {ledger && (
+        <>
+          <div className="flex flex-wrap gap-4 text-[11px] text-slate-300">
+            <span>
+              Logged: <span className="font-semibold text-slate-100">{formatMiles(ledger.totals.miles)} mi</span>
+            </span>
+            <span>
+              Estimated: <span className="font-semibold text-slate-100">{formatMiles(ledger.totals.estimated_miles)} mi</span>
+            </span>
+            <span>
+              Between shifts:{" "}
+              <span className="font-semibold text-slate-100">{formatMiles(ledger.totals.unlogged_miles)} mi</span>
+            </span>
+          </div>
+
+          {ledger.days.length === 0 ? (
+            <p className="text-[11px] text-slate-400">No odometer readings in this range.</p>
+          ) : (
+            <table className="w-full text-left text-[11px]">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="py-1 pr-2 font-semibold">Date</th>
+                  <th className="py-1 pr-2 font-semibold">Start</th>
+                  <th className="py-1 pr-2 font-semibold">End</th>
+                  <th className="py-1 pr-2 font-semibold">Miles</th>
+                  <th className="py-1 pr-2 font-semibold">Estimated</th>
+                  <th className="py-1 pr-2 font-semibold">Since previous day</th>
+                  <th className="py-1 font-semibold">Readings</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.days.map((day) => (
+                  <tr key={day.date} className="border-t border-white/5 align-top">
+                    <td className="py-1.5 pr-2 text-slate-100">{day.date}</td>
+                    <td className="py-1.5 pr-2 font-mono text-slate-300">{formatMiles(day.start_miles)}</td>
+                    <td className="py-1.5 pr-2 font-mono text-slate-300">{formatMiles(day.end_miles)}</td>
+                    <td
+                      className={`py-1.5 pr-2 font-mono font-semibold ${
+                        isOffEstimate(day) ? "text-amber-300" : "text-emerald-200"
+                      }`}
+                    >
+                      {formatMiles(day.miles)}
+                    </td>
+                    <td className="py-1.5 pr-2 font-mono text-slate-400">{formatMiles(day.estimated_miles)}</td>
+                    <td
+                      className={`py-1.5 pr-2 font-mono ${
+                        day.unlogged_miles != null && day.unlogged_miles !== 0
+                          ? "text-amber-300"
+                          : "text-slate-500"
+                      }`}
+                    >
+                      {formatMiles(day.unlogged_miles)}
+                    </td>
+                    <td className="py-1.5 text-slate-400">
+                      {day.readings.map((r) => (
+                        <div key={r.inspection_id}>
+                          <Link
+                            href={`/inspection/${r.inspection_id}?from=admin-inspections`}
+                            className="underline-offset-2 hover:underline"
+                          >
+                            {r.inspection_type === "pre" ? "Pre" : "Post"} {formatTime(r.submitted_at)}
+                          </Link>{" "}
+                          · {r.miles.toLocaleString()} · {r.driver_name}
+                          {r.amended && <span className="text-sky-300"> (amended)</span>}
+                          {r.override_reason && (
+                            <span className="text-amber-300"> · override: {r.override_reason}</span>
+                          )}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type MissingInspection = {
+  work_date: string;
+  driver_id: string;
+  driver_name: string;
+  shift: "AM" | "Midday" | "PM";
+  vehicles: { id: string; label: string }[];
+  routes: { id: string; name: string; direction: string }[];
+  ran_route: boolean;
+  pre_trip_id: string | null;
+  post_trip_id: string | null;
+  missing: ("pre" | "post")[];
+};
+
+function todayYmd() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Assigned drivers missing a pre-trip or post-trip, by work date and shift.
+ * The same check runs every morning for the previous day and raises a
+ * dispatch alert.
+ */
+export default function MissingInspectionsTab() {
+  const [from, setFrom] = useState(todayYmd);
+  const [to, setTo] = useState(todayYmd);
+  const [rows, setRows] = useState<MissingInspection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function loadMissing() {
+      try {
+        const res = await fetch(`/api/admin/missing-inspections?from=${from}&to=${to}`);
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to check inspections.");
+        if (isMounted) {
+          setRows(body.missing as MissingInspection[]);
+          setError(null);
+        }
+      } catch (err) {
+        console.error(err);
+        if (isMounted) setError(err instanceof Error ? err.message : "Failed to check inspections.");
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    }
+
+    loadMissing();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [from, to]);
+
+  const ranWithoutPreTrip = rows.filter((r) => r.ran_route && r.missing.includes("pre")).length;
+
+  const handleExportCsv = () => {
+    if (rows.length === 0) {
+      alert("Nothing to export.");
+      return;
+    }
+
+    const header = [
+      "work_date",
+      "driver_name",
+      "shift",
+      "vehicles",
+      "routes",
+      "ran_route",
+      "missing_pre_trip",
+      "missing_post_trip",
+    ];
+    const csvRows = rows.map((r) => [
+      r.work_date,
+      r.driver_name,
+      r.shift,
+      r.vehicles.map((v) => v.label).join("; "),
+      r.routes.map((route) => route.name).join("; "),
+      r.ran_route ? "yes" : "no",
+      r.missing.includes("pre") ? "yes" : "no",
+      r.missing.includes("post") ? "yes" : "no",
+    ]);
+
+    const csvLines = [
+      header.join(","),
+      ...csvRows.map((row) =>
+        row
+          .map((field) => {
+            const str = String(field ?? "");
+            if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+              return `"${str.replace(/"/g, '""')}"`;
+            }
+            return str;
+          })
+          .join(","),
+      ),
+    ];
+
+    const blob = new Blob([csvLines.join("\n")], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.setAttribute("download", `transafe_missing_inspections_${from}_to_${to}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClass =
+    "rounded-xl border border-white/15 bg-slate-900 px-3 py-1.5 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2";
+
+  return (
+    <section className="space-y-4" id="missing">
+      <section className="card space-y-3">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <h2 className="text-sm font-semibold uppercase tracking-[0.18em] text-slate-300">
+              Missing inspections
+            </h2>
+            <p className="text-[11px] text-slate-400">
+              Drivers assigned to routes that day with no pre-trip or
+              post-trip for the shift. &quot;Ran route&quot; means a route
+              was completed or attendance was taken.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => {
+                setLoading(true);
+                setFrom(e.target.value);
+                if (e.target.value > to) setTo(e.target.value);
+              }}
+              className={inputClass}
+              aria-label="From date"
+            />
+            <span className="text-[11px] text-slate-500">to</span>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => {
+                setLoading(true);
+                setTo(e.target.value);
+              }}
+              className={inputClass}
+              aria-label="To date"
+            />
+            <button
+              type="button"
+              onClick={handleExportCsv}
+              className="btn-ghost px-3 py-1 text-[11px]"
+              disabled={rows.length === 0}
+            >
+              Export CSV
+            </button>
+          </div>
+        </div>
+        {!loading && !error && (
+          <p className={`text-xs font-semibold ${rows.length ? "text-amber-300" : "text-emerald-300"}`}>
+            {rows.length === 0
+              ? "Every assigned driver shift has its pre-trip and post-trip."
+              : `${rows.length} driver shift${rows.length === 1 ? "" : "s"} missing an inspection` +
+                (ranWithoutPreTrip > 0 ? `, ${ranWithoutPreTrip} ran routes without a pre-trip.` : ".")}
+          </p>
+        )}
+      </section>
+
+      {error && (
+        <section className="card border border-red-500/50 bg-red-950/40">
+          <p className="text-xs font-medium text-red-200">{error}</p>
+        </section>
+      )}
+
+      {rows.length > 0 && (
+        <section className="card">
+          <table className="w-full text-left text-[11px]">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="py-1 pr-2 font-semibold">Date</th>
+                <th className="py-1 pr-2 font-semibold">Driver</th>
+                <th className="py-1 pr-2 font-semibold">Shift</th>
+                <th className="py-1 pr-2 font-semibold">Vehicle</th>
+                <th className="py-1 pr-2 font-semibold">Routes</th>
+                <th className="py-1 pr-2 font-semibold">Pre-trip</th>
+                <th className="py-1 font-semibold">Post-trip</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={`${row.work_date}:${row.driver_id}:${row.shift}`} className="border-t border-white/5 align-top">
+                  <td className="py-1.5 pr-2 font-mono text-slate-300">{row.work_date}</td>
+                  <td className="py-1.5 pr-2 text-slate-100">
+                    <Link href={`/admin/drivers/${row.driver_id}`} className="underline-offset-2 hover:underline">
+                      {row.driver_name}
+                    </Link>
+                  </td>
+                  <td className="py-1.5 pr-2 text-slate-300">{row.shift}</td>
+                  <td className="py-1.5 pr-2 text-slate-300">
+                    {row.vehicles.map((v) => v.label).join(", ") || "—"}
+                  </td>
+                  <td className="py-1.5 pr-2 text-slate-400">
+                    {row.routes.map((r) => r.name).join(", ")}
+                    {row.ran_route && (
+                      <span className="ml-1 rounded-full bg-sky-500/15 px-1.5 text-[10px] text-sky-200">Ran route</span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    {row.pre_trip_id ? (
+                      <Link
+                        href={`/inspection/${row.pre_trip_id}?from=admin-inspections`}
+                        className="text-emerald-300 underline-offset-2 hover:underline"
+                      >
+                        Done
+                      </Link>
+                    ) : (
+                      <span className={`font-semibold ${row.ran_route ? "text-red-300" : "text-amber-300"}`}>Missing</span>
+                    )}
+                  </td>
+                  <td className="py-1.5">
+                    {row.post_trip_id ? (
+                      <Link
+                        href={`/inspection/${row.post_trip_id}?from=admin-inspections`}
+                        className="text-emerald-300 underline-offset-2 hover:underline"
+                      >
+                        Done
+                      </Link>
+                    ) : (
+                      <span className="font-semibold text-amber-300">Missing</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </section>
+  );
+}
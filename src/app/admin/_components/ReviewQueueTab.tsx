@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { isFailingStatus, overallStatusLabel } from "@/lib/inspections/status";
+
+type QueuedInspection = {
+  id: string;
+  driver_id: string | null;
+  driver_name: string;
+  vehicle_id: string | null;
+  vehicle_label: string | null;
+  inspection_type: string;
+  shift: string | null;
+  inspection_date: string;
+  submitted_at: string;
+  overall_status: string | null;
+  notes: string | null;
+  answers: Record<string, string> | null;
+};
+
+type QueueSummary = {
+  total: number;
+  out_of_service: number;
+};
+
+const PAGE_SIZE = 25;
+
+function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`;
+}
+
+function statusClass(status: string | null) {
+  if (status === "fail_out_of_service") return "bg-red-700/80 text-red-50";
+  if (isFailingStatus(status)) return "bg-red-600/30 text-red-100";
+  if (status === "pass_minor_defects") return "bg-amber-500/20 text-amber-100";
+  return "bg-slate-700/70 text-slate-100";
+}
+
+function SignOffForm({
+  inspection,
+  onSignedOff,
+}: {
+  inspection: QueuedInspection;
+  onSignedOff: (inspectionId: string) => void;
+}) {
+  const [actionTaken, setActionTaken] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSignOff = async () => {
+    if (!actionTaken.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/inspection-reviews", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ inspection_id: inspection.id, action_taken: actionTaken.trim() }),
+      });
+      const body = await res.json();
+      // Already signed off elsewhere: it's out of the queue either way
+      if (res.status === 409) {
+        onSignedOff(inspection.id);
+        return;
+      }
+      if (!res.ok) throw new Error(body.error || "Failed to sign off.");
+      onSignedOff(inspection.id);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to sign off.");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <textarea
+        value={actionTaken}
+        onChange={(e) => setActionTaken(e.target.value)}
+        className="min-h-[52px] w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+        placeholder="Action taken (e.g. defect sent to the shop, spare vehicle assigned, spoke with driver)"
+      />
+      {error && <p className="text-[11px] font-medium text-red-300">{error}</p>}
+      <button
+        type="button"
+        onClick={handleSignOff}
+        disabled={!actionTaken.trim() || saving}
+        className={`btn-primary px-3 py-1 text-[11px] ${
+          !actionTaken.trim() || saving ? "cursor-not-allowed opacity-50" : ""
+        }`}
+      >
+        {saving ? "Signing off…" : "Sign off"}
+      </button>
+    </div>
+  );
+}
+
+type ReviewQueueTabProps = {
+  canEdit: boolean;
+};
+
+/**
+ * Failed, minor-defect and noted inspections waiting on a supervisor's
+ * sign-off. Signing off records the action taken and removes it from the queue.
+ */
+export default function ReviewQueueTab({ canEdit }: ReviewQueueTabProps) {
+  const [queue, setQueue] = useState<QueuedInspection[]>([]);
+  const [summary, setSummary] = useState<QueueSummary>({ total: 0, out_of_service: 0 });
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function loadQueue() {
+      try {
+        const res = await fetch(`/api/admin/inspection-reviews?page=${page}&pageSize=${PAGE_SIZE}`);
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || "Failed to load the review queue.");
+        if (!isMounted) return;
+        setQueue(body.queue as QueuedInspection[]);
+        setSummary(body.summary as QueueSummary);
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        if (isMounted) setError(err instanceof Error ? err.message : "Failed to load the review queue.");
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    }
+
+    loadQueue();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [page]);
+
+  const goToPage = (next: number) => {
+    setLoading(true);
+    setPage(next);
+  };
+
+  const handleSignedOff = (id: string) => {
+    setQueue((prev) => prev.filter((i) => i.id !== id));
+    setSummary((prev) => ({ ...prev, total: Math.max(0, prev.total - 1) }));
+  };
+
+  const { total, out_of_service: outOfService } = summary;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <section className="space-y-4" id="reviews">
+      <section className="card space-y-2">
+        <div>
+          <h2 className="text-sm font-semibold uppercase tracking-[0.18em] text-slate-300">
+            Review queue
+          </h2>
+          <p className="text-[11px] text-slate-400">
+            Every failed inspection, and every inspection with minor defects or
+            driver notes, needs a supervisor to record the action taken and
+            sign off. Out-of-service failures are listed first.
+          </p>
+        </div>
+        {!loading && !error && (
+          <p className={`text-xs font-semibold ${total ? "text-amber-300" : "text-emerald-300"}`}>
+            {total === 0
+              ? "Nothing waiting for review."
+              : `${total} inspection${total === 1 ? "" : "s"} waiting for review` +
+                (outOfService > 0 ? `, ${outOfService} out of service.` : ".")}
+          </p>
+        )}
+        {pageCount > 1 && (
+          <div className="flex items-center gap-2 text-[11px] text-slate-400">
+            <button
+              type="button"
+              onClick={() => goToPage(page - 1)}
+              className="btn-ghost px-2 py-0.5 text-[11px]"
+              disabled={loading || page <= 1}
+            >
+              Prev
+            </button>
+            <span>
+              Page {page} of {pageCount}
+            </span>
+            <button
+              type="button"
+              onClick={() => goToPage(page + 1)}
+              className="btn-ghost px-2 py-0.5 text-[11px]"
+              disabled={loading || page >= pageCount}
+            >
+              Next
+            </button>
+          </div>
+        )}
+        {loading && <p className="text-[11px] text-slate-400">Loading…</p>}
+      </section>
+
+      {error && (
+        <section className="card border border-red-500/50 bg-red-950/40">
+          <p className="text-xs font-medium text-red-200">{error}</p>
+        </section>
+      )}
+
+      {queue.map((inspection) => {
+        const failedCount = Object.values(inspection.answers ?? {}).filter((a) => a === "fail").length;
+        return (
+          <section key={inspection.id} className="card space-y-2 text-[11px]">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div className="space-y-0.5">
+                <p className="text-xs font-semibold text-slate-100">
+                  {inspection.driver_name} · {inspection.vehicle_label ?? "Unknown vehicle"}
+                </p>
+                <p className="text-slate-400">
+                  {inspection.inspection_type === "pre" ? "Pre-trip" : "Post-trip"}
+                  {inspection.shift && ` · ${inspection.shift}`} · {formatDateTime(inspection.submitted_at)}
+                  {" · "}
+                  <Link
+                    href={`/inspection/${inspection.id}?from=admin-reviews`}
+                    className="underline-offset-2 hover:underline"
+                  >
+                    View inspection
+                  </Link>
+                </p>
+                {failedCount > 0 && (
+                  <p className="text-slate-300">
+                    {failedCount} failed item{failedCount === 1 ? "" : "s"}
+                  </p>
+                )}
+                {inspection.notes?.trim() && (
+                  <p className="text-slate-300">Driver notes: {inspection.notes}</p>
+                )}
+              </div>
+              <span
+                className={`inline-flex rounded-full px-2 py-0.5 text-[10px] font-semibold ${statusClass(inspection.overall_status)}`}
+              >
+                {overallStatusLabel(inspection.overall_status)}
+              </span>
+            </div>
+            {canEdit && (
+              <SignOffForm
+                inspection={inspection}
+                onSignedOff={handleSignedOff}
+              />
+            )}
+          </section>
+        );
+      })}
+    </section>
+  );
+}
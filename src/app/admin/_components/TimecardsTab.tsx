@@ -2,6 +2,7 @@
 
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import { SHIFTS, isShift, type Shift } from "@/lib/inspections/shifts";
 
 // ---- TYPES ----
 
@@ -19,13 +20,20 @@ type TimeEntry = {
   start_time: string;
   end_time: string | null;
   duration_seconds: number | null;
+  shift: string | null;
 };
 
+// Entries clocked before shifts were recorded have no shift
+type TimecardCategory = Shift | "Unassigned";
+
+const TIMECARD_CATEGORIES: TimecardCategory[] = [...SHIFTS, "Unassigned"];
+
 type DriverTimeSummary = {
   driverId: string;
   name: string;
   license: string | null;
   dailySeconds: Record<string, number>;
+  shiftSeconds: Partial<Record<TimecardCategory, number>>;
   weekTotalSeconds: number;
 };
 
@@ -133,6 +141,7 @@ export default function TimecardsTab({ drivers }: TimecardsTabProps) {
             name: d.full_name,
             license: d.license_number,
             dailySeconds: {},
+            shiftSeconds: {},
             weekTotalSeconds: 0,
           };
         }
@@ -164,6 +173,8 @@ export default function TimecardsTab({ drivers }: TimecardsTabProps) {
 
           const key = entry.work_date;
           summary.dailySeconds[key] = (summary.dailySeconds[key] ?? 0) + dur;
+          const category = isShift(entry.shift) ? entry.shift : "Unassigned";
+          summary.shiftSeconds[category] = (summary.shiftSeconds[category] ?? 0) + dur;
           summary.weekTotalSeconds += dur;
         }
 
@@ -203,12 +214,13 @@ export default function TimecardsTab({ drivers }: TimecardsTabProps) {
       return;
     }
 
-    // Build header: Driver, License, each day, Weekly total
+    // Build header: Driver, License, each day, Weekly total, each shift
     const header = [
       "Driver",
       "License",
       ...weekDays.map((d) => `${d.label} (${d.date})`),
       "Weekly total",
+      ...TIMECARD_CATEGORIES,
     ];
 
     // Build rows for each driver
@@ -223,6 +235,7 @@ export default function TimecardsTab({ drivers }: TimecardsTabProps) {
         s.license || "",
         ...dayValues,
         formatDuration(s.weekTotalSeconds),
+        ...TIMECARD_CATEGORIES.map((c) => formatDuration(s.shiftSeconds[c] ?? 0)),
       ];
     });
 
@@ -397,6 +410,11 @@ export default function TimecardsTab({ drivers }: TimecardsTabProps) {
                     })}
                     <td className="px-3 py-2 text-right font-mono text-[11px] text-emerald-200 sm:text-xs">
                       {formatDuration(s.weekTotalSeconds)}
+                      {TIMECARD_CATEGORIES.filter((c) => s.shiftSeconds[c]).map((c) => (
+                        <span key={c} className="block text-[10px] text-slate-400">
+                          {c} {formatDuration(s.shiftSeconds[c] ?? 0)}
+                        </span>
+                      ))}
                     </td>
                     <td className="px-3 py-2 text-right">
                       <Link
@@ -416,6 +434,8 @@ export default function TimecardsTab({ drivers }: TimecardsTabProps) {
         <p className="text-xs text-slate-400 sm:text-sm">
           Timecards are calculated from pre-trip (clock start) and post-trip
           (clock stop) inspections stored in the driver time entries table.
+          Each session counts toward the AM, Midday or PM shift it was
+          clocked for.
         </p>
       </section>
     </div>
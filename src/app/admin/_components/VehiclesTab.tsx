@@ -2,6 +2,13 @@
 
 import { useMemo, useState } from "react";
 import Link from "next/link";
+import {
+  EXPIRY_WARNING_DAYS,
+  overallComplianceStatus,
+  vehicleCompliance,
+  type ComplianceEntry,
+  type ComplianceStatus,
+} from "@/lib/vehicles/compliance";
 
 type Vehicle = {
   id: string;
@@ -12,9 +19,36 @@ type Vehicle = {
   plate: string | null;
   vin: string | null;
   is_active: boolean;
+  wheelchair_equipped: boolean;
+  lift_installed: boolean;
+  seating_capacity: number | null;
+  out_of_service: boolean;
+  out_of_service_reason: string | null;
+  out_of_service_at: string | null;
+  registration_expires_on: string | null;
+  insurance_expires_on: string | null;
+  state_inspection_expires_on: string | null;
+  seven_d_inspection_expires_on: string | null;
   created_at: string;
 };
 
+const COMPLIANCE_BADGES: Record<ComplianceStatus, { label: string; className: string }> = {
+  expired: { label: "Overdue", className: "bg-red-700/80 text-red-50" },
+  due_soon: { label: "Due soon", className: "bg-amber-500/20 text-amber-200" },
+  missing: { label: "No date", className: "bg-slate-500/20 text-slate-300" },
+  ok: { label: "Current", className: "bg-emerald-500/15 text-emerald-200" },
+};
+
+function describeExpiry(entry: ComplianceEntry) {
+  if (entry.days_left === null) return "No date on file";
+  if (entry.days_left < 0) {
+    const days = -entry.days_left;
+    return `Expired ${days} day${days === 1 ? "" : "s"} ago`;
+  }
+  if (entry.days_left === 0) return "Expires today";
+  return `${entry.days_left} day${entry.days_left === 1 ? "" : "s"} left`;
+}
+
 type VehiclesTabProps = {
   vehicles: Vehicle[];
   setVehicles: React.Dispatch<React.SetStateAction<Vehicle[]>>;
@@ -38,6 +72,25 @@ export default function VehiclesTab({ vehicles, setVehicles }: VehiclesTabProps)
     });
   }, [vehicles, vehicleSearch]);
 
+  // Active vehicles with something overdue or expiring soon, most urgent first
+  const complianceRows = useMemo(() => {
+    return vehicles
+      .filter((v) => v.is_active)
+      .map((vehicle) => {
+        const entries = vehicleCompliance(vehicle);
+        const attention = entries.filter((e) => e.status === "expired" || e.status === "due_soon");
+        const soonest = Math.min(...attention.map((e) => e.days_left ?? Infinity));
+        return { vehicle, entries, attention, soonest };
+      })
+      .filter((row) => row.attention.length > 0)
+      .sort((a, b) => a.soonest - b.soonest);
+  }, [vehicles]);
+
+  const missingDatesCount = useMemo(
+    () => vehicles.filter((v) => v.is_active && vehicleCompliance(v).some((e) => e.status === "missing")).length,
+    [vehicles]
+  );
+
   const handleToggleVehicleActive = async (vehicle: Vehicle) => {
     setLoading(true);
     setError(null);
@@ -100,6 +153,58 @@ export default function VehiclesTab({ vehicles, setVehicles }: VehiclesTabProps)
         </section>
       )}
 
+      <section className="card space-y-3">
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-300">Compliance calendar</h3>
+          <p className="text-[11px] text-slate-400">
+            Registration, insurance, annual state inspection and 7D inspection expiring within {EXPIRY_WARNING_DAYS} days or
+            already overdue. Overdue vehicles can&apos;t be assigned to routes.
+          </p>
+        </div>
+        {complianceRows.length === 0 ? (
+          <p className="text-[11px] text-emerald-300">Nothing overdue or due in the next {EXPIRY_WARNING_DAYS} days.</p>
+        ) : (
+          <table className="w-full text-left text-[11px]">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="py-1 pr-2 font-semibold">Vehicle</th>
+                <th className="py-1 pr-2 font-semibold">Item</th>
+                <th className="py-1 pr-2 font-semibold">Expires</th>
+                <th className="py-1 font-semibold">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {complianceRows.flatMap(({ vehicle, attention }) =>
+                attention.map((entry, idx) => (
+                  <tr key={`${vehicle.id}:${entry.field}`} className="border-t border-white/5">
+                    <td className="py-1.5 pr-2 text-slate-100">
+                      {idx === 0 && (
+                        <Link href={`/admin/vehicles/${vehicle.id}`} className="underline-offset-2 hover:underline">
+                          {vehicle.label}
+                        </Link>
+                      )}
+                    </td>
+                    <td className="py-1.5 pr-2 text-slate-300">{entry.label}</td>
+                    <td className="py-1.5 pr-2 font-mono text-slate-300">{entry.expires_on}</td>
+                    <td className="py-1.5">
+                      <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${COMPLIANCE_BADGES[entry.status].className}`}>
+                        {COMPLIANCE_BADGES[entry.status].label}
+                      </span>{" "}
+                      <span className="text-slate-400">{describeExpiry(entry)}</span>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        )}
+        {missingDatesCount > 0 && (
+          <p className="text-[11px] text-slate-400">
+            {missingDatesCount} active vehicle{missingDatesCount === 1 ? " is" : "s are"} missing one or more expiry dates.
+          </p>
+        )}
+      </section>
+
       <section className="card space-y-3">
         <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <div>
@@ -144,7 +249,30 @@ export default function VehiclesTab({ vehicles, setVehicles }: VehiclesTabProps)
                           <span className="text-slate-500">—</span>
                         )}
                       </td>
-                      <td className="px-3 py-2 text-slate-100">{vehicle.label}</td>
+                      <td className="px-3 py-2 text-slate-100">
+                        {vehicle.label}
+                        {vehicle.out_of_service && (
+                          <span className="ml-2 inline-flex rounded-full bg-red-700/80 px-2 py-0.5 text-[10px] font-semibold text-red-50">
+                            Out of service
+                          </span>
+                        )}
+                        {(() => {
+                          const status = overallComplianceStatus(vehicleCompliance(vehicle));
+                          if (status !== "expired" && status !== "due_soon") return null;
+                          return (
+                            <span className={`ml-2 inline-flex rounded-full px-2 py-0.5 text-[10px] font-semibold ${COMPLIANCE_BADGES[status].className}`}>
+                              {status === "expired" ? "Compliance overdue" : "Compliance due soon"}
+                            </span>
+                          );
+                        })()}
+                        {(vehicle.wheelchair_equipped || vehicle.lift_installed || vehicle.seating_capacity != null) && (
+                          <div className="mt-0.5 flex flex-wrap gap-1 text-[10px] text-slate-400">
+                            {vehicle.wheelchair_equipped && <span className="rounded-full bg-sky-500/15 px-1.5 text-sky-200">Wheelchair</span>}
+                            {vehicle.lift_installed && <span className="rounded-full bg-sky-500/15 px-1.5 text-sky-200">Lift</span>}
+                            {vehicle.seating_capacity != null && <span>{vehicle.seating_capacity} seats</span>}
+                          </div>
+                        )}
+                      </td>
                       <td className="px-3 py-2 text-slate-100">{vehicle.plate || "N/A"}</td>
                       <td className="px-3 py-2 text-slate-100">{vehicle.vin || <span className="text-slate-500">—</span>}</td>
                       <td className="px-3 py-2 text-slate-100">
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import QRCode from "qrcode";
+import { badgePayload } from "@/lib/drivers/badge";
+
+type Driver = {
+  id: string;
+  employee_number: string;
+  full_name: string;
+  is_active: boolean;
+};
+
+export default function DriverBadgePage() {
+  const router = useRouter();
+  const params = useParams();
+  const id = typeof params.id === "string" ? params.id : undefined;
+
+  const [driver, setDriver] = useState<Driver | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const unlocked = window.localStorage.getItem("transafe_admin_unlocked");
+    if (unlocked !== "true") {
+      router.replace("/admin");
+    }
+  }, [router]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch(`/api/admin/drivers?id=${id}`);
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load driver.");
+        if (!json.driver) throw new Error("Driver not found.");
+
+        const d = json.driver as Driver;
+        setDriver(d);
+        setQrDataUrl(
+          await QRCode.toDataURL(badgePayload(d.employee_number), {
+            margin: 1,
+            width: 320,
+          }),
+        );
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : "Failed to load driver.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void load();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="space-y-4 max-w-md mx-auto">
+        <section className="card">
+          <p className="text-sm text-slate-200">Loading badge…</p>
+        </section>
+      </div>
+    );
+  }
+
+  if (error || !driver) {
+    return (
+      <div className="space-y-4 max-w-md mx-auto">
+        <section className="card space-y-2">
+          <p className="text-sm text-red-300">{error ?? "Driver not found."}</p>
+          <Link href="/admin#drivers" className="btn-ghost inline-flex px-3 py-1 text-sm">
+            ← Back to Drivers
+          </Link>
+        </section>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-w-md mx-auto">
+      <section className="card no-print flex items-center justify-between">
+        <Link href={`/admin/drivers/${driver.id}`} className="btn-ghost text-xs">
+          ← Back to driver
+        </Link>
+        <button type="button" onClick={() => window.print()} className="btn-primary text-xs">
+          Print badge
+        </button>
+      </section>
+
+      {/* Credit-card sized badge */}
+      <section className="mx-auto w-[3.375in] rounded-2xl bg-white p-4 text-center text-slate-900 shadow-md print:shadow-none">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-slate-600">
+          Transafe Transportation
+        </p>
+        <p className="mt-1 text-base font-semibold">{driver.full_name}</p>
+        {qrDataUrl && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={qrDataUrl}
+            alt={`Badge QR for employee ${driver.employee_number}`}
+            className="mx-auto mt-2 h-40 w-40"
+          />
+        )}
+        <p className="mt-1 font-mono text-sm tracking-widest">
+          EMP # {driver.employee_number}
+        </p>
+        <p className="mt-1 text-[9px] text-slate-500">
+          Scan at Driver Portal sign-in. PIN still required.
+        </p>
+      </section>
+    </div>
+  );
+}
@@ -3,15 +3,19 @@
 import { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
+import DriverQualifications from "../../_components/DriverQualifications";
 
 type Driver = {
   id: string;
+  employee_number: string;
   full_name: string;
   license_number: string | null;
   phone: string | null;
   hourly_rate: number | null;
   is_active: boolean;
-  pin: string | null;
+  pin_set: boolean;
+  pin_failed_attempts: number | null;
+  pin_locked_until: string | null;
   created_at: string;
 };
 
@@ -29,6 +33,7 @@ export default function AdminDriverDetailPage() {
 
   const [driver, setDriver] = useState<Driver | null>(null);
   const [fullName, setFullName] = useState("");
+  const [employeeNumber, setEmployeeNumber] = useState("");
   const [licenseNumber, setLicenseNumber] = useState("");
   const [phone, setPhone] = useState("");
   const [hourlyRate, setHourlyRate] = useState("");
@@ -81,6 +86,7 @@ export default function AdminDriverDetailPage() {
         const d = data as Driver;
         setDriver(d);
         setFullName(d.full_name);
+        setEmployeeNumber(d.employee_number ?? "");
         setLicenseNumber(d.license_number ?? "");
         setPhone(d.phone ? formatPhoneInput(d.phone) : "");
         setHourlyRate(
@@ -103,6 +109,10 @@ export default function AdminDriverDetailPage() {
       setError("Driver name is required.");
       return;
     }
+    if (!employeeNumber.trim()) {
+      setError("Employee number is required.");
+      return;
+    }
 
     setSaving(true);
     setError(null);
@@ -111,6 +121,7 @@ export default function AdminDriverDetailPage() {
     try {
       const payload: Partial<Driver> = {
         full_name: fullName.trim(),
+        employee_number: employeeNumber.trim().toUpperCase(),
         license_number: licenseNumber.trim() || null,
         phone: phone.trim() || null,
         hourly_rate: hourlyRate
@@ -160,16 +171,16 @@ export default function AdminDriverDetailPage() {
     setMessage(null);
 
     try {
-      const res = await fetch("/api/admin/drivers", {
-        method: "PATCH",
+      const res = await fetch("/api/admin/driver-pin", {
+        method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id, pin: trimmed }),
+        body: JSON.stringify({ driverId: id, pin: trimmed }),
       });
       const json = await res.json();
       if (!res.ok) throw new Error(json.error || "Failed to update PIN.");
 
       setDriver(json.driver as Driver);
-      setMessage("PIN updated.");
+      setMessage("PIN updated. Any sign-in lockout was cleared.");
     } catch (err: any) {
       console.error(err);
       setError(err?.message ?? "Failed to update PIN.");
@@ -179,6 +190,30 @@ export default function AdminDriverDetailPage() {
     }
   };
 
+  const handleUnlock = async () => {
+    if (!driver) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const res = await fetch(`/api/admin/driver-pin?driverId=${id}`, {
+        method: "DELETE",
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to unlock driver.");
+
+      setDriver({ ...driver, pin_failed_attempts: 0, pin_locked_until: null });
+      setMessage("Driver unlocked. They can sign in with their current PIN.");
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to unlock driver.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!driver) return;
 
@@ -239,6 +274,12 @@ export default function AdminDriverDetailPage() {
     );
   }
 
+  const lockedUntil =
+    driver.pin_locked_until &&
+    new Date(driver.pin_locked_until).getTime() > Date.now()
+      ? new Date(driver.pin_locked_until)
+      : null;
+
   return (
     <div className="space-y-4 max-w-2xl mx-auto">
       {/* Header */}
@@ -248,7 +289,8 @@ export default function AdminDriverDetailPage() {
             Edit driver: {driver.full_name}
           </h1>
           <p className="text-xs text-slate-300">
-            Update name, license, phone, hourly pay, status, and PIN.
+            Update name, employee number, license, phone, hourly pay, status,
+            and PIN.
           </p>
         </div>
         <Link
@@ -285,6 +327,29 @@ export default function AdminDriverDetailPage() {
           />
         </div>
 
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <label className="text-xs font-semibold text-slate-200">
+              Employee number
+            </label>
+            <Link
+              href={`/admin/drivers/${driver.id}/badge`}
+              className="btn-ghost px-3 py-1 text-[11px]"
+            >
+              Print badge
+            </Link>
+          </div>
+          <input
+            type="text"
+            value={employeeNumber}
+            onChange={(e) => setEmployeeNumber(e.target.value)}
+            className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+          />
+          <p className="text-[11px] text-slate-400">
+            Unique per driver. Changing it means the old badge stops working.
+          </p>
+        </div>
+
         <div className="space-y-1">
           <label className="text-xs font-semibold text-slate-200">
             Driver&apos;s license #
@@ -354,10 +419,25 @@ export default function AdminDriverDetailPage() {
             <p className="text-[11px] text-slate-400">
               We never show the PIN value, only whether it&apos;s set.
             </p>
+            {lockedUntil ? (
+              <p className="text-[11px] font-semibold text-red-300">
+                Locked out after too many wrong PINs until{" "}
+                {lockedUntil.toLocaleTimeString([], {
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}
+                .
+              </p>
+            ) : (driver.pin_failed_attempts ?? 0) > 0 ? (
+              <p className="text-[11px] text-amber-300">
+                {driver.pin_failed_attempts} wrong PIN attempt
+                {driver.pin_failed_attempts === 1 ? "" : "s"} since last sign-in.
+              </p>
+            ) : null}
           </div>
           <div className="flex flex-col items-end gap-1">
             <span className="text-[11px]">
-              {driver.pin ? "PIN set" : "PIN not set"}
+              {driver.pin_set ? "PIN set" : "PIN not set"}
             </span>
             <button
               type="button"
@@ -366,6 +446,16 @@ export default function AdminDriverDetailPage() {
             >
               Set / Reset PIN
             </button>
+            {(lockedUntil || (driver.pin_failed_attempts ?? 0) > 0) && (
+              <button
+                type="button"
+                onClick={handleUnlock}
+                className="btn-ghost px-3 py-1 text-[11px]"
+                disabled={saving}
+              >
+                Unlock sign-in
+              </button>
+            )}
           </div>
         </div>
 
@@ -388,6 +478,8 @@ export default function AdminDriverDetailPage() {
           </button>
         </div>
       </section>
+
+      <DriverQualifications driverId={driver.id} />
     </div>
   );
 }
@@ -9,6 +9,7 @@ export default function AdminAddDriverPage() {
   const router = useRouter();
 
   const [name, setName] = useState("");
+  const [employeeNumber, setEmployeeNumber] = useState("");
   const [license, setLicense] = useState("");
   const [phone, setPhone] = useState("");
   const [hourly, setHourly] = useState(""); // string, convert to number on submit
@@ -37,6 +38,11 @@ export default function AdminAddDriverPage() {
         is_active: true,
       };
 
+      // Left blank, the database assigns the next employee number
+      if (employeeNumber.trim()) {
+        payload.employee_number = employeeNumber.trim().toUpperCase();
+      }
+
       // Optional: allow setting PIN at creation
       if (pin.trim()) {
         payload.pin = pin.trim();
@@ -103,6 +109,22 @@ export default function AdminAddDriverPage() {
           />
         </div>
 
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-slate-100">
+            Employee number
+          </label>
+          <input
+            type="text"
+            value={employeeNumber}
+            onChange={(e) => setEmployeeNumber(e.target.value)}
+            className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+            placeholder="Leave blank to assign automatically"
+          />
+          <p className="text-[11px] text-slate-400">
+            Must be unique. Drivers sign in with it or with their printed badge.
+          </p>
+        </div>
+
         <div className="space-y-1">
           <label className="text-sm font-medium text-slate-100">
             Driver&apos;s license #
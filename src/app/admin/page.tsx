@@ -14,6 +14,13 @@ import SchoolsTab from "./_components/SchoolsTab";
 import TimecardsTab from "./_components/TimecardsTab";
 import HouseholdsTab from "./_components/HouseholdsTab";
 import AttendanceTab from "./_components/AttendanceTab";
+import AdminUsersTab from "./_components/AdminUsersTab";
+import ChecklistsTab from "./_components/ChecklistsTab";
+import DefectsTab from "./_components/DefectsTab";
+import IntegrityTab from "./_components/IntegrityTab";
+import MissingInspectionsTab from "./_components/MissingInspectionsTab";
+import ReviewQueueTab from "./_components/ReviewQueueTab";
+import AnalyticsTab from "./_components/AnalyticsTab";
 
 // =====================
 //  CONSTANTS & TYPES
@@ -23,12 +30,15 @@ const ADMIN_TAB_STORAGE_KEY = "transafe_admin_active_tab";
 
 type Driver = {
   id: string;
+  employee_number: string;
   full_name: string;
   license_number: string | null;
   phone: string | null;
   hourly_rate: number | null;
   is_active: boolean;
-  pin: string | null;
+  pin_set: boolean;
+  pin_failed_attempts: number | null;
+  pin_locked_until: string | null;
   created_at: string;
 };
 
@@ -41,12 +51,47 @@ type Vehicle = {
   plate: string | null;
   vin: string | null;
   is_active: boolean;
+  wheelchair_equipped: boolean;
+  lift_installed: boolean;
+  seating_capacity: number | null;
+  out_of_service: boolean;
+  out_of_service_reason: string | null;
+  out_of_service_at: string | null;
+  registration_expires_on: string | null;
+  insurance_expires_on: string | null;
+  state_inspection_expires_on: string | null;
+  seven_d_inspection_expires_on: string | null;
   created_at: string;
 };
 
+type AdminPermission =
+  | "operations:read"
+  | "operations:write"
+  | "timecards:read"
+  | "admins:manage";
+
+type AdminSession = {
+  adminId: string;
+  email: string | null;
+  fullName: string;
+  role: "owner" | "dispatcher" | "payroll" | "read_only";
+  permissions: AdminPermission[];
+};
+
+const ROLE_LABELS: Record<AdminSession["role"], string> = {
+  owner: "Owner",
+  dispatcher: "Dispatcher",
+  payroll: "Payroll",
+  read_only: "Read-only",
+};
+
 type AdminTab =
   | "dashboard"
   | "inspections"
+  | "reviews"
+  | "missing"
+  | "analytics"
+  | "defects"
   | "vehicles"
   | "drivers"
   | "students"
@@ -54,11 +99,18 @@ type AdminTab =
   | "routes"
   | "timecards"
   | "households"
-  | "attendance";
+  | "attendance"
+  | "checklists"
+  | "integrity"
+  | "admins";
 
 const ADMIN_TABS: AdminTab[] = [
   "dashboard",
   "inspections",
+  "reviews",
+  "missing",
+  "analytics",
+  "defects",
   "vehicles",
   "drivers",
   "students",
@@ -67,6 +119,30 @@ const ADMIN_TABS: AdminTab[] = [
   "timecards",
   "households",
   "attendance",
+  "checklists",
+  "integrity",
+  "admins",
+];
+
+// Tabs are only shown to roles that can read their data; the API enforces the same rules
+const TAB_DEFINITIONS: { id: AdminTab; label: string; permission: AdminPermission }[] = [
+  { id: "dashboard", label: "Dashboard", permission: "operations:read" },
+  { id: "inspections", label: "Inspections", permission: "operations:read" },
+  { id: "reviews", label: "Review Queue", permission: "operations:read" },
+  { id: "missing", label: "Missing Inspections", permission: "operations:read" },
+  { id: "analytics", label: "Analytics", permission: "operations:read" },
+  { id: "defects", label: "Defects", permission: "operations:read" },
+  { id: "vehicles", label: "Vehicles", permission: "operations:read" },
+  { id: "drivers", label: "Drivers", permission: "operations:read" },
+  { id: "students", label: "Students", permission: "operations:read" },
+  { id: "schools", label: "Schools", permission: "operations:read" },
+  { id: "routes", label: "Routes", permission: "operations:read" },
+  { id: "timecards", label: "Timecards", permission: "timecards:read" },
+  { id: "households", label: "Households", permission: "operations:read" },
+  { id: "attendance", label: "Attendance", permission: "operations:read" },
+  { id: "checklists", label: "Checklists", permission: "operations:read" },
+  { id: "integrity", label: "Integrity", permission: "operations:read" },
+  { id: "admins", label: "Admin Users", permission: "admins:manage" },
 ];
 
 function isValidAdminTab(value: any): value is AdminTab {
@@ -80,8 +156,12 @@ function isValidAdminTab(value: any): value is AdminTab {
 export default function AdminPage() {
   const router = useRouter();
 
+  const [emailInput, setEmailInput] = useState("");
+  const [passwordInput, setPasswordInput] = useState("");
   const [accessCodeInput, setAccessCodeInput] = useState("");
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [showSetupLogin, setShowSetupLogin] = useState(false);
+  const [adminSession, setAdminSession] = useState<AdminSession | null>(null);
+  const isAuthenticated = adminSession !== null;
   const [activeTab, setActiveTab] = useState<AdminTab>("dashboard");
 
   const [drivers, setDrivers] = useState<Driver[]>([]);
@@ -129,12 +209,24 @@ export default function AdminPage() {
 
   // ---------------- AUTH RESTORE ----------------
 
+  const loadAdminSession = async (): Promise<boolean> => {
+    try {
+      const res = await fetch("/api/auth/admin-session");
+      if (!res.ok) throw new Error("Not signed in");
+      const body = await res.json();
+      setAdminSession(body.session as AdminSession);
+      window.localStorage.setItem("transafe_admin_unlocked", "true");
+      return true;
+    } catch {
+      setAdminSession(null);
+      window.localStorage.removeItem("transafe_admin_unlocked");
+      return false;
+    }
+  };
+
   useEffect(() => {
     if (typeof window === "undefined") return;
-    const stored = window.localStorage.getItem("transafe_admin_unlocked");
-    if (stored === "true") {
-      setIsAuthenticated(true);
-    }
+    void loadAdminSession();
   }, []);
 
   // ---------------- LOAD DRIVERS & VEHICLES WHEN AUTHED ----------------
@@ -173,36 +265,50 @@ export default function AdminPage() {
 
   // ---------------- AUTH HANDLERS ----------------
 
-  const handleAccess = async () => {
+  const handleLogin = async () => {
     try {
       const res = await fetch("/api/auth/admin-login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ accessCode: accessCodeInput.trim() }),
+        body: JSON.stringify(
+          showSetupLogin
+            ? { accessCode: accessCodeInput.trim() }
+            : { email: emailInput.trim(), password: passwordInput }
+        ),
       });
 
       if (!res.ok) {
         const body = await res.json();
-        setError(body.error || "Invalid admin access code.");
+        setError(body.error || "Sign in failed.");
         return;
       }
 
-      setIsAuthenticated(true);
-      setError(null);
-      if (typeof window !== "undefined") {
-        window.localStorage.setItem("transafe_admin_unlocked", "true");
+      setPasswordInput("");
+      setAccessCodeInput("");
+      if (await loadAdminSession()) {
+        setError(null);
+      } else {
+        setError("Signed in, but the session could not be confirmed. Please try again.");
       }
-    } catch (err: any) {
-      setError("Failed to validate access code. Please try again.");
+    } catch {
+      setError("Failed to sign in. Please try again.");
     }
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await fetch("/api/auth/admin-session", { method: "DELETE" });
+    } catch (err) {
+      console.error("Failed to clear admin session", err);
+    }
+
     if (typeof window !== "undefined") {
       window.localStorage.removeItem("transafe_admin_unlocked");
     }
 
-    setIsAuthenticated(false);
+    setAdminSession(null);
+    setEmailInput("");
+    setPasswordInput("");
     setAccessCodeInput("");
     setDrivers([]);
     setVehicles([]);
@@ -212,6 +318,9 @@ export default function AdminPage() {
     router.push("/");
   };
 
+  const inputClass =
+    "w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2";
+
   // ---------------- AUTH SCREEN ----------------
 
   if (!isAuthenticated) {
@@ -220,31 +329,78 @@ export default function AdminPage() {
         <section className="card">
           <h1 className="mb-2 text-xl font-semibold">Admin Portal</h1>
           <p className="text-sm text-slate-200/80">
-            Enter the Transafe admin access code to manage drivers, vehicles,
-            inspection records, students, and timecards.
+            Sign in with your Transafe admin account to manage drivers,
+            vehicles, inspection records, students, and timecards.
           </p>
         </section>
 
         <section className="card space-y-3">
-          <label className="block text-sm font-medium text-slate-100">
-            Admin access code
-          </label>
-          <input
-            type="password"
-            value={accessCodeInput}
-            onChange={(e) => setAccessCodeInput(e.target.value)}
-            className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
-            placeholder="Enter access code"
-            onKeyDown={(e) => {
-              if (e.key === "Enter") handleAccess();
-            }}
-          />
+          {showSetupLogin ? (
+            <>
+              <label className="block text-sm font-medium text-slate-100">
+                Setup access code
+              </label>
+              <input
+                type="password"
+                value={accessCodeInput}
+                onChange={(e) => setAccessCodeInput(e.target.value)}
+                className={inputClass}
+                placeholder="Enter access code"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleLogin();
+                }}
+              />
+              <p className="text-[11px] text-slate-400">
+                Only works until the first admin account is created.
+              </p>
+            </>
+          ) : (
+            <>
+              <label className="block text-sm font-medium text-slate-100">
+                Email
+              </label>
+              <input
+                type="email"
+                autoComplete="username"
+                value={emailInput}
+                onChange={(e) => setEmailInput(e.target.value)}
+                className={inputClass}
+                placeholder="you@transafe.com"
+              />
+              <label className="block text-sm font-medium text-slate-100">
+                Password
+              </label>
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={passwordInput}
+                onChange={(e) => setPasswordInput(e.target.value)}
+                className={inputClass}
+                placeholder="Enter password"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleLogin();
+                }}
+              />
+            </>
+          )}
           <button
             type="button"
-            onClick={handleAccess}
+            onClick={handleLogin}
             className="btn-primary mt-1 w-full"
           >
-            Unlock Admin Portal
+            {showSetupLogin ? "Start First-Time Setup" : "Sign In"}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setShowSetupLogin((prev) => !prev);
+              setError(null);
+            }}
+            className="w-full text-center text-[11px] text-slate-400 underline-offset-2 hover:underline"
+          >
+            {showSetupLogin
+              ? "Back to admin sign in"
+              : "First-time setup with the access code"}
           </button>
           {error && (
             <p className="text-xs font-medium text-red-400">{error}</p>
@@ -256,6 +412,11 @@ export default function AdminPage() {
 
   // ---------------- MAIN ADMIN UI ----------------
 
+  const visibleTabs = TAB_DEFINITIONS.filter((tab) =>
+    adminSession.permissions.includes(tab.permission)
+  );
+  const canSeeActiveTab = visibleTabs.some((tab) => tab.id === activeTab);
+
   return (
     <div className="space-y-4">
       {/* Header */}
@@ -278,7 +439,7 @@ export default function AdminPage() {
           </div>
           <div className="flex items-center gap-2">
             <span className="rounded-full bg-emerald-500/10 px-3 py-1 text-[11px] font-medium text-emerald-200">
-              Admin unlocked
+              {adminSession.fullName} · {ROLE_LABELS[adminSession.role]}
             </span>
             <button
               type="button"
@@ -291,6 +452,17 @@ export default function AdminPage() {
         </div>
       </section>
 
+      {adminSession.adminId === "bootstrap" && (
+        <section className="card border border-amber-500/50 bg-amber-950/40">
+          <p className="text-xs font-medium text-amber-100">
+            First-time setup: create an Owner account under{" "}
+            <span className="font-semibold">Admin Users</span>, then sign in
+            with it. The shared access code stops working once an account
+            exists.
+          </p>
+        </section>
+      )}
+
       {error && (
         <section className="card border border-red-500/50 bg-red-950/40">
           <p className="text-xs font-medium text-red-200">{error}</p>
@@ -299,20 +471,7 @@ export default function AdminPage() {
 
       {/* Tab navigation */}
       <section className="card flex flex-wrap gap-2">
-        {(
-          [
-            { id: "dashboard", label: "Dashboard" },
-            { id: "inspections", label: "Inspections" },
-            { id: "vehicles", label: "Vehicles" },
-            { id: "drivers", label: "Drivers" },
-            { id: "students", label: "Students" },
-            { id: "schools", label: "Schools" },
-            { id: "routes", label: "Routes" },
-            { id: "timecards", label: "Timecards" },
-            { id: "households", label: "Households" },
-            { id: "attendance", label: "Attendance" },
-          ] as { id: AdminTab; label: string }[]
-        ).map((tab) => (
+        {visibleTabs.map((tab) => (
           <button
             key={tab.id}
             type="button"
@@ -329,20 +488,49 @@ export default function AdminPage() {
       </section>
 
       {/* Tab content */}
-      {activeTab === "dashboard" && <AdminDashboardTab />}
-      {activeTab === "drivers" && (
+      {!canSeeActiveTab && (
+        <section className="card">
+          <p className="text-sm text-slate-200">
+            Your admin role does not have access to this section.
+          </p>
+        </section>
+      )}
+      {canSeeActiveTab && activeTab === "dashboard" && (
+        <AdminDashboardTab canEdit={adminSession.permissions.includes("operations:write")} />
+      )}
+      {canSeeActiveTab && activeTab === "drivers" && (
         <DriversTab drivers={drivers} setDrivers={setDrivers} />
       )}
-      {activeTab === "routes" && <RoutesTab />}
-      {activeTab === "vehicles" && (
+      {canSeeActiveTab && activeTab === "routes" && <RoutesTab />}
+      {canSeeActiveTab && activeTab === "vehicles" && (
         <VehiclesTab vehicles={vehicles} setVehicles={setVehicles} />
       )}
-      {activeTab === "inspections" && <InspectionsTab />}
-      {activeTab === "students" && <StudentsTab />}
-      {activeTab === "schools" && <SchoolsTab />}
-      {activeTab === "timecards" && <TimecardsTab drivers={drivers} />}
-      {activeTab === "households" && <HouseholdsTab />}
-      {activeTab === "attendance" && <AttendanceTab />}
+      {canSeeActiveTab && activeTab === "inspections" && (
+        <InspectionsTab vehicles={vehicles} drivers={drivers} />
+      )}
+      {canSeeActiveTab && activeTab === "reviews" && (
+        <ReviewQueueTab canEdit={adminSession.permissions.includes("operations:write")} />
+      )}
+      {canSeeActiveTab && activeTab === "missing" && <MissingInspectionsTab />}
+      {canSeeActiveTab && activeTab === "analytics" && <AnalyticsTab />}
+      {canSeeActiveTab && activeTab === "defects" && (
+        <DefectsTab canEdit={adminSession.permissions.includes("operations:write")} />
+      )}
+      {canSeeActiveTab && activeTab === "students" && <StudentsTab />}
+      {canSeeActiveTab && activeTab === "schools" && <SchoolsTab />}
+      {canSeeActiveTab && activeTab === "timecards" && <TimecardsTab drivers={drivers} />}
+      {canSeeActiveTab && activeTab === "households" && <HouseholdsTab />}
+      {canSeeActiveTab && activeTab === "attendance" && <AttendanceTab />}
+      {canSeeActiveTab && activeTab === "integrity" && <IntegrityTab />}
+      {canSeeActiveTab && activeTab === "checklists" && (
+        <ChecklistsTab
+          canEdit={adminSession.permissions.includes("operations:write")}
+        />
+      )}
+
+      {canSeeActiveTab && activeTab === "admins" && (
+        <AdminUsersTab currentAdminId={adminSession.adminId} />
+      )}
     </div>
   );
 }
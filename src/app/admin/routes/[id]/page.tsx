@@ -3,6 +3,10 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useParams } from "next/navigation";
+import {
+  expiredComplianceItems,
+  type VehicleComplianceDates,
+} from "@/lib/vehicles/compliance";
 
 type Direction = "AM" | "MIDDAY" | "PM";
 
@@ -62,7 +66,7 @@ type DriverOption = {
   is_active: boolean;
 };
 
-type VehicleOption = {
+type VehicleOption = VehicleComplianceDates & {
   id: string;
   label: string;
   is_active: boolean;
@@ -1518,12 +1522,20 @@ if (!stopsRes.error && stopsRes.stops) {
                       className="w-full rounded-xl border border-white/15 bg-slate-900 px-2 py-1 text-[11px] text-slate-100 outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500/60"
                     >
                       <option value="">No vehicle</option>
-                      {vehicles.map((v) => (
-                        <option key={v.id} value={v.id}>
-                          {v.label}
-                          {!v.is_active ? " (inactive)" : ""}
-                        </option>
-                      ))}
+                      {vehicles.map((v) => {
+                        const expired = expiredComplianceItems(v);
+                        return (
+                          <option
+                            key={v.id}
+                            value={v.id}
+                            disabled={expired.length > 0 && v.id !== row.vehicle_id}
+                          >
+                            {v.label}
+                            {!v.is_active ? " (inactive)" : ""}
+                            {expired.length > 0 ? ` (expired: ${expired.join(", ")})` : ""}
+                          </option>
+                        );
+                      })}
                     </select>
                   </td>
                 </tr>
@@ -4,6 +4,7 @@
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
+import { SHIFTS, isShift, type Shift } from "@/lib/inspections/shifts";
 
 type TimeEntry = {
   id: string;
@@ -12,14 +13,28 @@ type TimeEntry = {
   start_time: string;
   end_time: string | null;
   duration_seconds: number | null;
+  shift: string | null;
 };
 
+// Entries clocked before shifts were recorded have no shift
+type TimecardCategory = Shift | "Unassigned";
+
+const TIMECARD_CATEGORIES: TimecardCategory[] = [...SHIFTS, "Unassigned"];
+
 type Driver = {
   id: string;
   full_name: string;
   license_number: string | null;
 };
 
+type TimecardSignature = {
+  signature_image: string;
+  signed_at: string;
+  device: string | null;
+  entries_hash: string;
+  total_seconds: number;
+};
+
 type DaySummary = {
   date: string;
   entries: TimeEntry[];
@@ -98,6 +113,8 @@ export default function AdminDriverTimecardDetailPage() {
 
   const [driver, setDriver] = useState<Driver | null>(null);
   const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [signature, setSignature] = useState<TimecardSignature | null>(null);
+  const [entriesMatch, setEntriesMatch] = useState<boolean | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -120,6 +137,8 @@ export default function AdminDriverTimecardDetailPage() {
 
         setDriver((json.driver as Driver) || null);
         setEntries((json.entries as TimeEntry[]) || []);
+        setSignature((json.signature as TimecardSignature | null) ?? null);
+        setEntriesMatch((json.entries_match_signature as boolean | null) ?? null);
       } catch (err: any) {
         console.error(err);
         setError(
@@ -213,6 +232,31 @@ export default function AdminDriverTimecardDetailPage() {
     [daySummaries],
   );
 
+  // Week hours split by the shift each session was clocked for
+  const shiftTotals = useMemo(() => {
+    const totals: Partial<Record<TimecardCategory, number>> = {};
+    const now = Date.now();
+    for (const entry of entries) {
+      const seconds = entry.end_time
+        ? entry.duration_seconds ??
+          Math.max(
+            0,
+            Math.floor(
+              (new Date(entry.end_time).getTime() -
+                new Date(entry.start_time).getTime()) /
+                1000,
+            ),
+          )
+        : Math.max(0, Math.floor((now - new Date(entry.start_time).getTime()) / 1000));
+      const category = isShift(entry.shift) ? entry.shift : "Unassigned";
+      totals[category] = (totals[category] ?? 0) + seconds;
+    }
+    return TIMECARD_CATEGORIES.filter((c) => totals[c]).map((c) => ({
+      category: c,
+      seconds: totals[c] ?? 0,
+    }));
+  }, [entries]);
+
   const weekLabel = useMemo(
     () => (weekStartYmd ? formatWeekRangeLabelFromYMD(weekStartYmd) : ""),
     [weekStartYmd],
@@ -255,6 +299,20 @@ export default function AdminDriverTimecardDetailPage() {
               {formatDuration(weekTotalSeconds)}
             </span>
           </p>
+          {shiftTotals.length > 0 && (
+            <p className="text-xs text-slate-400">
+              By shift:{" "}
+              {shiftTotals.map(({ category, seconds }, i) => (
+                <span key={category}>
+                  {i > 0 && " · "}
+                  {category}{" "}
+                  <span className="font-mono text-slate-100">
+                    {formatDuration(seconds)}
+                  </span>
+                </span>
+              ))}
+            </p>
+          )}
         </div>
 
         <div className="flex flex-col items-stretch gap-2 md:items-end">
@@ -354,6 +412,14 @@ export default function AdminDriverTimecardDetailPage() {
                       className="flex flex-col gap-1 rounded-lg border border-white/5 bg-slate-900/80 px-2 py-2 text-xs sm:flex-row sm:items-center sm:justify-between sm:gap-3"
                     >
                       <div className="flex gap-4">
+                        <div>
+                          <p className="text-[10px] uppercase tracking-[0.16em] text-slate-400">
+                            Shift
+                          </p>
+                          <p className="text-[13px] text-slate-50">
+                            {isShift(entry.shift) ? entry.shift : "—"}
+                          </p>
+                        </div>
                         <div>
                           <p className="text-[10px] uppercase tracking-[0.16em] text-slate-400">
                             Start
@@ -396,6 +462,43 @@ export default function AdminDriverTimecardDetailPage() {
         ))}
       </section>
 
+      {/* Driver signature */}
+      {!loading && (
+        <section className="card space-y-2">
+          <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+            Driver signature
+          </h2>
+          {signature ? (
+            <>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={signature.signature_image}
+                alt="Driver timecard signature"
+                className="h-20 w-auto rounded bg-slate-100 px-2"
+              />
+              <div className="space-y-0.5 text-[11px] text-slate-400">
+                <p>
+                  Signed {new Date(signature.signed_at).toLocaleString()} for{" "}
+                  <span className="font-mono">{formatDuration(signature.total_seconds)}</span>
+                </p>
+                {signature.device && <p>Device: {signature.device}</p>}
+                <p className="break-all">Entries SHA-256: {signature.entries_hash}</p>
+              </div>
+              {entriesMatch === false && (
+                <p className="text-[11px] font-semibold text-amber-300">
+                  Time entries changed after the driver signed. The signature
+                  no longer covers the hours shown.
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-[11px] text-slate-400">
+              The driver has not signed this week&apos;s timecard.
+            </p>
+          )}
+        </section>
+      )}
+
       {/* Hint footer */}
       <section className="card">
         <p className="text-[11px] text-slate-400">
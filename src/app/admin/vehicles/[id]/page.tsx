@@ -3,6 +3,8 @@
 import { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
+import { COMPLIANCE_ITEMS, type VehicleComplianceDates } from "@/lib/vehicles/compliance";
+import MileageLedger from "../../_components/MileageLedger";
 
 type Vehicle = {
   id: string;
@@ -13,6 +15,16 @@ type Vehicle = {
   plate: string | null;
   vin: string | null;
   is_active: boolean;
+  wheelchair_equipped: boolean;
+  lift_installed: boolean;
+  seating_capacity: number | null;
+  out_of_service: boolean;
+  out_of_service_reason: string | null;
+  out_of_service_at: string | null;
+  registration_expires_on: string | null;
+  insurance_expires_on: string | null;
+  state_inspection_expires_on: string | null;
+  seven_d_inspection_expires_on: string | null;
   created_at: string;
 };
 
@@ -34,6 +46,15 @@ export default function VehicleDetailPage() {
   const [plate, setPlate] = useState("");
   const [vin, setVin] = useState("");
   const [isActive, setIsActive] = useState(true);
+  const [wheelchairEquipped, setWheelchairEquipped] = useState(false);
+  const [liftInstalled, setLiftInstalled] = useState(false);
+  const [seatingCapacity, setSeatingCapacity] = useState("");
+  const [complianceDates, setComplianceDates] = useState<VehicleComplianceDates>({
+    registration_expires_on: null,
+    insurance_expires_on: null,
+    state_inspection_expires_on: null,
+    seven_d_inspection_expires_on: null,
+  });
 
   // ---------------------------------------
   //  AUTH GUARD (simple – reuse admin flag)
@@ -76,6 +97,15 @@ export default function VehicleDetailPage() {
         setPlate(v.plate ?? "");
         setVin(v.vin ?? "");
         setIsActive(v.is_active);
+        setWheelchairEquipped(v.wheelchair_equipped);
+        setLiftInstalled(v.lift_installed);
+        setSeatingCapacity(v.seating_capacity != null ? String(v.seating_capacity) : "");
+        setComplianceDates({
+          registration_expires_on: v.registration_expires_on,
+          insurance_expires_on: v.insurance_expires_on,
+          state_inspection_expires_on: v.state_inspection_expires_on,
+          seven_d_inspection_expires_on: v.seven_d_inspection_expires_on,
+        });
       } catch (err: any) {
         console.error("Error loading vehicle:", err);
         setError(err?.message ?? "Failed to load vehicle.");
@@ -105,6 +135,10 @@ export default function VehicleDetailPage() {
         plate: plate.trim() || null,
         vin: vin.trim() || null,
         is_active: isActive,
+        wheelchair_equipped: wheelchairEquipped,
+        lift_installed: liftInstalled,
+        seating_capacity: seatingCapacity ? Number(seatingCapacity) : null,
+        ...complianceDates,
       };
 
       const res = await fetch("/api/admin/vehicles", {
@@ -128,6 +162,58 @@ export default function VehicleDetailPage() {
     }
   };
 
+  // ---------------------------------------
+  //  OUT OF SERVICE
+  // ---------------------------------------
+  const handleTakeOutOfService = async () => {
+    if (!vehicle) return;
+    const reason = window.prompt(`Why is "${vehicle.label}" being taken out of service?`);
+    if (!reason?.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/vehicle-service", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ vehicleId: vehicle.id, reason }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to update vehicle.");
+      setVehicle(json.vehicle as Vehicle);
+    } catch (err) {
+      console.error("Error taking vehicle out of service:", err);
+      setError(err instanceof Error ? err.message : "Failed to update vehicle.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReturnToService = async () => {
+    if (!vehicle) return;
+    const note = window.prompt(
+      `Return "${vehicle.label}" to service? Add a note (e.g. what was repaired):`
+    );
+    if (note === null) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/admin/vehicle-service?vehicleId=${vehicle.id}&note=${encodeURIComponent(note)}`,
+        { method: "DELETE" }
+      );
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to update vehicle.");
+      setVehicle(json.vehicle as Vehicle);
+    } catch (err) {
+      console.error("Error returning vehicle to service:", err);
+      setError(err instanceof Error ? err.message : "Failed to update vehicle.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // ---------------------------------------
   //  DELETE VEHICLE
   // ---------------------------------------
@@ -277,6 +363,44 @@ export default function VehicleDetailPage() {
         </div>
       </section>
 
+      {/* Service status */}
+      {vehicle.out_of_service ? (
+        <section className="card flex flex-col gap-2 border border-red-500/60 bg-red-950/40 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-0.5">
+            <p className="text-sm font-semibold text-red-100">Out of service</p>
+            <p className="text-[11px] text-red-200">
+              {vehicle.out_of_service_reason ?? "No reason recorded"}
+              {vehicle.out_of_service_at &&
+                ` · since ${new Date(vehicle.out_of_service_at).toLocaleString()}`}
+            </p>
+            <p className="text-[11px] text-slate-300">
+              Drivers can&apos;t select this vehicle and its routes are hidden
+              from the Driver Portal.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleReturnToService}
+            className="btn-primary px-4 py-2 text-xs font-semibold"
+            disabled={saving}
+          >
+            Return to service
+          </button>
+        </section>
+      ) : (
+        <section className="card flex flex-wrap items-center justify-between gap-2">
+          <p className="text-[11px] text-slate-300">In service</p>
+          <button
+            type="button"
+            onClick={handleTakeOutOfService}
+            className="btn-ghost px-3 py-1 text-[11px] text-rose-300 hover:text-rose-200"
+            disabled={saving}
+          >
+            Take out of service
+          </button>
+        </section>
+      )}
+
       {error && (
         <section className="card border border-rose-500/50 bg-rose-950/40">
           <p className="text-xs font-medium text-rose-200">{error}</p>
@@ -375,6 +499,73 @@ export default function VehicleDetailPage() {
           </div>
         </div>
 
+        {/* Compliance – expired vehicles can't be assigned to routes */}
+        <div className="space-y-2">
+          <h3 className="text-[11px] font-semibold uppercase tracking-[0.16em] text-slate-300">
+            Compliance expiry dates
+          </h3>
+          <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-4">
+            {COMPLIANCE_ITEMS.map((item) => (
+              <label key={item.field} className="space-y-1">
+                <span className="text-[11px] font-medium text-slate-200">{item.label}</span>
+                <input
+                  type="date"
+                  value={complianceDates[item.field] ?? ""}
+                  onChange={(e) =>
+                    setComplianceDates((prev) => ({ ...prev, [item.field]: e.target.value || null }))
+                  }
+                  className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-400">
+            A vehicle can&apos;t be assigned to a route once any of these dates has passed.
+          </p>
+        </div>
+
+        {/* Equipment – decides which checklist items apply */}
+        <div className="space-y-2">
+          <h3 className="text-[11px] font-semibold uppercase tracking-[0.16em] text-slate-300">
+            Equipment
+          </h3>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="inline-flex items-center gap-2 text-xs text-slate-200">
+              <input
+                type="checkbox"
+                checked={wheelchairEquipped}
+                onChange={(e) => setWheelchairEquipped(e.target.checked)}
+                className="h-4 w-4 rounded border-slate-500 bg-slate-900 text-emerald-500"
+              />
+              Wheelchair equipped
+            </label>
+            <label className="inline-flex items-center gap-2 text-xs text-slate-200">
+              <input
+                type="checkbox"
+                checked={liftInstalled}
+                onChange={(e) => setLiftInstalled(e.target.checked)}
+                className="h-4 w-4 rounded border-slate-500 bg-slate-900 text-emerald-500"
+              />
+              Wheelchair lift installed
+            </label>
+            <label className="inline-flex items-center gap-2 text-xs text-slate-200">
+              Seating capacity
+              <input
+                type="number"
+                min={1}
+                value={seatingCapacity}
+                onChange={(e) => setSeatingCapacity(e.target.value)}
+                className="w-20 rounded-xl border border-white/15 bg-slate-900 px-3 py-1.5 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+                placeholder="7"
+              />
+            </label>
+          </div>
+          <p className="text-[11px] text-slate-400">
+            Drivers only see equipment-specific checklist items (fire blanket,
+            lift, child reminder system) on vehicles they apply to.
+          </p>
+        </div>
+
         <div className="flex flex-wrap items-center gap-3">
           <label className="inline-flex items-center gap-2 text-xs text-slate-200">
             <input
@@ -406,6 +597,8 @@ export default function VehicleDetailPage() {
           </button>
         </div>
       </section>
+
+      <MileageLedger vehicleId={vehicleId} />
     </div>
   );
 }
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { COMPLIANCE_ITEMS, type VehicleComplianceDates } from "@/lib/vehicles/compliance";
 
 export default function NewVehiclePage() {
   const router = useRouter();
@@ -14,6 +15,15 @@ export default function NewVehiclePage() {
   const [plate, setPlate] = useState("");
   const [vin, setVin] = useState("");
   const [isActive, setIsActive] = useState(true);
+  const [wheelchairEquipped, setWheelchairEquipped] = useState(false);
+  const [liftInstalled, setLiftInstalled] = useState(false);
+  const [seatingCapacity, setSeatingCapacity] = useState("");
+  const [complianceDates, setComplianceDates] = useState<VehicleComplianceDates>({
+    registration_expires_on: null,
+    insurance_expires_on: null,
+    state_inspection_expires_on: null,
+    seven_d_inspection_expires_on: null,
+  });
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -38,6 +48,10 @@ export default function NewVehiclePage() {
         plate: plate.trim() || null,
         vin: vin.trim() || null,
         is_active: isActive,
+        wheelchair_equipped: wheelchairEquipped,
+        lift_installed: liftInstalled,
+        seating_capacity: seatingCapacity ? Number(seatingCapacity) : null,
+        ...complianceDates,
       };
 
       const res = await fetch("/api/admin/vehicles", {
@@ -175,6 +189,69 @@ export default function NewVehiclePage() {
             </div>
           </div>
 
+          {/* Compliance – expired vehicles can't be assigned to routes */}
+          <div className="space-y-2">
+            <p className="text-[11px] font-medium text-slate-300">Compliance expiry dates</p>
+            <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-4">
+              {COMPLIANCE_ITEMS.map((item) => (
+                <label key={item.field} className="space-y-1">
+                  <span className="text-[11px] font-medium text-slate-200">{item.label}</span>
+                  <input
+                    type="date"
+                    value={complianceDates[item.field] ?? ""}
+                    onChange={(e) =>
+                      setComplianceDates((prev) => ({ ...prev, [item.field]: e.target.value || null }))
+                    }
+                    className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-[11px] text-slate-400">
+              A vehicle can&apos;t be assigned to a route once any of these dates has passed.
+            </p>
+          </div>
+
+          {/* Equipment – decides which checklist items apply */}
+          <div className="space-y-2">
+            <p className="text-[11px] font-medium text-slate-300">Equipment</p>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="inline-flex items-center gap-2 text-xs text-slate-200">
+                <input
+                  type="checkbox"
+                  checked={wheelchairEquipped}
+                  onChange={(e) => setWheelchairEquipped(e.target.checked)}
+                  className="h-4 w-4 rounded border-slate-500 bg-slate-900 text-emerald-500"
+                />
+                Wheelchair equipped
+              </label>
+              <label className="inline-flex items-center gap-2 text-xs text-slate-200">
+                <input
+                  type="checkbox"
+                  checked={liftInstalled}
+                  onChange={(e) => setLiftInstalled(e.target.checked)}
+                  className="h-4 w-4 rounded border-slate-500 bg-slate-900 text-emerald-500"
+                />
+                Wheelchair lift installed
+              </label>
+              <label className="inline-flex items-center gap-2 text-xs text-slate-200">
+                Seating capacity
+                <input
+                  type="number"
+                  min={1}
+                  value={seatingCapacity}
+                  onChange={(e) => setSeatingCapacity(e.target.value)}
+                  className="w-20 rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+                  placeholder="7"
+                />
+              </label>
+            </div>
+            <p className="text-[11px] text-slate-400">
+              Drivers only see equipment-specific checklist items (fire blanket,
+              lift, child reminder system) on vehicles they apply to.
+            </p>
+          </div>
+
           <div className="flex items-center gap-2 pt-2">
             <button
               type="button"
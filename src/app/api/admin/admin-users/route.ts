@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { hashSecret } from "@/lib/auth/password";
+import { BOOTSTRAP_ADMIN_ID, isAdminRole, requireAdmin } from "@/lib/auth/adminSession";
+
+// Never send password hashes back to the browser
+const ADMIN_USER_COLUMNS = "id, email, full_name, role, is_active, last_login_at, created_at";
+
+const MIN_PASSWORD_LENGTH = 10;
+
+function validatePassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  return null;
+}
+
+/**
+ * Refuses changes that would leave nobody able to manage admin accounts.
+ */
+async function wouldRemoveLastOwner(id: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("admin_users")
+    .select("id")
+    .eq("role", "owner")
+    .eq("is_active", true);
+  if (error) throw error;
+  const owners = data ?? [];
+  return owners.length === 1 && owners[0].id === id;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "admins:manage");
+    if (admin instanceof NextResponse) return admin;
+
+    const { data, error } = await supabaseAdmin
+      .from("admin_users")
+      .select(ADMIN_USER_COLUMNS)
+      .order("full_name", { ascending: true });
+    if (error) throw error;
+    return NextResponse.json({ adminUsers: data });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "admins:manage");
+    if (admin instanceof NextResponse) return admin;
+
+    const { email, full_name, role, password } = await req.json();
+
+    if (typeof email !== "string" || !email.trim() || typeof full_name !== "string" || !full_name.trim()) {
+      return NextResponse.json({ error: "Name and email are required." }, { status: 400 });
+    }
+    if (!isAdminRole(role)) {
+      return NextResponse.json({ error: "Invalid role." }, { status: 400 });
+    }
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    // The setup session ends once any account exists, so the first one must be able to manage the rest
+    if (admin.adminId === BOOTSTRAP_ADMIN_ID && role !== "owner") {
+      return NextResponse.json(
+        { error: "The first admin account must be an Owner." },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("admin_users")
+      .insert({
+        email: email.trim().toLowerCase(),
+        full_name: full_name.trim(),
+        role,
+        password_hash: await hashSecret(password),
+        is_active: true,
+      })
+      .select(ADMIN_USER_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { error: "An admin with that email already exists." },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+    return NextResponse.json({ adminUser: data });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "admins:manage");
+    if (admin instanceof NextResponse) return admin;
+
+    const { id, full_name, role, is_active, password } = await req.json();
+    if (!id) return NextResponse.json({ error: "Missing admin id" }, { status: 400 });
+
+    const fields: Record<string, unknown> = {};
+
+    if (full_name !== undefined) {
+      if (typeof full_name !== "string" || !full_name.trim()) {
+        return NextResponse.json({ error: "Name is required." }, { status: 400 });
+      }
+      fields.full_name = full_name.trim();
+    }
+
+    if (role !== undefined) {
+      if (!isAdminRole(role)) {
+        return NextResponse.json({ error: "Invalid role." }, { status: 400 });
+      }
+      fields.role = role;
+    }
+
+    if (is_active !== undefined) {
+      fields.is_active = Boolean(is_active);
+    }
+
+    if (password !== undefined) {
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        return NextResponse.json({ error: passwordError }, { status: 400 });
+      }
+      fields.password_hash = await hashSecret(password);
+    }
+
+    const demotesOwner =
+      (fields.role !== undefined && fields.role !== "owner") || fields.is_active === false;
+    if (demotesOwner && (await wouldRemoveLastOwner(id))) {
+      return NextResponse.json(
+        { error: "At least one active owner account is required." },
+        { status: 409 }
+      );
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("admin_users")
+      .update(fields)
+      .eq("id", id)
+      .select(ADMIN_USER_COLUMNS)
+      .single();
+    if (error) throw error;
+    return NextResponse.json({ adminUser: data });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "admins:manage");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing admin id" }, { status: 400 });
+
+    if (id === admin.adminId) {
+      return NextResponse.json(
+        { error: "You cannot delete your own admin account." },
+        { status: 409 }
+      );
+    }
+    if (await wouldRemoveLastOwner(id)) {
+      return NextResponse.json(
+        { error: "At least one active owner account is required." },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabaseAdmin
+      .from("admin_users")
+      .delete()
+      .eq("id", id);
+    if (error) {
+      // Amendments and review sign-offs name their admin and can never be changed
+      if (error.code === "23503") {
+        return NextResponse.json(
+          {
+            error:
+              "This admin has amended or signed off inspections, so the account can't be deleted. Deactivate it instead.",
+          },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { requireAdmin } from "@/lib/auth/adminSession";
 
 export async function GET(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
     const { searchParams } = new URL(req.url);
     const startDate = searchParams.get("startDate");
     const endDate = searchParams.get("endDate");
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { BOOTSTRAP_ADMIN_ID, requireAdmin } from "@/lib/auth/adminSession";
+import {
+  activateTemplate,
+  getTemplate,
+  isInspectionType,
+  listTemplates,
+  makeItemKey,
+} from "@/lib/inspections/templates";
+import { isItemSeverity } from "@/lib/inspections/status";
+import { parseItemTranslations } from "@/lib/i18n";
+
+type ItemInput = {
+  item_key?: string | null;
+  label?: string;
+  category?: string;
+  severity?: string;
+  requires_wheelchair?: boolean;
+  requires_lift?: boolean;
+  min_vehicle_year?: number | string | null;
+  min_seating_capacity?: number | string | null;
+  translations?: unknown;
+};
+
+// Blank means "no minimum"; anything else must be a positive whole number
+function parseMinimum(value: ItemInput["min_vehicle_year"]): number | null | undefined {
+  if (value == null || value === "") return null;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * GET /api/admin/checklist-templates?type=pre|post
+ * GET /api/admin/checklist-templates?id=...
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get("id");
+    const type = searchParams.get("type");
+
+    if (id) {
+      const template = await getTemplate(id);
+      if (!template) {
+        return NextResponse.json({ error: "Checklist template not found." }, { status: 404 });
+      }
+      return NextResponse.json({ template });
+    }
+
+    const templates = await listTemplates(isInspectionType(type) ? type : undefined);
+    return NextResponse.json({ templates });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/checklist-templates
+ *
+ * Body: { inspection_type, items: [{ item_key?, label, category, translations?, ...applicability }], notes? }
+ *
+ * Publishes the items as the next version and makes it the active checklist.
+ * Items that keep their item_key are the same question across versions; new
+ * items get a fresh key that has never been used by either inspection type.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const { inspection_type, items, notes } = await req.json();
+
+    if (!isInspectionType(inspection_type)) {
+      return NextResponse.json({ error: "Invalid inspection type." }, { status: 400 });
+    }
+    if (!Array.isArray(items) || items.length === 0) {
+      return NextResponse.json(
+        { error: "A checklist needs at least one item." },
+        { status: 400 }
+      );
+    }
+
+    // Exports and analytics have one column per item_key, so new keys must not
+    // collide with the other inspection type's keys either
+    const allTemplates = await listTemplates();
+    const existing = allTemplates.filter((t) => t.inspection_type === inspection_type);
+    const usedKeys = new Set(existing.flatMap((t) => t.items.map((i) => i.item_key)));
+    const allKeys = new Set(allTemplates.flatMap((t) => t.items.map((i) => i.item_key)));
+    const nextVersion = (existing[0]?.version ?? 0) + 1;
+
+    const seenKeys = new Set<string>();
+    const rows = [];
+    for (const [index, raw] of (items as ItemInput[]).entries()) {
+      const label = raw.label?.trim();
+      const category = raw.category?.trim();
+      if (!label || !category) {
+        return NextResponse.json(
+          { error: `Item ${index + 1} needs both a label and a category.` },
+          { status: 400 }
+        );
+      }
+
+      const requestedKey = raw.item_key?.trim();
+      if (requestedKey && !usedKeys.has(requestedKey)) {
+        return NextResponse.json(
+          { error: `Unknown item key "${requestedKey}".` },
+          { status: 400 }
+        );
+      }
+
+      const itemKey = requestedKey || makeItemKey(label, new Set([...allKeys, ...seenKeys]));
+      if (seenKeys.has(itemKey)) {
+        return NextResponse.json(
+          { error: `Item "${label}" appears more than once.` },
+          { status: 400 }
+        );
+      }
+      const minVehicleYear = parseMinimum(raw.min_vehicle_year);
+      const minSeatingCapacity = parseMinimum(raw.min_seating_capacity);
+      if (minVehicleYear === undefined || minSeatingCapacity === undefined) {
+        return NextResponse.json(
+          { error: `Item "${label}" has an invalid minimum year or seating capacity.` },
+          { status: 400 }
+        );
+      }
+      const translations = parseItemTranslations(raw.translations);
+      if (!translations) {
+        return NextResponse.json(
+          { error: `Item "${label}" has invalid translations.` },
+          { status: 400 }
+        );
+      }
+
+      seenKeys.add(itemKey);
+      rows.push({
+        item_key: itemKey,
+        label,
+        category,
+        sort_order: index + 1,
+        severity: isItemSeverity(raw.severity) ? raw.severity : "major",
+        translations,
+        requires_wheelchair: raw.requires_wheelchair === true,
+        requires_lift: raw.requires_lift === true,
+        min_vehicle_year: minVehicleYear,
+        min_seating_capacity: minSeatingCapacity,
+      });
+    }
+
+    const { data: template, error: templateErr } = await supabaseAdmin
+      .from("checklist_templates")
+      .insert({
+        inspection_type,
+        version: nextVersion,
+        is_active: false,
+        notes: typeof notes === "string" && notes.trim() ? notes.trim() : null,
+        created_by: admin.adminId === BOOTSTRAP_ADMIN_ID ? null : admin.adminId,
+      })
+      .select("id")
+      .single();
+    if (templateErr) throw templateErr;
+
+    const { error: itemsErr } = await supabaseAdmin
+      .from("checklist_template_items")
+      .insert(rows.map((row) => ({ ...row, template_id: template.id })));
+    if (itemsErr) {
+      await supabaseAdmin.from("checklist_templates").delete().eq("id", template.id);
+      throw itemsErr;
+    }
+
+    await activateTemplate(template.id, inspection_type);
+
+    return NextResponse.json({ template: await getTemplate(template.id) });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/checklist-templates
+ *
+ * Body: { id }
+ *
+ * Makes an earlier version active again (e.g. to roll back an edit).
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const { id } = await req.json();
+    if (!id) return NextResponse.json({ error: "Missing template id" }, { status: 400 });
+
+    const template = await getTemplate(id);
+    if (!template) {
+      return NextResponse.json({ error: "Checklist template not found." }, { status: 404 });
+    }
+
+    await activateTemplate(template.id, template.inspection_type);
+    return NextResponse.json({ template: { ...template, is_active: true } });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
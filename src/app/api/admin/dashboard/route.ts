@@ -1,8 +1,14 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { listExpiringQualifications } from "@/lib/drivers/qualificationStore";
+import { reviewQueueSummary } from "@/lib/inspections/reviews";
 
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
     const [
       driversRes,
       vehiclesRes,
@@ -36,6 +42,9 @@ export async function GET() {
 
     if (firstError) throw firstError;
 
+    const expiringQualifications = await listExpiringQualifications();
+    const unreviewed = await reviewQueueSummary();
+
     return NextResponse.json({
       counts: {
         drivers: driversRes.count ?? 0,
@@ -57,6 +66,8 @@ export async function GET() {
         submitted_at:
           row.submitted_at ?? row.inspection_date ?? row.date ?? null,
       })),
+      expiringQualifications,
+      unreviewed,
     });
   } catch (err: any) {
     console.error("GET /api/admin/dashboard error:", err);
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import {
+  addDefectEvent,
+  canAdminMoveDefect,
+  isDefectStatus,
+  type VehicleDefect,
+} from "@/lib/inspections/defects";
+
+const DEFECT_COLUMNS = "*, vehicles(label, plate)";
+
+/**
+ * GET /api/admin/defects                    – outstanding (not yet verified) tickets
+ * GET /api/admin/defects?status=all|<status>
+ * GET /api/admin/defects?vehicleId=...
+ * GET /api/admin/defects?id=...             – one ticket with its history
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get("id");
+
+    if (id) {
+      const { data: defect, error } = await supabaseAdmin
+        .from("vehicle_defects")
+        .select(DEFECT_COLUMNS)
+        .eq("id", id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!defect) {
+        return NextResponse.json({ error: "Defect not found." }, { status: 404 });
+      }
+
+      const { data: events, error: eventsErr } = await supabaseAdmin
+        .from("vehicle_defect_events")
+        .select("*")
+        .eq("defect_id", id)
+        .order("created_at", { ascending: true });
+      if (eventsErr) throw eventsErr;
+
+      return NextResponse.json({ defect, events: events ?? [] });
+    }
+
+    const status = searchParams.get("status");
+    const vehicleId = searchParams.get("vehicleId");
+
+    let query = supabaseAdmin
+      .from("vehicle_defects")
+      .select(DEFECT_COLUMNS)
+      .order("created_at", { ascending: false });
+
+    if (isDefectStatus(status)) {
+      query = query.eq("status", status);
+    } else if (status !== "all") {
+      query = query.neq("status", "verified");
+    }
+    if (vehicleId) query = query.eq("vehicle_id", vehicleId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return NextResponse.json({ defects: data ?? [] });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/defects
+ *
+ * Body: { id, status, note?, deferred_until? }
+ *
+ * Moves a ticket along the repair workflow. Deferring needs a reason.
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const { id, status, note, deferred_until } = await req.json();
+    if (!id) return NextResponse.json({ error: "Missing defect id" }, { status: 400 });
+    if (!isDefectStatus(status)) {
+      return NextResponse.json({ error: "Invalid defect status." }, { status: 400 });
+    }
+
+    const trimmedNote = typeof note === "string" ? note.trim() : "";
+    if (status === "deferred" && !trimmedNote) {
+      return NextResponse.json(
+        { error: "Give a reason when deferring a defect." },
+        { status: 400 }
+      );
+    }
+
+    const { data: current, error: currentErr } = await supabaseAdmin
+      .from("vehicle_defects")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+    if (currentErr) throw currentErr;
+    if (!current) {
+      return NextResponse.json({ error: "Defect not found." }, { status: 404 });
+    }
+
+    const defect = current as VehicleDefect;
+    if (!canAdminMoveDefect(defect.status, status)) {
+      return NextResponse.json(
+        { error: `A ${defect.status.replace("_", " ")} defect can't be moved to ${status.replace("_", " ")}.` },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const { data: updated, error } = await supabaseAdmin
+      .from("vehicle_defects")
+      .update({
+        status,
+        deferred_until: status === "deferred" ? deferred_until || null : null,
+        repaired_at: status === "repaired" ? now : null,
+        updated_at: now,
+      })
+      .eq("id", id)
+      .eq("status", defect.status)
+      .select(DEFECT_COLUMNS)
+      .maybeSingle();
+    if (error) throw error;
+    if (!updated) {
+      return NextResponse.json(
+        { error: "This defect was just updated by someone else. Reload and try again." },
+        { status: 409 }
+      );
+    }
+
+    await addDefectEvent({
+      defect_id: id,
+      status,
+      note: trimmedNote || null,
+      actor: admin.fullName,
+    });
+
+    return NextResponse.json({ defect: updated });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
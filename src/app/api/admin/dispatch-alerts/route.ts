@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { getDispatchAlert, listOpenDispatchAlerts, resolveDispatchAlerts } from "@/lib/alerts/dispatch";
+
+/**
+ * GET /api/admin/dispatch-alerts
+ *
+ * Open (unresolved) dispatch alerts, high priority first and then newest first.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    return NextResponse.json({ alerts: await listOpenDispatchAlerts() });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/dispatch-alerts
+ *
+ * Body: { id, note? }
+ *
+ * Marks an alert as handled (e.g. a spare has been assigned). A
+ * child-left-on-vehicle alert needs a note saying how it was resolved.
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const { id, note } = await req.json();
+    if (!id) return NextResponse.json({ error: "Missing alert id" }, { status: 400 });
+
+    const alert = await getDispatchAlert(id);
+    if (alert?.kind === "child_left_on_vehicle" && !(typeof note === "string" && note.trim())) {
+      return NextResponse.json(
+        { error: "Record how every child was accounted for before resolving this alert." },
+        { status: 400 }
+      );
+    }
+
+    const resolved = await resolveDispatchAlerts({ id }, admin.fullName, note);
+    if (resolved === 0) {
+      return NextResponse.json({ error: "Alert not found or already resolved." }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import {
+  clearPinLockout,
+  isValidPin,
+  pinUpdateFields,
+  toPublicDriver,
+} from "@/lib/auth/driverPin";
+
+/**
+ * POST /api/admin/driver-pin
+ *
+ * Body: { driverId, pin }
+ *
+ * Sets or resets a driver's PIN. Also clears any failed attempts and lockout.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const { driverId, pin } = await req.json();
+    if (!driverId) return NextResponse.json({ error: "Missing driver id" }, { status: 400 });
+    if (!isValidPin(pin)) {
+      return NextResponse.json(
+        { error: "PIN must be 4-6 digits (numbers only)." },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("drivers")
+      .update(await pinUpdateFields(pin))
+      .eq("id", driverId)
+      .select()
+      .single();
+    if (error) throw error;
+    return NextResponse.json({ driver: toPublicDriver(data) });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/driver-pin?driverId=...
+ *
+ * Unlocks a driver who was locked out after too many wrong PINs, keeping
+ * their current PIN.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const driverId = searchParams.get("driverId");
+    if (!driverId) return NextResponse.json({ error: "Missing driver id" }, { status: 400 });
+
+    await clearPinLockout(driverId);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { documentResponse, getDriverQualification } from "@/lib/drivers/qualificationStore";
+
+/**
+ * GET /api/admin/driver-qualification-documents?id=...
+ *
+ * Returns the scanned document attached to a driver qualification.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing qualification id" }, { status: 400 });
+
+    const qualification = await getDriverQualification(id);
+    const response = qualification ? await documentResponse(qualification) : null;
+    if (!response) {
+      return NextResponse.json({ error: "Document not found." }, { status: 404 });
+    }
+    return response;
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
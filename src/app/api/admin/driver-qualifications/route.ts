@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { isQualificationKind, qualificationLabel } from "@/lib/drivers/qualifications";
+import {
+  deleteDriverQualification,
+  getDriverQualification,
+  isAllowedDocumentType,
+  listDriverQualifications,
+  MAX_DOCUMENT_BYTES,
+  saveDriverQualification,
+} from "@/lib/drivers/qualificationStore";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function formText(form: FormData, name: string) {
+  const value = form.get(name);
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * GET /api/admin/driver-qualifications?driverId=...
+ *
+ * Returns the driver's qualifications on file.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const driverId = new URL(req.url).searchParams.get("driverId");
+    if (!driverId) return NextResponse.json({ error: "Missing driverId" }, { status: 400 });
+
+    const qualifications = await listDriverQualifications(driverId);
+    return NextResponse.json({ qualifications });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/driver-qualifications
+ *
+ * Multipart form: { driver_id, kind, expires_on, issued_on?, reference?, file? }
+ *
+ * Records or renews one of a driver's qualifications. An attached file (PDF
+ * or image) replaces the stored document.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const form = await req.formData();
+    const driverId = formText(form, "driver_id");
+    const kind = formText(form, "kind");
+    const expiresOn = formText(form, "expires_on");
+    const issuedOn = formText(form, "issued_on");
+    const file = form.get("file");
+
+    if (!driverId || !isQualificationKind(kind)) {
+      return NextResponse.json({ error: "Missing driver or qualification type." }, { status: 400 });
+    }
+    if (!expiresOn || !DATE_RE.test(expiresOn)) {
+      return NextResponse.json(
+        { error: `Enter the date the ${qualificationLabel(kind)} expires.` },
+        { status: 400 }
+      );
+    }
+    if (issuedOn && !DATE_RE.test(issuedOn)) {
+      return NextResponse.json({ error: "Issued date must be YYYY-MM-DD." }, { status: 400 });
+    }
+    if (issuedOn && issuedOn > expiresOn) {
+      return NextResponse.json({ error: "The issued date is after the expiry date." }, { status: 400 });
+    }
+
+    const document = file instanceof File && file.size > 0 ? file : null;
+    if (document && !isAllowedDocumentType(document.type)) {
+      return NextResponse.json(
+        { error: "Documents must be a PDF or a JPEG, PNG, WebP or HEIC image." },
+        { status: 400 }
+      );
+    }
+    if (document && document.size > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json({ error: "Document is too large (10 MB max)." }, { status: 413 });
+    }
+
+    const qualification = await saveDriverQualification({
+      driverId,
+      kind,
+      reference: formText(form, "reference"),
+      issuedOn,
+      expiresOn,
+      document,
+      updatedBy: admin.fullName,
+    });
+    return NextResponse.json({ qualification });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/driver-qualifications?id=...
+ *
+ * Removes a qualification record and its document.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing qualification id" }, { status: 400 });
+
+    const qualification = await getDriverQualification(id);
+    if (!qualification) {
+      return NextResponse.json({ error: "Qualification not found." }, { status: 404 });
+    }
+
+    await deleteDriverQualification(qualification);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,8 +1,44 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { isValidPin, pinUpdateFields, toPublicDriver } from "@/lib/auth/driverPin";
+import { normalizeEmployeeNumber } from "@/lib/drivers/badge";
+
+class PinFormatError extends Error {
+  constructor() {
+    super("PIN must be 4-6 digits (numbers only).");
+  }
+}
+
+/**
+ * PINs are hashed before they are stored and never returned; responses carry
+ * `pin_set` instead. A `pin` field in POST/PATCH bodies is treated as a new PIN.
+ */
+async function withHashedPin(fields: Record<string, unknown>) {
+  if (!("pin" in fields)) return fields;
+  const { pin, ...rest } = fields;
+  if (pin === null || pin === "") return { ...rest, pin: null, pin_hash: null };
+  if (!isValidPin(pin)) throw new PinFormatError();
+  return { ...rest, ...(await pinUpdateFields(pin)) };
+}
+
+/**
+ * Employee numbers are stored the way badges and sign-in read them. A blank
+ * number is left out, so new drivers get the next one from the database.
+ */
+function withNormalizedEmployeeNumber(fields: Record<string, unknown>) {
+  if (!("employee_number" in fields)) return fields;
+  const { employee_number, ...rest } = fields;
+  const normalized =
+    typeof employee_number === "string" ? normalizeEmployeeNumber(employee_number) : "";
+  return normalized ? { ...rest, employee_number: normalized } : rest;
+}
 
 export async function GET(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
     const { searchParams } = new URL(req.url);
     const id = searchParams.get("id");
 
@@ -13,7 +49,7 @@ export async function GET(req: NextRequest) {
         .eq("id", id)
         .maybeSingle();
       if (error) throw error;
-      return NextResponse.json({ driver: data });
+      return NextResponse.json({ driver: data ? toPublicDriver(data) : null });
     }
 
     const { data, error } = await supabaseAdmin
@@ -21,7 +57,7 @@ export async function GET(req: NextRequest) {
       .select("*")
       .order("full_name", { ascending: true });
     if (error) throw error;
-    return NextResponse.json({ drivers: data });
+    return NextResponse.json({ drivers: (data ?? []).map(toPublicDriver) });
   } catch (err: any) {
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
@@ -29,40 +65,67 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json();
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const body = await withHashedPin(withNormalizedEmployeeNumber(await req.json()));
     const { data, error } = await supabaseAdmin
       .from("drivers")
       .insert(body)
       .select()
       .single();
     if (error) throw error;
-    return NextResponse.json({ driver: data });
+    return NextResponse.json({ driver: toPublicDriver(data) });
   } catch (err: any) {
+    if (err instanceof PinFormatError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    if (err?.code === "23505") {
+      return NextResponse.json(
+        { error: "Another driver already has that employee number." },
+        { status: 409 }
+      );
+    }
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
 }
 
 export async function PATCH(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
     const body = await req.json();
     const { id, ...fields } = body;
     if (!id) return NextResponse.json({ error: "Missing driver id" }, { status: 400 });
 
     const { data, error } = await supabaseAdmin
       .from("drivers")
-      .update(fields)
+      .update(await withHashedPin(withNormalizedEmployeeNumber(fields)))
       .eq("id", id)
       .select()
       .single();
     if (error) throw error;
-    return NextResponse.json({ driver: data });
+    return NextResponse.json({ driver: toPublicDriver(data) });
   } catch (err: any) {
+    if (err instanceof PinFormatError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    if (err?.code === "23505") {
+      return NextResponse.json(
+        { error: "Another driver already has that employee number." },
+        { status: 409 }
+      );
+    }
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
 }
 
 export async function DELETE(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
     const { searchParams } = new URL(req.url);
     const id = searchParams.get("id");
     if (!id) return NextResponse.json({ error: "Missing driver id" }, { status: 400 });
@@ -74,6 +137,13 @@ export async function DELETE(req: NextRequest) {
     if (error) throw error;
     return NextResponse.json({ success: true });
   } catch (err: any) {
+    // Inspection records are immutable, so drivers who submitted any stay
+    if (err?.code === "23001") {
+      return NextResponse.json(
+        { error: "This driver has inspection records and can't be deleted. Mark them inactive instead." },
+        { status: 409 }
+      );
+    }
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
 }
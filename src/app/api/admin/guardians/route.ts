@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { requireAdmin } from "@/lib/auth/adminSession";
 
 // GET guardians for a student (via student_guardians join)
 export async function GET(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
     const { searchParams } = new URL(req.url);
     const studentId = searchParams.get("student_id");
     if (!studentId) {
@@ -62,6 +66,9 @@ export async function GET(req: NextRequest) {
 // POST: create a guardian and link to student
 export async function POST(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
     const body = await req.json();
     const { student_id, full_name, phone, email, preferred_contact_method, relationship } = body;
 
@@ -113,6 +120,9 @@ export async function POST(req: NextRequest) {
 // DELETE: remove guardian link (student_guardians row)
 export async function DELETE(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
     const { searchParams } = new URL(req.url);
     const linkId = searchParams.get("link_id");
     if (!linkId) {
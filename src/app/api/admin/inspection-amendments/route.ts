@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin, BOOTSTRAP_ADMIN_ID } from "@/lib/auth/adminSession";
+import {
+  applyAmendments,
+  buildAmendmentChanges,
+  createAmendment,
+  listAmendments,
+} from "@/lib/inspections/amendments";
+import { getTemplate } from "@/lib/inspections/templates";
+import { computeOverallStatus } from "@/lib/inspections/status";
+
+/**
+ * POST /api/admin/inspection-amendments
+ *
+ * Body: { inspection_id, reason, changes: { notes?, odometer_reading?, shift?, answers?: { [item_key]: "pass" | "fail" | "na" } } }
+ *
+ * Records a correction to a submitted inspection. The original record is
+ * never modified.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const body = await req.json();
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+    if (!body.inspection_id || !reason) {
+      return NextResponse.json(
+        { error: "inspection_id and a reason for the amendment are required." },
+        { status: 400 }
+      );
+    }
+
+    const { data: inspection, error } = await supabaseAdmin
+      .from("inspections")
+      .select("*")
+      .eq("id", body.inspection_id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!inspection) {
+      return NextResponse.json({ error: "Inspection not found." }, { status: 404 });
+    }
+    if (!inspection.vehicle_id) {
+      return NextResponse.json(
+        { error: "This inspection has no vehicle, so it can't be amended." },
+        { status: 400 }
+      );
+    }
+
+    const current = applyAmendments(inspection, await listAmendments(inspection.id));
+    const result = buildAmendmentChanges(current, body.changes);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    // Corrected answers can change the computed status, so record that too
+    const template =
+      Object.keys(result.changes).some((field) => field.startsWith("answers.")) && current.template_id
+        ? await getTemplate(current.template_id)
+        : null;
+    if (template) {
+      const answers = { ...(current.answers ?? {}) };
+      for (const [field, change] of Object.entries(result.changes)) {
+        if (field.startsWith("answers.")) answers[field.slice("answers.".length)] = String(change.to);
+      }
+      const status = computeOverallStatus(template.items, answers);
+      if (status !== current.overall_status) {
+        result.changes.overall_status = { from: current.overall_status ?? null, to: status };
+      }
+    }
+
+    const amendment = await createAmendment({
+      inspection,
+      changes: result.changes,
+      reason,
+      amendedBy: admin.fullName,
+      amendedByAdminId: admin.adminId === BOOTSTRAP_ADMIN_ID ? null : admin.adminId,
+    });
+
+    return NextResponse.json({ amendment });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
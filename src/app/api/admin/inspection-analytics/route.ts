@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { MAX_ANALYTICS_DAYS, buildFailureAnalytics } from "@/lib/inspections/analytics";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/admin/inspection-analytics?from=YYYY-MM-DD&to=YYYY-MM-DD&bucket=week|month
+ *
+ * Failure rates by checklist item, vehicle, make/model and driver, repeat
+ * failures and mean time to repair. Defaults to the last 90 days by week.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const today = new Date().toISOString().slice(0, 10);
+    const defaultFrom = new Date(`${today}T00:00:00Z`);
+    defaultFrom.setUTCDate(defaultFrom.getUTCDate() - 89);
+
+    const from = searchParams.get("from") || defaultFrom.toISOString().slice(0, 10);
+    const to = searchParams.get("to") || today;
+    const bucket = searchParams.get("bucket") === "month" ? "month" : "week";
+    if (!DATE_RE.test(from) || !DATE_RE.test(to) || from > to) {
+      return NextResponse.json({ error: "Choose a valid date range." }, { status: 400 });
+    }
+    const days = (Date.parse(to) - Date.parse(from)) / 86_400_000 + 1;
+    if (days > MAX_ANALYTICS_DAYS) {
+      return NextResponse.json(
+        { error: `Choose a range of ${MAX_ANALYTICS_DAYS} days or less.` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await buildFailureAnalytics(from, to, bucket));
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { verifyVehicleChain } from "@/lib/inspections/chain";
+
+/**
+ * GET /api/admin/inspection-chain
+ * GET /api/admin/inspection-chain?vehicleId=...
+ *
+ * Re-verifies the inspection hash chain of every vehicle (or one vehicle) and
+ * lists any broken links, altered records or records missing from the chain.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const vehicleId = new URL(req.url).searchParams.get("vehicleId");
+
+    let query = supabaseAdmin.from("vehicles").select("id, label, plate").order("label");
+    if (vehicleId) query = query.eq("id", vehicleId);
+    const { data: vehicles, error } = await query;
+    if (error) throw error;
+
+    // One vehicle at a time keeps the load on the database predictable
+    const results = [];
+    for (const vehicle of vehicles ?? []) {
+      results.push({ ...(await verifyVehicleChain(vehicle.id)), label: vehicle.label, plate: vehicle.plate });
+    }
+
+    return NextResponse.json({ vehicles: results });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
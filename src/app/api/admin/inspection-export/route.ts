@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { exportInspections, parseInspectionFilters } from "@/lib/inspections/search";
+import { isExportFormat, renderInspectionExport } from "@/lib/inspections/exportFile";
+
+/**
+ * GET /api/admin/inspection-export?format=csv|xlsx|json&from=&to=&driverId=&vehicleId=&type=&shift=&status=
+ *
+ * Every inspection matching the Inspections tab filters, with notes,
+ * odometer, signature details and one column per checklist item. Values are
+ * shown as amended.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const format = searchParams.get("format") ?? "csv";
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: "format must be csv, xlsx or json." }, { status: 400 });
+    }
+    const parsed = parseInspectionFilters(searchParams);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { records, items } = await exportInspections(parsed.filters);
+    const { body, contentType } = await renderInspectionExport(format, records, items);
+    const today = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(typeof body === "string" ? body : new Uint8Array(body), {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="transafe_inspections_${today}.${format}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
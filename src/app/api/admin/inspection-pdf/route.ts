@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { loadDvirRecords, MAX_DVIR_BATCH, renderDvirPdf } from "@/lib/inspections/dvirPdf";
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/admin/inspection-pdf?id=...
+ * GET /api/admin/inspection-pdf?vehicleId=...&from=YYYY-MM-DD&to=YYYY-MM-DD
+ * GET /api/admin/inspection-pdf?driverId=...&from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Returns a DVIR PDF for one inspection, or a packet of every inspection for
+ * a vehicle or driver between two dates (inclusive).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get("id");
+    const vehicleId = searchParams.get("vehicleId");
+    const driverId = searchParams.get("driverId");
+    const from = searchParams.get("from") ?? "";
+    const to = searchParams.get("to") ?? "";
+
+    let records;
+    let subtitle: string;
+    let filename: string;
+
+    if (id) {
+      records = await loadDvirRecords({ ids: [id] });
+      if (!records?.length) {
+        return NextResponse.json({ error: "Inspection not found." }, { status: 404 });
+      }
+      subtitle = `Inspection ${id}`;
+      filename = `dvir_${records[0].original.inspection_date}_${id.slice(0, 8)}.pdf`;
+    } else {
+      if (!vehicleId && !driverId) {
+        return NextResponse.json(
+          { error: "Provide an inspection id, or a vehicleId or driverId with a date range." },
+          { status: 400 }
+        );
+      }
+      if (!YMD.test(from) || !YMD.test(to) || from > to) {
+        return NextResponse.json(
+          { error: "from and to must be dates (YYYY-MM-DD) with from on or before to." },
+          { status: 400 }
+        );
+      }
+
+      records = await loadDvirRecords({
+        vehicleId: vehicleId ?? undefined,
+        driverId: driverId ?? undefined,
+        from,
+        to,
+      });
+      if (records === null) {
+        return NextResponse.json(
+          { error: `More than ${MAX_DVIR_BATCH} inspections match. Choose a shorter date range.` },
+          { status: 400 }
+        );
+      }
+      if (records.length === 0) {
+        return NextResponse.json(
+          { error: "No inspections match this vehicle or driver and date range." },
+          { status: 404 }
+        );
+      }
+      subtitle = `${records.length} inspection${records.length === 1 ? "" : "s"}, ${from} to ${to}`;
+      filename = `dvir_${vehicleId ? "vehicle" : "driver"}_${from}_${to}.pdf`;
+    }
+
+    const pdf = await renderDvirPdf(records, subtitle);
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { getPhoto, photoResponse } from "@/lib/inspections/photos";
+
+/**
+ * GET /api/admin/inspection-photos?id=...
+ *
+ * Returns the image file for an inspection photo.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing photo id" }, { status: 400 });
+
+    const photo = await getPhoto(id);
+    const response = photo ? await photoResponse(photo) : null;
+    if (!response) {
+      return NextResponse.json({ error: "Photo not found." }, { status: 404 });
+    }
+    return response;
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
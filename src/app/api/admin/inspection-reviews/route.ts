@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin, BOOTSTRAP_ADMIN_ID } from "@/lib/auth/adminSession";
+import { applyAmendments, listAmendments } from "@/lib/inspections/amendments";
+import {
+  createReview,
+  getReview,
+  listReviewQueue,
+  needsReview,
+  reviewQueueSummary,
+} from "@/lib/inspections/reviews";
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * GET /api/admin/inspection-reviews?page=&pageSize=
+ *
+ * Failed or noted inspections still waiting on a supervisor's sign-off, a
+ * page at a time, with the size of the whole queue.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, Number.parseInt(searchParams.get("page") ?? "1", 10) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number.parseInt(searchParams.get("pageSize") ?? "25", 10) || 25)
+    );
+
+    const [queue, summary] = await Promise.all([
+      listReviewQueue(page, pageSize),
+      reviewQueueSummary(),
+    ]);
+    return NextResponse.json({ queue, summary, page, pageSize });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/inspection-reviews
+ *
+ * Body: { inspection_id, action_taken }
+ *
+ * Signs off an inspection in the review queue as the current admin. A
+ * sign-off is final.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const body = await req.json();
+    const actionTaken = typeof body.action_taken === "string" ? body.action_taken.trim() : "";
+    if (!body.inspection_id || !actionTaken) {
+      return NextResponse.json(
+        { error: "inspection_id and the action taken are required." },
+        { status: 400 }
+      );
+    }
+
+    const { data: inspection, error } = await supabaseAdmin
+      .from("inspections")
+      .select("*")
+      .eq("id", body.inspection_id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!inspection) {
+      return NextResponse.json({ error: "Inspection not found." }, { status: 404 });
+    }
+
+    const current = applyAmendments(inspection, await listAmendments(inspection.id));
+    if (!needsReview(current)) {
+      return NextResponse.json(
+        { error: "This inspection passed with no notes, so it doesn't need a review." },
+        { status: 400 }
+      );
+    }
+
+    const review = await createReview({
+      inspectionId: inspection.id,
+      actionTaken,
+      reviewedBy: admin.fullName,
+      reviewedByAdminId: admin.adminId === BOOTSTRAP_ADMIN_ID ? null : admin.adminId,
+    });
+    if (!review) {
+      const existing = await getReview(inspection.id);
+      return NextResponse.json(
+        {
+          error: `Already signed off by ${existing?.reviewed_by ?? "another supervisor"}.`,
+          review: existing,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ review });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
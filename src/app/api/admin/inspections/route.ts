@@ -1,8 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { getTemplate } from "@/lib/inspections/templates";
+import { listInspectionPhotos } from "@/lib/inspections/photos";
+import { answersMatchSignature } from "@/lib/signatures/capture";
+import { applyAmendments, listAmendments } from "@/lib/inspections/amendments";
+import { getReview, needsReview } from "@/lib/inspections/reviews";
+import { MAX_PAGE_SIZE, parseInspectionFilters, searchInspections } from "@/lib/inspections/search";
 
+/**
+ * GET /api/admin/inspections?id=...     – one inspection with its checklist, photos, amendments and review
+ * GET /api/admin/inspections?page=&pageSize=&from=&to=&driverId=&vehicleId=&type=&shift=&status=
+ *
+ * Lists matching inspections a page at a time, newest first.
+ */
 export async function GET(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
     const { searchParams } = new URL(req.url);
     const id = searchParams.get("id");
 
@@ -13,40 +29,31 @@ export async function GET(req: NextRequest) {
         .eq("id", id)
         .single();
       if (error) throw error;
-      return NextResponse.json({ inspection: data });
+      const template = data.template_id ? await getTemplate(data.template_id) : null;
+      const amendments = await listAmendments(data.id);
+      return NextResponse.json({
+        inspection: data,
+        checklist: template?.items ?? [],
+        photos: await listInspectionPhotos(data.id),
+        answers_match_signature: answersMatchSignature(data),
+        amendments,
+        needs_review: needsReview(applyAmendments(data, amendments)),
+        review: await getReview(data.id),
+      });
     }
 
-    const { data, error } = await supabaseAdmin
-      .from("inspections")
-      .select("*")
-      .order("submitted_at", { ascending: false });
-
-    if (error) throw error;
-
-    // Map fields to handle different column name possibilities
-    // The client-side already does extensive fallback mapping, but we normalize here too
-    const inspections = (data || []).map((row: any) => ({
-      id: row.id,
-      inspection_type: row.inspection_type ?? row.type ?? "pre",
-      shift: row.shift ?? row.shift_name ?? null,
-      submitted_at: row.submitted_at ?? row.created_at ?? null,
-      inspection_date: row.inspection_date ?? row.date ?? null,
-      overall_status: row.overall_status ?? row.status ?? null,
-      driver_name:
-        row.driver_name ??
-        row.driver ??
-        row.driver_full_name ??
-        (row.driver_id ? `Driver ${row.driver_id}` : "Unknown driver"),
-      vehicle_label:
-        row.vehicle_label ??
-        row.vehicle ??
-        row.vehicle_label_full ??
-        (row.vehicle_id ? `Vehicle ${row.vehicle_id}` : null),
-      driver_id: row.driver_id ?? null,
-      vehicle_id: row.vehicle_id ?? null,
-    }));
+    const parsed = parseInspectionFilters(searchParams);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const page = Math.max(1, Number.parseInt(searchParams.get("page") ?? "1", 10) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number.parseInt(searchParams.get("pageSize") ?? "50", 10) || 50)
+    );
 
-    return NextResponse.json({ inspections });
+    const { inspections, total } = await searchInspections(parsed.filters, page, pageSize);
+    return NextResponse.json({ inspections, total, page, pageSize });
   } catch (err: any) {
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { detectMissingInspectionsBetween } from "@/lib/inspections/missingInspections";
+import { complianceToday } from "@/lib/vehicles/compliance";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 31;
+
+/**
+ * GET /api/admin/missing-inspections?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Assigned driver shifts missing a pre-trip or post-trip on each date in the
+ * range (today when no range is given).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const today = complianceToday();
+    const from = searchParams.get("from") || today;
+    const to = searchParams.get("to") || from;
+    if (!DATE_RE.test(from) || !DATE_RE.test(to) || from > to) {
+      return NextResponse.json({ error: "Choose a valid date range." }, { status: 400 });
+    }
+    const days = (Date.parse(to) - Date.parse(from)) / 86_400_000 + 1;
+    if (days > MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Choose a range of ${MAX_RANGE_DAYS} days or less.` },
+        { status: 400 }
+      );
+    }
+
+    const missing = await detectMissingInspectionsBetween(from, to);
+    return NextResponse.json({ from, to, missing });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
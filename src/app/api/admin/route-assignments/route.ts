@@ -1,8 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { complianceToday, expiredComplianceItems } from "@/lib/vehicles/compliance";
+import { lapsedRequiredQualifications } from "@/lib/drivers/qualifications";
+import { listQualificationsForDrivers } from "@/lib/drivers/qualificationStore";
+
+type AssignmentInput = {
+  id?: string;
+  day_of_week: number;
+  driver_id?: string;
+  vehicle_id?: string;
+  notes?: string;
+};
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
 export async function GET(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
     const { searchParams } = new URL(req.url);
     const routeId = searchParams.get("route_id");
     if (!routeId) {
@@ -23,6 +40,9 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
     const body = await req.json();
 
     // Supports saving all assignments for a route at once
@@ -32,6 +52,92 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Missing route_id" }, { status: 400 });
     }
 
+    const assigned = (assignments as AssignmentInput[]).filter(
+      (row) => row.driver_id && row.vehicle_id
+    );
+    const today = complianceToday();
+
+    // Only new rows and rows whose driver or vehicle changed are checked, so a
+    // lapse on one day doesn't block saving edits to the rest of the week
+    const { data: current, error: currentErr } = await supabaseAdmin
+      .from("driver_route_assignments")
+      .select("id, driver_id, vehicle_id")
+      .eq("route_id", route_id);
+    if (currentErr) throw currentErr;
+    const currentById = new Map((current ?? []).map((row) => [row.id as string, row]));
+
+    // Drivers whose required qualifications have lapsed or were never entered
+    // can't be put on a route until they are on file and current
+    const driverRows = assigned.filter(
+      (row) => !row.id || currentById.get(row.id)?.driver_id !== row.driver_id
+    );
+    const driverIds = [...new Set(driverRows.map((row) => row.driver_id as string))];
+    if (driverIds.length > 0) {
+      const [{ data: drivers, error: driversErr }, qualifications] = await Promise.all([
+        supabaseAdmin.from("drivers").select("id, full_name").in("id", driverIds),
+        listQualificationsForDrivers(driverIds),
+      ]);
+      if (driversErr) throw driversErr;
+
+      const lapsedById = new Map(
+        (drivers ?? []).map((driver) => [
+          driver.id as string,
+          {
+            name: driver.full_name,
+            lapsed: lapsedRequiredQualifications(
+              qualifications.filter((q) => q.driver_id === driver.id),
+              today
+            ),
+          },
+        ])
+      );
+      const blocked = driverRows.flatMap((row) => {
+        const driver = lapsedById.get(row.driver_id as string);
+        if (!driver || driver.lapsed.length === 0) return [];
+        return [`${driver.name} on ${WEEKDAY_NAMES[row.day_of_week]} (${driver.lapsed.join(", ")})`];
+      });
+      if (blocked.length > 0) {
+        return NextResponse.json(
+          { error: `Can't assign ${blocked.join("; ")}. Update the qualification or choose another driver.` },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Vehicles with an expired registration, insurance or inspection sticker
+    // can't be put on a route until the date is renewed
+    const vehicleRows = assigned.filter(
+      (row) => !row.id || currentById.get(row.id)?.vehicle_id !== row.vehicle_id
+    );
+    const vehicleIds = [...new Set(vehicleRows.map((row) => row.vehicle_id as string))];
+    if (vehicleIds.length > 0) {
+      const { data: vehicles, error: vehiclesErr } = await supabaseAdmin
+        .from("vehicles")
+        .select(
+          "id, label, registration_expires_on, insurance_expires_on, state_inspection_expires_on, seven_d_inspection_expires_on"
+        )
+        .in("id", vehicleIds);
+      if (vehiclesErr) throw vehiclesErr;
+
+      const expiredById = new Map(
+        (vehicles ?? []).map((vehicle) => [
+          vehicle.id as string,
+          { label: vehicle.label, expired: expiredComplianceItems(vehicle, today) },
+        ])
+      );
+      const blocked = vehicleRows.flatMap((row) => {
+        const vehicle = expiredById.get(row.vehicle_id as string);
+        if (!vehicle || vehicle.expired.length === 0) return [];
+        return [`${vehicle.label} on ${WEEKDAY_NAMES[row.day_of_week]} (${vehicle.expired.join(", ")} expired)`];
+      });
+      if (blocked.length > 0) {
+        return NextResponse.json(
+          { error: `Can't assign ${blocked.join("; ")}. Renew the dates or choose another vehicle.` },
+          { status: 409 }
+        );
+      }
+    }
+
     for (const row of assignments) {
       const hasAssignment = !!row.driver_id && !!row.vehicle_id;
 
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { hashTimecardEntries } from "@/lib/signatures/capture";
 
 export async function GET(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "timecards:read");
+    if (admin instanceof NextResponse) return admin;
+
     const { searchParams } = new URL(req.url);
     const mode = searchParams.get("mode");
     const weekStart = searchParams.get("weekStart");
@@ -36,7 +41,7 @@ export async function GET(req: NextRequest) {
 
     // Driver-specific week query
     if (driverId && weekStart && weekEnd) {
-      const [driverRes, entriesRes] = await Promise.all([
+      const [driverRes, entriesRes, signatureRes] = await Promise.all([
         supabaseAdmin
           .from("drivers")
           .select("id, full_name, license_number")
@@ -44,20 +49,32 @@ export async function GET(req: NextRequest) {
           .maybeSingle(),
         supabaseAdmin
           .from("driver_time_entries")
-          .select("id, driver_id, work_date, start_time, end_time, duration_seconds")
+          .select("id, driver_id, work_date, start_time, end_time, duration_seconds, shift")
           .eq("driver_id", driverId)
           .gte("work_date", weekStart)
           .lte("work_date", weekEnd)
           .order("work_date", { ascending: true })
           .order("start_time", { ascending: true }),
+        supabaseAdmin
+          .from("timecard_signatures")
+          .select("*")
+          .eq("driver_id", driverId)
+          .eq("week_start", weekStart)
+          .maybeSingle(),
       ]);
 
       if (driverRes.error) throw driverRes.error;
       if (entriesRes.error) throw entriesRes.error;
+      if (signatureRes.error) throw signatureRes.error;
 
+      const signature = signatureRes.data;
       return NextResponse.json({
         driver: driverRes.data,
         entries: entriesRes.data || [],
+        signature,
+        entries_match_signature: signature
+          ? hashTimecardEntries(entriesRes.data || []) === signature.entries_hash
+          : null,
       });
     }
 
@@ -71,7 +88,7 @@ export async function GET(req: NextRequest) {
 
     const { data, error } = await supabaseAdmin
       .from("driver_time_entries")
-      .select("id, driver_id, work_date, start_time, end_time, duration_seconds")
+      .select("id, driver_id, work_date, start_time, end_time, duration_seconds, shift")
       .gte("work_date", weekStart)
       .lte("work_date", weekEnd);
 
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { getMileageLedger } from "@/lib/vehicles/odometer";
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_DAYS = 30;
+
+/**
+ * GET /api/admin/vehicle-mileage?vehicleId=...&from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Returns the vehicle's daily mileage ledger (last 30 days by default) with
+ * the estimated round-trip mileage of its assigned routes for comparison.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const vehicleId = searchParams.get("vehicleId");
+    if (!vehicleId) {
+      return NextResponse.json({ error: "vehicleId is required." }, { status: 400 });
+    }
+
+    const today = new Date();
+    const defaultFrom = new Date(today);
+    defaultFrom.setDate(defaultFrom.getDate() - (DEFAULT_DAYS - 1));
+    const from = searchParams.get("from") || defaultFrom.toISOString().slice(0, 10);
+    const to = searchParams.get("to") || today.toISOString().slice(0, 10);
+    if (!YMD.test(from) || !YMD.test(to) || from > to) {
+      return NextResponse.json(
+        { error: "from and to must be dates (YYYY-MM-DD) with from on or before to." },
+        { status: 400 }
+      );
+    }
+
+    const ledger = await getMileageLedger(vehicleId, from, to);
+    return NextResponse.json({ from, to, ...ledger });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { returnVehicleToService, takeVehicleOutOfService } from "@/lib/vehicles/serviceStatus";
+
+/**
+ * POST /api/admin/vehicle-service
+ *
+ * Body: { vehicleId, reason }
+ *
+ * Takes a vehicle out of service by hand (e.g. a problem reported by phone).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const { vehicleId, reason } = await req.json();
+    if (!vehicleId) return NextResponse.json({ error: "Missing vehicle id" }, { status: 400 });
+    if (typeof reason !== "string" || !reason.trim()) {
+      return NextResponse.json(
+        { error: "Give a reason for taking the vehicle out of service." },
+        { status: 400 }
+      );
+    }
+
+    await takeVehicleOutOfService({
+      vehicleId,
+      reason: `${reason.trim()} (set by ${admin.fullName})`,
+    });
+
+    const { data, error } = await supabaseAdmin
+      .from("vehicles")
+      .select("*")
+      .eq("id", vehicleId)
+      .single();
+    if (error) throw error;
+    return NextResponse.json({ vehicle: data });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/vehicle-service?vehicleId=...&note=...
+ *
+ * Returns a vehicle to service and resolves its out-of-service alerts.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const { searchParams } = new URL(req.url);
+    const vehicleId = searchParams.get("vehicleId");
+    if (!vehicleId) return NextResponse.json({ error: "Missing vehicle id" }, { status: 400 });
+
+    const vehicle = await returnVehicleToService(vehicleId, admin.fullName, searchParams.get("note"));
+    if (!vehicle) {
+      return NextResponse.json({ error: "Vehicle not found." }, { status: 404 });
+    }
+    return NextResponse.json({ vehicle });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
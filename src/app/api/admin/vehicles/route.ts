@@ -1,8 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { requireAdmin } from "@/lib/auth/adminSession";
+import { COMPLIANCE_ITEMS } from "@/lib/vehicles/compliance";
+
+// Columns the vehicle forms may write. Taking a vehicle out of service or
+// returning it goes through /api/admin/vehicle-service, which records the
+// service history and resolves the dispatch alerts.
+const EDITABLE_FIELDS = [
+  "label",
+  "year",
+  "make",
+  "model",
+  "plate",
+  "vin",
+  "is_active",
+  "wheelchair_equipped",
+  "lift_installed",
+  "seating_capacity",
+  ...COMPLIANCE_ITEMS.map((item) => item.field),
+];
+
+const SERVICE_FIELDS = [
+  "out_of_service",
+  "out_of_service_reason",
+  "out_of_service_at",
+  "out_of_service_inspection_id",
+];
+
+/**
+ * The editable fields of a request body, or an error message when it tries to
+ * change the vehicle's service status.
+ */
+function vehicleFields(body: Record<string, unknown>): Record<string, unknown> | string {
+  if (SERVICE_FIELDS.some((field) => field in body)) {
+    return "Use Take out of service or Return to service on the vehicle page instead.";
+  }
+  return Object.fromEntries(
+    Object.entries(body).filter(([field]) => EDITABLE_FIELDS.includes(field))
+  );
+}
 
 export async function GET(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:read");
+    if (admin instanceof NextResponse) return admin;
+
     const { searchParams } = new URL(req.url);
     const id = searchParams.get("id");
 
@@ -29,10 +71,17 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json();
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const fields = vehicleFields(await req.json());
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+
     const { data, error } = await supabaseAdmin
       .from("vehicles")
-      .insert(body)
+      .insert(fields)
       .select()
       .single();
     if (error) throw error;
@@ -44,9 +93,15 @@ export async function POST(req: NextRequest) {
 
 export async function PATCH(req: NextRequest) {
   try {
-    const body = await req.json();
-    const { id, ...fields } = body;
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
+    const { id, ...body } = await req.json();
     if (!id) return NextResponse.json({ error: "Missing vehicle id" }, { status: 400 });
+    const fields = vehicleFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
 
     const { data, error } = await supabaseAdmin
       .from("vehicles")
@@ -63,6 +118,9 @@ export async function PATCH(req: NextRequest) {
 
 export async function DELETE(req: NextRequest) {
   try {
+    const admin = await requireAdmin(req, "operations:write");
+    if (admin instanceof NextResponse) return admin;
+
     const { searchParams } = new URL(req.url);
     const id = searchParams.get("id");
     if (!id) return NextResponse.json({ error: "Missing vehicle id" }, { status: 400 });
@@ -1,21 +1,91 @@
 import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { verifySecret } from "@/lib/auth/password";
+import {
+  ADMIN_SESSION_COOKIE,
+  BOOTSTRAP_ADMIN_ID,
+  adminSessionCookieOptions,
+  createAdminSessionToken,
+  hasAnyAdminUsers,
+} from "@/lib/auth/adminSession";
 
+/**
+ * POST /api/auth/admin-login
+ *
+ * Body: { email, password }
+ *
+ * Signs in a named admin account. While no admin accounts exist yet, the old
+ * shared ADMIN_ACCESS_CODE ({ accessCode }) can be used once to open a setup
+ * session for creating the first owner; it stops working as soon as one does.
+ */
 export async function POST(req: NextRequest) {
   try {
-    const { accessCode } = await req.json();
+    const { email, password, accessCode } = await req.json();
 
-    const ADMIN_CODE = process.env.ADMIN_ACCESS_CODE;
-    if (!ADMIN_CODE) {
-      console.error("ADMIN_ACCESS_CODE not set in environment");
-      return NextResponse.json({ error: "Server configuration error." }, { status: 500 });
+    if (accessCode !== undefined) {
+      if (await hasAnyAdminUsers()) {
+        return NextResponse.json(
+          { error: "The shared access code has been retired. Sign in with your admin account." },
+          { status: 401 }
+        );
+      }
+
+      const ADMIN_CODE = process.env.ADMIN_ACCESS_CODE;
+      if (!ADMIN_CODE) {
+        console.error("ADMIN_ACCESS_CODE not set in environment");
+        return NextResponse.json({ error: "Server configuration error." }, { status: 500 });
+      }
+
+      if (typeof accessCode !== "string" || accessCode.trim() !== ADMIN_CODE.trim()) {
+        return NextResponse.json({ error: "Invalid admin access code." }, { status: 401 });
+      }
+
+      const response = NextResponse.json({ success: true, setup: true });
+      response.cookies.set(
+        ADMIN_SESSION_COOKIE,
+        createAdminSessionToken(BOOTSTRAP_ADMIN_ID),
+        adminSessionCookieOptions
+      );
+      return response;
+    }
+
+    if (typeof email !== "string" || !email.trim() || typeof password !== "string" || !password) {
+      return NextResponse.json({ error: "Email and password are required." }, { status: 400 });
     }
 
-    if (!accessCode || accessCode.trim() !== ADMIN_CODE.trim()) {
-      return NextResponse.json({ error: "Invalid admin access code." }, { status: 401 });
+    const { data: admin, error } = await supabaseAdmin
+      .from("admin_users")
+      .select("id, password_hash, is_active")
+      .eq("email", email.trim().toLowerCase())
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const valid = admin ? await verifySecret(password, admin.password_hash) : false;
+    if (!admin || !valid) {
+      return NextResponse.json({ error: "Invalid email or password." }, { status: 401 });
     }
 
-    return NextResponse.json({ success: true });
-  } catch (err: any) {
+    if (!admin.is_active) {
+      return NextResponse.json(
+        { error: "This admin account has been deactivated." },
+        { status: 403 }
+      );
+    }
+
+    await supabaseAdmin
+      .from("admin_users")
+      .update({ last_login_at: new Date().toISOString() })
+      .eq("id", admin.id);
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(
+      ADMIN_SESSION_COOKIE,
+      createAdminSessionToken(admin.id),
+      adminSessionCookieOptions
+    );
+    return response;
+  } catch (err) {
     console.error("Admin login error:", err);
     return NextResponse.json({ error: "An unexpected error occurred." }, { status: 500 });
   }
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ADMIN_SESSION_COOKIE, getAdminSession } from "@/lib/auth/adminSession";
+
+/**
+ * GET /api/auth/admin-session
+ *
+ * Returns the signed-in admin with their role and permissions so the Admin
+ * Portal can show only the tabs and actions that role is allowed to use.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getAdminSession(req);
+    if (!session) {
+      return NextResponse.json({ error: "Not signed in." }, { status: 401 });
+    }
+    return NextResponse.json({ session });
+  } catch (err) {
+    console.error("Admin session error:", err);
+    return NextResponse.json({ error: "An unexpected error occurred." }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/auth/admin-session
+ *
+ * Signs the admin out by clearing the session cookie.
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+}
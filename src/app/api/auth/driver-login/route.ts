@@ -1,62 +1,176 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import {
+  DRIVER_SESSION_COOKIE,
+  createDriverSessionToken,
+  driverSessionCookieOptions,
+} from "@/lib/auth/driverSession";
+import {
+  DriverPinRow,
+  clearPinLockout,
+  getClientIp,
+  ipThrottleMinutes,
+  lockedUntil,
+  recordLoginAttempt,
+  registerFailedPin,
+  verifyDriverPin,
+} from "@/lib/auth/driverPin";
+import { normalizeEmployeeNumber, parseBadgePayload } from "@/lib/drivers/badge";
+import { isVehicleOutOfService } from "@/lib/vehicles/serviceStatus";
+import { DRIVER_LANGUAGE_COOKIE, INTL_LOCALES, isLocale, type Locale } from "@/lib/i18n";
+import { driverError, driverLanguageCookieOptions, requestLocale } from "@/lib/i18n/server";
 
+const DRIVER_LOGIN_COLUMNS =
+  "id, employee_number, full_name, license_number, is_active, pin, pin_hash, pin_failed_attempts, pin_locked_until, preferred_language, created_at";
+
+function formatTime(date: Date, locale: Locale) {
+  return date.toLocaleTimeString(INTL_LOCALES[locale], {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "America/New_York",
+  });
+}
+
+function normalizeName(value: string) {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * POST /api/auth/driver-login
+ *
+ * Body: { employeeNumber | badge | driverName, pin, vehicleId }
+ *
+ * Drivers are identified by employee number (typed or scanned from their badge
+ * QR). Name login still works, but only when exactly one active driver has
+ * that name. Errors are in the language picked on the sign-in screen; a
+ * successful sign-in switches the portal to the driver's saved language.
+ */
 export async function POST(req: NextRequest) {
   try {
-    const { driverName, pin, vehicleId } = await req.json();
+    const { driverName, employeeNumber, badge, pin, vehicleId } = await req.json();
+
+    let lookupNumber: string | null = null;
+    if (typeof badge === "string" && badge.trim()) {
+      lookupNumber = parseBadgePayload(badge);
+      if (!lookupNumber) {
+        return driverError(req, "errors.notABadge", 400);
+      }
+    } else if (typeof employeeNumber === "string" && employeeNumber.trim()) {
+      lookupNumber = normalizeEmployeeNumber(employeeNumber);
+    }
 
-    if (!driverName || !pin) {
-      return NextResponse.json({ error: "Name and PIN are required." }, { status: 400 });
+    if ((!lookupNumber && !driverName) || !pin) {
+      return driverError(req, "errors.loginIdentityRequired", 400);
     }
 
-    const { data, error } = await supabaseAdmin
+    const ip = getClientIp(req);
+    const ipWaitMinutes = await ipThrottleMinutes(ip);
+    if (ipWaitMinutes > 0) {
+      return driverError(
+        req,
+        ipWaitMinutes === 1
+          ? "errors.tooManyDeviceAttemptsOne"
+          : "errors.tooManyDeviceAttemptsMany",
+        429,
+        { minutes: ipWaitMinutes }
+      );
+    }
+
+    const query = supabaseAdmin
       .from("drivers")
-      .select("id, full_name, license_number, is_active, pin, created_at")
-      .ilike("full_name", driverName.trim().replace(/\s+/g, " "))
-      .eq("is_active", true)
-      .order("created_at", { ascending: true });
+      .select(DRIVER_LOGIN_COLUMNS)
+      .eq("is_active", true);
+
+    const name = normalizeName(String(driverName ?? ""));
+    const { data: matches, error } = lookupNumber
+      ? await query.eq("employee_number", lookupNumber)
+      : await query.ilike("full_name", name.replace(/[\\%_]/g, "\\$&"));
 
     if (error) throw error;
 
+    // PostgREST also reads `*` as a wildcard, so name matches are confirmed here
+    const data = lookupNumber
+      ? matches
+      : matches?.filter((row) => normalizeName(row.full_name ?? "") === name);
+
     if (!data || data.length === 0) {
-      return NextResponse.json(
-        { error: "No active driver found with that name. Please contact your admin to register you." },
-        { status: 404 }
+      await recordLoginAttempt(ip, null, false);
+      return driverError(
+        req,
+        lookupNumber ? "errors.noDriverWithNumber" : "errors.noDriverWithName",
+        404
       );
     }
 
+    // Never guess between two drivers who share a name
+    if (data.length > 1) {
+      await recordLoginAttempt(ip, null, false);
+      return driverError(req, "errors.duplicateName", 409);
+    }
+
     const driver = data[0];
+    const pinRow = driver as DriverPinRow;
 
-    if (!driver.pin || driver.pin.trim() === "") {
-      return NextResponse.json(
-        { error: "This driver does not have a PIN set yet. Please contact your admin." },
-        { status: 403 }
-      );
+    if (!driver.pin_hash && (!driver.pin || driver.pin.trim() === "")) {
+      return driverError(req, "errors.noPinSet", 403);
     }
 
-    if (driver.pin.trim() !== pin.trim()) {
-      return NextResponse.json(
-        { error: "Name, vehicle, or PIN is incorrect." },
-        { status: 401 }
-      );
+    const locked = lockedUntil(pinRow);
+    if (locked) {
+      return driverError(req, "errors.pinLocked", 423, {
+        time: formatTime(locked, requestLocale(req)),
+      });
+    }
+
+    if (!(await verifyDriverPin(pinRow, String(pin)))) {
+      await recordLoginAttempt(ip, driver.id, false);
+      const lockout = await registerFailedPin(pinRow);
+      if (lockout) {
+        return driverError(req, "errors.pinLocked", 423, {
+          time: formatTime(lockout, requestLocale(req)),
+        });
+      }
+      return driverError(req, "errors.loginIncorrect", 401);
     }
 
-    // Return driver info without PIN
-    return NextResponse.json({
+    await recordLoginAttempt(ip, driver.id, true);
+    if (driver.pin_failed_attempts || driver.pin_locked_until) {
+      await clearPinLockout(driver.id);
+    }
+
+    if (vehicleId && (await isVehicleOutOfService(vehicleId))) {
+      return driverError(req, "errors.loginVehicleOutOfService", 409);
+    }
+
+    const preferredLanguage = isLocale(driver.preferred_language)
+      ? driver.preferred_language
+      : requestLocale(req);
+
+    // Return driver info without PIN, plus the signed session cookie that
+    // every /api/driver/* route uses to identify the driver
+    const response = NextResponse.json({
       driver: {
         id: driver.id,
+        employee_number: driver.employee_number,
         full_name: driver.full_name,
         license_number: driver.license_number,
         is_active: driver.is_active,
+        preferred_language: preferredLanguage,
         pin: null, // never expose PIN to client
         created_at: driver.created_at,
       },
     });
-  } catch (err: any) {
-    console.error("Driver login error:", err);
-    return NextResponse.json(
-      { error: "An unexpected error occurred. Please try again." },
-      { status: 500 }
+
+    response.cookies.set(
+      DRIVER_SESSION_COOKIE,
+      createDriverSessionToken({ driverId: driver.id, vehicleId: vehicleId || null }),
+      driverSessionCookieOptions
     );
+    response.cookies.set(DRIVER_LANGUAGE_COOKIE, preferredLanguage, driverLanguageCookieOptions);
+
+    return response;
+  } catch (err) {
+    console.error("Driver login error:", err);
+    return driverError(req, "errors.unexpected", 500);
   }
 }
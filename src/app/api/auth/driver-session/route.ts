@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DRIVER_SESSION_COOKIE,
+  getDriverSession,
+} from "@/lib/auth/driverSession";
+import { driverError } from "@/lib/i18n/server";
+
+/**
+ * GET /api/auth/driver-session
+ *
+ * Lets the Driver Portal confirm its stored session is still valid on the server.
+ */
+export async function GET(req: NextRequest) {
+  const session = getDriverSession(req);
+  if (!session) {
+    return driverError(req, "errors.notSignedIn", 401);
+  }
+  return NextResponse.json({ session });
+}
+
+/**
+ * DELETE /api/auth/driver-session
+ *
+ * Signs the driver out by clearing the session cookie. Does not touch the time clock.
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(DRIVER_SESSION_COOKIE);
+  return response;
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import { complianceToday } from "@/lib/vehicles/compliance";
 
 export async function POST(req: NextRequest) {
   try {
@@ -9,20 +11,23 @@ export async function POST(req: NextRequest) {
       route_id,
       route_stop_id,
       household_id,
-      driver_id,
       status,
       latitude,
       longitude,
     } = body;
 
-    if (!student_id || !route_id || !driver_id || !status) {
+    const session = authorizeDriver(req, body.driver_id);
+    if (session instanceof NextResponse) return session;
+    const driver_id = session.driverId;
+
+    if (!student_id || !route_id || !status) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
-    const today = new Date().toISOString().slice(0, 10);
+    const today = complianceToday();
 
     // Delete existing record for this student at this specific stop
     // (handles status changes at the same stop, e.g. picked_up → absent)
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import { getCarryForward } from "@/lib/inspections/carryForward";
+
+/**
+ * GET /api/driver/carried-forward?vehicleId=...
+ *
+ * Returns the vehicle's outstanding defect tickets and the notes left on its
+ * most recent inspections, which the driver must acknowledge on a pre-trip.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = authorizeDriver(req);
+    if (session instanceof NextResponse) return session;
+
+    const vehicleId = new URL(req.url).searchParams.get("vehicleId");
+    if (!vehicleId) {
+      return NextResponse.json({ error: "vehicleId is required." }, { status: 400 });
+    }
+
+    return NextResponse.json(await getCarryForward(vehicleId));
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
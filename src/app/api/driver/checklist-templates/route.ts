@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import { getActiveTemplate, isInspectionType } from "@/lib/inspections/templates";
+import { driverError } from "@/lib/i18n/server";
+
+/**
+ * GET /api/driver/checklist-templates?type=pre|post
+ *
+ * Returns the active checklist version the driver should fill out.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = authorizeDriver(req);
+    if (session instanceof NextResponse) return session;
+
+    const type = new URL(req.url).searchParams.get("type");
+    if (!isInspectionType(type)) {
+      return driverError(req, "errors.invalidInspectionType", 400);
+    }
+
+    const template = await getActiveTemplate(type);
+    if (!template) {
+      return driverError(req, "errors.noChecklist", 404);
+    }
+
+    return NextResponse.json({ template });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
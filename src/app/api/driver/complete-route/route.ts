@@ -1,17 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import { checkUnmatchedPickups } from "@/lib/alerts/childCheck";
+import { complianceToday } from "@/lib/vehicles/compliance";
 
 export async function POST(req: NextRequest) {
   try {
-    const { driver_id, route_id } = await req.json();
-    if (!driver_id || !route_id) {
+    const body = await req.json();
+    const session = authorizeDriver(req, body.driver_id);
+    if (session instanceof NextResponse) return session;
+
+    const driver_id = session.driverId;
+    const { route_id } = body;
+    if (!route_id) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
-    const today = new Date().toISOString().slice(0, 10);
+    const today = complianceToday();
 
     const { error } = await supabaseAdmin
       .from("driver_route_completions")
@@ -21,7 +29,23 @@ export async function POST(req: NextRequest) {
       );
 
     if (error) throw error;
-    return NextResponse.json({ success: true });
+
+    // Every student picked up on the route should have been dropped off
+    const { data: driver, error: driverErr } = await supabaseAdmin
+      .from("drivers")
+      .select("full_name")
+      .eq("id", driver_id)
+      .maybeSingle();
+    if (driverErr) throw driverErr;
+
+    const childCheckAlerts = await checkUnmatchedPickups({
+      driverId: driver_id,
+      driverName: driver?.full_name ?? "Unknown driver",
+      workDate: today,
+      routeId: route_id,
+    });
+
+    return NextResponse.json({ success: true, child_check_alert: childCheckAlerts > 0 });
   } catch (err: any) {
     console.error("Complete route error:", err);
     return NextResponse.json({ error: err.message }, { status: 500 });
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import { loadDvirRecords, renderDvirPdf } from "@/lib/inspections/dvirPdf";
+import { driverError } from "@/lib/i18n/server";
+
+/**
+ * GET /api/driver/inspection-pdf?driverId=...&id=...
+ *
+ * Returns the DVIR PDF for one of the signed-in driver's own inspections.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const session = authorizeDriver(req, searchParams.get("driverId"));
+    if (session instanceof NextResponse) return session;
+
+    const id = searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "id is required." }, { status: 400 });
+    }
+
+    const records = await loadDvirRecords({ ids: [id] });
+    const record = records?.[0];
+    if (!record || record.original.driver_id !== session.driverId) {
+      return driverError(req, "errors.inspectionNotFound", 404);
+    }
+
+    const pdf = await renderDvirPdf([record], `Inspection ${id}`);
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="dvir_${record.original.inspection_date}_${id.slice(0, 8)}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
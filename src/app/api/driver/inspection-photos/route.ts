@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import {
+  deletePendingPhoto,
+  getPhoto,
+  isAllowedPhotoType,
+  MAX_PHOTO_BYTES,
+  photoResponse,
+  savePendingPhoto,
+} from "@/lib/inspections/photos";
+import { driverError } from "@/lib/i18n/server";
+
+/**
+ * GET /api/driver/inspection-photos?id=...
+ *
+ * Returns the image file for one of the signed-in driver's photos.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = authorizeDriver(req);
+    if (session instanceof NextResponse) return session;
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing photo id" }, { status: 400 });
+
+    const photo = await getPhoto(id);
+    const response = photo && photo.driver_id === session.driverId ? await photoResponse(photo) : null;
+    if (!response) {
+      return driverError(req, "errors.photoNotFound", 404);
+    }
+    return response;
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/driver/inspection-photos
+ *
+ * Multipart form: { file, item_key }
+ *
+ * Uploads a photo of a failed item while the inspection form is open. Send
+ * the returned id in `photo_ids` when submitting the inspection.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = authorizeDriver(req);
+    if (session instanceof NextResponse) return session;
+
+    const form = await req.formData();
+    const file = form.get("file");
+    const itemKey = form.get("item_key");
+
+    if (!(file instanceof File) || typeof itemKey !== "string" || !itemKey) {
+      return driverError(req, "errors.photoMissing", 400);
+    }
+    if (!isAllowedPhotoType(file.type)) {
+      return driverError(req, "errors.photoType", 400);
+    }
+    if (file.size > MAX_PHOTO_BYTES) {
+      return driverError(req, "errors.photoTooLarge", 413);
+    }
+
+    const photo = await savePendingPhoto(session.driverId, itemKey, file);
+    return NextResponse.json({ photo: { id: photo.id, item_key: photo.item_key } });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/driver/inspection-photos?id=...
+ *
+ * Removes a photo that hasn't been submitted with an inspection yet.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = authorizeDriver(req);
+    if (session instanceof NextResponse) return session;
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) return NextResponse.json({ error: "Missing photo id" }, { status: 400 });
+
+    const photo = await getPhoto(id);
+    if (!photo || photo.driver_id !== session.driverId) {
+      return driverError(req, "errors.photoNotFound", 404);
+    }
+    if (!(await deletePendingPhoto(photo))) {
+      return driverError(req, "errors.photoSubmitted", 409);
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,40 +1,80 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import { getTemplate } from "@/lib/inspections/templates";
+import { hasApplicabilityRule, isItemApplicable } from "@/lib/inspections/applicability";
+import { computeOverallStatus } from "@/lib/inspections/status";
+import { isShift } from "@/lib/inspections/shifts";
+import { attachPhotos, listInspectionPhotos } from "@/lib/inspections/photos";
+import { addDefectEvent, syncDefectsFromInspection } from "@/lib/inspections/defects";
+import {
+  buildCarryForwardAcks,
+  getCarryForward,
+  type CarryForwardAck,
+} from "@/lib/inspections/carryForward";
+import { appendToChain } from "@/lib/inspections/chain";
+import { listAmendments } from "@/lib/inspections/amendments";
+import { checkOdometerReading, parseOdometer } from "@/lib/vehicles/odometer";
+import { takeVehicleOutOfService } from "@/lib/vehicles/serviceStatus";
+import { checkPostTripChildItems, checkUnmatchedPickups } from "@/lib/alerts/childCheck";
+import {
+  answersMatchSignature,
+  captureSignature,
+  hashInspectionAnswers,
+  parseSignatureImage,
+} from "@/lib/signatures/capture";
+import { INTL_LOCALES, itemText, translate } from "@/lib/i18n";
+import { driverError, requestLocale } from "@/lib/i18n/server";
+import { complianceToday } from "@/lib/vehicles/compliance";
+
+const ANSWER_VALUES = ["pass", "fail", "na"];
 
 /**
- * GET /api/driver/inspections?driverId=...&driverName=...
+ * GET /api/driver/inspections?driverId=...
+ * GET /api/driver/inspections?id=...
  *
- * Returns the last 90 days of inspection records for a driver.
- * Filters by driverId if provided, otherwise falls back to driverName.
+ * Returns the last 90 days of inspection records for the signed-in driver,
+ * or one full inspection record when `id` is given (only the driver's own).
  */
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
-    const driverId = searchParams.get("driverId");
-    const driverName = searchParams.get("driverName");
-    const date = searchParams.get("date");
-    const type = searchParams.get("type");
+    const session = authorizeDriver(req, searchParams.get("driverId"));
+    if (session instanceof NextResponse) return session;
 
-    if (!driverId && !driverName) {
-      return NextResponse.json(
-        { error: "driverId or driverName is required" },
-        { status: 400 }
-      );
+    const id = searchParams.get("id");
+    if (id) {
+      const { data, error } = await supabaseAdmin
+        .from("inspections")
+        .select("*")
+        .eq("id", id)
+        .eq("driver_id", session.driverId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) {
+        return driverError(req, "errors.inspectionNotFound", 404);
+      }
+      const template = data.template_id ? await getTemplate(data.template_id) : null;
+      return NextResponse.json({
+        inspection: data,
+        checklist: template?.items ?? [],
+        photos: await listInspectionPhotos(data.id),
+        answers_match_signature: answersMatchSignature(data),
+        amendments: await listAmendments(data.id),
+      });
     }
 
+    const date = searchParams.get("date");
+    const type = searchParams.get("type");
+
     let query = supabaseAdmin
       .from("inspections")
       .select(
         "id,driver_id,driver_name,vehicle_label,inspection_type,shift,submitted_at,inspection_date,overall_status"
       )
+      .eq("driver_id", session.driverId)
       .order("submitted_at", { ascending: false });
 
-    if (driverId) {
-      query = query.eq("driver_id", driverId);
-    } else {
-      query = query.eq("driver_name", driverName!);
-    }
-
     if (date) {
       query = query.eq("inspection_date", date);
     } else {
@@ -69,29 +109,151 @@ export async function GET(req: NextRequest) {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const session = authorizeDriver(req, body.driver_id);
+    if (session instanceof NextResponse) return session;
+
+    const driver_id = session.driverId;
+    // Errors name checklist items the way the driver saw them
+    const locale = requestLocale(req);
     const {
-      driver_id,
-      driver_name,
-      driver_license_number,
       vehicle_id,
       vehicle_label,
       inspection_type,
+      template_id,
       shift,
       answers,
-      overall_status,
       notes,
       signature_name,
+      signature_image,
       odometer_reading,
+      odometer_override_reason,
+      photo_ids,
+      carried_forward,
     } = body;
 
-    if (!driver_id || !vehicle_id || !inspection_type) {
+    if (!vehicle_id || !inspection_type || !template_id) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
-    const today = new Date().toISOString().slice(0, 10);
+    // Gating, missed-inspection detection and timecards all go by shift
+    if (!isShift(shift)) {
+      return driverError(req, "errors.invalidShift", 400);
+    }
+
+    const signatureImage = parseSignatureImage(signature_image);
+    if (!signatureImage || typeof signature_name !== "string" || !signature_name.trim()) {
+      return driverError(req, "errors.signBeforeSubmit", 400);
+    }
+
+    // Answers are keyed by the template's stable item_key. A form loaded before
+    // the checklist was republished is sent back to reload the current version.
+    const template = await getTemplate(template_id);
+    if (!template || !template.is_active || template.inspection_type !== inspection_type) {
+      return driverError(req, "errors.checklistVersionInvalid", 400);
+    }
+
+    const { data: vehicle, error: vehicleErr } = await supabaseAdmin
+      .from("vehicles")
+      .select("year, wheelchair_equipped, lift_installed, seating_capacity, out_of_service")
+      .eq("id", vehicle_id)
+      .maybeSingle();
+    if (vehicleErr) throw vehicleErr;
+    if (!vehicle) {
+      return driverError(req, "errors.vehicleNotFound", 400);
+    }
+    if (inspection_type === "pre" && vehicle.out_of_service) {
+      return driverError(req, "errors.vehicleOutOfService", 409);
+    }
+
+    // Items that don't apply to this vehicle are recorded as N/A; items with a
+    // vehicle rule that do apply can't be skipped with N/A.
+    const submittedAnswers = (answers ?? {}) as Record<string, unknown>;
+    const templateAnswers: Record<string, string> = {};
+    for (const item of template.items) {
+      if (!isItemApplicable(item, vehicle)) {
+        templateAnswers[item.item_key] = "na";
+        continue;
+      }
+
+      const value = submittedAnswers[item.item_key];
+      if (typeof value !== "string" || !ANSWER_VALUES.includes(value)) {
+        return driverError(req, "errors.answerItem", 400, {
+          item: itemText(item, locale).label,
+        });
+      }
+      if (hasApplicabilityRule(item) && value === "na") {
+        return driverError(req, "errors.itemApplies", 400, {
+          item: itemText(item, locale).label,
+        });
+      }
+      templateAnswers[item.item_key] = value;
+    }
+
+    // The status comes from the checklist's severities, never from the client
+    const overallStatus = computeOverallStatus(template.items, templateAnswers);
+
+    // The odometer never goes backwards; an unexpected reading needs a reason
+    const odometerMiles = parseOdometer(odometer_reading);
+    if (odometerMiles === null) {
+      return driverError(req, "errors.odometerFormat", 400);
+    }
+    const overrideReason =
+      typeof odometer_override_reason === "string" ? odometer_override_reason.trim() : "";
+    const odometerProblem = await checkOdometerReading(vehicle_id, odometerMiles);
+    if (odometerProblem && !overrideReason) {
+      const formatMiles = (miles: number) => miles.toLocaleString(INTL_LOCALES[locale]);
+      const message =
+        odometerProblem.code === "backwards"
+          ? translate(locale, "errors.odometerBackwards", {
+              last: formatMiles(odometerProblem.last_miles),
+            })
+          : translate(locale, "errors.odometerJump", {
+              difference: formatMiles(odometerMiles - odometerProblem.last_miles),
+              last: formatMiles(odometerProblem.last_miles),
+            });
+      return NextResponse.json(
+        { error: message, odometer_check: { ...odometerProblem, message } },
+        { status: 409 }
+      );
+    }
+
+    // A pre-trip must acknowledge or re-check everything carried forward from
+    // the vehicle's earlier inspections
+    let carriedForward: CarryForwardAck[] = [];
+    if (inspection_type === "pre") {
+      const result = buildCarryForwardAcks(
+        await getCarryForward(vehicle_id),
+        carried_forward,
+        templateAnswers
+      );
+      if ("missing" in result) {
+        const { missing } = result;
+        if (missing.kind === "note") {
+          return driverError(req, "errors.carriedNoteMissing", 400, { note: missing.notes });
+        }
+        const item = template.items.find((i) => i.item_key === missing.item_key);
+        return driverError(req, "errors.carriedDefectMissing", 400, {
+          item: item ? itemText(item, locale).label : missing.item_label,
+        });
+      }
+      carriedForward = result.acks;
+    }
+
+    // Name and license come from the driver record, not the request body
+    const { data: driver, error: driverErr } = await supabaseAdmin
+      .from("drivers")
+      .select("full_name, license_number")
+      .eq("id", driver_id)
+      .single();
+
+    if (driverErr) throw driverErr;
+
+    const signature = captureSignature(req, signatureImage);
+
+    const today = complianceToday();
     const nowISO = new Date().toISOString();
 
     // Insert the inspection record
@@ -99,36 +261,137 @@ export async function POST(req: NextRequest) {
       .from("inspections")
       .insert({
         driver_id,
-        driver_name: driver_name || null,
-        driver_license_number: driver_license_number || null,
+        driver_name: driver.full_name,
+        driver_license_number: driver.license_number ?? null,
         vehicle_id,
         vehicle_label: vehicle_label || null,
         inspection_type,
-        shift: shift || null,
-        answers: answers || {},
-        overall_status: overall_status || null,
+        shift,
+        template_id: template.id,
+        template_version: template.version,
+        answers: templateAnswers,
+        overall_status: overallStatus,
         notes: notes || null,
-        signature_name: signature_name || null,
-        odometer_reading: odometer_reading ?? null,
+        signature_name: signature_name.trim(),
+        signature_image: signature.image,
+        signature_signed_at: signature.signedAt,
+        signature_device: signature.device,
+        answers_hash: hashInspectionAnswers(templateAnswers),
+        odometer_reading: String(odometer_reading).trim(),
+        odometer_miles: odometerMiles,
+        odometer_override_reason: odometerProblem ? overrideReason : null,
+        carried_forward: carriedForward,
       })
       .select()
       .single();
 
     if (inspErr) throw inspErr;
 
+    // Seal the record into the vehicle's hash chain
+    await appendToChain(vehicle_id, "inspection", inspection);
+
+    // Link photos the driver took of failed items while filling out the form
+    const failedItemKeys = Object.keys(templateAnswers).filter(
+      (key) => templateAnswers[key] === "fail"
+    );
+    await attachPhotos(
+      inspection.id,
+      driver_id,
+      Array.isArray(photo_ids) ? photo_ids.filter((id) => typeof id === "string") : [],
+      failedItemKeys
+    );
+
+    // Note the acknowledgment on each carried-forward ticket's history
+    for (const ack of carriedForward) {
+      if (ack.kind !== "defect") continue;
+      await addDefectEvent({
+        defect_id: ack.defect_id,
+        status: ack.status,
+        note:
+          ack.action === "rechecked"
+            ? `Re-checked on pre-trip${ack.recheck_answer ? ` (${ack.recheck_answer})` : ""}`
+            : "Acknowledged on pre-trip",
+        actor: `Driver: ${driver.full_name}`,
+        inspection_id: inspection.id,
+      });
+    }
+
+    // Open defect tickets for failed items; verify repaired ones that now pass
+    await syncDefectsFromInspection({
+      inspection: { ...inspection, driver_name: driver.full_name },
+      items: template.items,
+      answers: templateAnswers,
+    });
+
+    // A failed critical item takes the vehicle out of service
+    const criticalFailures = template.items.filter(
+      (item) => item.severity === "critical" && templateAnswers[item.item_key] === "fail"
+    );
+    if (criticalFailures.length > 0) {
+      await takeVehicleOutOfService({
+        vehicleId: vehicle_id,
+        reason: `critical ${inspection_type}-trip failure: ${criticalFailures
+          .map((item) => item.label)
+          .join(", ")}`,
+        inspectionId: inspection.id,
+        driverId: driver_id,
+      });
+    }
+
+    // A post-trip that doesn't confirm the vehicle is empty, or a student
+    // picked up today and never dropped off, escalates to dispatch right away
+    let childCheckAlert = false;
+    if (inspection_type === "post") {
+      const itemAlert = await checkPostTripChildItems({
+        inspectionId: inspection.id,
+        answers: templateAnswers,
+        items: template.items,
+        driverId: driver_id,
+        driverName: driver.full_name,
+        vehicleId: vehicle_id,
+        vehicleLabel: vehicle_label || "the vehicle",
+      });
+      const pickupAlerts = await checkUnmatchedPickups({
+        driverId: driver_id,
+        driverName: driver.full_name,
+        workDate: today,
+        vehicleId: vehicle_id,
+        vehicleLabel: vehicle_label || null,
+      });
+      childCheckAlert = itemAlert || pickupAlerts > 0;
+    }
+
     // Handle time tracking based on inspection type
     if (inspection_type === "pre") {
-      // Start a work session - create a time entry if none is currently open
+      // Start a work session for this shift. A session still open from an
+      // earlier shift is closed here so each entry's hours count toward one
+      // shift on the timecard.
       const { data: openEntries, error: openErr } = await supabaseAdmin
         .from("driver_time_entries")
-        .select("id")
+        .select("id, start_time, shift")
         .eq("driver_id", driver_id)
         .eq("work_date", today)
         .is("end_time", null);
 
       if (openErr) throw openErr;
 
-      if (!openEntries || openEntries.length === 0) {
+      const sameShiftOpen = (openEntries ?? []).some((e) => e.shift === shift);
+      for (const entry of openEntries ?? []) {
+        if (entry.shift === shift) continue;
+        const { error: closeErr } = await supabaseAdmin
+          .from("driver_time_entries")
+          .update({
+            end_time: nowISO,
+            duration_seconds: Math.max(
+              0,
+              Math.floor((new Date(nowISO).getTime() - new Date(entry.start_time).getTime()) / 1000)
+            ),
+          })
+          .eq("id", entry.id);
+        if (closeErr) throw closeErr;
+      }
+
+      if (!sameShiftOpen) {
         const { error: timeErr } = await supabaseAdmin
           .from("driver_time_entries")
           .insert({
@@ -136,17 +399,20 @@ export async function POST(req: NextRequest) {
             work_date: today,
             start_time: nowISO,
             end_time: null,
+            shift,
           });
 
         if (timeErr) throw timeErr;
       }
     } else if (inspection_type === "post") {
-      // Stop the work session - close any open time entry
+      // Stop the work session - close this shift's open time entry, so a late
+      // post-trip doesn't end the next shift's session
       const { data: openEntries, error: openErr } = await supabaseAdmin
         .from("driver_time_entries")
-        .select("id, start_time")
+        .select("id, start_time, shift")
         .eq("driver_id", driver_id)
         .eq("work_date", today)
+        .eq("shift", shift)
         .is("end_time", null)
         .order("start_time", { ascending: false })
         .limit(1);
@@ -174,7 +440,11 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    return NextResponse.json({ inspection });
+    return NextResponse.json({
+      inspection,
+      vehicle_out_of_service: criticalFailures.length > 0,
+      child_check_alert: childCheckAlert,
+    });
   } catch (err: any) {
     console.error("Inspection error:", err);
     return NextResponse.json({ error: err.message }, { status: 500 });
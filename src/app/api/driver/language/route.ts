@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import { DRIVER_LANGUAGE_COOKIE, isLocale } from "@/lib/i18n";
+import { driverError, driverLanguageCookieOptions } from "@/lib/i18n/server";
+
+/**
+ * PATCH /api/driver/language
+ *
+ * Body: { driver_id, language }
+ *
+ * Saves the driver's portal language so it follows them to any device they
+ * sign in on, and switches this device to it.
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const session = authorizeDriver(req, body.driver_id);
+    if (session instanceof NextResponse) return session;
+
+    const { language } = body;
+    if (!isLocale(language)) {
+      return driverError(req, "errors.invalidLanguage", 400);
+    }
+
+    const { error } = await supabaseAdmin
+      .from("drivers")
+      .update({ preferred_language: language })
+      .eq("id", session.driverId);
+    if (error) throw error;
+
+    const response = NextResponse.json({ preferred_language: language });
+    response.cookies.set(DRIVER_LANGUAGE_COOKIE, language, driverLanguageCookieOptions);
+    return response;
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
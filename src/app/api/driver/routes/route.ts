@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import { listOutOfServiceVehicleIds } from "@/lib/vehicles/serviceStatus";
+import { countRoutesByShift } from "@/lib/inspections/shifts";
+import { complianceToday } from "@/lib/vehicles/compliance";
 
 interface RouteStop {
   id: string;
@@ -21,21 +25,16 @@ interface RouteStop {
 
 export async function GET(req: NextRequest) {
   try {
-    const driverId = req.nextUrl.searchParams.get("driverId");
-    if (!driverId) {
-      return NextResponse.json(
-        { error: "driverId is required" },
-        { status: 400 }
-      );
-    }
+    const session = authorizeDriver(req, req.nextUrl.searchParams.get("driverId"));
+    if (session instanceof NextResponse) return session;
+    const driverId = session.driverId;
 
-    // 1. Get today's date and day of week
-    const now = new Date();
-    const today = now.toISOString().slice(0, 10);
-    const dayOfWeek = now.getDay(); // 0=Sun, 6=Sat
+    // 1. Get today's date and day of week in the operating time zone
+    const today = complianceToday();
+    const dayOfWeek = new Date(`${today}T00:00:00Z`).getUTCDay(); // 0=Sun, 6=Sat
 
     // 2. Load driver_route_assignments for this driver and day_of_week
-    const { data: assignments, error: assignErr } = await supabaseAdmin
+    const { data: allAssignments, error: assignErr } = await supabaseAdmin
       .from("driver_route_assignments")
       .select("*")
       .eq("driver_id", driverId)
@@ -43,9 +42,22 @@ export async function GET(req: NextRequest) {
 
     if (assignErr) throw assignErr;
 
+    // Routes on an out-of-service vehicle stay hidden until an admin clears
+    // the vehicle or dispatch reassigns a spare
+    const outOfServiceVehicleIds = await listOutOfServiceVehicleIds();
+    const assignments = (allAssignments || []).filter(
+      (a) => !a.vehicle_id || !outOfServiceVehicleIds.has(a.vehicle_id)
+    );
+    const outOfServiceRouteCount = (allAssignments || []).length - assignments.length;
+
     // 3. If no assignments, return empty
     if (!assignments || assignments.length === 0) {
-      return NextResponse.json({ routes: [], stopsMap: {}, attendance: {} });
+      return NextResponse.json({
+        routes: [],
+        stopsMap: {},
+        attendance: {},
+        outOfServiceRouteCount,
+      });
     }
 
     // 4. Collect route IDs
@@ -83,12 +95,7 @@ export async function GET(req: NextRequest) {
     );
 
     // Total assigned route counts (before completion filtering) for shift gating
-    const totalRouteCounts = {
-      AM: allAssignedRoutes.filter(
-        (r) => r.direction === "AM" || r.direction === "MIDDAY"
-      ).length,
-      PM: allAssignedRoutes.filter((r) => r.direction === "PM").length,
-    };
+    const totalRouteCounts = countRoutesByShift(allAssignedRoutes);
 
     // 7. For each stop, load student and school data, build effective addresses
     const stops = stopsRes.data || [];
@@ -332,6 +339,7 @@ export async function GET(req: NextRequest) {
       stopsMap,
       attendance,
       totalRouteCounts,
+      outOfServiceRouteCount,
     });
   } catch (err: any) {
     console.error("Driver routes error:", err);
@@ -1,26 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { authorizeDriver } from "@/lib/auth/driverSession";
 
 /**
  * GET /api/driver/time-entries?driverId=...&startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
  *
- * Returns time entries for a driver within a date range.
+ * Returns time entries for the signed-in driver within a date range.
  * Used by the driver time-log page to display weekly summaries.
  */
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
-    const driverId = searchParams.get("driverId");
+    const session = authorizeDriver(req, searchParams.get("driverId"));
+    if (session instanceof NextResponse) return session;
+
+    const driverId = session.driverId;
     const startDate = searchParams.get("startDate");
     const endDate = searchParams.get("endDate");
 
-    if (!driverId) {
-      return NextResponse.json(
-        { error: "driverId is required" },
-        { status: 400 }
-      );
-    }
-
     if (!startDate || !endDate) {
       return NextResponse.json(
         { error: "startDate and endDate are required" },
@@ -31,7 +28,7 @@ export async function GET(req: NextRequest) {
     const { data, error } = await supabaseAdmin
       .from("driver_time_entries")
       .select(
-        "id, driver_id, work_date, start_time, end_time, duration_seconds"
+        "id, driver_id, work_date, start_time, end_time, duration_seconds, shift"
       )
       .eq("driver_id", driverId)
       .gte("work_date", startDate)
@@ -1,19 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase/admin";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import { driverError } from "@/lib/i18n/server";
+import { isShift } from "@/lib/inspections/shifts";
+import { complianceToday } from "@/lib/vehicles/compliance";
 
 export async function GET(req: NextRequest) {
   try {
-    const driverId = req.nextUrl.searchParams.get("driverId");
-    const date = req.nextUrl.searchParams.get("date");
+    const session = authorizeDriver(req, req.nextUrl.searchParams.get("driverId"));
+    if (session instanceof NextResponse) return session;
 
-    if (!driverId) {
-      return NextResponse.json(
-        { error: "driverId is required" },
-        { status: 400 }
-      );
-    }
+    const driverId = session.driverId;
+    const date = req.nextUrl.searchParams.get("date");
 
-    const targetDate = date || new Date().toISOString().slice(0, 10);
+    const targetDate = date || complianceToday();
 
     // Load all time entries for this driver on the target date
     const { data: entries, error } = await supabaseAdmin
@@ -50,16 +50,20 @@ export async function GET(req: NextRequest) {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { driver_id, action } = body;
+    const session = authorizeDriver(req, body.driver_id);
+    if (session instanceof NextResponse) return session;
+
+    const driver_id = session.driverId;
+    const { action, shift } = body;
 
-    if (!driver_id || !action) {
+    if (!action) {
       return NextResponse.json(
-        { error: "driver_id and action are required" },
+        { error: "action is required" },
         { status: 400 }
       );
     }
 
-    const today = new Date().toISOString().slice(0, 10);
+    const today = complianceToday();
 
     if (action === "pause") {
       const { data: openEntry, error: findErr } = await supabaseAdmin
@@ -73,10 +77,7 @@ export async function POST(req: NextRequest) {
       if (findErr) throw findErr;
 
       if (!openEntry) {
-        return NextResponse.json(
-          { error: "No open time entry found to pause" },
-          { status: 404 }
-        );
+        return driverError(req, "errors.noOpenTimeEntry", 404);
       }
 
       const now = new Date().toISOString();
@@ -104,10 +105,7 @@ export async function POST(req: NextRequest) {
         .maybeSingle();
 
       if (existing) {
-        return NextResponse.json(
-          { error: "An open time entry already exists" },
-          { status: 409 }
-        );
+        return driverError(req, "errors.timeEntryAlreadyOpen", 409);
       }
 
       const now = new Date().toISOString();
@@ -118,6 +116,8 @@ export async function POST(req: NextRequest) {
           work_date: today,
           start_time: now,
           end_time: null,
+          // The shift the portal is resuming, for timecard categorization
+          shift: isShift(shift) ? shift : null,
         });
 
       if (insertErr) throw insertErr;
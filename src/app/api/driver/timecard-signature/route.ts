@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+import {
+  captureSignature,
+  hashTimecardEntries,
+  parseSignatureImage,
+} from "@/lib/signatures/capture";
+import { driverError } from "@/lib/i18n/server";
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+// Weeks run Sunday–Saturday
+function weekEndFor(weekStart: string): string | null {
+  if (!YMD.test(weekStart)) return null;
+  const start = new Date(`${weekStart}T00:00:00Z`);
+  if (Number.isNaN(start.getTime()) || start.getUTCDay() !== 0) return null;
+  start.setUTCDate(start.getUTCDate() + 6);
+  return start.toISOString().slice(0, 10);
+}
+
+async function loadWeekEntries(driverId: string, weekStart: string, weekEnd: string) {
+  const { data, error } = await supabaseAdmin
+    .from("driver_time_entries")
+    .select("id, work_date, start_time, end_time, duration_seconds")
+    .eq("driver_id", driverId)
+    .gte("work_date", weekStart)
+    .lte("work_date", weekEnd);
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * GET /api/driver/timecard-signature?driverId=...&weekStart=YYYY-MM-DD
+ *
+ * Returns the driver's signature for the week (if any) and whether the
+ * week's time entries still match what was signed.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const session = authorizeDriver(req, searchParams.get("driverId"));
+    if (session instanceof NextResponse) return session;
+
+    const weekStart = searchParams.get("weekStart") ?? "";
+    const weekEnd = weekEndFor(weekStart);
+    if (!weekEnd) {
+      return NextResponse.json({ error: "weekStart must be a Sunday (YYYY-MM-DD)." }, { status: 400 });
+    }
+
+    const { data: signature, error } = await supabaseAdmin
+      .from("timecard_signatures")
+      .select("*")
+      .eq("driver_id", session.driverId)
+      .eq("week_start", weekStart)
+      .maybeSingle();
+    if (error) throw error;
+
+    const entries = signature ? await loadWeekEntries(session.driverId, weekStart, weekEnd) : [];
+    return NextResponse.json({
+      signature,
+      entries_match_signature: signature
+        ? hashTimecardEntries(entries) === signature.entries_hash
+        : null,
+    });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/driver/timecard-signature
+ *
+ * Body: { driver_id, week_start, signature_image }
+ *
+ * Signs the driver's timecard for a week. Signing again (e.g. after a
+ * correction) replaces the earlier signature.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const session = authorizeDriver(req, body.driver_id);
+    if (session instanceof NextResponse) return session;
+
+    const weekStart = typeof body.week_start === "string" ? body.week_start : "";
+    const weekEnd = weekEndFor(weekStart);
+    if (!weekEnd) {
+      return NextResponse.json({ error: "week_start must be a Sunday (YYYY-MM-DD)." }, { status: 400 });
+    }
+
+    const image = parseSignatureImage(body.signature_image);
+    if (!image) {
+      return driverError(req, "errors.timecardSignatureMissing", 400);
+    }
+
+    const entries = await loadWeekEntries(session.driverId, weekStart, weekEnd);
+    if (entries.length === 0) {
+      return driverError(req, "errors.timecardNoHours", 400);
+    }
+    if (entries.some((e) => !e.end_time)) {
+      return driverError(req, "errors.timecardOpenSession", 409);
+    }
+
+    const signature = captureSignature(req, image);
+    const { data, error } = await supabaseAdmin
+      .from("timecard_signatures")
+      .upsert(
+        {
+          driver_id: session.driverId,
+          week_start: weekStart,
+          signature_image: signature.image,
+          signed_at: signature.signedAt,
+          device: signature.device,
+          entries_hash: hashTimecardEntries(entries),
+          total_seconds: entries.reduce(
+            (sum, e) =>
+              sum +
+              (e.duration_seconds ??
+                Math.max(0, Math.floor((Date.parse(e.end_time) - Date.parse(e.start_time)) / 1000))),
+            0
+          ),
+        },
+        { onConflict: "driver_id,week_start" }
+      )
+      .select()
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json({ signature: data, entries_match_signature: true });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { errorMessage } from "@/lib/supabase/errors";
+import { authorizeDriver } from "@/lib/auth/driverSession";
+
+const DRIVER_VEHICLE_COLUMNS =
+  "id, label, year, make, model, plate, vin, is_active, wheelchair_equipped, lift_installed, seating_capacity, out_of_service";
+
+/**
+ * GET /api/driver/vehicles
+ * GET /api/driver/vehicles?id=...
+ *
+ * The list of active vehicles is public because the Driver Portal needs it on
+ * the sign-in screen. Looking up a single vehicle (including inactive ones, for
+ * past inspections) requires a driver session.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get("id");
+
+    if (id) {
+      const session = authorizeDriver(req);
+      if (session instanceof NextResponse) return session;
+
+      const { data, error } = await supabaseAdmin
+        .from("vehicles")
+        .select(DRIVER_VEHICLE_COLUMNS)
+        .eq("id", id)
+        .maybeSingle();
+      if (error) throw error;
+      return NextResponse.json({ vehicle: data });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("vehicles")
+      .select(DRIVER_VEHICLE_COLUMNS)
+      .eq("is_active", true)
+      .order("label", { ascending: true });
+    if (error) throw error;
+    return NextResponse.json({ vehicles: data });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorMessage } from "@/lib/supabase/errors";
+import { authorizeJob } from "@/lib/auth/jobAuth";
+import { createDispatchAlert, dispatchAlertExists } from "@/lib/alerts/dispatch";
+import { detectMissingInspections } from "@/lib/inspections/missingInspections";
+import { complianceToday } from "@/lib/vehicles/compliance";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/jobs/missing-inspections[?date=YYYY-MM-DD]
+ *
+ * Daily compliance job. Checks the given work date (yesterday by default, so
+ * the day is complete) for assigned drivers missing a pre-trip or post-trip
+ * and raises one dispatch alert summarizing them.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const denied = authorizeJob(req);
+    if (denied) return denied;
+
+    let date = new URL(req.url).searchParams.get("date");
+    if (date && !DATE_RE.test(date)) {
+      return NextResponse.json({ error: "date must be YYYY-MM-DD." }, { status: 400 });
+    }
+    if (!date) {
+      // Yesterday in the operating time zone
+      const yesterday = new Date(`${complianceToday()}T00:00:00Z`);
+      yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+      date = yesterday.toISOString().slice(0, 10);
+    }
+
+    const missing = await detectMissingInspections(date);
+    let alerted = false;
+    if (missing.length > 0) {
+      const ranWithoutPreTrip = missing.filter((m) => m.ran_route && m.missing.includes("pre")).length;
+      const message =
+        `${missing.length} driver shift${missing.length === 1 ? " is" : "s are"} missing a pre-trip or post-trip on ${date}` +
+        (ranWithoutPreTrip > 0 ? ` (${ranWithoutPreTrip} ran routes without a pre-trip)` : "") +
+        ". See Missing inspections.";
+      if (!(await dispatchAlertExists("missing_inspections", message))) {
+        await createDispatchAlert({ kind: "missing_inspections", message });
+        alerted = true;
+      }
+    }
+
+    return NextResponse.json({ date, missing: missing.length, alerted });
+  } catch (err) {
+    const message = errorMessage(err);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
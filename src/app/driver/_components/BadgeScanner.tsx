@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { MessageKey } from "@/lib/i18n";
+import { useDriverLanguage } from "./DriverLanguage";
+
+// Minimal typing for the browser BarcodeDetector API (Chrome / Android WebView)
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorInstance = {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+};
+type BarcodeDetectorConstructor = new (options: {
+  formats: string[];
+}) => BarcodeDetectorInstance;
+
+type BadgeScannerProps = {
+  onScan: (rawValue: string) => void;
+  onClose: () => void;
+};
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === "undefined") return null;
+  const detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+  return detector ?? null;
+}
+
+export default function BadgeScanner({ onScan, onClose }: BadgeScannerProps) {
+  const { t } = useDriverLanguage();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  // Only mounted after the driver taps "Scan badge", so browser APIs are available
+  const [error, setError] = useState<MessageKey | null>(() =>
+    getBarcodeDetector() && typeof navigator.mediaDevices?.getUserMedia === "function"
+      ? null
+      : "login.scanUnsupported",
+  );
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector || typeof navigator.mediaDevices?.getUserMedia !== "function") return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+        });
+        if (stopped || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new Detector({ formats: ["qr_code"] });
+        timer = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          try {
+            const codes = await detector.detect(videoRef.current);
+            if (codes.length > 0 && !stopped) {
+              stopped = true;
+              onScan(codes[0].rawValue);
+            }
+          } catch (err) {
+            console.error("Badge scan failed", err);
+          }
+        }, 300);
+      } catch (err) {
+        console.error("Camera unavailable for badge scan", err);
+        setError("login.scanCameraUnavailable");
+      }
+    };
+
+    void start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [onScan]);
+
+  return (
+    <div className="space-y-2 rounded-xl border border-white/15 bg-slate-950/70 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold text-slate-100">{t("login.scanTitle")}</p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="btn-ghost px-3 py-1 text-[11px]"
+        >
+          {t("login.scanCancel")}
+        </button>
+      </div>
+      {error ? (
+        <p className="text-[11px] text-amber-200">{t(error)}</p>
+      ) : (
+        <>
+          <video
+            ref={videoRef}
+            muted
+            playsInline
+            className="aspect-square w-full rounded-lg bg-black object-cover"
+          />
+          <p className="text-[11px] text-slate-400">{t("login.scanHint")}</p>
+        </>
+      )}
+    </div>
+  );
+}
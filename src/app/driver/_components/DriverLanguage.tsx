@@ -0,0 +1,99 @@
+"use client";
+
+import { useCallback, useState, useSyncExternalStore } from "react";
+import {
+  DEFAULT_LOCALE,
+  DRIVER_LANGUAGE_COOKIE,
+  DRIVER_LANGUAGE_COOKIE_MAX_AGE,
+  LOCALE_NAMES,
+  LOCALES,
+  isLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+} from "@/lib/i18n";
+
+// The portal language lives in a cookie (set by sign-in and by the picker)
+// so every driver screen and the driver API routes agree on it without a
+// round trip. Screens re-render when the picker changes it.
+
+const LANGUAGE_CHANGE_EVENT = "transafe:driver-language";
+
+function readLocale(): Locale {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${DRIVER_LANGUAGE_COOKIE}=([^;]*)`));
+  const value = match ? decodeURIComponent(match[1]) : null;
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener(LANGUAGE_CHANGE_EVENT, onChange);
+  return () => window.removeEventListener(LANGUAGE_CHANGE_EVENT, onChange);
+}
+
+/**
+ * Switches this device to `locale`. The server copy is saved separately by
+ * /api/driver/language.
+ */
+export function setDriverLocale(locale: Locale) {
+  document.cookie = `${DRIVER_LANGUAGE_COOKIE}=${locale}; path=/; max-age=${DRIVER_LANGUAGE_COOKIE_MAX_AGE}; samesite=lax`;
+  window.dispatchEvent(new Event(LANGUAGE_CHANGE_EVENT));
+}
+
+export function useDriverLanguage() {
+  const locale = useSyncExternalStore(subscribe, readLocale, () => DEFAULT_LOCALE);
+  const t = useCallback(
+    (key: MessageKey, vars?: Record<string, string | number>) => translate(locale, key, vars),
+    [locale]
+  );
+  return { locale, t };
+}
+
+/**
+ * Language dropdown for driver screens. With `save`, the choice is also
+ * stored on the signed-in driver's record.
+ */
+export function LanguagePicker({ save = false }: { save?: boolean }) {
+  const { locale, t } = useDriverLanguage();
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  const handleChange = async (next: Locale) => {
+    setDriverLocale(next);
+    setSaveFailed(false);
+    if (!save) return;
+    try {
+      const res = await fetch("/api/driver/language", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: next }),
+      });
+      if (!res.ok) setSaveFailed(true);
+    } catch (err) {
+      console.error(err);
+      setSaveFailed(true);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="flex items-center justify-between gap-2 text-xs text-slate-300">
+        <span className="font-semibold uppercase tracking-[0.14em]">
+          🌐 {t("language.label")}
+        </span>
+        <select
+          value={locale}
+          onChange={(e) => {
+            if (isLocale(e.target.value)) handleChange(e.target.value);
+          }}
+          className="rounded-lg border border-white/15 bg-slate-900 px-2 py-1 text-xs text-slate-100"
+        >
+          {LOCALES.map((option) => (
+            <option key={option} value={option}>
+              {LOCALE_NAMES[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {saveFailed && <p className="text-[11px] text-amber-300">{t("language.saveFailed")}</p>}
+    </div>
+  );
+}
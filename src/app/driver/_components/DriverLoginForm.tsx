@@ -1,6 +1,10 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useCallback } from "react";
+import BadgeScanner from "./BadgeScanner";
+import { parseBadgePayload } from "@/lib/drivers/badge";
+import { isLocale } from "@/lib/i18n";
+import { LanguagePicker, setDriverLocale, useDriverLanguage } from "./DriverLanguage";
 
 type Vehicle = {
   id: string;
@@ -11,15 +15,17 @@ type Vehicle = {
   plate: string | null;
   vin: string | null;
   is_active: boolean;
-  created_at: string;
+  out_of_service: boolean;
 };
 
 type DriverLoginFormProps = {
   onLoginSuccess: (driver: {
     id: string;
+    employee_number: string | null;
     full_name: string;
     license_number: string | null;
     is_active: boolean;
+    preferred_language: string;
     pin: string | null;
     created_at: string;
   }, vehicleId: string) => void;
@@ -32,11 +38,15 @@ export default function DriverLoginForm({
   vehicles,
   loadingVehicles,
 }: DriverLoginFormProps) {
+  const [loginMode, setLoginMode] = useState<"employee" | "name">("employee");
+  const [employeeNumber, setEmployeeNumber] = useState("");
+  const [showScanner, setShowScanner] = useState(false);
   const [driverName, setDriverName] = useState("");
   const [driverPin, setDriverPin] = useState("");
   const [selectedVehicleId, setSelectedVehicleId] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [loadingDriverLookup, setLoadingDriverLookup] = useState(false);
+  const { t } = useDriverLanguage();
 
   // Prefill login form from the last used driver
   useEffect(() => {
@@ -48,10 +58,14 @@ export default function DriverLoginForm({
     try {
       const parsed = JSON.parse(saved) as {
         driverName?: string;
+        employeeNumber?: string;
         vehicleId?: string;
       };
 
-      if (parsed.driverName && !driverName) {
+      if (parsed.employeeNumber && !employeeNumber) {
+        setEmployeeNumber(parsed.employeeNumber);
+      } else if (parsed.driverName && !driverName) {
+        setLoginMode("name");
         setDriverName(parsed.driverName);
       }
       if (parsed.vehicleId && !selectedVehicleId) {
@@ -63,19 +77,38 @@ export default function DriverLoginForm({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const handleBadgeScanned = useCallback((rawValue: string) => {
+    setShowScanner(false);
+    const scannedNumber = parseBadgePayload(rawValue);
+    if (!scannedNumber) {
+      setError(t("errors.notABadge"));
+      return;
+    }
+    setError(null);
+    setLoginMode("employee");
+    setEmployeeNumber(scannedNumber);
+    document.getElementById("driverPin")?.focus();
+  }, [t]);
+
   const handleStartSession = async () => {
     const normalizeName = (name: string) =>
       name.trim().replace(/\s+/g, " ");
 
     const inputName = normalizeName(driverName);
+    const inputNumber = employeeNumber.trim();
+    const identity = loginMode === "employee" ? inputNumber : inputName;
 
-    if (!inputName || !selectedVehicleId) {
-      setError("Please enter your name, PIN, and select a vehicle.");
+    if (!identity || !selectedVehicleId) {
+      setError(
+        loginMode === "employee"
+          ? t("login.missingEmployee")
+          : t("login.missingName"),
+      );
       return;
     }
 
     if (!driverPin.trim()) {
-      setError("Please enter your PIN.");
+      setError(t("login.missingPin"));
       return;
     }
 
@@ -87,7 +120,9 @@ export default function DriverLoginForm({
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          driverName: inputName,
+          ...(loginMode === "employee"
+            ? { employeeNumber: inputNumber }
+            : { driverName: inputName }),
           pin: driverPin.trim(),
           vehicleId: selectedVehicleId,
         }),
@@ -96,13 +131,16 @@ export default function DriverLoginForm({
       const body = await res.json();
 
       if (!res.ok) {
-        setError(body.error || "Login failed. Please try again.");
+        setError(body.error || t("login.failed"));
         setLoadingDriverLookup(false);
         return;
       }
 
       const driver = body.driver;
 
+      // The server has switched this device to the driver's saved language
+      if (isLocale(driver.preferred_language)) setDriverLocale(driver.preferred_language);
+
       if (typeof window !== "undefined") {
         const sessionPayload = {
           driverId: driver.id,
@@ -121,6 +159,7 @@ export default function DriverLoginForm({
 
         const recentPayload = {
           driverName: driver.full_name,
+          employeeNumber: driver.employee_number ?? undefined,
           vehicleId: selectedVehicleId,
         };
         window.localStorage.setItem(
@@ -133,8 +172,7 @@ export default function DriverLoginForm({
     } catch (err: any) {
       console.error(err);
       setError(
-        err?.message ??
-          "Failed to look up driver. Please check your name spelling or contact admin.",
+        err?.message ?? t("login.lookupFailed"),
       );
     } finally {
       setLoadingDriverLookup(false);
@@ -144,11 +182,9 @@ export default function DriverLoginForm({
   return (
     <div className="space-y-4 max-w-md mx-auto">
       <section className="card space-y-2 text-center sm:text-left">
-        <h1 className="text-xl font-semibold sm:text-2xl">Driver Portal</h1>
-        <p className="text-sm text-slate-200/80">
-          Enter your name, PIN, and select your assigned vehicle to begin your
-          daily inspection and time clock.
-        </p>
+        <h1 className="text-xl font-semibold sm:text-2xl">{t("login.title")}</h1>
+        <p className="text-sm text-slate-200/80">{t("login.intro")}</p>
+        <LanguagePicker />
       </section>
 
       {error && (
@@ -158,28 +194,82 @@ export default function DriverLoginForm({
       )}
 
       <section className="card space-y-4">
-        {/* Name */}
+        {/* Identity */}
         <div className="space-y-2">
-          <label className="block text-sm font-medium text-slate-100">
-            Your full name
-          </label>
-          <input
-            type="text"
-            value={driverName}
-            onChange={(e) => setDriverName(e.target.value)}
-            className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
-            placeholder="e.g. John Doe"
-          />
-          <p className="text-[11px] text-slate-400">
-            Must match how your name is entered by the admin (e.g. &quot;Julio
-            Duarte&quot;).
-          </p>
+          <div className="flex gap-2 text-[11px]">
+            {(
+              [
+                { id: "employee", label: t("login.modeEmployee") },
+                { id: "name", label: t("login.modeName") },
+              ] as const
+            ).map((mode) => (
+              <button
+                key={mode.id}
+                type="button"
+                onClick={() => setLoginMode(mode.id)}
+                className={`rounded-full px-3 py-1 font-semibold ${
+                  loginMode === mode.id
+                    ? "bg-emerald-500 text-slate-950"
+                    : "bg-slate-900 text-slate-200 ring-1 ring-white/10"
+                }`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+
+          {loginMode === "employee" ? (
+            <>
+              <label className="block text-sm font-medium text-slate-100">
+                {t("login.employeeNumber")}
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  autoComplete="off"
+                  autoCapitalize="characters"
+                  value={employeeNumber}
+                  onChange={(e) => setEmployeeNumber(e.target.value)}
+                  className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+                  placeholder={t("login.employeeNumberPlaceholder")}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowScanner(true)}
+                  className="btn-ghost whitespace-nowrap px-3 py-2 text-xs"
+                >
+                  {t("login.scanBadge")}
+                </button>
+              </div>
+              {showScanner && (
+                <BadgeScanner
+                  onScan={handleBadgeScanned}
+                  onClose={() => setShowScanner(false)}
+                />
+              )}
+              <p className="text-[11px] text-slate-400">{t("login.employeeNumberHint")}</p>
+            </>
+          ) : (
+            <>
+              <label className="block text-sm font-medium text-slate-100">
+                {t("login.fullName")}
+              </label>
+              <input
+                type="text"
+                value={driverName}
+                onChange={(e) => setDriverName(e.target.value)}
+                className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+                placeholder={t("login.fullNamePlaceholder")}
+              />
+              <p className="text-[11px] text-slate-400">{t("login.fullNameHint")}</p>
+            </>
+          )}
         </div>
 
         {/* PIN */}
         <div className="space-y-2">
           <label className="block text-sm font-medium text-slate-100">
-            Driver PIN
+            {t("login.pin")}
           </label>
           <input
             id="driverPin"
@@ -189,17 +279,15 @@ export default function DriverLoginForm({
             value={driverPin}
             onChange={(e) => setDriverPin(e.target.value)}
             className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
-            placeholder="4-6 digit PIN"
+            placeholder={t("login.pinPlaceholder")}
           />
-          <p className="text-[11px] text-slate-400">
-            This is your personal secret code. Do not share it with anyone.
-          </p>
+          <p className="text-[11px] text-slate-400">{t("login.pinHint")}</p>
         </div>
 
         {/* Vehicle */}
         <div className="space-y-2">
           <label className="block text-sm font-medium text-slate-100">
-            Assigned vehicle
+            {t("login.vehicle")}
           </label>
           <select
             value={selectedVehicleId}
@@ -213,21 +301,23 @@ export default function DriverLoginForm({
           >
             <option value="">
               {!driverPin.trim()
-                ? "Enter your PIN to unlock vehicles"
+                ? t("login.vehicleLocked")
                 : loadingVehicles
-                  ? "Loading vehicles..."
-                  : "Select a vehicle"}
+                  ? t("login.vehiclesLoading")
+                  : t("login.vehicleSelect")}
             </option>
             {vehicles.map((vehicle) => (
-              <option key={vehicle.id} value={vehicle.id}>
+              <option
+                key={vehicle.id}
+                value={vehicle.id}
+                disabled={vehicle.out_of_service}
+              >
                 {vehicle.label}
+                {vehicle.out_of_service ? ` ${t("login.vehicleOutOfService")}` : ""}
               </option>
             ))}
           </select>
-          <p className="text-[11px] text-slate-400">
-            You must enter your PIN before choosing a vehicle. If your vehicle
-            is missing, ask your admin to add it in the Admin Portal.
-          </p>
+          <p className="text-[11px] text-slate-400">{t("login.vehicleHint")}</p>
         </div>
 
         {/* Login button */}
@@ -236,16 +326,14 @@ export default function DriverLoginForm({
           onClick={handleStartSession}
           className="btn-primary w-full text-sm"
           disabled={
-            !driverName.trim() ||
+            !(loginMode === "employee" ? employeeNumber.trim() : driverName.trim()) ||
             !driverPin.trim() ||
             !selectedVehicleId ||
             loadingVehicles ||
             loadingDriverLookup
           }
         >
-          {loadingDriverLookup
-            ? "Checking driver..."
-            : "Continue to driver dashboard"}
+          {loadingDriverLookup ? t("login.checking") : t("login.continue")}
         </button>
       </section>
     </div>
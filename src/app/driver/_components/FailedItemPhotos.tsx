@@ -0,0 +1,141 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useDriverLanguage } from "./DriverLanguage";
+
+export type UploadedPhoto = {
+  id: string;
+  previewUrl: string;
+};
+
+// Phone cameras produce large files; shrink before uploading over cellular
+const MAX_PHOTO_DIMENSION = 1600;
+
+async function shrinkPhoto(file: File): Promise<Blob> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", 0.8),
+    );
+    return blob ?? file;
+  } catch {
+    // Formats the browser can't decode (e.g. HEIC on some phones) go up as-is
+    return file;
+  }
+}
+
+/**
+ * Camera capture + upload for one failed checklist item.
+ */
+export default function FailedItemPhotos({
+  itemKey,
+  photos,
+  onAdd,
+  onRemove,
+}: {
+  itemKey: string;
+  photos: UploadedPhoto[];
+  onAdd: (photo: UploadedPhoto) => void;
+  onRemove: (photoId: string) => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useDriverLanguage();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploading(true);
+    setError(null);
+
+    try {
+      const photo = await shrinkPhoto(file);
+      const form = new FormData();
+      form.append("file", photo, photo === file ? file.name : `${itemKey}.jpg`);
+      form.append("item_key", itemKey);
+
+      const res = await fetch("/api/driver/inspection-photos", {
+        method: "POST",
+        body: form,
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || t("photos.uploadFailed"));
+
+      onAdd({ id: json.photo.id, previewUrl: URL.createObjectURL(photo) });
+    } catch (err) {
+      console.error("Failed to upload inspection photo", err);
+      setError(err instanceof Error ? err.message : t("photos.uploadFailed"));
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const handleRemove = async (photo: UploadedPhoto) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/driver/inspection-photos?id=${photo.id}`, {
+        method: "DELETE",
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || t("photos.removeFailed"));
+      // Photos restored from a saved draft preview from the server instead
+      if (photo.previewUrl.startsWith("blob:")) URL.revokeObjectURL(photo.previewUrl);
+      onRemove(photo.id);
+    } catch (err) {
+      console.error("Failed to remove inspection photo", err);
+      setError(err instanceof Error ? err.message : t("photos.removeFailed"));
+    }
+  };
+
+  return (
+    <div className="w-full space-y-1.5 rounded-lg bg-red-950/30 px-2 py-2 md:basis-full">
+      {photos.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {photos.map((photo) => (
+            <div key={photo.id} className="relative">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={photo.previewUrl}
+                alt={t("photos.defectPhoto")}
+                className="h-16 w-16 rounded-md object-cover ring-1 ring-white/10"
+              />
+              <button
+                type="button"
+                onClick={() => handleRemove(photo)}
+                className="absolute -right-1 -top-1 rounded-full bg-slate-900 px-1.5 text-[11px] font-semibold text-red-200 ring-1 ring-white/20"
+                aria-label={t("photos.remove")}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className="btn-ghost px-3 py-1 text-[11px]"
+        disabled={uploading}
+      >
+        {uploading ? t("photos.uploading") : t("photos.add")}
+      </button>
+      {error && <p className="text-[11px] text-red-200">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,1141 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  hasApplicabilityRule,
+  isItemApplicable,
+  type ApplicabilityRule,
+} from "@/lib/inspections/applicability";
+import {
+  computeOverallStatus,
+  isFailingStatus,
+  type ItemSeverity,
+} from "@/lib/inspections/status";
+import FailedItemPhotos, { type UploadedPhoto } from "./FailedItemPhotos";
+import SignaturePad from "./SignaturePad";
+import { SHIFTS, isShift, type Shift } from "@/lib/inspections/shifts";
+import { useDriverLanguage } from "./DriverLanguage";
+import { clearDraft, draftKey, loadDraft, saveDraft } from "./inspectionDraft";
+import {
+  INTL_LOCALES,
+  itemText,
+  type ItemTranslations,
+  type Locale,
+  type MessageKey,
+} from "@/lib/i18n";
+
+// ==== TYPES ====
+
+type AnswerValue = "pass" | "fail" | "na";
+
+export type InspectionType = "pre" | "post";
+
+type ChecklistItem = {
+  item_key: string;
+  label: string;
+  category: string;
+  severity: ItemSeverity;
+  requires_wheelchair: boolean;
+  requires_lift: boolean;
+  min_vehicle_year: number | null;
+  min_seating_capacity: number | null;
+  translations: ItemTranslations;
+};
+
+type ChecklistTemplate = {
+  id: string;
+  version: number;
+  items: ChecklistItem[];
+};
+
+type ShiftType = Shift | "";
+
+type DriverSession = {
+  driverId: string;
+  driverName: string;
+  licenseNumber: string | null;
+  vehicleId: string;
+};
+
+type Vehicle = {
+  id: string;
+  label: string;
+  year: number | null;
+  make: string | null;
+  model: string | null;
+  plate: string | null;
+  vin: string | null;
+  is_active: boolean;
+  wheelchair_equipped: boolean;
+  lift_installed: boolean;
+  seating_capacity: number | null;
+};
+
+type OdometerCheck = {
+  code: "backwards" | "jump";
+  message: string;
+  last_miles: number;
+};
+
+type CarryForwardAction = "acknowledged" | "rechecked";
+
+type CarriedDefect = {
+  id: string;
+  item_key: string;
+  item_label: string;
+  status: string;
+  driver_notes: string | null;
+  deferred_until: string | null;
+  created_at: string;
+};
+
+type CarriedNote = {
+  inspection_id: string;
+  inspection_type: string;
+  driver_name: string | null;
+  submitted_at: string;
+  notes: string;
+};
+
+type CarryForward = {
+  defects: CarriedDefect[];
+  notes: CarriedNote[];
+};
+
+// Statuses a carried-forward defect can be in
+const CARRIED_DEFECT_STATUSES = ["open", "deferred", "in_repair", "repaired"] as const;
+
+function isCarriedDefectStatus(
+  status: string,
+): status is (typeof CARRIED_DEFECT_STATUSES)[number] {
+  return (CARRIED_DEFECT_STATUSES as readonly string[]).includes(status);
+}
+
+// Catalog keys for the wording that differs between the pre-trip and
+// post-trip forms
+const FORM_COPY: Record<
+  InspectionType,
+  {
+    name: MessageKey;
+    lowerName: MessageKey;
+    eyebrowClass: string;
+    reminder: MessageKey;
+    certification: MessageKey;
+    successMessage: MessageKey;
+  }
+> = {
+  pre: {
+    name: "inspection.pre",
+    lowerName: "inspection.preLower",
+    eyebrowClass: "text-emerald-300",
+    reminder: "inspection.preReminder",
+    certification: "inspection.preCertification",
+    successMessage: "inspection.preSuccess",
+  },
+  post: {
+    name: "inspection.post",
+    lowerName: "inspection.postLower",
+    eyebrowClass: "text-slate-300",
+    reminder: "inspection.postReminder",
+    certification: "inspection.postCertification",
+    successMessage: "inspection.postSuccess",
+  },
+};
+
+type AnswersState = Record<string, AnswerValue | null>;
+
+const ANSWER_VALUES: AnswerValue[] = ["pass", "fail", "na"];
+
+/**
+ * Driver-language version of describeApplicability.
+ */
+function describeRule(
+  rule: ApplicabilityRule,
+  t: (key: MessageKey, vars?: Record<string, string | number>) => string,
+): string | null {
+  const parts: string[] = [];
+  if (rule.requires_wheelchair) parts.push(t("applicability.wheelchair"));
+  if (rule.requires_lift) parts.push(t("applicability.lift"));
+  if (rule.min_vehicle_year != null) {
+    parts.push(t("applicability.minYear", { year: rule.min_vehicle_year }));
+  }
+  if (rule.min_seating_capacity != null) {
+    parts.push(t("applicability.minSeats", { seats: rule.min_seating_capacity }));
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+function formatDate(value: string, locale: Locale) {
+  return new Date(value).toLocaleDateString(INTL_LOCALES[locale]);
+}
+
+/**
+ * Same AnswerButton UI as on main driver page
+ */
+function AnswerButton({
+  value,
+  selected,
+  onClick,
+}: {
+  value: AnswerValue;
+  selected: boolean;
+  onClick: () => void;
+}) {
+  const { t } = useDriverLanguage();
+  const baseClasses =
+    "flex-1 min-w-[70px] rounded-lg md:rounded-2xl border px-2.5 py-1.5 md:px-4 md:py-3 text-[11px] md:text-sm font-semibold text-center transition active:scale-[0.97] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70";
+
+  let colorClasses = "";
+
+  if (value === "pass") {
+    colorClasses = selected
+      ? "border-emerald-500 bg-emerald-500 text-slate-950 shadow-lg"
+      : "border-emerald-500/40 bg-slate-900/70 text-emerald-200 hover:bg-emerald-500/10";
+  } else if (value === "fail") {
+    colorClasses = selected
+      ? "border-red-500 bg-red-500 text-slate-950 shadow-lg"
+      : "border-red-500/50 bg-slate-900/70 text-red-200 hover:bg-red-500/10";
+  } else {
+    // "na"
+    colorClasses = selected
+      ? "border-slate-400 bg-slate-400 text-slate-950 shadow-lg"
+      : "border-slate-500/50 bg-slate-900/70 text-slate-200 hover:bg-slate-600/10";
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`${baseClasses} ${colorClasses}`}
+    >
+      <div className="flex flex-col items-center justify-center gap-0.5">
+        <span className="text-[11px] uppercase tracking-[0.18em]">
+          {t(`answer.${value}Short`)}
+        </span>
+        <span className="text-xs md:text-sm">{t(`answer.${value}`)}</span>
+      </div>
+    </button>
+  );
+}
+
+/**
+ * Pre-trip and post-trip inspection form. The checklist itself comes from the
+ * active checklist template version for `inspectionType`.
+ */
+export default function InspectionForm({
+  inspectionType,
+}: {
+  inspectionType: InspectionType;
+}) {
+  const copy = FORM_COPY[inspectionType];
+  const { locale, t } = useDriverLanguage();
+
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // Session & vehicle
+  const [session, setSession] = useState<DriverSession | null>(null);
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [loadingVehicle, setLoadingVehicle] = useState(false);
+  const [template, setTemplate] = useState<ChecklistTemplate | null>(null);
+  const [carryForward, setCarryForward] = useState<CarryForward | null>(null);
+
+  // Form state
+  const [odometer, setOdometer] = useState("");
+  // Set when the server flags the reading; the driver must explain it to submit
+  const [odometerCheck, setOdometerCheck] = useState<OdometerCheck | null>(null);
+  const [odometerOverrideReason, setOdometerOverrideReason] = useState("");
+  const [shift, setShift] = useState<ShiftType>("");
+  const [shiftLocked, setShiftLocked] = useState(false);
+  const [answers, setAnswers] = useState<AnswersState>({});
+  const [photos, setPhotos] = useState<Record<string, UploadedPhoto[]>>({});
+  // Keyed by defect id or, for notes, the inspection the note came from
+  const [carryAcks, setCarryAcks] = useState<Record<string, CarryForwardAction>>({});
+  const [notes, setNotes] = useState("");
+  const [signatureName, setSignatureName] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitMessage, setSubmitMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Unfinished answers are saved on the device for this driver, vehicle and shift
+  const shiftParam = searchParams.get("shift");
+  const draftStorageKey = session
+    ? draftKey(
+        session.driverId,
+        session.vehicleId,
+        inspectionType,
+        isShift(shiftParam) ? shiftParam : null,
+      )
+    : null;
+  // Saving waits until any existing draft has been restored
+  const [draftLoadedKey, setDraftLoadedKey] = useState<string | null>(null);
+  const [draftRestoredAt, setDraftRestoredAt] = useState<string | null>(null);
+
+  // Load session from localStorage (same key as Driver Portal)
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const raw = window.localStorage.getItem("transafeDriverSession");
+    if (!raw) {
+      router.push("/driver");
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as DriverSession;
+      if (!parsed.driverId || !parsed.driverName || !parsed.vehicleId) {
+        router.push("/driver");
+        return;
+      }
+      setSession(parsed);
+    } catch {
+      router.push("/driver");
+    }
+  }, [router]);
+
+  // Auto-set shift from URL param (e.g. ?shift=AM)
+  useEffect(() => {
+    const shiftParam = searchParams.get("shift");
+    if (isShift(shiftParam)) {
+      setShift(shiftParam);
+      setShiftLocked(true);
+    }
+  }, [searchParams]);
+
+  // Resume an unfinished inspection saved on this device
+  useEffect(() => {
+    if (!draftStorageKey) return;
+    const draft = loadDraft(draftStorageKey);
+    if (draft) {
+      setOdometer(draft.odometer ?? "");
+      setOdometerOverrideReason(draft.odometerOverrideReason ?? "");
+      if (!isShift(shiftParam) && isShift(draft.shift)) setShift(draft.shift);
+      setAnswers(
+        Object.fromEntries(
+          Object.entries(draft.answers ?? {}).filter(([, value]) =>
+            ANSWER_VALUES.includes(value as AnswerValue),
+          ),
+        ) as AnswersState,
+      );
+      setCarryAcks(
+        Object.fromEntries(
+          Object.entries(draft.carryAcks ?? {}).filter(
+            ([, action]) => action === "acknowledged" || action === "rechecked",
+          ),
+        ) as Record<string, CarryForwardAction>,
+      );
+      // Photos stay on the server as pending uploads until submit
+      setPhotos(
+        Object.fromEntries(
+          Object.entries(draft.photoIds ?? {}).map(([itemKey, ids]) => [
+            itemKey,
+            ids.map((id) => ({
+              id,
+              previewUrl: `/api/driver/inspection-photos?id=${encodeURIComponent(id)}`,
+            })),
+          ]),
+        ),
+      );
+      setNotes(draft.notes ?? "");
+      setSignatureName(draft.signatureName ?? "");
+      setDraftRestoredAt(draft.savedAt);
+    }
+    setDraftLoadedKey(draftStorageKey);
+  }, [draftStorageKey, shiftParam]);
+
+  // Save progress on every change until the inspection is submitted
+  useEffect(() => {
+    if (!draftStorageKey || draftLoadedKey !== draftStorageKey || submitMessage) return;
+    const started =
+      !!odometer.trim() ||
+      !!odometerOverrideReason.trim() ||
+      !!notes.trim() ||
+      !!signatureName.trim() ||
+      Object.keys(answers).length > 0 ||
+      Object.keys(carryAcks).length > 0 ||
+      Object.values(photos).some((list) => list.length > 0);
+    if (!started) {
+      clearDraft(draftStorageKey);
+      return;
+    }
+    saveDraft(draftStorageKey, {
+      odometer,
+      odometerOverrideReason,
+      shift,
+      answers,
+      photoIds: Object.fromEntries(
+        Object.entries(photos).map(([itemKey, list]) => [itemKey, list.map((p) => p.id)]),
+      ),
+      carryAcks,
+      notes,
+      signatureName,
+    });
+  }, [
+    draftStorageKey,
+    draftLoadedKey,
+    submitMessage,
+    odometer,
+    odometerOverrideReason,
+    shift,
+    answers,
+    photos,
+    carryAcks,
+    notes,
+    signatureName,
+  ]);
+
+  // Load the active checklist version
+  useEffect(() => {
+    if (!session) return;
+
+    const loadTemplate = async () => {
+      try {
+        const res = await fetch(
+          `/api/driver/checklist-templates?type=${inspectionType}`,
+        );
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load checklist");
+        setTemplate(json.template as ChecklistTemplate);
+      } catch (err) {
+        console.error("Failed to load checklist template", err);
+        setError(
+          err instanceof Error ? err.message : t("inspection.loadChecklistFailed"),
+        );
+      }
+    };
+
+    void loadTemplate();
+  }, [session, inspectionType, t]);
+
+  // Load vehicle info for display and for inspections table
+  useEffect(() => {
+    if (!session?.vehicleId) return;
+
+    const loadVehicle = async () => {
+      setLoadingVehicle(true);
+      try {
+        const res = await fetch(
+          `/api/driver/vehicles?id=${encodeURIComponent(session.vehicleId)}`
+        );
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load vehicle");
+        setVehicle((json.vehicle as Vehicle | null) ?? null);
+      } catch (err) {
+        console.error(`Failed to load vehicle for ${inspectionType}-trip page`, err);
+      } finally {
+        setLoadingVehicle(false);
+      }
+    };
+
+    void loadVehicle();
+  }, [session?.vehicleId, inspectionType]);
+
+  // Pre-trips carry forward open defects and recent notes for this vehicle
+  useEffect(() => {
+    if (inspectionType !== "pre" || !session?.vehicleId) return;
+
+    const loadCarryForward = async () => {
+      try {
+        const res = await fetch(
+          `/api/driver/carried-forward?vehicleId=${encodeURIComponent(session.vehicleId)}`
+        );
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load open defects");
+        setCarryForward(json as CarryForward);
+      } catch (err) {
+        console.error("Failed to load carried-forward defects", err);
+        setError(
+          err instanceof Error ? err.message : t("inspection.loadDefectsFailed"),
+        );
+      }
+    };
+
+    void loadCarryForward();
+  }, [session?.vehicleId, inspectionType, t]);
+
+  const checklist = useMemo(() => template?.items ?? [], [template]);
+
+  // Grouped by the category as shown in the driver's language
+  const groupedChecklist = useMemo(() => {
+    const groups: Record<string, ChecklistItem[]> = {};
+    for (const item of checklist) {
+      const { category } = itemText(item, locale);
+      if (!groups[category]) groups[category] = [];
+      groups[category].push(item);
+    }
+    return groups;
+  }, [checklist, locale]);
+
+  // Items that don't apply to the selected vehicle are answered N/A for the driver
+  const notApplicableKeys = useMemo(() => {
+    const keys = new Set<string>();
+    if (!vehicle) return keys;
+    for (const item of checklist) {
+      if (!isItemApplicable(item, vehicle)) keys.add(item.item_key);
+    }
+    return keys;
+  }, [checklist, vehicle]);
+
+  const answerFor = (item: ChecklistItem): AnswerValue | null =>
+    notApplicableKeys.has(item.item_key) ? "na" : answers[item.item_key] ?? null;
+
+  const updateAnswer = (itemKey: string, value: AnswerValue) => {
+    setAnswers((prev) => ({
+      ...prev,
+      [itemKey]: value,
+    }));
+  };
+
+  const allAnswered =
+    checklist.length > 0 &&
+    checklist.every((item) => {
+      const value = answerFor(item);
+      if (!value) return false;
+      // Vehicle-specific items that apply can't be skipped with N/A
+      return !(value === "na" && hasApplicabilityRule(item) && !notApplicableKeys.has(item.item_key));
+    });
+
+  // Preview only; the server computes the stored status the same way
+  const previewStatus = allAnswered
+    ? computeOverallStatus(
+        checklist,
+        Object.fromEntries(checklist.map((item) => [item.item_key, answerFor(item) ?? undefined])),
+      )
+    : null;
+
+  const allCarriedForwardAcknowledged =
+    inspectionType !== "pre" ||
+    (!!carryForward &&
+      carryForward.defects.every((d) => !!carryAcks[d.id]) &&
+      carryForward.notes.every((n) => !!carryAcks[n.inspection_id]));
+
+  const odometerValid = /^\d{1,7}(\.\d+)?$/.test(odometer.replace(/[,\s]/g, ""));
+
+  const canSubmit =
+    !!session &&
+    !!vehicle &&
+    allCarriedForwardAcknowledged &&
+    !!shift &&
+    odometerValid &&
+    (!odometerCheck || !!odometerOverrideReason.trim()) &&
+    !!signatureName.trim() &&
+    !!signatureImage &&
+    allAnswered &&
+    !submitting;
+
+  const handleSubmit = async () => {
+    if (!session || !vehicle || !template) {
+      setError(t("inspection.missingSession"));
+      return;
+    }
+
+    if (!canSubmit) return;
+
+    setSubmitting(true);
+    setSubmitMessage(null);
+    setError(null);
+
+    try {
+      // Answers are keyed by stable item_key so label edits don't break history
+      const answersPayload: Record<string, string> = {};
+      for (const item of checklist) {
+        answersPayload[item.item_key] = answerFor(item) ?? "";
+      }
+
+      // Only photos of items that are still marked failed are submitted
+      const photoIds = checklist
+        .filter((item) => answersPayload[item.item_key] === "fail")
+        .flatMap((item) => (photos[item.item_key] ?? []).map((p) => p.id));
+
+      // Submit inspection via API route (also starts or stops the work session)
+      const res = await fetch("/api/driver/inspections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          driver_id: session.driverId,
+          driver_name: session.driverName.trim(),
+          driver_license_number: session.licenseNumber ?? null,
+          vehicle_id: vehicle.id,
+          vehicle_label: vehicle.label,
+          inspection_type: inspectionType,
+          template_id: template.id,
+          shift,
+          answers: answersPayload,
+          notes: notes || null,
+          signature_name: signatureName.trim(),
+          signature_image: signatureImage,
+          odometer_reading: odometer.trim(),
+          odometer_override_reason: odometerCheck ? odometerOverrideReason.trim() : null,
+          photo_ids: photoIds,
+          carried_forward: carryAcks,
+        }),
+      });
+
+      const json = await res.json();
+      if (!res.ok) {
+        if (json.odometer_check) setOdometerCheck(json.odometer_check as OdometerCheck);
+        throw new Error(json.error || "Failed to submit inspection");
+      }
+
+      if (draftStorageKey) clearDraft(draftStorageKey);
+      setDraftRestoredAt(null);
+
+      // Show confirmation message
+      const successMessage = t(copy.successMessage);
+      setSubmitMessage(
+        json.child_check_alert
+          ? `${successMessage} ${t("inspection.childAlert")}`
+          : json.vehicle_out_of_service
+            ? `${successMessage} ${t("inspection.outOfService")}`
+            : successMessage,
+      );
+
+      // Optionally reset form state (not strictly necessary since we'll redirect)
+      setShift("");
+      setOdometer("");
+      setOdometerCheck(null);
+      setOdometerOverrideReason("");
+      setAnswers({});
+      setPhotos({});
+      setCarryAcks({});
+      setNotes("");
+      setSignatureName("");
+      setSignatureImage(null);
+
+      // After a short pause, send driver back to the main Driver Portal
+      setTimeout(() => {
+        router.push("/driver");
+      }, json.child_check_alert ? 10000 : json.vehicle_out_of_service ? 5000 : 1200);
+    } catch (err) {
+      console.error(`Failed to submit ${inspectionType}-trip inspection`, err);
+      setError(err instanceof Error ? err.message : t("inspection.submitFailed"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDiscardDraft = () => {
+    if (draftStorageKey) clearDraft(draftStorageKey);
+    // Uploaded photos are pending on the server until submit; remove them too
+    for (const photo of Object.values(photos).flat()) {
+      void fetch(`/api/driver/inspection-photos?id=${encodeURIComponent(photo.id)}`, {
+        method: "DELETE",
+      }).catch((err) => console.error("Failed to remove inspection photo", err));
+      if (photo.previewUrl.startsWith("blob:")) URL.revokeObjectURL(photo.previewUrl);
+    }
+    setDraftRestoredAt(null);
+    if (!shiftLocked) setShift("");
+    setOdometer("");
+    setOdometerCheck(null);
+    setOdometerOverrideReason("");
+    setAnswers({});
+    setPhotos({});
+    setCarryAcks({});
+    setNotes("");
+    setSignatureName("");
+  };
+
+  if (!session) {
+    return (
+      <div className="mx-auto max-w-md space-y-4">
+        <section className="card">
+          <p className="text-sm text-slate-200/80">
+            {t("inspection.loadingForm", { type: t(copy.lowerName) })}
+          </p>
+        </section>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-md space-y-4">
+      {/* Header */}
+      <section className="card space-y-2">
+        <p className={`text-[11px] font-semibold uppercase tracking-[0.16em] ${copy.eyebrowClass}`}>
+          {t("inspection.eyebrow", { name: t(copy.name) })}
+        </p>
+        <h1 className="text-lg font-semibold text-slate-50">
+          {t("inspection.heading", { name: t(copy.name) })}
+        </h1>
+        {template && (
+          <p className="text-[11px] text-slate-500">
+            {t("inspection.checklistVersion", { version: template.version })}
+          </p>
+        )}
+        <p className="text-sm text-slate-300">
+          {t("inspection.driver")}{" "}
+          <span className="font-semibold text-slate-100">
+            {session.driverName.trim()}
+          </span>
+          {session.licenseNumber && (
+            <>
+              {" "}
+              • {t("inspection.license")}{" "}
+              <span className="font-semibold text-slate-100">
+                {session.licenseNumber}
+              </span>
+            </>
+          )}
+        </p>
+        {vehicle && (
+          <>
+            <p className="text-[11px] text-slate-400">
+              {t("inspection.vehicleId")}{" "}
+              <span className="font-semibold text-slate-100">
+                {vehicle.label || t("common.na")}
+              </span>{" "}
+              • {t("inspection.plate")}{" "}
+              <span className="font-semibold text-slate-100">
+                {vehicle.plate || t("common.na")}
+              </span>
+            </p>
+            <p className="text-[11px] text-slate-400">
+              {t("inspection.yearMakeModel")}{" "}
+              <span className="font-semibold text-slate-100">
+                {vehicle.year ?? ""} {vehicle.make ?? ""}{" "}
+                {vehicle.model ?? ""}
+              </span>
+            </p>
+          </>
+        )}
+        {loadingVehicle && (
+          <p className="text-[11px] text-slate-400">
+            {t("inspection.loadingVehicle")}
+          </p>
+        )}
+      </section>
+
+      {/* Legend */}
+      <section className="card space-y-2">
+        <div className="flex flex-wrap gap-2 text-[11px] uppercase">
+          <div className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded bg-emerald-600" />{" "}
+            {t("answer.pass")}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded bg-red-600" />{" "}
+            {t("answer.fail")}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded bg-slate-600" />{" "}
+            {t("answer.na")}
+          </div>
+        </div>
+        <p className="text-[11px] text-slate-400">{t(copy.reminder)}</p>
+      </section>
+
+      {/* Error / success messages */}
+      {error && (
+        <section className="card border border-red-500/60 bg-red-950/40">
+          <p className="text-xs font-medium text-red-200">{error}</p>
+        </section>
+      )}
+
+      {submitMessage && (
+        <section className="card border-emerald-500/60 bg-emerald-900/20">
+          <p className="text-xs font-medium text-emerald-100">
+            {submitMessage}
+          </p>
+        </section>
+      )}
+
+      {draftRestoredAt && !submitMessage && (
+        <section className="card flex items-center justify-between gap-3 border border-sky-500/40 bg-sky-950/30">
+          <p className="text-xs text-sky-100">
+            {t("inspection.draftRestored", {
+              time: new Date(draftRestoredAt).toLocaleTimeString(INTL_LOCALES[locale], {
+                hour: "numeric",
+                minute: "2-digit",
+              }),
+            })}
+          </p>
+          <button
+            type="button"
+            onClick={handleDiscardDraft}
+            className="btn-ghost shrink-0 px-3 py-1 text-[11px]"
+          >
+            {t("inspection.draftDiscard")}
+          </button>
+        </section>
+      )}
+
+      {/* Carried forward from earlier inspections (pre-trip only) */}
+      {carryForward &&
+        (carryForward.defects.length > 0 || carryForward.notes.length > 0) && (
+          <section className="card space-y-3 border border-amber-500/40">
+            <div>
+              <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-amber-200">
+                {t("inspection.carriedTitle")}
+              </h2>
+              <p className="text-[11px] text-slate-400">
+                {t("inspection.carriedIntro")}
+              </p>
+            </div>
+
+            {carryForward.defects.map((defect) => {
+              const ack = carryAcks[defect.id];
+              const checklistItem = checklist.find((item) => item.item_key === defect.item_key);
+              // Defects keep the English label they were reported with
+              const defectLabel = checklistItem
+                ? itemText(checklistItem, locale).label
+                : defect.item_label;
+              return (
+                <div key={defect.id} className="space-y-1.5 rounded-xl bg-slate-950/60 px-3 py-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-xs font-semibold text-slate-100">{defectLabel}</p>
+                    <span className="rounded-full bg-amber-600/80 px-2 py-0.5 text-[10px] font-semibold text-amber-50">
+                      {isCarriedDefectStatus(defect.status)
+                        ? t(`defect.${defect.status}`)
+                        : defect.status}
+                    </span>
+                  </div>
+                  <p className="text-[11px] text-slate-400">
+                    {t("inspection.reportedOn", {
+                      date: formatDate(defect.created_at, locale),
+                    })}
+                    {defect.status === "deferred" && defect.deferred_until &&
+                      t("inspection.deferredUntil", { date: defect.deferred_until })}
+                  </p>
+                  {defect.driver_notes && (
+                    <p className="text-[11px] text-slate-300">
+                      {t("inspection.defectNotes", { notes: defect.driver_notes })}
+                    </p>
+                  )}
+                  <div className="flex gap-1.5">
+                    {(["acknowledged", "rechecked"] as CarryForwardAction[]).map((action) => (
+                      <button
+                        key={action}
+                        type="button"
+                        onClick={() => setCarryAcks((prev) => ({ ...prev, [defect.id]: action }))}
+                        aria-pressed={ack === action}
+                        className={`flex-1 rounded-lg px-2 py-1.5 text-[11px] font-semibold transition active:scale-[0.97] ${
+                          ack === action
+                            ? "bg-amber-500 text-slate-950"
+                            : "bg-slate-900 text-slate-100 ring-1 ring-white/10 hover:bg-slate-800"
+                        }`}
+                      >
+                        {action === "acknowledged"
+                          ? t("inspection.acknowledge")
+                          : t("inspection.rechecked")}
+                      </button>
+                    ))}
+                  </div>
+                  {ack === "rechecked" && checklistItem && (
+                    <p className="text-[11px] text-amber-200">
+                      {t("inspection.recheckHint", { item: defectLabel })}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+
+            {carryForward.notes.map((note) => {
+              const acknowledged = !!carryAcks[note.inspection_id];
+              return (
+                <div key={note.inspection_id} className="space-y-1.5 rounded-xl bg-slate-950/60 px-3 py-2">
+                  <p className="text-[11px] text-slate-400">
+                    {t("inspection.noteFrom", {
+                      type: t(
+                        note.inspection_type === "pre"
+                          ? "inspection.preLower"
+                          : "inspection.postLower",
+                      ),
+                      date: formatDate(note.submitted_at, locale),
+                    })}
+                    {note.driver_name && t("inspection.noteBy", { name: note.driver_name })}
+                  </p>
+                  <p className="text-xs text-slate-100">{note.notes}</p>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setCarryAcks((prev) => ({ ...prev, [note.inspection_id]: "acknowledged" }))
+                    }
+                    aria-pressed={acknowledged}
+                    className={`w-full rounded-lg px-2 py-1.5 text-[11px] font-semibold transition active:scale-[0.97] ${
+                      acknowledged
+                        ? "bg-amber-500 text-slate-950"
+                        : "bg-slate-900 text-slate-100 ring-1 ring-white/10 hover:bg-slate-800"
+                    }`}
+                  >
+                    {acknowledged
+                      ? t("inspection.acknowledged")
+                      : t("inspection.acknowledge")}
+                  </button>
+                </div>
+              );
+            })}
+          </section>
+        )}
+
+      {/* Main form card */}
+      <section className="card space-y-4">
+        {/* Odometer */}
+        <div className="space-y-2">
+          <label className="block text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+            {t("inspection.odometer")}
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={odometer}
+            onChange={(e) => {
+              setOdometer(e.target.value);
+              setOdometerCheck(null);
+            }}
+            className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+            placeholder={t("inspection.odometerPlaceholder")}
+          />
+          {odometerCheck && (
+            <div className="space-y-1.5 rounded-xl border border-amber-500/50 bg-amber-950/30 p-2">
+              <p className="text-[11px] font-semibold text-amber-200">
+                {odometerCheck.message}
+              </p>
+              <p className="text-[11px] text-amber-100/80">
+                {t("inspection.odometerFixHint")}
+              </p>
+              <textarea
+                value={odometerOverrideReason}
+                onChange={(e) => setOdometerOverrideReason(e.target.value)}
+                className="min-h-[50px] w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-amber-500/60 focus:border-amber-500 focus:ring-2"
+                placeholder={t("inspection.odometerReasonPlaceholder")}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Shift selector */}
+        <div className="space-y-2">
+          <label className="block text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+            {t("inspection.shift")}
+            {shiftLocked && t("inspection.shiftFromRoute")}
+          </label>
+          <div className="flex gap-2">
+            {SHIFTS.map((s) => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => !shiftLocked && setShift(s)}
+                disabled={shiftLocked}
+                className={`flex-1 rounded-xl px-3 py-2 text-xs font-semibold transition active:scale-[0.96] ${
+                  shift === s
+                    ? "bg-emerald-600 text-white"
+                    : shiftLocked
+                      ? "bg-slate-900/50 text-slate-500 ring-1 ring-white/5 cursor-not-allowed"
+                      : "bg-slate-900 text-slate-100 ring-1 ring-white/10 hover:bg-slate-800"
+                }`}
+              >
+                {t(`shift.${s}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Checklist */}
+        <div className="space-y-3">
+          {Object.entries(groupedChecklist).map(
+            ([category, itemsInCategory]) => (
+              <div key={category} className="space-y-1.5">
+                <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+                  {category}
+                </h3>
+                <div className="space-y-1.5 rounded-xl bg-slate-950/40 p-2">
+                  {itemsInCategory.map((item) => {
+                    const value = answerFor(item);
+                    const rule = describeRule(item, t);
+                    const notApplicable = notApplicableKeys.has(item.item_key);
+                    return (
+                      <div
+                        key={item.item_key}
+                        className="flex flex-col gap-2 rounded-lg border-b border-white/5 px-2 py-2 last:border-0 md:flex-row md:flex-wrap md:items-center md:justify-between md:gap-4 hover:bg-slate-900/40"
+                      >
+                        <div className="md:flex-1">
+                          <p
+                            className={`text-[13px] md:text-xs ${
+                              notApplicable ? "text-slate-500" : "text-slate-100"
+                            }`}
+                          >
+                            {itemText(item, locale).label}
+                            {item.severity === "critical" && !notApplicable && (
+                              <span className="ml-1.5 rounded-full bg-red-500/15 px-1.5 text-[10px] font-semibold uppercase text-red-200">
+                                {t("inspection.critical")}
+                              </span>
+                            )}
+                          </p>
+                          {item.severity === "critical" && value === "fail" && (
+                            <p className="text-[11px] font-semibold text-red-300">
+                              {t("inspection.criticalFail")}
+                            </p>
+                          )}
+                          {item.severity === "minor" && value === "fail" && (
+                            <p className="text-[11px] text-amber-300">
+                              {t("inspection.minorFail")}
+                            </p>
+                          )}
+                          {rule && (
+                            <p className="text-[11px] text-slate-500">
+                              {notApplicable
+                                ? t("inspection.notApplicableRule", { rule })
+                                : t("inspection.requiredRule", { rule })}
+                            </p>
+                          )}
+                        </div>
+                        {notApplicable ? (
+                          <span className="inline-flex items-center justify-center rounded-lg bg-slate-800 px-3 py-1.5 text-[11px] font-semibold text-slate-400">
+                            {t("answer.na")}
+                          </span>
+                        ) : (
+                          <div className="flex w-full gap-1.5 md:w-auto md:gap-1">
+                            <AnswerButton
+                              value="pass"
+                              selected={value === "pass"}
+                              onClick={() => updateAnswer(item.item_key, "pass")}
+                            />
+                            <AnswerButton
+                              value="fail"
+                              selected={value === "fail"}
+                              onClick={() => updateAnswer(item.item_key, "fail")}
+                            />
+                            {!rule && (
+                              <AnswerButton
+                                value="na"
+                                selected={value === "na"}
+                                onClick={() => updateAnswer(item.item_key, "na")}
+                              />
+                            )}
+                          </div>
+                        )}
+                        {value === "fail" && (
+                          <FailedItemPhotos
+                            itemKey={item.item_key}
+                            photos={photos[item.item_key] ?? []}
+                            onAdd={(photo) =>
+                              setPhotos((prev) => ({
+                                ...prev,
+                                [item.item_key]: [...(prev[item.item_key] ?? []), photo],
+                              }))
+                            }
+                            onRemove={(photoId) =>
+                              setPhotos((prev) => ({
+                                ...prev,
+                                [item.item_key]: (prev[item.item_key] ?? []).filter(
+                                  (p) => p.id !== photoId,
+                                ),
+                              }))
+                            }
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ),
+          )}
+        </div>
+
+        {/* Notes */}
+        <div className="space-y-2">
+          <label className="block text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+            {t("inspection.notes")}
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="min-h-[70px] w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+            placeholder={t("inspection.notesPlaceholder")}
+          />
+        </div>
+
+        {/* Signature */}
+        <div className="space-y-2">
+          <label className="block text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+            {t("inspection.signature")}
+          </label>
+          <SignaturePad onChange={setSignatureImage} disabled={submitting} />
+          <input
+            type="text"
+            value={signatureName}
+            onChange={(e) => setSignatureName(e.target.value)}
+            className="w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-sm text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+            placeholder={t("inspection.signaturePlaceholder")}
+          />
+          <p className="text-[11px] text-slate-400">{t(copy.certification)}</p>
+        </div>
+
+        {previewStatus && (
+          <p
+            className={`text-xs font-semibold ${
+              isFailingStatus(previewStatus)
+                ? "text-red-300"
+                : previewStatus === "pass"
+                  ? "text-emerald-300"
+                  : "text-amber-300"
+            }`}
+          >
+            {t("inspection.result", { status: t(`status.${previewStatus}`) })}
+          </p>
+        )}
+
+        {/* Submit button + hints */}
+        <button
+          type="button"
+          onClick={handleSubmit}
+          className={`btn-primary w-full text-sm ${
+            !canSubmit ? "cursor-not-allowed opacity-50" : ""
+          }`}
+          disabled={!canSubmit}
+        >
+          {submitting
+            ? t("inspection.submitting")
+            : t("inspection.submit", { type: t(copy.lowerName) })}
+        </button>
+
+        {!allAnswered && checklist.length > 0 && (
+          <p className="mt-1 text-[11px] text-amber-300">
+            {t("inspection.hintAnswers")}
+          </p>
+        )}
+        {!allCarriedForwardAcknowledged && carryForward && (
+          <p className="mt-1 text-[11px] text-amber-300">
+            {t("inspection.hintCarried")}
+          </p>
+        )}
+        {!odometerValid && (
+          <p className="mt-1 text-[11px] text-amber-300">
+            {t("inspection.hintOdometer")}
+          </p>
+        )}
+        {!shift && (
+          <p className="mt-1 text-[11px] text-amber-300">
+            {t("inspection.hintShift")}
+          </p>
+        )}
+        {!signatureName.trim() && (
+          <p className="mt-1 text-[11px] text-amber-300">
+            {t("inspection.hintSignatureName")}
+          </p>
+        )}
+        {!signatureImage && (
+          <p className="mt-1 text-[11px] text-amber-300">
+            {t("inspection.hintSignatureImage")}
+          </p>
+        )}
+      </section>
+
+      {/* Back link */}
+      <section className="card">
+        <Link
+          href="/driver"
+          className="inline-flex w-full items-center justify-center rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-slate-100 ring-1 ring-white/15 hover:bg-slate-800 active:scale-[0.97]"
+        >
+          {t("common.backToPortal")}
+        </Link>
+      </section>
+    </div>
+  );
+}
+
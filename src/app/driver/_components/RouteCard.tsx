@@ -2,6 +2,7 @@
 
 import { useMemo } from "react";
 import StopCard, { type RouteStopForDriver, type AttendanceStatus } from "./StopCard";
+import { useDriverLanguage } from "./DriverLanguage";
 
 type DriverRouteSummary = {
   id: string;
@@ -31,6 +32,8 @@ export default function RouteCard({
   onAttendanceChange,
   attendanceMap,
 }: RouteCardProps) {
+  const { t } = useDriverLanguage();
+
   // Calculate attendance progress
   const { totalStudents, confirmedStudents } = useMemo(() => {
     let total = 0;
@@ -70,18 +73,14 @@ export default function RouteCard({
       <div className="flex flex-col gap-2 sm:flex-row sm:items-baseline sm:justify-between">
         <div className="space-y-0.5">
           <p className="text-sm font-semibold uppercase tracking-[0.16em] text-slate-400">
-            {route.direction === "AM"
-              ? "Morning route"
-              : route.direction === "MIDDAY"
-                ? "Midday route"
-                : "Afternoon route"}
+            {t(`route.${route.direction}`)}
           </p>
           <h3 className="text-lg font-semibold text-slate-50">{route.name}</h3>
         </div>
         <div className="text-xs text-slate-300 text-right">
           {route.effective_start_date && (
             <span>
-              Starts:{" "}
+              {t("route.starts")}{" "}
               <span className="font-medium text-slate-100">
                 {route.effective_start_date}
               </span>
@@ -90,7 +89,7 @@ export default function RouteCard({
           {route.effective_end_date && (
             <span>
               {" "}
-              • Ends:{" "}
+              • {t("route.ends")}{" "}
               <span className="font-medium text-slate-100">
                 {route.effective_end_date}
               </span>
@@ -104,11 +103,14 @@ export default function RouteCard({
         <div className="space-y-1.5">
           <div className="flex items-center justify-between text-xs">
             <span className="text-slate-300">
-              Attendance: {confirmedStudents}/{totalStudents} students confirmed
+              {t("route.attendanceProgress", {
+                confirmed: confirmedStudents,
+                total: totalStudents,
+              })}
             </span>
             {allConfirmed && (
               <span className="rounded-full bg-emerald-500/15 px-2.5 py-0.5 text-[10px] font-semibold text-emerald-200 ring-1 ring-emerald-500/40">
-                All confirmed
+                {t("route.allConfirmed")}
               </span>
             )}
           </div>
@@ -130,10 +132,7 @@ export default function RouteCard({
 
       {/* Stops list */}
       {stops.length === 0 ? (
-        <p className="mt-1 text-sm text-slate-300">
-          No stops have been added to this route yet. Contact the office if this
-          looks wrong.
-        </p>
+        <p className="mt-1 text-sm text-slate-300">{t("route.noStops")}</p>
       ) : (
         <div className="space-y-2">
           {stops.map((stop) => (
@@ -168,15 +167,15 @@ export default function RouteCard({
           }`}
         >
           {completingRouteId === route.id
-            ? "Marking route as complete..."
+            ? t("route.completing")
             : totalStudents > 0 && !allConfirmed
-              ? `Confirm all ${totalStudents} students before completing`
-              : "Mark this route as complete for today"}
+              ? t("route.confirmAllFirst", { total: totalStudents })
+              : t("route.markComplete")}
         </button>
         <p className="mt-1 text-[11px] text-slate-400">
           {totalStudents > 0 && !allConfirmed
-            ? `${totalStudents - confirmedStudents} student(s) still need attendance confirmation.`
-            : "Once marked complete, this route will disappear from today's list."}
+            ? t("route.studentsRemaining", { count: totalStudents - confirmedStudents })
+            : t("route.disappearsWhenComplete")}
         </p>
       </div>
     </div>
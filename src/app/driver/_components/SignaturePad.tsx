@@ -0,0 +1,120 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useDriverLanguage } from "./DriverLanguage";
+
+const PAD_HEIGHT = 140;
+
+/**
+ * Finger/stylus signature pad. Reports the drawing as a PNG data URL after
+ * each stroke, or null once cleared.
+ */
+export default function SignaturePad({
+  onChange,
+  disabled = false,
+}: {
+  onChange: (image: string | null) => void;
+  disabled?: boolean;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [hasInk, setHasInk] = useState(false);
+  const { t } = useDriverLanguage();
+
+  // Size the backing store to the displayed size so strokes stay sharp on
+  // high-density screens. Resizing clears the canvas, so only do it when blank.
+  const prepareCanvas = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || hasInk) return canvas?.getContext("2d") ?? null;
+
+    const ratio = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = Math.round(rect.width * ratio);
+    canvas.height = Math.round(rect.height * ratio);
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#0f172a";
+    return ctx;
+  };
+
+  const pointFrom = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const ctx = prepareCanvas();
+    if (!ctx) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointFrom(e);
+    lastPoint.current = point;
+
+    // A tap still leaves a dot
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, ctx.lineWidth / 2, 0, Math.PI * 2);
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.fill();
+    setHasInk(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const from = lastPoint.current;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!from || !ctx) return;
+
+    const to = pointFrom(e);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    lastPoint.current = to;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPoint.current) return;
+    lastPoint.current = null;
+    onChange(canvasRef.current?.toDataURL("image/png") ?? null);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasInk(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        style={{ height: PAD_HEIGHT }}
+        className={`w-full touch-none rounded-xl bg-slate-100 ${
+          disabled ? "cursor-not-allowed opacity-50" : "cursor-crosshair"
+        }`}
+        aria-label={t("signature.pad")}
+      />
+      <div className="flex items-center justify-between text-[11px] text-slate-400">
+        <span>{hasInk ? t("signature.signed") : t("signature.prompt")}</span>
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={!hasInk || disabled}
+          className="btn-ghost px-3 py-1 text-[11px]"
+        >
+          {t("signature.clear")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useDriverLanguage } from "./DriverLanguage";
 
 // ==== TYPES ====
 
@@ -69,6 +70,7 @@ export default function StopCard({
 }: StopCardProps) {
   const [attendanceMap, setAttendanceMap] = useState<Record<string, AttendanceStatus>>(existingAttendance);
   const [submitting, setSubmitting] = useState<string | null>(null);
+  const { t } = useDriverLanguage();
 
   useEffect(() => {
     setAttendanceMap(existingAttendance);
@@ -81,14 +83,14 @@ export default function StopCard({
   const isPickup =
     stop.stop_type === "pickup_home" || stop.stop_type === "pickup_school";
 
-  let actionLabel = "Stop";
+  let actionLabel = t("stop.stop");
   if (stop.stop_type === "pickup_home" || stop.stop_type === "pickup_school") {
-    actionLabel = "Pick up";
+    actionLabel = t("stop.pickUp");
   } else if (
     stop.stop_type === "dropoff_home" ||
     stop.stop_type === "dropoff_school"
   ) {
-    actionLabel = "Drop off";
+    actionLabel = t("stop.dropOff");
   }
 
   // Build student list - use household_students if available, otherwise single student
@@ -100,7 +102,7 @@ export default function StopCard({
         : [];
 
   const studentLabel =
-    studentNames.length > 0 ? studentNames.join(", ") : "student";
+    studentNames.length > 0 ? studentNames.join(", ") : t("stop.student");
 
   const canCallGuardian =
     isHomeStop &&
@@ -181,7 +183,7 @@ export default function StopCard({
         {/* Planned time */}
         {stop.planned_time && (
           <p className="inline-flex items-center rounded-full bg-emerald-500/15 px-3 py-1 text-xs font-semibold uppercase tracking-[0.14em] text-emerald-200">
-            Planned:{" "}
+            {t("stop.planned")}{" "}
             <span className="ml-2 text-sm font-bold tracking-normal text-emerald-100">
               {formatTimeTo12Hour(stop.planned_time)}
             </span>
@@ -195,13 +197,13 @@ export default function StopCard({
 
         {/* Address */}
         <p className="text-sm text-slate-200">
-          {stop.address || "Address not set"}
+          {stop.address || t("stop.addressNotSet")}
         </p>
 
         {/* For school stops, show the school name */}
         {isSchoolStop && stop.name && (
           <p className="text-sm text-slate-300">
-            School:{" "}
+            {t("stop.school")}{" "}
             <span className="font-medium text-slate-100">{stop.name}</span>
           </p>
         )}
@@ -280,7 +282,7 @@ export default function StopCard({
                 href={`tel:${stop.primary_guardian_phone}`}
                 className="inline-flex items-center rounded-full border border-emerald-500/70 bg-emerald-500/10 px-3 py-1.5 text-xs font-semibold text-emerald-200 active:scale-[0.97]"
               >
-                Call guardian:{" "}
+                {t("stop.callGuardian")}{" "}
                 <span className="ml-1">{stop.primary_guardian_name}</span>
               </a>
             )}
@@ -289,7 +291,7 @@ export default function StopCard({
                 href={`tel:${stop.phone}`}
                 className="inline-flex items-center rounded-full border border-emerald-500/70 bg-emerald-500/10 px-3 py-1.5 text-xs font-semibold text-emerald-200 active:scale-[0.97]"
               >
-                Call school: <span className="ml-1">{stop.name}</span>
+                {t("stop.callSchool")} <span className="ml-1">{stop.name}</span>
               </a>
             )}
           </div>
@@ -299,7 +301,7 @@ export default function StopCard({
         {showAttendance && (
           <div className="mt-3 space-y-2 border-t border-white/10 pt-3">
             <p className="text-[11px] font-semibold uppercase tracking-[0.14em] text-slate-400">
-              Attendance
+              {t("stop.attendance")}
             </p>
             {studentNames.map((studentName, idx) => {
               const studentId =
@@ -311,18 +313,18 @@ export default function StopCard({
                 attendanceMap[studentId];
               const isSubmitting = submitting?.startsWith(studentId);
 
-              const statusOptions: { status: AttendanceStatus; label: string; color: string; activeColor: string }[] = isPickup
+              const statusOptions: { status: AttendanceStatus; color: string; activeColor: string }[] = isPickup
                 ? [
-                    { status: "picked_up", label: "Picked Up", color: "border-emerald-500/40 bg-slate-900/70 text-emerald-200 hover:bg-emerald-500/10", activeColor: "border-emerald-500 bg-emerald-500 text-slate-950 shadow-lg" },
-                    { status: "absent", label: "Absent", color: "border-amber-500/40 bg-slate-900/70 text-amber-200 hover:bg-amber-500/10", activeColor: "border-amber-500 bg-amber-500 text-slate-950 shadow-lg" },
-                    { status: "no_show", label: "No Show", color: "border-red-500/40 bg-slate-900/70 text-red-200 hover:bg-red-500/10", activeColor: "border-red-500 bg-red-500 text-slate-950 shadow-lg" },
-                    { status: "cancelled", label: "Cancelled", color: "border-slate-500/40 bg-slate-900/70 text-slate-300 hover:bg-slate-500/10", activeColor: "border-slate-400 bg-slate-500 text-slate-950 shadow-lg" },
+                    { status: "picked_up", color: "border-emerald-500/40 bg-slate-900/70 text-emerald-200 hover:bg-emerald-500/10", activeColor: "border-emerald-500 bg-emerald-500 text-slate-950 shadow-lg" },
+                    { status: "absent", color: "border-amber-500/40 bg-slate-900/70 text-amber-200 hover:bg-amber-500/10", activeColor: "border-amber-500 bg-amber-500 text-slate-950 shadow-lg" },
+                    { status: "no_show", color: "border-red-500/40 bg-slate-900/70 text-red-200 hover:bg-red-500/10", activeColor: "border-red-500 bg-red-500 text-slate-950 shadow-lg" },
+                    { status: "cancelled", color: "border-slate-500/40 bg-slate-900/70 text-slate-300 hover:bg-slate-500/10", activeColor: "border-slate-400 bg-slate-500 text-slate-950 shadow-lg" },
                   ]
                 : [
-                    { status: "dropped_off", label: "Dropped Off", color: "border-blue-500/40 bg-slate-900/70 text-blue-200 hover:bg-blue-500/10", activeColor: "border-blue-500 bg-blue-500 text-slate-950 shadow-lg" },
-                    { status: "absent", label: "Absent", color: "border-amber-500/40 bg-slate-900/70 text-amber-200 hover:bg-amber-500/10", activeColor: "border-amber-500 bg-amber-500 text-slate-950 shadow-lg" },
-                    { status: "no_show", label: "No Show", color: "border-red-500/40 bg-slate-900/70 text-red-200 hover:bg-red-500/10", activeColor: "border-red-500 bg-red-500 text-slate-950 shadow-lg" },
-                    { status: "cancelled", label: "Cancelled", color: "border-slate-500/40 bg-slate-900/70 text-slate-300 hover:bg-slate-500/10", activeColor: "border-slate-400 bg-slate-500 text-slate-950 shadow-lg" },
+                    { status: "dropped_off", color: "border-blue-500/40 bg-slate-900/70 text-blue-200 hover:bg-blue-500/10", activeColor: "border-blue-500 bg-blue-500 text-slate-950 shadow-lg" },
+                    { status: "absent", color: "border-amber-500/40 bg-slate-900/70 text-amber-200 hover:bg-amber-500/10", activeColor: "border-amber-500 bg-amber-500 text-slate-950 shadow-lg" },
+                    { status: "no_show", color: "border-red-500/40 bg-slate-900/70 text-red-200 hover:bg-red-500/10", activeColor: "border-red-500 bg-red-500 text-slate-950 shadow-lg" },
+                    { status: "cancelled", color: "border-slate-500/40 bg-slate-900/70 text-slate-300 hover:bg-slate-500/10", activeColor: "border-slate-400 bg-slate-500 text-slate-950 shadow-lg" },
                   ];
 
               return (
@@ -343,7 +345,7 @@ export default function StopCard({
                           currentStatus === s.status ? s.activeColor : s.color
                         } ${isSubmitting ? "opacity-60 cursor-wait" : ""}`}
                       >
-                        {s.label}
+                        {t(`attendance.${s.status}`)}
                       </button>
                     ))}
                   </div>
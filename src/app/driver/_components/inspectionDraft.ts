@@ -0,0 +1,71 @@
+// In-progress inspections are kept on the device so a locked phone or a page
+// reload doesn't lose the driver's answers. There is one draft per driver,
+// vehicle, inspection type and shift, and drafts from an earlier day are
+// dropped. Photos are kept by id, since they are already uploaded as pending
+// photos. The drawn signature is not kept; the driver signs again.
+
+const DRAFT_PREFIX = "transafeInspectionDraft";
+
+export type InspectionDraft = {
+  workDate: string; // YYYY-MM-DD, device-local
+  savedAt: string;
+  odometer: string;
+  odometerOverrideReason: string;
+  shift: string;
+  answers: Record<string, string | null>;
+  photoIds: Record<string, string[]>;
+  carryAcks: Record<string, string>;
+  notes: string;
+  signatureName: string;
+};
+
+function todayLocal() {
+  const now = new Date();
+  const month = `${now.getMonth() + 1}`.padStart(2, "0");
+  const day = `${now.getDate()}`.padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+export function draftKey(
+  driverId: string,
+  vehicleId: string,
+  inspectionType: string,
+  shift: string | null,
+) {
+  return [DRAFT_PREFIX, driverId, vehicleId, inspectionType, shift || "any"].join(":");
+}
+
+export function loadDraft(key: string): InspectionDraft | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as InspectionDraft;
+    if (draft.workDate !== todayLocal()) {
+      window.localStorage.removeItem(key);
+      return null;
+    }
+    return draft;
+  } catch {
+    return null;
+  }
+}
+
+export function saveDraft(key: string, draft: Omit<InspectionDraft, "workDate" | "savedAt">) {
+  try {
+    window.localStorage.setItem(
+      key,
+      JSON.stringify({ ...draft, workDate: todayLocal(), savedAt: new Date().toISOString() }),
+    );
+  } catch (err) {
+    // Storage full or disabled (e.g. private browsing); the form still works
+    console.error("Failed to save inspection draft", err);
+  }
+}
+
+export function clearDraft(key: string) {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Nothing to clear
+  }
+}
@@ -4,6 +4,7 @@
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { overallStatusLabel } from "@/lib/inspections/status";
 
 type DriverSession = {
   driverId: string;
@@ -236,9 +237,7 @@ export default function DriverInspectionHistoryPage() {
                   </p>
                   <p className="text-[10px] text-slate-400">
                     Shift: {rec.shift || "N/A"} • Status:{" "}
-                    {rec.overall_status
-                      ? rec.overall_status.toUpperCase()
-                      : "N/A"}
+                    {overallStatusLabel(rec.overall_status)}
                   </p>
                 </div>
                 <Link
@@ -7,6 +7,9 @@ import { useRouter } from "next/navigation";
 import DriverLoginForm from "./_components/DriverLoginForm";
 import RouteCard from "./_components/RouteCard";
 import type { RouteStopForDriver, AttendanceStatus } from "./_components/StopCard";
+import { LanguagePicker, useDriverLanguage } from "./_components/DriverLanguage";
+import { INTL_LOCALES } from "@/lib/i18n";
+import { SHIFTS, countRoutesByShift, shiftForDirection, type Shift } from "@/lib/inspections/shifts";
 
 const DRIVER_APP_VERSION = "v0.2.0 — 2026-02-20";
 
@@ -30,7 +33,7 @@ type Vehicle = {
   plate: string | null;
   vin: string | null;
   is_active: boolean;
-  created_at: string;
+  out_of_service: boolean;
 };
 
 type TimeEntry = {
@@ -68,7 +71,11 @@ function getTodayDateString() {
 }
 
 const ONE_HOUR_MS = 60 * 60 * 1000;
-const AM_POSTTIP_DEADLINE_MS = 45 * 60 * 1000;
+const POST_TRIP_DEADLINE_MS = 45 * 60 * 1000;
+
+// Shifts that pause the clock 45 minutes after their last drop-off until the
+// post-trip is in. PM instead pauses through long gaps between pickups.
+const POST_TRIP_DEADLINE_SHIFTS: Shift[] = ["AM", "Midday"];
 
 function findNextPickupTime(
   stopsMap: Record<string, RouteStopForDriver[]>,
@@ -116,16 +123,12 @@ function findNextPickupTime(
 }
 
 function areAllShiftStudentsConfirmed(
-  shift: "AM" | "PM",
+  shift: Shift,
   routes: DriverRouteSummary[],
   stopsMap: Record<string, RouteStopForDriver[]>,
   attendance: Record<string, AttendanceStatus>,
 ): boolean {
-  const shiftRoutes = routes.filter((r) =>
-    shift === "AM"
-      ? r.direction === "AM" || r.direction === "MIDDAY"
-      : r.direction === "PM"
-  );
+  const shiftRoutes = routes.filter((r) => shiftForDirection(r.direction) === shift);
 
   if (shiftRoutes.length === 0) return false;
 
@@ -155,6 +158,12 @@ function areAllShiftStudentsConfirmed(
 
 export default function DriverPage() {
   const router = useRouter();
+  const { locale, t } = useDriverLanguage();
+  const formatClockTime = (date: Date) =>
+    date.toLocaleTimeString(INTL_LOCALES[locale], {
+      hour: "numeric",
+      minute: "2-digit",
+    });
 
   const [currentDriver, setCurrentDriver] = useState<Driver | null>(null);
   const [driverName, setDriverName] = useState("");
@@ -172,11 +181,12 @@ export default function DriverPage() {
 
   // Auto-pause state
   type ClockPauseState =
-    | { reason: "pm_gap"; resumeAt: Date; nextPickupTime: string }
-    | { reason: "am_posttip" };
+    | { reason: "pm_gap"; resumeAt: Date; nextPickupAt: Date }
+    | { reason: "posttrip"; shift: Shift };
   const [clockPaused, setClockPaused] = useState<ClockPauseState | null>(null);
   const pauseCheckedRef = useRef(false);
-  const [amLastDropOffTime, setAmLastDropOffTime] = useState<Date | null>(null);
+  // When each shift's last student was dropped off, for the post-trip deadline
+  const [lastDropOffTimes, setLastDropOffTimes] = useState<Partial<Record<Shift, Date>>>({});
 
   // Today's routes state
   const [todayRoutesLoading, setTodayRoutesLoading] = useState(false);
@@ -196,11 +206,15 @@ export default function DriverPage() {
     postTripDone: boolean;
     checking: boolean;
   };
-  const [shiftStatus, setShiftStatus] = useState<Record<string, ShiftStatus>>({
+  const [shiftStatus, setShiftStatus] = useState<Record<Shift, ShiftStatus>>({
     AM: { preTripDone: false, postTripDone: false, checking: true },
+    Midday: { preTripDone: false, postTripDone: false, checking: true },
     PM: { preTripDone: false, postTripDone: false, checking: true },
   });
-  const [originalRouteCounts, setOriginalRouteCounts] = useState<{ AM: number; PM: number }>({ AM: 0, PM: 0 });
+  const [originalRouteCounts, setOriginalRouteCounts] = useState<Record<Shift, number>>(
+    countRoutesByShift([]),
+  );
+  const [outOfServiceRouteCount, setOutOfServiceRouteCount] = useState(0);
 
   const selectedVehicle = useMemo(
     () => vehicles.find((v) => v.id === selectedVehicleId),
@@ -208,7 +222,7 @@ export default function DriverPage() {
   );
 
   const vehicleMainLine = useMemo(() => {
-    if (!selectedVehicle) return "Unknown vehicle";
+    if (!selectedVehicle) return t("portal.unknownVehicle");
     const parts = [
       selectedVehicle.year ?? "",
       selectedVehicle.make ?? "",
@@ -218,7 +232,7 @@ export default function DriverPage() {
       .join(" ")
       .trim();
     return parts || selectedVehicle.label;
-  }, [selectedVehicle]);
+  }, [selectedVehicle, t]);
 
   // Restore previous driver session from localStorage
   useEffect(() => {
@@ -237,6 +251,15 @@ export default function DriverPage() {
 
           if (!parsed.driverId || !parsed.driverName) return;
 
+          // The server-side session cookie is the source of truth; drop the
+          // stored session if it has expired or belongs to another driver
+          const res = await fetch("/api/auth/driver-session");
+          const body = res.ok ? await res.json() : null;
+          if (body?.session?.driverId !== parsed.driverId) {
+            window.localStorage.removeItem("transafeDriverSession");
+            return;
+          }
+
           setCurrentDriver({
             id: parsed.driverId,
             full_name: parsed.driverName,
@@ -264,7 +287,7 @@ export default function DriverPage() {
     const loadVehicles = async () => {
       setLoadingVehicles(true);
       try {
-        const res = await fetch("/api/admin/vehicles");
+        const res = await fetch("/api/driver/vehicles");
         if (!res.ok) throw new Error("Failed to load vehicles");
         const body = await res.json();
         const activeVehicles = (body.vehicles || [])
@@ -316,6 +339,7 @@ export default function DriverPage() {
       if (body.totalRouteCounts) {
         setOriginalRouteCounts(body.totalRouteCounts);
       }
+      setOutOfServiceRouteCount(body.outOfServiceRouteCount ?? 0);
 
       // Load existing attendance for today
       if (body.attendance) {
@@ -324,43 +348,41 @@ export default function DriverPage() {
     } catch (err: any) {
       console.error("Failed to load today's routes for driver", err);
       setTodayRoutesError(
-        err?.message ?? "Failed to load today's routes. Please contact admin.",
+        err?.message ?? t("portal.routesLoadFailed"),
       );
     } finally {
       setTodayRoutesLoading(false);
     }
   };
 
-  // Check per-shift inspection status (pre and post for AM and PM)
+  // Check per-shift inspection status (pre and post for each shift)
   const checkShiftInspections = async (driverId: string) => {
     setShiftStatus((prev) => ({
       AM: { ...prev.AM, checking: true },
+      Midday: { ...prev.Midday, checking: true },
       PM: { ...prev.PM, checking: true },
     }));
+    const today = getTodayDateString();
+    const base = `/api/driver/inspections?driverId=${driverId}&date=${today}`;
+    const hasInspection = (type: "pre" | "post", shift: Shift) =>
+      fetch(`${base}&type=${type}&shift=${shift}`)
+        .then((r) => (r.ok ? r.json() : { inspections: [] }))
+        .then((body) => (body.inspections ?? []).length > 0);
     try {
-      const today = getTodayDateString();
-      const base = `/api/driver/inspections?driverId=${driverId}&date=${today}`;
-      const [amPre, amPost, pmPre, pmPost] = await Promise.all([
-        fetch(`${base}&type=pre&shift=AM`).then((r) => r.ok ? r.json() : { inspections: [] }),
-        fetch(`${base}&type=post&shift=AM`).then((r) => r.ok ? r.json() : { inspections: [] }),
-        fetch(`${base}&type=pre&shift=PM`).then((r) => r.ok ? r.json() : { inspections: [] }),
-        fetch(`${base}&type=post&shift=PM`).then((r) => r.ok ? r.json() : { inspections: [] }),
-      ]);
-      setShiftStatus({
-        AM: {
-          preTripDone: (amPre.inspections ?? []).length > 0,
-          postTripDone: (amPost.inspections ?? []).length > 0,
-          checking: false,
-        },
-        PM: {
-          preTripDone: (pmPre.inspections ?? []).length > 0,
-          postTripDone: (pmPost.inspections ?? []).length > 0,
-          checking: false,
-        },
-      });
+      const results = await Promise.all(
+        SHIFTS.map(async (shift) => {
+          const [preTripDone, postTripDone] = await Promise.all([
+            hasInspection("pre", shift),
+            hasInspection("post", shift),
+          ]);
+          return [shift, { preTripDone, postTripDone, checking: false }] as const;
+        }),
+      );
+      setShiftStatus(Object.fromEntries(results) as Record<Shift, ShiftStatus>);
     } catch {
       setShiftStatus({
         AM: { preTripDone: false, postTripDone: false, checking: false },
+        Midday: { preTripDone: false, postTripDone: false, checking: false },
         PM: { preTripDone: false, postTripDone: false, checking: false },
       });
     }
@@ -414,7 +436,7 @@ export default function DriverPage() {
         await fetch("/api/driver/time", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ driver_id: currentDriver.id, action: "resume" }),
+          body: JSON.stringify({ driver_id: currentDriver.id, action: "resume", shift: "PM" }),
         });
         await loadTimeForToday(currentDriver.id);
         setClockPaused(null);
@@ -435,11 +457,15 @@ export default function DriverPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [clockPaused, currentDriver?.id]);
 
-  // AM post-trip deadline: pause 45min after last AM drop-off if post-trip not submitted
+  // Post-trip deadline: pause 45min after a shift's last drop-off if its post-trip not submitted
   useEffect(() => {
-    if (!amLastDropOffTime || !currentDriver?.id) return;
-    if (shiftStatus.AM.postTripDone) return;
+    if (!currentDriver?.id) return;
     if (clockPaused) return;
+    const shift = POST_TRIP_DEADLINE_SHIFTS.find(
+      (s) => lastDropOffTimes[s] && !shiftStatus[s].postTripDone,
+    );
+    const lastDropOffTime = shift && lastDropOffTimes[shift];
+    if (!shift || !lastDropOffTime) return;
 
     const doPause = async () => {
       try {
@@ -448,15 +474,15 @@ export default function DriverPage() {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ driver_id: currentDriver.id, action: "pause" }),
         });
-        setClockPaused({ reason: "am_posttip" });
+        setClockPaused({ reason: "posttrip", shift });
         setActiveSince(null);
         await loadTimeForToday(currentDriver.id);
       } catch (err) {
-        console.error("Failed to auto-pause clock (AM post-trip deadline):", err);
+        console.error(`Failed to auto-pause clock (${shift} post-trip deadline):`, err);
       }
     };
 
-    const deadline = amLastDropOffTime.getTime() + AM_POSTTIP_DEADLINE_MS;
+    const deadline = lastDropOffTime.getTime() + POST_TRIP_DEADLINE_MS;
     const msUntilDeadline = deadline - Date.now();
 
     if (msUntilDeadline <= 0) {
@@ -467,12 +493,12 @@ export default function DriverPage() {
     const timer = setTimeout(doPause, msUntilDeadline);
     return () => clearTimeout(timer);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [amLastDropOffTime, shiftStatus.AM.postTripDone, clockPaused, currentDriver?.id]);
+  }, [lastDropOffTimes, shiftStatus, clockPaused, currentDriver?.id]);
 
-  // AM post-trip submitted: resume clock if paused for AM reason
+  // Post-trip submitted: resume clock if paused waiting for that shift's post-trip
   useEffect(() => {
-    if (!clockPaused || clockPaused.reason !== "am_posttip") return;
-    if (!shiftStatus.AM.postTripDone) return;
+    if (!clockPaused || clockPaused.reason !== "posttrip") return;
+    if (!shiftStatus[clockPaused.shift].postTripDone) return;
     if (!currentDriver?.id) return;
 
     const doResume = async () => {
@@ -480,24 +506,28 @@ export default function DriverPage() {
         await fetch("/api/driver/time", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ driver_id: currentDriver.id, action: "resume" }),
+          body: JSON.stringify({
+            driver_id: currentDriver.id,
+            action: "resume",
+            shift: clockPaused.shift,
+          }),
         });
         await loadTimeForToday(currentDriver.id);
         setClockPaused(null);
       } catch (err) {
-        console.error("Failed to resume clock after AM post-trip:", err);
+        console.error(`Failed to resume clock after ${clockPaused.shift} post-trip:`, err);
       }
     };
 
     doResume();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [clockPaused, shiftStatus.AM.postTripDone, currentDriver?.id]);
+  }, [clockPaused, shiftStatus, currentDriver?.id]);
 
   // Restore pause state after page load / refresh
   useEffect(() => {
     if (!isSessionReady || !currentDriver?.id) return;
     if (todayRoutesLoading) return;
-    if (shiftStatus.AM.checking || shiftStatus.PM.checking) return;
+    if (SHIFTS.some((s) => shiftStatus[s].checking)) return;
     if (pauseCheckedRef.current) return;
 
     pauseCheckedRef.current = true;
@@ -505,12 +535,14 @@ export default function DriverPage() {
     if (activeSince !== null) return;
     if (clockBaseSeconds === 0) return;
 
-    // AM: all AM students confirmed but post-trip not submitted
-    if (
-      !shiftStatus.AM.postTripDone &&
-      areAllShiftStudentsConfirmed("AM", todayRoutes, todayRouteStops, attendanceMap)
-    ) {
-      setClockPaused({ reason: "am_posttip" });
+    // AM/Midday: all of the shift's students confirmed but post-trip not submitted
+    const awaitingPostTrip = POST_TRIP_DEADLINE_SHIFTS.find(
+      (s) =>
+        !shiftStatus[s].postTripDone &&
+        areAllShiftStudentsConfirmed(s, todayRoutes, todayRouteStops, attendanceMap),
+    );
+    if (awaitingPostTrip) {
+      setClockPaused({ reason: "posttrip", shift: awaitingPostTrip });
       return;
     }
 
@@ -524,15 +556,7 @@ export default function DriverPage() {
 
     const resumeAt = new Date(Math.max(nextPickup.getTime() - ONE_HOUR_MS, Date.now()));
 
-    setClockPaused({
-      reason: "pm_gap",
-      resumeAt,
-      nextPickupTime: nextPickup.toLocaleTimeString("en-US", {
-        hour: "numeric",
-        minute: "2-digit",
-        hour12: true,
-      }),
-    });
+    setClockPaused({ reason: "pm_gap", resumeAt, nextPickupAt: nextPickup });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isSessionReady, currentDriver?.id, todayRoutesLoading, activeSince, clockBaseSeconds, todayRoutes, todayRouteStops, attendanceMap, shiftStatus]);
 
@@ -560,7 +584,7 @@ export default function DriverPage() {
     setActiveSince(null);
     setDisplaySeconds(0);
     setClockPaused(null);
-    setAmLastDropOffTime(null);
+    setLastDropOffTimes({});
     pauseCheckedRef.current = false;
     setAttendanceMap({});
 
@@ -570,18 +594,18 @@ export default function DriverPage() {
       window.localStorage.removeItem("transafeDriverSession");
     }
 
+    void fetch("/api/auth/driver-session", { method: "DELETE" });
+
     router.push("/");
   };
 
   const handleMarkRouteComplete = async (routeId: string) => {
     if (!currentDriver) {
-      setTodayRoutesError("Your driver session is not fully loaded yet.");
+      setTodayRoutesError(t("portal.sessionNotLoaded"));
       return;
     }
 
-    const confirmed = window.confirm(
-      "Are you sure you want to mark this route as COMPLETE for today? Once confirmed, it will disappear from today's list on this device.",
-    );
+    const confirmed = window.confirm(t("portal.confirmComplete"));
     if (!confirmed) return;
 
     setCompletingRouteId(routeId);
@@ -596,11 +620,15 @@ export default function DriverPage() {
         }),
       });
 
+      const body = await res.json();
       if (!res.ok) {
-        const body = await res.json();
         throw new Error(body.error || "Failed to mark route complete");
       }
 
+      if (body.child_check_alert) {
+        window.alert(t("portal.childCheckAlert"));
+      }
+
       setTodayRoutes((prev) => prev.filter((r) => r.id !== routeId));
       setTodayRouteStops((prev) => {
         const copy = { ...prev };
@@ -609,9 +637,7 @@ export default function DriverPage() {
       });
     } catch (err: any) {
       console.error("Failed to mark route as complete", err);
-      setTodayRoutesError(
-        "Could not mark route as complete. Please try again or contact admin.",
-      );
+      setTodayRoutesError(t("portal.completeFailed"));
     } finally {
       setCompletingRouteId(null);
     }
@@ -626,19 +652,20 @@ export default function DriverPage() {
 
     // Determine which shift this drop-off belongs to
     const stopId = compositeKey.split(":")[1];
-    let dropOffShift: "AM" | "PM" | null = null;
+    let dropOffShift: Shift | null = null;
     for (const route of todayRoutes) {
       const stops = todayRouteStops[route.id] || [];
       if (stops.some((s) => s.id === stopId)) {
-        dropOffShift = route.direction === "PM" ? "PM" : "AM";
+        dropOffShift = shiftForDirection(route.direction);
         break;
       }
     }
 
-    // AM: when all AM students are confirmed, start post-trip deadline
-    if (dropOffShift === "AM") {
-      if (areAllShiftStudentsConfirmed("AM", todayRoutes, todayRouteStops, updatedMap)) {
-        setAmLastDropOffTime((prev) => prev ?? new Date());
+    // AM/Midday: when all of the shift's students are confirmed, start post-trip deadline
+    if (dropOffShift && POST_TRIP_DEADLINE_SHIFTS.includes(dropOffShift)) {
+      if (areAllShiftStudentsConfirmed(dropOffShift, todayRoutes, todayRouteStops, updatedMap)) {
+        const shift = dropOffShift;
+        setLastDropOffTimes((prev) => (prev[shift] ? prev : { ...prev, [shift]: new Date() }));
       }
       return;
     }
@@ -663,15 +690,7 @@ export default function DriverPage() {
 
         const resumeAt = new Date(nextPickup.getTime() - ONE_HOUR_MS);
 
-        setClockPaused({
-          reason: "pm_gap",
-          resumeAt,
-          nextPickupTime: nextPickup.toLocaleTimeString("en-US", {
-            hour: "numeric",
-            minute: "2-digit",
-            hour12: true,
-          }),
-        });
+        setClockPaused({ reason: "pm_gap", resumeAt, nextPickupAt: nextPickup });
         setActiveSince(null);
         await loadTimeForToday(currentDriver.id);
       } catch (err) {
@@ -696,30 +715,35 @@ export default function DriverPage() {
     <div className="space-y-5">
       {/* Header with live clock */}
       <section className="card space-y-3">
-        <h1 className="text-base font-semibold uppercase tracking-[0.16em] text-slate-200">
-          Driver Portal
-        </h1>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-base font-semibold uppercase tracking-[0.16em] text-slate-200">
+            {t("portal.title")}
+          </h1>
+          <LanguagePicker save />
+        </div>
 
         <div className="flex items-center justify-between gap-3">
           <div className="min-w-0 flex-1 space-y-1.5">
             <p className="text-base font-semibold text-emerald-200 sm:text-lg">
               {driverName.trim()}
               <span className="ml-2 text-sm font-normal text-slate-300">
-                Lic #{currentDriver?.license_number ?? "N/A"}
+                {t("portal.license", {
+                  number: currentDriver?.license_number ?? t("common.na"),
+                })}
               </span>
             </p>
             {selectedVehicle ? (
               <div className="space-y-0.5 text-sm sm:text-base">
                 <p className="text-slate-100">
-                  <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Bus </span>
+                  <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">{t("portal.bus")} </span>
                   <span className="font-semibold">{selectedVehicle.label}</span>
                   <span className="mx-1.5 text-slate-500">&middot;</span>
-                  <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Plate </span>
-                  <span>{selectedVehicle.plate || "N/A"}</span>
+                  <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">{t("portal.plate")} </span>
+                  <span>{selectedVehicle.plate || t("common.na")}</span>
                 </p>
                 {vehicleMainLine && (
                   <p className="text-slate-300">
-                    <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Vehicle </span>
+                    <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">{t("portal.vehicle")} </span>
                     {vehicleMainLine}
                   </p>
                 )}
@@ -727,11 +751,26 @@ export default function DriverPage() {
             ) : (
               <p className="text-sm text-slate-100">{vehicleMainLine}</p>
             )}
+            {selectedVehicle?.out_of_service && (
+              <p className="text-xs font-semibold text-red-300">
+                {t("portal.vehicleOutOfService")}
+              </p>
+            )}
+            {outOfServiceRouteCount > 0 && (
+              <p className="text-xs text-amber-300">
+                {t(
+                  outOfServiceRouteCount === 1
+                    ? "portal.routesHiddenOne"
+                    : "portal.routesHiddenMany",
+                  { count: outOfServiceRouteCount },
+                )}
+              </p>
+            )}
           </div>
 
           <div className="shrink-0 rounded-2xl bg-slate-900 px-4 py-3 text-center ring-1 ring-emerald-500/60">
             <p className="text-[10px] font-semibold uppercase tracking-[0.18em] text-slate-300">
-              Today&apos;s hours
+              {t("portal.todaysHours")}
             </p>
             <p className="font-mono text-xl font-semibold text-emerald-300 sm:text-2xl">
               {formatDuration(displaySeconds)}
@@ -747,19 +786,19 @@ export default function DriverPage() {
             href="/driver/time-log"
             className="flex items-center justify-center rounded-xl bg-slate-900 px-3 py-2 font-semibold text-slate-100 ring-1 ring-white/10 hover:bg-slate-800 active:scale-[0.97]"
           >
-            Time Log
+            {t("portal.navTimeLog")}
           </Link>
           <Link
             href="/driver/inspections"
             className="flex items-center justify-center rounded-xl bg-slate-900 px-3 py-2 font-semibold text-slate-100 ring-1 ring-white/10 hover:bg-slate-800 active:scale-[0.97]"
           >
-            Inspections History
+            {t("portal.navHistory")}
           </Link>
           <Link
             href="/driver/help"
             className="flex items-center justify-center rounded-xl bg-slate-900 px-3 py-2 font-semibold text-slate-100 ring-1 ring-white/10 hover:bg-slate-800 active:scale-[0.97]"
           >
-            Help
+            {t("portal.navHelp")}
           </Link>
         </nav>
       </section>
@@ -769,19 +808,17 @@ export default function DriverPage() {
         <div className="flex items-center justify-between gap-2">
           <div>
             <h2 className="text-base font-semibold uppercase tracking-[0.16em] text-slate-200">
-              {new Date().toLocaleDateString("en-US", {
+              {new Date().toLocaleDateString(INTL_LOCALES[locale], {
                 weekday: "long",
                 month: "long",
                 day: "numeric",
                 year: "numeric",
               })}
             </h2>
-            <p className="text-xs text-slate-300">
-              Your route assignments for today.
-            </p>
+            <p className="text-xs text-slate-300">{t("portal.assignmentsToday")}</p>
           </div>
           {todayRoutesLoading && (
-            <p className="text-xs text-slate-300">Loading...</p>
+            <p className="text-xs text-slate-300">{t("common.loading")}</p>
           )}
         </div>
 
@@ -795,195 +832,113 @@ export default function DriverPage() {
         {clockPaused && clockPaused.reason === "pm_gap" && (
           <div className="rounded-xl border border-amber-500/30 bg-amber-950/30 px-4 py-4 space-y-2">
             <p className="text-sm font-semibold text-amber-200">
-              Clock paused
+              {t("portal.clockPaused")}
             </p>
             <p className="text-xs text-amber-100/70">
-              Next pickup at {clockPaused.nextPickupTime}. Clock resumes
-              automatically at{" "}
-              {clockPaused.resumeAt.toLocaleTimeString("en-US", {
-                hour: "numeric",
-                minute: "2-digit",
-                hour12: true,
+              {t("portal.pmGapResume", {
+                pickup: formatClockTime(clockPaused.nextPickupAt),
+                resume: formatClockTime(clockPaused.resumeAt),
               })}
-              .
             </p>
             <p className="text-xs text-amber-100/70">
-              Only mark the route as complete after the last student has been
-              dropped off.
+              {t("portal.completeAfterLastDropOff")}
             </p>
           </div>
         )}
 
-        {/* Auto-pause banner: AM post-trip deadline */}
-        {clockPaused && clockPaused.reason === "am_posttip" && (
+        {/* Auto-pause banner: AM/Midday post-trip deadline */}
+        {clockPaused && clockPaused.reason === "posttrip" && (
           <div className="rounded-xl border border-amber-500/30 bg-amber-950/30 px-4 py-4 space-y-3">
             <p className="text-sm font-semibold text-amber-200">
-              Clock paused
+              {t("portal.clockPaused")}
             </p>
             <p className="text-xs text-amber-100/70">
-              Submit your AM Post-Trip Inspection to resume the clock.
+              {t("portal.submitPostTripToResume", { shift: t(`shift.${clockPaused.shift}`) })}
             </p>
             <Link
-              href="/driver/post-trip?shift=AM"
+              href={`/driver/post-trip?shift=${clockPaused.shift}`}
               className="inline-block rounded-xl bg-slate-700 px-6 py-2.5 text-sm font-semibold text-slate-50 shadow-md ring-1 ring-slate-500/70 hover:bg-slate-600 active:scale-[0.97]"
             >
-              Start AM Post-Trip
+              {t("portal.startPostTrip", { shift: t(`shift.${clockPaused.shift}`) })}
             </Link>
           </div>
         )}
 
-        {/* AM Shift Section */}
-        {(() => {
-          const amRoutes = todayRoutes.filter(
-            (r) => r.direction === "AM" || r.direction === "MIDDAY"
+        {/* Shift sections. Midday only shows for drivers with Midday work today. */}
+        {SHIFTS.filter(
+          (shift) =>
+            shift !== "Midday" ||
+            originalRouteCounts.Midday > 0 ||
+            shiftStatus.Midday.preTripDone,
+        ).map((shift) => {
+          const shiftName = t(`shift.${shift}`);
+          const shiftRoutes = todayRoutes.filter((r) => shiftForDirection(r.direction) === shift);
+          const status = shiftStatus[shift];
+          const allRoutesDone = originalRouteCounts[shift] > 0 && shiftRoutes.length === 0;
+          // An earlier shift the driver has work in (or has started) must be
+          // closed out with its post-trip before this one can start
+          const openEarlierShift = SHIFTS.slice(0, SHIFTS.indexOf(shift)).find(
+            (s) =>
+              (originalRouteCounts[s] > 0 || shiftStatus[s].preTripDone) &&
+              !(shiftStatus[s].preTripDone && shiftStatus[s].postTripDone),
           );
-          const status = shiftStatus.AM;
-          const allAmDone = originalRouteCounts.AM > 0 && amRoutes.length === 0;
 
           return (
-            <div className="space-y-3">
+            <div key={shift} className="space-y-3">
               <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">
-                AM Shift
+                {t("portal.shiftHeading", { shift: shiftName })}
               </h3>
 
               {status.checking && (
-                <p className="text-xs text-slate-400">Checking AM status...</p>
-              )}
-
-              {/* Gate: AM pre-trip needed */}
-              {!status.checking && !status.preTripDone && (
-                <div className="rounded-xl border border-amber-500/30 bg-amber-950/30 px-4 py-4 text-center space-y-3">
-                  <p className="text-sm font-semibold text-amber-200">
-                    Complete your AM Pre-Trip Inspection
-                  </p>
-                  <p className="text-xs text-amber-100/70">
-                    Submit your AM pre-trip inspection to unlock your morning routes.
-                  </p>
-                  <Link
-                    href="/driver/pre-trip?shift=AM"
-                    className="inline-block rounded-xl bg-emerald-600 px-6 py-2.5 text-sm font-semibold text-slate-950 shadow-md ring-1 ring-emerald-400/70 hover:bg-emerald-500 active:scale-[0.97]"
-                  >
-                    Start AM Pre-Trip
-                  </Link>
-                </div>
-              )}
-
-              {/* AM routes visible after pre-trip */}
-              {!status.checking && status.preTripDone && !allAmDone && (
-                <>
-                  {amRoutes.length === 0 && !todayRoutesLoading && (
-                    <p className="text-sm text-slate-200">
-                      No AM routes assigned for today.
-                    </p>
-                  )}
-                  {amRoutes.length > 0 && (
-                    <div className="space-y-4">
-                      {amRoutes.map((route) => (
-                        <RouteCard
-                          key={route.id}
-                          route={route}
-                          stops={todayRouteStops[route.id] || []}
-                          driverId={currentDriver?.id ?? ""}
-                          completingRouteId={completingRouteId}
-                          onMarkComplete={handleMarkRouteComplete}
-                          onAttendanceChange={handleAttendanceChange}
-                          attendanceMap={attendanceMap}
-                        />
-                      ))}
-                    </div>
-                  )}
-                </>
-              )}
-
-              {/* Gate: AM post-trip needed */}
-              {!status.checking && status.preTripDone && allAmDone && !status.postTripDone && (
-                <div className="rounded-xl border border-amber-500/30 bg-amber-950/30 px-4 py-4 text-center space-y-3">
-                  <p className="text-sm font-semibold text-amber-200">
-                    Submit your AM Post-Trip Inspection
-                  </p>
-                  <p className="text-xs text-amber-100/70">
-                    All AM routes are complete. Please submit your AM post-trip inspection.
-                  </p>
-                  <Link
-                    href="/driver/post-trip?shift=AM"
-                    className="inline-block rounded-xl bg-slate-700 px-6 py-2.5 text-sm font-semibold text-slate-50 shadow-md ring-1 ring-slate-500/70 hover:bg-slate-600 active:scale-[0.97]"
-                  >
-                    Start AM Post-Trip
-                  </Link>
-                </div>
-              )}
-
-              {/* AM shift complete */}
-              {!status.checking && status.postTripDone && (
-                <div className="rounded-xl border border-emerald-500/30 bg-emerald-950/30 px-4 py-3 text-center">
-                  <p className="text-sm font-semibold text-emerald-300">
-                    AM shift complete
-                  </p>
-                </div>
-              )}
-            </div>
-          );
-        })()}
-
-        {/* PM Shift Section */}
-        {(() => {
-          const pmRoutes = todayRoutes.filter((r) => r.direction === "PM");
-          const status = shiftStatus.PM;
-          const amStatus = shiftStatus.AM;
-          const allPmDone = originalRouteCounts.PM > 0 && pmRoutes.length === 0;
-          const amShiftComplete = amStatus.preTripDone && amStatus.postTripDone;
-
-          return (
-            <div className="space-y-3">
-              <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">
-                PM Shift
-              </h3>
-
-              {status.checking && (
-                <p className="text-xs text-slate-400">Checking PM status...</p>
+                <p className="text-xs text-slate-400">
+                  {t("portal.checkingShift", { shift: shiftName })}
+                </p>
               )}
 
-              {/* Gate: AM shift must be complete before PM pre-trip */}
-              {!status.checking && !status.preTripDone && !amShiftComplete && (
+              {/* Gate: earlier shift must be complete before this pre-trip */}
+              {!status.checking && !status.preTripDone && openEarlierShift && (
                 <div className="rounded-xl border border-slate-500/30 bg-slate-900/40 px-4 py-4 text-center space-y-2">
                   <p className="text-sm font-semibold text-slate-300">
-                    PM shift locked
+                    {t("portal.shiftLockedTitle", { shift: shiftName })}
                   </p>
                   <p className="text-xs text-slate-400">
-                    Complete your AM pre-trip and post-trip inspections before starting your PM shift.
+                    {t("portal.shiftLockedBody", {
+                      previous: t(`shift.${openEarlierShift}`),
+                      shift: shiftName,
+                    })}
                   </p>
                 </div>
               )}
 
-              {/* Gate: PM pre-trip needed (AM shift is done) */}
-              {!status.checking && !status.preTripDone && amShiftComplete && (
+              {/* Gate: pre-trip needed */}
+              {!status.checking && !status.preTripDone && !openEarlierShift && (
                 <div className="rounded-xl border border-amber-500/30 bg-amber-950/30 px-4 py-4 text-center space-y-3">
                   <p className="text-sm font-semibold text-amber-200">
-                    Complete your PM Pre-Trip Inspection
+                    {t("portal.preTripNeededTitle", { shift: shiftName })}
                   </p>
                   <p className="text-xs text-amber-100/70">
-                    Submit your PM pre-trip inspection to unlock your afternoon routes.
+                    {t("portal.preTripNeededBody", { shift: shiftName })}
                   </p>
                   <Link
-                    href="/driver/pre-trip?shift=PM"
+                    href={`/driver/pre-trip?shift=${shift}`}
                     className="inline-block rounded-xl bg-emerald-600 px-6 py-2.5 text-sm font-semibold text-slate-950 shadow-md ring-1 ring-emerald-400/70 hover:bg-emerald-500 active:scale-[0.97]"
                   >
-                    Start PM Pre-Trip
+                    {t("portal.startPreTrip", { shift: shiftName })}
                   </Link>
                 </div>
               )}
 
-              {/* PM routes visible after pre-trip */}
-              {!status.checking && status.preTripDone && !allPmDone && (
+              {/* Routes visible after pre-trip */}
+              {!status.checking && status.preTripDone && !allRoutesDone && (
                 <>
-                  {pmRoutes.length === 0 && !todayRoutesLoading && (
+                  {shiftRoutes.length === 0 && !todayRoutesLoading && (
                     <p className="text-sm text-slate-200">
-                      No PM routes assigned for today.
+                      {t("portal.noRoutes", { shift: shiftName })}
                     </p>
                   )}
-                  {pmRoutes.length > 0 && (
+                  {shiftRoutes.length > 0 && (
                     <div className="space-y-4">
-                      {pmRoutes.map((route) => (
+                      {shiftRoutes.map((route) => (
                         <RouteCard
                           key={route.id}
                           route={route}
@@ -1000,35 +955,35 @@ export default function DriverPage() {
                 </>
               )}
 
-              {/* Gate: PM post-trip needed */}
-              {!status.checking && status.preTripDone && allPmDone && !status.postTripDone && (
+              {/* Gate: post-trip needed */}
+              {!status.checking && status.preTripDone && allRoutesDone && !status.postTripDone && (
                 <div className="rounded-xl border border-amber-500/30 bg-amber-950/30 px-4 py-4 text-center space-y-3">
                   <p className="text-sm font-semibold text-amber-200">
-                    Submit your PM Post-Trip Inspection
+                    {t("portal.postTripNeededTitle", { shift: shiftName })}
                   </p>
                   <p className="text-xs text-amber-100/70">
-                    All PM routes are complete. Please submit your PM post-trip inspection.
+                    {t("portal.postTripNeededBody", { shift: shiftName })}
                   </p>
                   <Link
-                    href="/driver/post-trip?shift=PM"
+                    href={`/driver/post-trip?shift=${shift}`}
                     className="inline-block rounded-xl bg-slate-700 px-6 py-2.5 text-sm font-semibold text-slate-50 shadow-md ring-1 ring-slate-500/70 hover:bg-slate-600 active:scale-[0.97]"
                   >
-                    Start PM Post-Trip
+                    {t("portal.startPostTrip", { shift: shiftName })}
                   </Link>
                 </div>
               )}
 
-              {/* PM shift complete */}
+              {/* Shift complete */}
               {!status.checking && status.postTripDone && (
                 <div className="rounded-xl border border-emerald-500/30 bg-emerald-950/30 px-4 py-3 text-center">
                   <p className="text-sm font-semibold text-emerald-300">
-                    PM shift complete
+                    {t("portal.shiftComplete", { shift: shiftName })}
                   </p>
                 </div>
               )}
             </div>
           );
-        })()}
+        })}
       </section>
 
       {error && (
@@ -1052,17 +1007,13 @@ export default function DriverPage() {
           onClick={handleLogout}
           className="font-semibold text-slate-200 underline-offset-2 hover:underline"
         >
-          Sign out of app
+          {t("portal.signOut")}
         </button>
-        <p className="mt-1 leading-snug text-slate-500">
-          This only signs you out of the Transafe app. It does not clock you
-          out. Your work hours are tracked separately when you start and end
-          your shifts.
-        </p>
+        <p className="mt-1 leading-snug text-slate-500">{t("portal.signOutHint")}</p>
       </section>
       <footer className="mt-8 pt-4 border-t border-slate-800/60 text-center text-[11px] text-slate-500/70">
         <span className="font-mono tracking-wide uppercase">
-          Build {DRIVER_APP_VERSION}
+          {t("portal.build", { version: DRIVER_APP_VERSION })}
         </span>
       </footer>
     </div>
@@ -2,6 +2,9 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import SignaturePad from "../_components/SignaturePad";
+import { useDriverLanguage } from "../_components/DriverLanguage";
+import { isShift } from "@/lib/inspections/shifts";
 
 type TimeEntry = {
   id: string;
@@ -10,6 +13,7 @@ type TimeEntry = {
   start_time: string;
   end_time: string | null;
   duration_seconds: number | null;
+  shift: string | null;
 };
 
 type DriverSession = {
@@ -18,6 +22,12 @@ type DriverSession = {
   licenseNumber: string | null;
 };
 
+type TimecardSignature = {
+  signature_image: string;
+  signed_at: string;
+  total_seconds: number;
+};
+
 type DaySummary = {
   date: string; // YYYY-MM-DD
   entries: TimeEntry[];
@@ -81,7 +91,127 @@ function formatWeekRangeLabel(sunday: Date): string {
   return `${startStr} – ${endStr}`;
 }
 
+/**
+ * Weekly timecard sign-off. Keyed by week so the pad resets when the driver
+ * switches weeks.
+ */
+function TimecardSignOff({
+  driverId,
+  weekStart,
+  canSign,
+}: {
+  driverId: string;
+  weekStart: string;
+  canSign: boolean;
+}) {
+  const [signature, setSignature] = useState<TimecardSignature | null>(null);
+  const [entriesMatch, setEntriesMatch] = useState<boolean | null>(null);
+  const [image, setImage] = useState<string | null>(null);
+  const [signing, setSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const params = new URLSearchParams({ driverId, weekStart });
+        const res = await fetch(`/api/driver/timecard-signature?${params}`);
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load signature");
+        setSignature((json.signature as TimecardSignature | null) ?? null);
+        setEntriesMatch((json.entries_match_signature as boolean | null) ?? null);
+      } catch (err) {
+        console.error("Failed to load timecard signature", err);
+      }
+    };
+
+    void load();
+  }, [driverId, weekStart]);
+
+  const handleSign = async () => {
+    if (!image) return;
+    setSigning(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/driver/timecard-signature", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          driver_id: driverId,
+          week_start: weekStart,
+          signature_image: image,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to sign timecard");
+      setSignature(json.signature as TimecardSignature);
+      setEntriesMatch(true);
+      setImage(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign timecard.");
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const needsSignature = !signature || entriesMatch === false;
+
+  return (
+    <section className="card space-y-2">
+      <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+        Timecard signature
+      </h2>
+
+      {signature && (
+        <div className="space-y-1">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={signature.signature_image}
+            alt="Your timecard signature"
+            className="h-16 w-auto rounded bg-slate-100 px-2"
+          />
+          <p className="text-[11px] text-slate-400">
+            Signed {new Date(signature.signed_at).toLocaleString()} for{" "}
+            {formatDuration(signature.total_seconds)}
+          </p>
+          {entriesMatch === false && (
+            <p className="text-[11px] font-semibold text-amber-300">
+              Your hours changed after you signed. Please review and sign again.
+            </p>
+          )}
+        </div>
+      )}
+
+      {needsSignature &&
+        (canSign ? (
+          <>
+            <p className="text-[11px] text-slate-400">
+              Sign to certify that the hours above are correct for this week.
+            </p>
+            <SignaturePad onChange={setImage} disabled={signing} />
+            <button
+              type="button"
+              onClick={handleSign}
+              disabled={!image || signing}
+              className={`btn-primary w-full text-sm ${
+                !image || signing ? "cursor-not-allowed opacity-50" : ""
+              }`}
+            >
+              {signing ? "Signing..." : "Sign timecard"}
+            </button>
+          </>
+        ) : (
+          <p className="text-[11px] text-slate-400">
+            You can sign this week once it has hours and no open session.
+          </p>
+        ))}
+
+      {error && <p className="text-[11px] font-medium text-red-300">{error}</p>}
+    </section>
+  );
+}
+
 export default function DriverTimeLogPage() {
+  const { t } = useDriverLanguage();
   const router = useRouter();
 
   const [driver, setDriver] = useState<DriverSession | null>(null);
@@ -459,6 +589,14 @@ export default function DriverTimeLogPage() {
                     className="flex flex-col gap-1 rounded-lg border border-white/5 bg-slate-900/80 px-2 py-2 text-xs sm:flex-row sm:items-center sm:justify-between sm:gap-3"
                   >
                     <div className="flex gap-4">
+                      <div>
+                        <p className="text-[10px] uppercase tracking-[0.16em] text-slate-400">
+                          {t("inspection.shift")}
+                        </p>
+                        <p className="text-[13px] text-slate-50">
+                          {isShift(entry.shift) ? t(`shift.${entry.shift}`) : "—"}
+                        </p>
+                      </div>
                       <div>
                         <p className="text-[10px] uppercase tracking-[0.16em] text-slate-400">
                           Start
@@ -500,6 +638,15 @@ export default function DriverTimeLogPage() {
         ))}
       </section>
 
+      {!loadingEntries && !error && (
+        <TimecardSignOff
+          key={weekStartYMD}
+          driverId={driver.driverId}
+          weekStart={weekStartYMD}
+          canSign={entries.length > 0 && entries.every((e) => !!e.end_time)}
+        />
+      )}
+
       {/* Small hint footer */}
       <section className="card">
         <p className="text-[11px] text-slate-400">
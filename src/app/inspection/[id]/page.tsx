@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
+import { overallStatusLabel } from "@/lib/inspections/status";
 
 type InspectionRecord = {
   id: string;
@@ -14,10 +15,53 @@ type InspectionRecord = {
   submitted_at: string;
   overall_status: string | null;
   answers: Record<string, string> | null;
+  template_version: number | null;
   notes: string | null;
   signature_name: string;
+  signature_image: string | null;
+  signature_signed_at: string | null;
+  signature_device: string | null;
+  answers_hash: string | null;
   driver_license_number: string | null;
   odometer_reading: string | null;
+  carried_forward: CarriedForwardAck[] | null;
+};
+
+type CarriedForwardAck =
+  | {
+      kind: "defect";
+      defect_id: string;
+      item_label: string;
+      status: string;
+      action: "acknowledged" | "rechecked";
+      recheck_answer: string | null;
+    }
+  | { kind: "note"; inspection_id: string; notes: string; action: "acknowledged" };
+
+type Amendment = {
+  id: string;
+  amended_by: string;
+  reason: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  created_at: string;
+};
+
+type Review = {
+  id: string;
+  action_taken: string;
+  reviewed_by: string;
+  reviewed_at: string;
+};
+
+type ChecklistItem = {
+  item_key: string;
+  label: string;
+  category: string;
+};
+
+type InspectionPhoto = {
+  id: string;
+  item_key: string;
 };
 
 type Vehicle = {
@@ -30,6 +74,28 @@ type Vehicle = {
   vin: string | null;
 };
 
+// The record as it reads after its amendments, applied oldest first
+function applyAmendments(record: InspectionRecord, amendments: Amendment[]) {
+  const current: InspectionRecord = { ...record, answers: { ...(record.answers ?? {}) } };
+  for (const amendment of amendments) {
+    for (const [field, change] of Object.entries(amendment.changes)) {
+      const to = change.to == null ? null : String(change.to);
+      if (field.startsWith("answers.")) {
+        current.answers![field.slice("answers.".length)] = to ?? "";
+      } else if (field === "notes" || field === "odometer_reading" || field === "shift") {
+        current[field] = to;
+      }
+    }
+  }
+  return current;
+}
+
+function describeValue(field: string, value: unknown) {
+  if (value == null || value === "") return "(blank)";
+  if (field === "overall_status") return overallStatusLabel(String(value));
+  return String(value).toUpperCase();
+}
+
 function formatDateTime(iso: string) {
   const d = new Date(iso);
   if (Number.isNaN(d.getTime())) return iso;
@@ -53,6 +119,24 @@ export default function InspectionDetailPage() {
       return;
     }
 
+    if (from === "admin-integrity") {
+      // Admin came from the Integrity tab
+      router.push("/admin#integrity");
+      return;
+    }
+
+    if (from === "admin-defects") {
+      // Admin came from the Defects tab
+      router.push("/admin#defects");
+      return;
+    }
+
+    if (from === "admin-reviews") {
+      // Admin came from the Review Queue tab
+      router.push("/admin#reviews");
+      return;
+    }
+
     if (from === "driver-history") {
       // Driver came from the Inspection History page
       router.push("/driver/inspections");
@@ -73,6 +157,13 @@ export default function InspectionDetailPage() {
   
   const id = (params as { id?: string }).id; 
   const [record, setRecord] = useState<InspectionRecord | null>(null);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [photos, setPhotos] = useState<InspectionPhoto[]>([]);
+  const [photoBase, setPhotoBase] = useState("/api/admin");
+  const [answersMatch, setAnswersMatch] = useState<boolean | null>(null);
+  const [amendments, setAmendments] = useState<Amendment[]>([]);
+  const [review, setReview] = useState<Review | null>(null);
+  const [needsReview, setNeedsReview] = useState(false);
   const [vehicle, setVehicle] = useState<Vehicle | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -84,8 +175,12 @@ export default function InspectionDetailPage() {
       setLoading(true);
       setError(null);
       try {
+        // Drivers can only read their own records through the driver API
+        const from = new URLSearchParams(window.location.search).get("from");
+        const apiBase = from?.startsWith("driver") ? "/api/driver" : "/api/admin";
+
         // Get inspection record
-        const inspRes = await fetch(`/api/admin/inspections?id=${id}`);
+        const inspRes = await fetch(`${apiBase}/inspections?id=${id}`);
         if (!inspRes.ok) {
           const body = await inspRes.json();
           throw new Error(body.error || "Failed to load inspection");
@@ -93,16 +188,20 @@ export default function InspectionDetailPage() {
         const inspBody = await inspRes.json();
         const rec = inspBody.inspection as InspectionRecord;
         setRecord(rec);
+        setChecklist((inspBody.checklist as ChecklistItem[] | undefined) ?? []);
+        setPhotos((inspBody.photos as InspectionPhoto[] | undefined) ?? []);
+        setPhotoBase(apiBase);
+        setAmendments((inspBody.amendments as Amendment[] | undefined) ?? []);
+        setReview((inspBody.review as Review | null | undefined) ?? null);
+        setNeedsReview(Boolean(inspBody.needs_review));
+        setAnswersMatch((inspBody.answers_match_signature as boolean | null | undefined) ?? null);
 
         // Get vehicle details, if we have a vehicle_id
         if (rec.vehicle_id) {
-          const vehRes = await fetch("/api/admin/vehicles");
+          const vehRes = await fetch(`${apiBase}/vehicles?id=${rec.vehicle_id}`);
           if (vehRes.ok) {
             const vehBody = await vehRes.json();
-            const match = (vehBody.vehicles || []).find(
-              (v: Vehicle) => v.id === rec.vehicle_id,
-            );
-            if (match) setVehicle(match);
+            if (vehBody.vehicle) setVehicle(vehBody.vehicle as Vehicle);
           }
         }
       } catch (e: any) {
@@ -158,7 +257,23 @@ export default function InspectionDetailPage() {
     );
   }
 
-  const answers = record.answers ?? {};
+  // Corrections never change the original record; show it as amended
+  const current = applyAmendments(record, amendments);
+  const amendedFields = new Set(amendments.flatMap((a) => Object.keys(a.changes)));
+  const answers = current.answers ?? {};
+
+  // Answers are keyed by item_key; labels come from the checklist version the
+  // driver actually filled out. Anything not in that version is shown as-is.
+  const answerRows: { key: string; label: string; answer: string }[] = [
+    ...checklist.map((item) => ({
+      key: item.item_key,
+      label: item.label,
+      answer: answers[item.item_key] ?? "",
+    })),
+    ...Object.entries(answers)
+      .filter(([key]) => !checklist.some((item) => item.item_key === key))
+      .map(([key, answer]) => ({ key, label: key, answer })),
+  ];
   const submitted = formatDateTime(
     record.submitted_at || record.inspection_date,
   );
@@ -188,13 +303,21 @@ export default function InspectionDetailPage() {
         >
             ← Back
         </button>
-        <button
-            type="button"
-            onClick={() => window.print()}
-            className="btn-primary text-xs"
-        >
-            Print / Save as PDF
-        </button>
+        <div className="flex gap-2">
+          <button
+              type="button"
+              onClick={() => window.print()}
+              className="btn-ghost text-xs"
+          >
+              Print
+          </button>
+          <a
+              href={`${photoBase}/inspection-pdf?id=${record.id}`}
+              className="btn-primary text-xs"
+          >
+              Download PDF
+          </a>
+        </div>
         </section>
 
       {/* Printable inspection form */}
@@ -241,20 +364,25 @@ export default function InspectionDetailPage() {
             </p>
             <p>
               <span className="font-semibold">Odometer at inspection:</span>{" "}
-              {record.odometer_reading ?? "N/A"}
+              {current.odometer_reading ?? "N/A"}
+              {amendedFields.has("odometer_reading") && " (amended)"}
             </p>
             <p>
               <span className="font-semibold">Shift:</span>{" "}
-              {record.shift ?? "N/A"}
+              {current.shift ?? "N/A"}
+              {amendedFields.has("shift") && " (amended)"}
+            </p>
+            <p>
+              <span className="font-semibold">Checklist version:</span>{" "}
+              {record.template_version != null ? `v${record.template_version}` : "N/A"}
             </p>
             <p>
               <span className="font-semibold">Submitted at:</span> {submitted}
             </p>
             <p>
               <span className="font-semibold">Overall status:</span>{" "}
-              {record.overall_status
-                ? record.overall_status.toUpperCase()
-                : "N/A"}
+              {overallStatusLabel(current.overall_status)}
+              {amendedFields.has("overall_status") && " (amended)"}
             </p>
           </div>
         </div>
@@ -276,13 +404,37 @@ export default function InspectionDetailPage() {
               </tr>
             </thead>
             <tbody>
-              {Object.entries(answers).map(([question, answer]) => (
-                <tr key={question}>
+              {answerRows.map(({ key, label, answer }) => (
+                <tr key={key}>
                   <td className="border border-slate-400 px-2 py-1 align-top">
-                    {question}
+                    {label}
                   </td>
                   <td className="border border-slate-400 px-2 py-1 align-top font-semibold">
                     {(answer || "—").toUpperCase()}
+                    {amendedFields.has(`answers.${key}`) && (
+                      <span className="ml-1 font-normal text-slate-600">(amended)</span>
+                    )}
+                    {photos.some((p) => p.item_key === key) && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {photos
+                          .filter((p) => p.item_key === key)
+                          .map((p) => (
+                            <a
+                              key={p.id}
+                              href={`${photoBase}/inspection-photos?id=${p.id}`}
+                              target="_blank"
+                              rel="noreferrer"
+                            >
+                              {/* eslint-disable-next-line @next/next/no-img-element */}
+                              <img
+                                src={`${photoBase}/inspection-photos?id=${p.id}`}
+                                alt={`Photo of ${label}`}
+                                className="h-24 w-24 rounded border border-slate-400 object-cover"
+                              />
+                            </a>
+                          ))}
+                      </div>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -290,6 +442,31 @@ export default function InspectionDetailPage() {
           </table>
         </section>
 
+        {/* Defects and notes carried forward from earlier inspections */}
+        {record.carried_forward && record.carried_forward.length > 0 && (
+          <section className="mt-4 space-y-1">
+            <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-800">
+              Carried forward from earlier inspections
+            </h2>
+            <ul className="space-y-0.5 text-[11px]">
+              {record.carried_forward.map((ack) =>
+                ack.kind === "defect" ? (
+                  <li key={ack.defect_id}>
+                    <span className="font-semibold">{ack.item_label}</span> ({ack.status}) –{" "}
+                    {ack.action === "rechecked"
+                      ? `re-checked${ack.recheck_answer ? `: ${ack.recheck_answer.toUpperCase()}` : ""}`
+                      : "acknowledged"}
+                  </li>
+                ) : (
+                  <li key={ack.inspection_id}>
+                    Note &ldquo;{ack.notes}&rdquo; – acknowledged
+                  </li>
+                )
+              )}
+            </ul>
+          </section>
+        )}
+
         {/* Notes & signature */}
         <section className="mt-4 grid gap-4 text-xs text-slate-900 sm:grid-cols-2">
           <div>
@@ -297,8 +474,8 @@ export default function InspectionDetailPage() {
               Notes / defects
             </h3>
             <div className="min-h-[60px] rounded border border-slate-400 px-2 py-1">
-              {record.notes && record.notes.trim().length > 0
-                ? record.notes
+              {current.notes && current.notes.trim().length > 0
+                ? current.notes
                 : "None reported."}
             </div>
           </div>
@@ -311,18 +488,317 @@ export default function InspectionDetailPage() {
               known defects accurately.
             </p>
             <div className="space-y-3">
+              {record.signature_image && (
+                /* eslint-disable-next-line @next/next/no-img-element */
+                <img
+                  src={record.signature_image}
+                  alt={`Signature of ${record.signature_name}`}
+                  className="h-20 w-auto max-w-full"
+                />
+              )}
               <div className="border-b border-slate-700 pb-1">
                 <span className="text-[11px] font-semibold">
-                  Signature (typed name): {record.signature_name}
+                  {record.signature_image ? "Printed name" : "Signature (typed name)"}:{" "}
+                  {record.signature_name}
                 </span>
               </div>
               <div className="text-[11px]">
                 Date / time submitted: {submitted}
               </div>
+              {record.signature_signed_at && (
+                <div className="space-y-0.5 text-[10px] text-slate-600">
+                  <p>Signed at (server time): {formatDateTime(record.signature_signed_at)}</p>
+                  {record.signature_device && <p>Device: {record.signature_device}</p>}
+                  {record.answers_hash && (
+                    <p className="break-all">
+                      Answers SHA-256: {record.answers_hash}{" "}
+                      {answersMatch === true && (
+                        <span className="font-semibold text-emerald-700">(matches record)</span>
+                      )}
+                      {answersMatch === false && (
+                        <span className="font-semibold text-red-700">
+                          (DOES NOT MATCH – answers changed after signing)
+                        </span>
+                      )}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </section>
+
+        {/* Amendment history */}
+        {amendments.length > 0 && (
+          <section className="mt-4 space-y-1">
+            <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-800">
+              Amendments
+            </h2>
+            <ol className="space-y-1 text-[11px]">
+              {amendments.map((amendment) => (
+                <li key={amendment.id} className="rounded border border-slate-300 px-2 py-1">
+                  <p>
+                    <span className="font-semibold">{formatDateTime(amendment.created_at)}</span>{" "}
+                    by {amendment.amended_by} – {amendment.reason}
+                  </p>
+                  <ul className="text-slate-700">
+                    {Object.entries(amendment.changes).map(([field, change]) => (
+                      <li key={field}>
+                        {fieldLabel(field, checklist)}: {describeValue(field, change.from)} →{" "}
+                        {describeValue(field, change.to)}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        {/* Supervisor review */}
+        {(review || needsReview) && (
+          <section className="mt-4 space-y-1">
+            <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-800">
+              Supervisor review
+            </h2>
+            {review ? (
+              <div className="rounded border border-slate-300 px-2 py-1 text-[11px]">
+                <p>
+                  Signed off by <span className="font-semibold">{review.reviewed_by}</span> on{" "}
+                  {formatDateTime(review.reviewed_at)}
+                </p>
+                <p className="text-slate-700">Action taken: {review.action_taken}</p>
+              </div>
+            ) : (
+              <p className="text-[11px] font-semibold text-amber-700">Awaiting supervisor review.</p>
+            )}
+          </section>
+        )}
       </section>
+
+      {photoBase === "/api/admin" && needsReview && !review && (
+        <ReviewSignOffPanel inspectionId={record.id} onSignedOff={setReview} />
+      )}
+
+      {photoBase === "/api/admin" && (
+        <AmendRecordPanel
+          record={current}
+          checklist={checklist}
+          onAmended={(amendment) => setAmendments((prev) => [...prev, amendment])}
+        />
+      )}
     </div>
   );
 }
+
+const RECORD_FIELD_LABELS: Record<string, string> = {
+  notes: "Notes",
+  odometer_reading: "Odometer",
+  shift: "Shift",
+  overall_status: "Overall status",
+};
+
+function fieldLabel(field: string, checklist: ChecklistItem[]) {
+  if (field.startsWith("answers.")) {
+    const key = field.slice("answers.".length);
+    return checklist.find((item) => item.item_key === key)?.label ?? key;
+  }
+  return RECORD_FIELD_LABELS[field] ?? field;
+}
+
+/**
+ * Screen-only sign-off for a failed or noted inspection. The API rejects it
+ * for roles without write access.
+ */
+function ReviewSignOffPanel({
+  inspectionId,
+  onSignedOff,
+}: {
+  inspectionId: string;
+  onSignedOff: (review: Review) => void;
+}) {
+  const [actionTaken, setActionTaken] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!actionTaken.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/inspection-reviews", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ inspection_id: inspectionId, action_taken: actionTaken.trim() }),
+      });
+      const body = await res.json();
+      if (res.status === 409 && body.review) {
+        onSignedOff(body.review as Review);
+        return;
+      }
+      if (!res.ok) throw new Error(body.error || "Failed to sign off.");
+      onSignedOff(body.review as Review);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign off.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="card no-print mx-auto max-w-3xl space-y-2">
+      <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+        Supervisor sign-off
+      </h2>
+      <p className="text-[11px] text-slate-400">
+        Record what was done about this inspection. Your name and the time are
+        added, and a sign-off can&apos;t be changed afterwards.
+      </p>
+      <textarea
+        value={actionTaken}
+        onChange={(e) => setActionTaken(e.target.value)}
+        className="min-h-[60px] w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2"
+        placeholder="Action taken (required)"
+      />
+      {error && <p className="text-[11px] font-medium text-red-300">{error}</p>}
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={!actionTaken.trim() || saving}
+        className={`btn-primary text-xs ${
+          !actionTaken.trim() || saving ? "cursor-not-allowed opacity-50" : ""
+        }`}
+      >
+        {saving ? "Signing off..." : "Sign off"}
+      </button>
+    </section>
+  );
+}
+
+/**
+ * Screen-only form for admins to record a correction. The API rejects it for
+ * roles without write access.
+ */
+function AmendRecordPanel({
+  record,
+  checklist,
+  onAmended,
+}: {
+  record: InspectionRecord;
+  checklist: ChecklistItem[];
+  onAmended: (amendment: Amendment) => void;
+}) {
+  const [field, setField] = useState("");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAnswer = field.startsWith("answers.");
+
+  const handleSubmit = async () => {
+    if (!field || !reason.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const changes = isAnswer
+        ? { answers: { [field.slice("answers.".length)]: value } }
+        : { [field]: value };
+      const res = await fetch("/api/admin/inspection-amendments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ inspection_id: record.id, reason: reason.trim(), changes }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to save amendment.");
+      onAmended(body.amendment as Amendment);
+      setField("");
+      setValue("");
+      setReason("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save amendment.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full rounded-xl border border-white/15 bg-slate-900 px-3 py-2 text-xs text-slate-100 outline-none ring-emerald-500/60 focus:border-emerald-500 focus:ring-2";
+
+  return (
+    <section className="card no-print mx-auto max-w-3xl space-y-2">
+      <h2 className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-300">
+        Amend this record
+      </h2>
+      <p className="text-[11px] text-slate-400">
+        Submitted inspections can&apos;t be edited. A correction is added as an
+        amendment with your name, the time and the reason.
+      </p>
+      <div className="grid gap-2 sm:grid-cols-2">
+        <select
+          value={field}
+          onChange={(e) => {
+            const next = e.target.value;
+            setField(next);
+            if (next.startsWith("answers.")) {
+              setValue(record.answers?.[next.slice("answers.".length)] ?? "pass");
+            } else if (next === "notes" || next === "odometer_reading" || next === "shift") {
+              setValue(record[next] ?? "");
+            } else {
+              setValue("");
+            }
+          }}
+          className={inputClass}
+        >
+          <option value="">Field to correct…</option>
+          <option value="odometer_reading">Odometer</option>
+          <option value="shift">Shift</option>
+          <option value="notes">Notes</option>
+          {checklist.map((item) => (
+            <option key={item.item_key} value={`answers.${item.item_key}`}>
+              Checklist: {item.label}
+            </option>
+          ))}
+        </select>
+        {isAnswer ? (
+          <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClass}>
+            <option value="pass">Pass</option>
+            <option value="fail">Fail</option>
+            <option value="na">N/A</option>
+          </select>
+        ) : field === "shift" ? (
+          <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClass}>
+            <option value="AM">AM</option>
+            <option value="Midday">Midday</option>
+            <option value="PM">PM</option>
+          </select>
+        ) : (
+          <input
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={inputClass}
+            placeholder="Corrected value"
+            disabled={!field}
+          />
+        )}
+      </div>
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className={`${inputClass} min-h-[60px]`}
+        placeholder="Why is this being corrected? (required)"
+      />
+      {error && <p className="text-[11px] font-medium text-red-300">{error}</p>}
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={!field || !reason.trim() || saving}
+        className={`btn-primary text-xs ${
+          !field || !reason.trim() || saving ? "cursor-not-allowed opacity-50" : ""
+        }`}
+      >
+        {saving ? "Saving..." : "Record amendment"}
+      </button>
+    </section>
+  );
+}
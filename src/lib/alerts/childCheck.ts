@@ -0,0 +1,121 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { createDispatchAlert, escalateDispatchAlert, openDispatchAlertExists } from "@/lib/alerts/dispatch";
+
+// Server-only child-left-on-vehicle checks. Either signal raises a
+// high-priority dispatch alert that is also sent by SMS/email.
+
+// Post-trip checklist items that confirm no child is left on board
+export const CHILD_CHECK_ITEMS = ["seat_check", "no_children"];
+
+async function raiseChildAlert(
+  match: { inspection_id: string } | { route_id: string; work_date: string },
+  alert: {
+    message: string;
+    vehicle_id?: string | null;
+    driver_id?: string | null;
+  }
+) {
+  // The same route or inspection can be checked more than once; a new day or
+  // a new post-trip alerts again even if an earlier alert was resolved
+  if (await openDispatchAlertExists("child_left_on_vehicle", match)) return false;
+
+  const created = await createDispatchAlert({
+    kind: "child_left_on_vehicle",
+    priority: "high",
+    ...match,
+    ...alert,
+  });
+  await escalateDispatchAlert(created);
+  return true;
+}
+
+/**
+ * Alerts dispatch when a post-trip fails the seat check or "no children left"
+ * item. Returns whether an alert was raised.
+ */
+export async function checkPostTripChildItems(params: {
+  inspectionId: string;
+  answers: Record<string, string>;
+  items: { item_key: string; label: string }[];
+  driverId: string;
+  driverName: string;
+  vehicleId: string;
+  vehicleLabel: string;
+}) {
+  const failed = params.items.filter(
+    (item) => CHILD_CHECK_ITEMS.includes(item.item_key) && params.answers[item.item_key] === "fail"
+  );
+  if (failed.length === 0) return false;
+
+  return raiseChildAlert({ inspection_id: params.inspectionId }, {
+    message:
+      `POSSIBLE CHILD LEFT ON VEHICLE: ${params.driverName} failed "${failed.map((i) => i.label).join('", "')}" ` +
+      `on the post-trip for ${params.vehicleLabel}. Contact the driver and check the vehicle now.`,
+    vehicle_id: params.vehicleId,
+    driver_id: params.driverId,
+  });
+}
+
+type AttendanceRow = {
+  student_id: string;
+  route_id: string;
+  status: string;
+  students: { full_name: string } | null;
+  routes: { name: string } | null;
+};
+
+/**
+ * Alerts dispatch for each of the driver's routes on `workDate` where a
+ * student was marked picked up but never dropped off. Pass `routeId` to check
+ * a single route. Returns the number of alerts raised.
+ */
+export async function checkUnmatchedPickups(params: {
+  driverId: string;
+  driverName: string;
+  workDate: string;
+  routeId?: string | null;
+  vehicleId?: string | null;
+  vehicleLabel?: string | null;
+}) {
+  let query = supabaseAdmin
+    .from("attendance_records")
+    .select("student_id, route_id, status, students(full_name), routes(name)")
+    .eq("driver_id", params.driverId)
+    .eq("record_date", params.workDate)
+    .in("status", ["picked_up", "dropped_off"]);
+  if (params.routeId) query = query.eq("route_id", params.routeId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = (data ?? []) as unknown as AttendanceRow[];
+  const droppedOff = new Set(
+    rows.filter((r) => r.status === "dropped_off").map((r) => `${r.route_id}:${r.student_id}`)
+  );
+
+  const byRoute = new Map<string, { routeName: string; students: string[] }>();
+  for (const row of rows) {
+    if (row.status !== "picked_up" || droppedOff.has(`${row.route_id}:${row.student_id}`)) continue;
+    const group = byRoute.get(row.route_id) ?? {
+      routeName: row.routes?.name ?? "Unknown route",
+      students: [],
+    };
+    group.students.push(row.students?.full_name ?? "Unknown student");
+    byRoute.set(row.route_id, group);
+  }
+
+  let raised = 0;
+  for (const [routeId, group] of byRoute) {
+    const onVehicle = params.vehicleLabel ? ` (${params.vehicleLabel})` : "";
+    const created = await raiseChildAlert({ route_id: routeId, work_date: params.workDate }, {
+      message:
+        `POSSIBLE CHILD LEFT ON VEHICLE: ${group.students.sort().join(", ")} picked up on ` +
+        `${group.routeName} on ${params.workDate} but never dropped off. Driver: ${params.driverName}${onVehicle}. ` +
+        "Contact the driver and check the vehicle now.",
+      vehicle_id: params.vehicleId ?? null,
+      driver_id: params.driverId,
+    });
+    if (created) raised++;
+  }
+  return raised;
+}
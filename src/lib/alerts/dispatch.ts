@@ -0,0 +1,185 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { dispatchRecipients, getNotifier } from "@/lib/notifications";
+
+// Server-only in-app alerts for dispatch, shown on the admin dashboard until
+// someone resolves them. High-priority alerts are also sent by SMS/email.
+
+export type DispatchAlertKind = "vehicle_out_of_service" | "missing_inspections" | "child_left_on_vehicle";
+
+export type DispatchAlertPriority = "normal" | "high";
+
+export type DispatchAlertNotification = {
+  channel: "sms" | "email";
+  recipient: string;
+  status: "sent" | "failed";
+  error: string | null;
+  created_at: string;
+};
+
+export type DispatchAlert = {
+  id: string;
+  kind: DispatchAlertKind;
+  priority: DispatchAlertPriority;
+  message: string;
+  vehicle_id: string | null;
+  driver_id: string | null;
+  inspection_id: string | null;
+  route_id: string | null;
+  work_date: string | null;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+};
+
+export async function createDispatchAlert(alert: {
+  kind: DispatchAlertKind;
+  priority?: DispatchAlertPriority;
+  message: string;
+  vehicle_id?: string | null;
+  driver_id?: string | null;
+  inspection_id?: string | null;
+  route_id?: string | null;
+  work_date?: string | null;
+}): Promise<DispatchAlert> {
+  const { data, error } = await supabaseAdmin
+    .from("dispatch_alerts")
+    .insert({
+      kind: alert.kind,
+      priority: alert.priority ?? "normal",
+      message: alert.message,
+      vehicle_id: alert.vehicle_id ?? null,
+      driver_id: alert.driver_id ?? null,
+      inspection_id: alert.inspection_id ?? null,
+      route_id: alert.route_id ?? null,
+      work_date: alert.work_date ?? null,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as DispatchAlert;
+}
+
+/**
+ * Sends a high-priority alert to every dispatch recipient and logs each
+ * attempt against the alert. Delivery failures are logged, never thrown: the
+ * in-app alert has already been raised.
+ */
+export async function escalateDispatchAlert(alert: DispatchAlert) {
+  const notifier = getNotifier();
+  for (const recipient of dispatchRecipients()) {
+    let failure: string | null = null;
+    try {
+      await notifier.send({
+        channel: recipient.channel,
+        to: recipient.to,
+        subject: "URGENT – Transafe dispatch alert",
+        body: alert.message,
+      });
+    } catch (err) {
+      failure = err instanceof Error ? err.message : String(err);
+      console.error(`Failed to send ${recipient.channel} alert to ${recipient.to}:`, err);
+    }
+
+    const { error } = await supabaseAdmin.from("dispatch_alert_notifications").insert({
+      alert_id: alert.id,
+      channel: recipient.channel,
+      recipient: recipient.to,
+      status: failure ? "failed" : "sent",
+      error: failure,
+    });
+    if (error) console.error("Failed to log dispatch notification:", error);
+  }
+}
+
+/**
+ * Whether an identical alert was already raised, so scheduled jobs that run
+ * again don't repeat themselves. Only suits messages that name their date.
+ */
+export async function dispatchAlertExists(kind: DispatchAlertKind, message: string) {
+  const { data, error } = await supabaseAdmin
+    .from("dispatch_alerts")
+    .select("id")
+    .eq("kind", kind)
+    .eq("message", message)
+    .limit(1);
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Whether an unresolved alert of `kind` is already open for the same
+ * inspection, or the same route and work date.
+ */
+export async function openDispatchAlertExists(
+  kind: DispatchAlertKind,
+  match: { inspection_id: string } | { route_id: string; work_date: string }
+) {
+  let query = supabaseAdmin
+    .from("dispatch_alerts")
+    .select("id")
+    .eq("kind", kind)
+    .is("resolved_at", null);
+  query = "inspection_id" in match
+    ? query.eq("inspection_id", match.inspection_id)
+    : query.eq("route_id", match.route_id).eq("work_date", match.work_date);
+
+  const { data, error } = await query.limit(1);
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+export async function getDispatchAlert(id: string): Promise<DispatchAlert | null> {
+  const { data, error } = await supabaseAdmin
+    .from("dispatch_alerts")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as DispatchAlert | null) ?? null;
+}
+
+/**
+ * Open alerts, high priority first and then newest first, with the SMS/email
+ * messages sent for each.
+ */
+export async function listOpenDispatchAlerts(): Promise<
+  (DispatchAlert & { dispatch_alert_notifications: DispatchAlertNotification[] })[]
+> {
+  const { data, error } = await supabaseAdmin
+    .from("dispatch_alerts")
+    .select("*, dispatch_alert_notifications(channel, recipient, status, error, created_at)")
+    .is("resolved_at", null)
+    // "high" sorts before "normal"
+    .order("priority", { ascending: true })
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as (DispatchAlert & { dispatch_alert_notifications: DispatchAlertNotification[] })[];
+}
+
+/**
+ * Resolves open alerts matching `match` (a single alert id, or every alert of
+ * a kind for a vehicle). Returns the number of alerts resolved.
+ */
+export async function resolveDispatchAlerts(
+  match: { id: string } | { kind: DispatchAlertKind; vehicle_id: string },
+  resolvedBy: string,
+  note?: string | null
+): Promise<number> {
+  let query = supabaseAdmin
+    .from("dispatch_alerts")
+    .update({
+      resolved_at: new Date().toISOString(),
+      resolved_by: resolvedBy,
+      resolution_note: note?.trim() || null,
+    })
+    .is("resolved_at", null);
+
+  query = "id" in match
+    ? query.eq("id", match.id)
+    : query.eq("kind", match.kind).eq("vehicle_id", match.vehicle_id);
+
+  const { data, error } = await query.select("id");
+  if (error) throw error;
+  return data?.length ?? 0;
+}
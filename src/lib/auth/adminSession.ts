@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { signToken, verifyToken } from "./signedToken";
+
+// Server-only admin session and role helpers. /api/auth/admin-login issues the
+// cookie; every /api/admin/* handler calls requireAdmin() with the permission
+// it needs before touching the database.
+
+export const ADMIN_SESSION_COOKIE = "transafe_admin_session";
+
+const ADMIN_SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+// Used only until the first named admin account exists (see admin-login)
+export const BOOTSTRAP_ADMIN_ID = "bootstrap";
+
+export const ADMIN_ROLES = ["owner", "dispatcher", "payroll", "read_only"] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export type AdminPermission =
+  | "operations:read"
+  | "operations:write"
+  | "timecards:read"
+  | "admins:manage";
+
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  owner: ["operations:read", "operations:write", "timecards:read", "admins:manage"],
+  dispatcher: ["operations:read", "operations:write", "timecards:read"],
+  payroll: ["operations:read", "timecards:read"],
+  read_only: ["operations:read"],
+};
+
+export type AdminSession = {
+  adminId: string;
+  email: string | null;
+  fullName: string;
+  role: AdminRole;
+  permissions: AdminPermission[];
+};
+
+export const adminSessionCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: ADMIN_SESSION_TTL_SECONDS,
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && ADMIN_ROLES.includes(value as AdminRole);
+}
+
+export function permissionsForRole(role: AdminRole): AdminPermission[] {
+  return ROLE_PERMISSIONS[role];
+}
+
+export function createAdminSessionToken(adminId: string): string {
+  return signToken({ adminId }, ADMIN_SESSION_TTL_SECONDS);
+}
+
+async function countAdminUsers(): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from("admin_users")
+    .select("id", { count: "exact", head: true });
+  if (error) throw error;
+  return count ?? 0;
+}
+
+export async function hasAnyAdminUsers(): Promise<boolean> {
+  return (await countAdminUsers()) > 0;
+}
+
+/**
+ * Loads the admin behind the session cookie. The account is re-read on every
+ * request so role changes and deactivations take effect immediately.
+ */
+export async function getAdminSession(req: NextRequest): Promise<AdminSession | null> {
+  const payload = verifyToken<{ adminId: string }>(
+    req.cookies.get(ADMIN_SESSION_COOKIE)?.value
+  );
+  if (!payload?.adminId) return null;
+
+  if (payload.adminId === BOOTSTRAP_ADMIN_ID) {
+    if (await hasAnyAdminUsers()) return null;
+    return {
+      adminId: BOOTSTRAP_ADMIN_ID,
+      email: null,
+      fullName: "Initial setup",
+      role: "owner",
+      permissions: permissionsForRole("owner"),
+    };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("admin_users")
+    .select("id, email, full_name, role, is_active")
+    .eq("id", payload.adminId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || !data.is_active || !isAdminRole(data.role)) return null;
+
+  return {
+    adminId: data.id,
+    email: data.email,
+    fullName: data.full_name,
+    role: data.role,
+    permissions: permissionsForRole(data.role),
+  };
+}
+
+/**
+ * Guards an /api/admin/* handler. Returns the admin session, a 401 response
+ * when nobody is signed in, or a 403 when the admin's role lacks `permission`.
+ */
+export async function requireAdmin(
+  req: NextRequest,
+  permission: AdminPermission
+): Promise<AdminSession | NextResponse> {
+  const session = await getAdminSession(req);
+  if (!session) {
+    return NextResponse.json(
+      { error: "Your admin session has expired. Please sign in again." },
+      { status: 401 }
+    );
+  }
+
+  if (!session.permissions.includes(permission)) {
+    return NextResponse.json(
+      { error: "Your admin role does not allow this action." },
+      { status: 403 }
+    );
+  }
+
+  return session;
+}
@@ -0,0 +1,152 @@
+import { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { hashSecret, verifySecret } from "./password";
+
+// Server-only driver PIN storage and brute-force protection. PINs are kept as
+// scrypt hashes in drivers.pin_hash; the legacy plain-text drivers.pin column
+// is only read to upgrade a driver the first time they sign in.
+
+// Failed PINs allowed on one driver before the account is locked
+export const MAX_DRIVER_PIN_ATTEMPTS = 5;
+export const DRIVER_LOCKOUT_MINUTES = 15;
+
+// Failed sign-ins allowed from one IP (any driver name) per window
+export const MAX_IP_ATTEMPTS = 20;
+export const IP_WINDOW_MINUTES = 15;
+
+const PIN_PATTERN = /^[0-9]{4,6}$/;
+
+export type DriverPinRow = {
+  id: string;
+  pin: string | null;
+  pin_hash: string | null;
+  pin_failed_attempts: number | null;
+  pin_locked_until: string | null;
+};
+
+export function isValidPin(pin: unknown): pin is string {
+  return typeof pin === "string" && PIN_PATTERN.test(pin.trim());
+}
+
+/**
+ * Columns to write when an admin sets or resets a PIN. Clears any legacy
+ * plain-text PIN and any lockout along with it.
+ */
+export async function pinUpdateFields(pin: string) {
+  return {
+    pin: null,
+    pin_hash: await hashSecret(pin.trim()),
+    pin_failed_attempts: 0,
+    pin_locked_until: null,
+  };
+}
+
+/**
+ * Strips PIN material from a driver row before it leaves the server.
+ */
+export function toPublicDriver(row: Record<string, unknown>) {
+  const publicRow: Record<string, unknown> = { ...row };
+  delete publicRow.pin;
+  delete publicRow.pin_hash;
+  return { ...publicRow, pin_set: Boolean(row.pin_hash || row.pin) };
+}
+
+export function getClientIp(req: NextRequest): string {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return req.headers.get("x-real-ip") ?? "unknown";
+}
+
+export function lockedUntil(driver: DriverPinRow): Date | null {
+  if (!driver.pin_locked_until) return null;
+  const until = new Date(driver.pin_locked_until);
+  return until.getTime() > Date.now() ? until : null;
+}
+
+/**
+ * Returns the minutes until this IP may try again, or 0 if it is not throttled.
+ */
+export async function ipThrottleMinutes(ip: string): Promise<number> {
+  const since = new Date(Date.now() - IP_WINDOW_MINUTES * 60 * 1000);
+  const { data, error } = await supabaseAdmin
+    .from("driver_login_attempts")
+    .select("attempted_at")
+    .eq("ip_address", ip)
+    .eq("success", false)
+    .gte("attempted_at", since.toISOString())
+    .order("attempted_at", { ascending: true });
+  if (error) throw error;
+
+  const failures = data ?? [];
+  if (failures.length < MAX_IP_ATTEMPTS) return 0;
+
+  // Throttled until the oldest failure in the window ages out
+  const oldest = new Date(failures[failures.length - MAX_IP_ATTEMPTS].attempted_at);
+  const retryAt = oldest.getTime() + IP_WINDOW_MINUTES * 60 * 1000;
+  return Math.max(1, Math.ceil((retryAt - Date.now()) / 60000));
+}
+
+export async function recordLoginAttempt(
+  ip: string,
+  driverId: string | null,
+  success: boolean
+): Promise<void> {
+  const { error } = await supabaseAdmin.from("driver_login_attempts").insert({
+    ip_address: ip,
+    driver_id: driverId,
+    success,
+  });
+  if (error) console.error("Failed to record driver login attempt:", error);
+}
+
+/**
+ * Checks `pin` against the driver's stored PIN, upgrading a legacy
+ * plain-text PIN to a hash on the first successful match.
+ */
+export async function verifyDriverPin(driver: DriverPinRow, pin: string): Promise<boolean> {
+  if (driver.pin_hash) {
+    return verifySecret(pin.trim(), driver.pin_hash);
+  }
+
+  if (!driver.pin || driver.pin.trim() !== pin.trim()) return false;
+
+  const { error } = await supabaseAdmin
+    .from("drivers")
+    .update(await pinUpdateFields(pin))
+    .eq("id", driver.id);
+  if (error) console.error("Failed to upgrade legacy driver PIN:", error);
+  return true;
+}
+
+/**
+ * Counts a wrong PIN against the driver and locks the account once the limit
+ * is reached. The count only resets on a correct PIN or an admin unlock, so
+ * every further miss after a lockout expires locks the driver again.
+ * Returns the lock expiry when this attempt triggered a lockout.
+ */
+export async function registerFailedPin(driver: DriverPinRow): Promise<Date | null> {
+  const attempts = (driver.pin_failed_attempts ?? 0) + 1;
+  const lockout =
+    attempts >= MAX_DRIVER_PIN_ATTEMPTS
+      ? new Date(Date.now() + DRIVER_LOCKOUT_MINUTES * 60 * 1000)
+      : null;
+
+  const { error } = await supabaseAdmin
+    .from("drivers")
+    .update({
+      pin_failed_attempts: attempts,
+      pin_locked_until: lockout ? lockout.toISOString() : driver.pin_locked_until,
+    })
+    .eq("id", driver.id);
+  if (error) throw error;
+
+  return lockout;
+}
+
+export async function clearPinLockout(driverId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("drivers")
+    .update({ pin_failed_attempts: 0, pin_locked_until: null })
+    .eq("id", driverId);
+  if (error) throw error;
+}
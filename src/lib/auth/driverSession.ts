@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { signToken, verifyToken } from "./signedToken";
+import { driverError } from "@/lib/i18n/server";
+
+// Server-only driver session helpers. The session is issued by
+// /api/auth/driver-login as an httpOnly cookie and every /api/driver/* route
+// derives the acting driver from it instead of trusting request bodies.
+
+export const DRIVER_SESSION_COOKIE = "transafe_driver_session";
+
+// Long enough to cover a split AM/PM shift day on one login
+const DRIVER_SESSION_TTL_SECONDS = 14 * 60 * 60;
+
+export type DriverSession = {
+  driverId: string;
+  vehicleId: string | null;
+};
+
+export const driverSessionCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: DRIVER_SESSION_TTL_SECONDS,
+};
+
+export function createDriverSessionToken(session: DriverSession): string {
+  return signToken(session, DRIVER_SESSION_TTL_SECONDS);
+}
+
+export function getDriverSession(req: NextRequest): DriverSession | null {
+  const payload = verifyToken<DriverSession>(
+    req.cookies.get(DRIVER_SESSION_COOKIE)?.value
+  );
+  if (!payload?.driverId) return null;
+  return { driverId: payload.driverId, vehicleId: payload.vehicleId ?? null };
+}
+
+/**
+ * Resolves the signed-in driver for a /api/driver/* request.
+ *
+ * Returns a 401 response when there is no valid session, and a 403 when the
+ * request names a driver other than the one signed in, both worded in the
+ * driver's language.
+ */
+export function authorizeDriver(
+  req: NextRequest,
+  claimedDriverId?: string | null
+): DriverSession | NextResponse {
+  const session = getDriverSession(req);
+  if (!session) {
+    return driverError(req, "errors.sessionExpired", 401);
+  }
+
+  if (claimedDriverId && claimedDriverId !== session.driverId) {
+    return driverError(req, "errors.notYourRecord", 403);
+  }
+
+  return session;
+}
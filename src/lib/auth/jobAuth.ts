@@ -0,0 +1,23 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+// Server-only guard for scheduled jobs. The scheduler (Vercel Cron) sends
+// "Authorization: Bearer <CRON_SECRET>" with each run.
+
+/**
+ * Returns null when the request carries the job secret, otherwise the error
+ * response to send back.
+ */
+export function authorizeJob(req: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "CRON_SECRET is not configured." }, { status: 503 });
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.headers.get("authorization") ?? "");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,48 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+// Server-only salted hashing for admin passwords and driver PINs.
+// Stored format: scrypt$<N>$<r>$<p>$<salt b64>$<hash b64>
+
+const KEY_LENGTH = 64;
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+
+function deriveKey(secret: string, salt: Buffer, N: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(secret, salt, KEY_LENGTH, { N, r, p }, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+}
+
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(secret, salt, COST, BLOCK_SIZE, PARALLELIZATION);
+  return [
+    "scrypt",
+    COST,
+    BLOCK_SIZE,
+    PARALLELIZATION,
+    salt.toString("base64"),
+    key.toString("base64"),
+  ].join("$");
+}
+
+export async function verifySecret(secret: string, stored: string | null | undefined): Promise<boolean> {
+  if (!stored) return false;
+
+  const [scheme, N, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64");
+  const actual = await deriveKey(
+    secret,
+    Buffer.from(salt, "base64"),
+    Number(N),
+    Number(r),
+    Number(p)
+  );
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,57 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Server-only helpers for compact HMAC-signed tokens ("<payload>.<signature>")
+// Used for driver and admin session cookies. Payloads are readable by anyone
+// holding the token, so never put secrets in them.
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error(
+      "Missing or weak SESSION_SECRET. Set a random value of at least 32 characters."
+    );
+  }
+  return secret;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", getSessionSecret())
+    .update(encodedPayload)
+    .digest("base64url");
+}
+
+/**
+ * Signs `payload` and stamps it with an expiry `ttlSeconds` from now.
+ */
+export function signToken<T extends object>(payload: T, ttlSeconds: number): string {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const encodedPayload = Buffer.from(JSON.stringify({ ...payload, exp })).toString("base64url");
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Returns the payload of a token signed by `signToken`, or null if the token
+ * is malformed, has been tampered with, or has expired.
+ */
+export function verifyToken<T extends object>(token: string | undefined | null): (T & { exp: number }) | null {
+  if (!token) return null;
+
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) return null;
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+    if (typeof payload.exp !== "number" || payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,23 @@
+// Shared by the badge print page, the Driver Portal scanner, and driver-login.
+// A badge QR encodes "transafe-driver:<employee number>".
+
+const BADGE_PREFIX = "transafe-driver:";
+
+export function normalizeEmployeeNumber(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+export function badgePayload(employeeNumber: string): string {
+  return `${BADGE_PREFIX}${normalizeEmployeeNumber(employeeNumber)}`;
+}
+
+/**
+ * Returns the employee number encoded in a scanned badge, or null if the
+ * scanned code is not a Transafe driver badge.
+ */
+export function parseBadgePayload(raw: string): string | null {
+  const value = raw.trim();
+  if (!value.toLowerCase().startsWith(BADGE_PREFIX)) return null;
+  const employeeNumber = normalizeEmployeeNumber(value.slice(BADGE_PREFIX.length));
+  return employeeNumber || null;
+}
@@ -0,0 +1,179 @@
+import { randomUUID } from "node:crypto";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { DRIVER_DOCUMENTS_BUCKET, getBucket } from "@/lib/storage";
+import { EXPIRY_WARNING_DAYS, complianceToday } from "@/lib/vehicles/compliance";
+import type { DriverQualification, QualificationKind } from "@/lib/drivers/qualifications";
+
+// Server-only storage for driver qualifications and their scanned documents.
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+};
+
+export function isAllowedDocumentType(contentType: string) {
+  return contentType in DOCUMENT_EXTENSIONS;
+}
+
+export async function listDriverQualifications(driverId: string): Promise<DriverQualification[]> {
+  const { data, error } = await supabaseAdmin
+    .from("driver_qualifications")
+    .select("*")
+    .eq("driver_id", driverId);
+  if (error) throw error;
+  return (data ?? []) as DriverQualification[];
+}
+
+export async function listQualificationsForDrivers(driverIds: string[]) {
+  if (driverIds.length === 0) return [];
+  const { data, error } = await supabaseAdmin
+    .from("driver_qualifications")
+    .select("driver_id, kind, expires_on")
+    .in("driver_id", driverIds);
+  if (error) throw error;
+  return (data ?? []) as Pick<DriverQualification, "driver_id" | "kind" | "expires_on">[];
+}
+
+export async function getDriverQualification(id: string): Promise<DriverQualification | null> {
+  const { data, error } = await supabaseAdmin
+    .from("driver_qualifications")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as DriverQualification | null) ?? null;
+}
+
+/**
+ * Creates or renews a driver's qualification of `kind`. A new document
+ * replaces the stored one; without a file the existing document is kept.
+ */
+export async function saveDriverQualification(params: {
+  driverId: string;
+  kind: QualificationKind;
+  reference: string | null;
+  issuedOn: string | null;
+  expiresOn: string | null;
+  document: File | null;
+  updatedBy: string;
+}): Promise<DriverQualification> {
+  const { data: existing, error: existingErr } = await supabaseAdmin
+    .from("driver_qualifications")
+    .select("document_path")
+    .eq("driver_id", params.driverId)
+    .eq("kind", params.kind)
+    .maybeSingle();
+  if (existingErr) throw existingErr;
+
+  const fields: Record<string, unknown> = {
+    driver_id: params.driverId,
+    kind: params.kind,
+    reference: params.reference,
+    issued_on: params.issuedOn,
+    expires_on: params.expiresOn,
+    updated_by: params.updatedBy,
+    updated_at: new Date().toISOString(),
+  };
+
+  let newPath: string | null = null;
+  if (params.document) {
+    newPath = `${params.driverId}/${params.kind}-${randomUUID()}.${DOCUMENT_EXTENSIONS[params.document.type]}`;
+    const data = Buffer.from(await params.document.arrayBuffer());
+    await getBucket(DRIVER_DOCUMENTS_BUCKET).put(newPath, data, params.document.type);
+    fields.document_path = newPath;
+    fields.document_name = params.document.name || null;
+    fields.document_content_type = params.document.type;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("driver_qualifications")
+    .upsert(fields, { onConflict: "driver_id,kind" })
+    .select()
+    .single();
+  if (error) {
+    if (newPath) await getBucket(DRIVER_DOCUMENTS_BUCKET).remove(newPath);
+    throw error;
+  }
+
+  if (newPath && existing?.document_path) {
+    await getBucket(DRIVER_DOCUMENTS_BUCKET).remove(existing.document_path);
+  }
+  return data as DriverQualification;
+}
+
+export async function deleteDriverQualification(qualification: DriverQualification) {
+  const { error } = await supabaseAdmin
+    .from("driver_qualifications")
+    .delete()
+    .eq("id", qualification.id);
+  if (error) throw error;
+
+  if (qualification.document_path) {
+    await getBucket(DRIVER_DOCUMENTS_BUCKET).remove(qualification.document_path);
+  }
+}
+
+/**
+ * Streams the stored document back with its original file name.
+ */
+export async function documentResponse(qualification: DriverQualification) {
+  if (!qualification.document_path) return null;
+  const file = await getBucket(DRIVER_DOCUMENTS_BUCKET).get(qualification.document_path);
+  if (!file) return null;
+
+  const fileName = (qualification.document_name || qualification.document_path.split("/").pop() || "document")
+    .replace(/["\\\r\n]/g, "_");
+  return new Response(new Uint8Array(file.data), {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `inline; filename="${fileName}"`,
+      "Cache-Control": "private, max-age=3600",
+    },
+  });
+}
+
+export type ExpiringQualification = {
+  id: string;
+  driver_id: string;
+  driver_name: string;
+  kind: QualificationKind;
+  expires_on: string;
+};
+
+/**
+ * Qualifications of active drivers that have expired or expire within the
+ * warning window, soonest first.
+ */
+export async function listExpiringQualifications(): Promise<ExpiringQualification[]> {
+  const horizon = new Date(`${complianceToday()}T00:00:00Z`);
+  horizon.setUTCDate(horizon.getUTCDate() + EXPIRY_WARNING_DAYS);
+
+  const { data, error } = await supabaseAdmin
+    .from("driver_qualifications")
+    .select("id, driver_id, kind, expires_on, drivers!inner(full_name, is_active)")
+    .not("expires_on", "is", null)
+    .lte("expires_on", horizon.toISOString().slice(0, 10))
+    .eq("drivers.is_active", true)
+    .order("expires_on", { ascending: true });
+  if (error) throw error;
+
+  type Row = {
+    id: string;
+    driver_id: string;
+    kind: QualificationKind;
+    expires_on: string;
+    drivers: { full_name: string } | null;
+  };
+  return ((data ?? []) as unknown as Row[]).map((row) => ({
+    id: row.id,
+    driver_id: row.driver_id,
+    driver_name: row.drivers?.full_name ?? "Unknown driver",
+    kind: row.kind,
+    expires_on: row.expires_on,
+  }));
+}
@@ -0,0 +1,80 @@
+import { complianceToday, expiryStatus, type ComplianceStatus } from "@/lib/vehicles/compliance";
+
+// Driver qualification kinds and their expiry status
+
+export const QUALIFICATION_KINDS = [
+  { kind: "license", label: "Driver's license", required: true },
+  { kind: "seven_d_certificate", label: "7D school-pupil certificate", required: true },
+  { kind: "background_check", label: "CORI / background check", required: true },
+  { kind: "first_aid_cpr", label: "First aid / CPR", required: true },
+  { kind: "medical_card", label: "Medical card", required: false },
+] as const;
+
+export type QualificationKind = (typeof QUALIFICATION_KINDS)[number]["kind"];
+
+export type DriverQualification = {
+  id: string;
+  driver_id: string;
+  kind: QualificationKind;
+  reference: string | null;
+  issued_on: string | null;
+  expires_on: string | null;
+  document_path: string | null;
+  document_name: string | null;
+  document_content_type: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type QualificationEntry = {
+  kind: QualificationKind;
+  label: string;
+  required: boolean;
+  qualification: DriverQualification | null;
+  status: ComplianceStatus;
+  // Negative once expired; null when no expiry date is on file
+  days_left: number | null;
+};
+
+export function isQualificationKind(value: unknown): value is QualificationKind {
+  return QUALIFICATION_KINDS.some((k) => k.kind === value);
+}
+
+export function qualificationLabel(kind: string) {
+  return QUALIFICATION_KINDS.find((k) => k.kind === kind)?.label ?? kind;
+}
+
+/**
+ * One entry per qualification kind for a driver, whether or not it is on
+ * file.
+ */
+export function driverQualificationStatus(
+  qualifications: Pick<DriverQualification, "kind" | "expires_on">[],
+  today = complianceToday()
+): QualificationEntry[] {
+  return QUALIFICATION_KINDS.map(({ kind, label, required }) => {
+    const qualification =
+      (qualifications.find((q) => q.kind === kind) as DriverQualification | undefined) ?? null;
+    return {
+      kind,
+      label,
+      required,
+      qualification,
+      ...expiryStatus(qualification?.expires_on ?? null, today),
+    };
+  });
+}
+
+/**
+ * The required qualifications that have expired or were never entered, e.g.
+ * ["First aid / CPR expired", "Driver's license not on file"].
+ */
+export function lapsedRequiredQualifications(
+  qualifications: Pick<DriverQualification, "kind" | "expires_on">[],
+  today = complianceToday()
+): string[] {
+  return driverQualificationStatus(qualifications, today)
+    .filter((entry) => entry.required && (!entry.qualification || entry.status === "expired"))
+    .map((entry) => `${entry.label} ${entry.qualification ? "expired" : "not on file"}`);
+}
@@ -0,0 +1,109 @@
+import { en, type MessageKey } from "./messages/en";
+import { es } from "./messages/es";
+import { ht } from "./messages/ht";
+import { pt } from "./messages/pt";
+
+// Driver portal translations; admin screens stay in English
+
+export type { MessageKey };
+
+export const LOCALES = ["en", "es", "pt", "ht"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// English is the canonical text; these are the languages it is translated into
+export type TranslatedLocale = Exclude<Locale, "en">;
+
+export const TRANSLATED_LOCALES = LOCALES.filter(
+  (locale): locale is TranslatedLocale => locale !== "en"
+);
+
+// Each language named in itself, for the language picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  pt: "Português",
+  ht: "Kreyòl ayisyen",
+};
+
+// Used for dates and times. Browsers rarely ship Haitian Creole date data,
+// so it formats like Haitian French.
+export const INTL_LOCALES: Record<Locale, string> = {
+  en: "en-US",
+  es: "es-US",
+  pt: "pt-BR",
+  ht: "fr-HT",
+};
+
+// Readable by the browser so the portal can render before the session loads;
+// /api/auth/driver-login and /api/driver/language set it from the driver's
+// saved preference.
+export const DRIVER_LANGUAGE_COOKIE = "transafe_driver_lang";
+
+export const DRIVER_LANGUAGE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es, pt, ht };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * The message for `key` in `locale`, with `{name}` placeholders filled from
+ * `vars`.
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  vars?: Record<string, string | number>
+): string {
+  const message = CATALOGS[locale]?.[key] ?? en[key];
+  if (!vars) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in vars ? String(vars[name]) : match
+  );
+}
+
+// Per-language label and category for a checklist item, stored alongside the
+// English text. Answers stay keyed by item_key whatever the language.
+export type ItemTranslations = Partial<
+  Record<TranslatedLocale, { label?: string; category?: string }>
+>;
+
+/**
+ * The item's label and category in `locale`, falling back to English for
+ * anything not translated yet.
+ */
+export function itemText(
+  item: { label: string; category: string; translations?: ItemTranslations | null },
+  locale: Locale
+): { label: string; category: string } {
+  const translated = locale === "en" ? undefined : item.translations?.[locale];
+  return {
+    label: translated?.label?.trim() || item.label,
+    category: translated?.category?.trim() || item.category,
+  };
+}
+
+/**
+ * Keeps only well-formed translations for the supported languages, or
+ * returns null when the value is not an object.
+ */
+export function parseItemTranslations(value: unknown): ItemTranslations | null {
+  if (value == null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) return null;
+  const result: ItemTranslations = {};
+  for (const locale of TRANSLATED_LOCALES) {
+    const entry = (value as Record<string, unknown>)[locale];
+    if (!entry || typeof entry !== "object") continue;
+    const { label, category } = entry as Record<string, unknown>;
+    const text = {
+      ...(typeof label === "string" && label.trim() ? { label: label.trim() } : {}),
+      ...(typeof category === "string" && category.trim() ? { category: category.trim() } : {}),
+    };
+    if (text.label || text.category) result[locale] = text;
+  }
+  return result;
+}
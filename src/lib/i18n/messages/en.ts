@@ -0,0 +1,310 @@
+// English driver portal strings. Every other language must define the same
+// keys; {name} placeholders are filled in by translate().
+
+export const en = {
+  "language.label": "Language",
+  "language.saveFailed": "Could not save your language. It will reset next time you sign in.",
+
+  "common.backToPortal": "← Back to Driver Portal",
+  "common.loading": "Loading...",
+  "common.na": "N/A",
+
+  "shift.AM": "AM",
+  "shift.Midday": "Midday",
+  "shift.PM": "PM",
+
+  "login.title": "Driver Portal",
+  "login.intro":
+    "Enter your employee number (or scan your badge), PIN, and select your assigned vehicle to begin your daily inspection and time clock.",
+  "login.modeEmployee": "Employee # / badge",
+  "login.modeName": "Name",
+  "login.employeeNumber": "Employee number",
+  "login.employeeNumberPlaceholder": "e.g. 0042",
+  "login.scanBadge": "Scan badge",
+  "login.employeeNumberHint": "Printed on your Transafe badge under the QR code.",
+  "login.scanTitle": "Scan your badge",
+  "login.scanCancel": "Cancel",
+  "login.scanHint": "Hold the QR code on your badge inside the frame.",
+  "login.scanUnsupported":
+    "This device can't scan badges. Type the employee number printed on your badge instead.",
+  "login.scanCameraUnavailable":
+    "Couldn't open the camera. Allow camera access or type your employee number instead.",
+  "login.fullName": "Your full name",
+  "login.fullNamePlaceholder": "e.g. John Doe",
+  "login.fullNameHint":
+    'Must match how your name is entered by the admin (e.g. "Julio Duarte"). If another driver shares your name, use your employee number instead.',
+  "login.pin": "Driver PIN",
+  "login.pinPlaceholder": "4-6 digit PIN",
+  "login.pinHint": "This is your personal secret code. Do not share it with anyone.",
+  "login.vehicle": "Assigned vehicle",
+  "login.vehicleLocked": "Enter your PIN to unlock vehicles",
+  "login.vehiclesLoading": "Loading vehicles...",
+  "login.vehicleSelect": "Select a vehicle",
+  "login.vehicleOutOfService": "(out of service)",
+  "login.vehicleHint":
+    "You must enter your PIN before choosing a vehicle. If your vehicle is missing, ask your admin to add it in the Admin Portal.",
+  "login.checking": "Checking driver...",
+  "login.continue": "Continue to driver dashboard",
+  "login.missingEmployee": "Please enter your employee number, PIN, and select a vehicle.",
+  "login.missingName": "Please enter your name, PIN, and select a vehicle.",
+  "login.missingPin": "Please enter your PIN.",
+  "login.failed": "Login failed. Please try again.",
+  "login.lookupFailed": "Failed to look up driver. Please check your name spelling or contact admin.",
+
+  "portal.title": "Driver Portal",
+  "portal.license": "Lic #{number}",
+  "portal.bus": "Bus",
+  "portal.plate": "Plate",
+  "portal.vehicle": "Vehicle",
+  "portal.unknownVehicle": "Unknown vehicle",
+  "portal.vehicleOutOfService":
+    "This vehicle is OUT OF SERVICE. Do not drive it – dispatch will assign you a spare.",
+  "portal.routesHiddenOne":
+    "{count} of your routes is hidden because the assigned vehicle is out of service.",
+  "portal.routesHiddenMany":
+    "{count} of your routes are hidden because the assigned vehicle is out of service.",
+  "portal.todaysHours": "Today's hours",
+  "portal.navTimeLog": "Time Log",
+  "portal.navHistory": "Inspections History",
+  "portal.navHelp": "Help",
+  "portal.assignmentsToday": "Your route assignments for today.",
+  "portal.clockPaused": "Clock paused",
+  "portal.pmGapResume": "Next pickup at {pickup}. Clock resumes automatically at {resume}.",
+  "portal.completeAfterLastDropOff":
+    "Only mark the route as complete after the last student has been dropped off.",
+  "portal.submitPostTripToResume": "Submit your {shift} Post-Trip Inspection to resume the clock.",
+  "portal.startPreTrip": "Start {shift} Pre-Trip",
+  "portal.startPostTrip": "Start {shift} Post-Trip",
+  "portal.shiftHeading": "{shift} Shift",
+  "portal.checkingShift": "Checking {shift} status...",
+  "portal.preTripNeededTitle": "Complete your {shift} Pre-Trip Inspection",
+  "portal.preTripNeededBody": "Submit your {shift} pre-trip inspection to unlock your {shift} routes.",
+  "portal.noRoutes": "No {shift} routes assigned for today.",
+  "portal.postTripNeededTitle": "Submit your {shift} Post-Trip Inspection",
+  "portal.postTripNeededBody":
+    "All {shift} routes are complete. Please submit your {shift} post-trip inspection.",
+  "portal.shiftComplete": "{shift} shift complete",
+  "portal.shiftLockedTitle": "{shift} shift locked",
+  "portal.shiftLockedBody":
+    "Complete your {previous} pre-trip and post-trip inspections before starting your {shift} shift.",
+  "portal.sessionNotLoaded": "Your driver session is not fully loaded yet.",
+  "portal.confirmComplete":
+    "Are you sure you want to mark this route as COMPLETE for today? Once confirmed, it will disappear from today's list on this device.",
+  "portal.childCheckAlert":
+    "A student on this route was picked up but never marked dropped off. Dispatch has been alerted. Check every seat on the vehicle now and call dispatch.",
+  "portal.completeFailed": "Could not mark route as complete. Please try again or contact admin.",
+  "portal.routesLoadFailed": "Failed to load today's routes. Please contact admin.",
+  "portal.signOut": "Sign out of app",
+  "portal.signOutHint":
+    "This only signs you out of the Transafe app. It does not clock you out. Your work hours are tracked separately when you start and end your shifts.",
+  "portal.build": "Build {version}",
+
+  "route.AM": "Morning route",
+  "route.MIDDAY": "Midday route",
+  "route.PM": "Afternoon route",
+  "route.starts": "Starts:",
+  "route.ends": "Ends:",
+  "route.attendanceProgress": "Attendance: {confirmed}/{total} students confirmed",
+  "route.allConfirmed": "All confirmed",
+  "route.noStops":
+    "No stops have been added to this route yet. Contact the office if this looks wrong.",
+  "route.completing": "Marking route as complete...",
+  "route.confirmAllFirst": "Confirm all {total} students before completing",
+  "route.markComplete": "Mark this route as complete for today",
+  "route.studentsRemaining": "{count} student(s) still need attendance confirmation.",
+  "route.disappearsWhenComplete": "Once marked complete, this route will disappear from today's list.",
+
+  "stop.stop": "Stop",
+  "stop.pickUp": "Pick up",
+  "stop.dropOff": "Drop off",
+  "stop.student": "student",
+  "stop.planned": "Planned:",
+  "stop.addressNotSet": "Address not set",
+  "stop.school": "School:",
+  "stop.callGuardian": "Call guardian:",
+  "stop.callSchool": "Call school:",
+  "stop.attendance": "Attendance",
+
+  "attendance.picked_up": "Picked Up",
+  "attendance.dropped_off": "Dropped Off",
+  "attendance.absent": "Absent",
+  "attendance.no_show": "No Show",
+  "attendance.cancelled": "Cancelled",
+
+  "help.title": "Driver Help",
+  "help.intro":
+    "If you are having trouble with the Driver Portal, inspections, or time log, use the steps below or contact the office.",
+  "help.commonIssues": "Common issues",
+  "help.issueInternet": "Make sure you are connected to the internet.",
+  "help.issueName": "If your name does not appear, contact the office so an admin can add you as a driver.",
+  "help.issuePin": "If your PIN is not working, ask the office to reset your PIN.",
+  "help.issueVehicles":
+    "If the vehicle list is empty, confirm that your assigned vehicle is active in the system.",
+  "help.contact": "Contact Transafe",
+  "help.contactBody":
+    "Call the office or send a text/email to report any issues with the app or your inspections.",
+  "help.phone": "Phone: {phone}",
+  "help.email": "Email: {email}",
+  "help.languageHint": "Choose the language for the Driver Portal and your checklists.",
+
+  "inspection.pre": "Pre Trip",
+  "inspection.post": "Post Trip",
+  "inspection.preLower": "pre-trip",
+  "inspection.postLower": "post-trip",
+  "inspection.eyebrow": "{name} Inspection",
+  "inspection.heading": "{name} Inspection Checklist",
+  "inspection.loadingForm": "Loading your {type} inspection…",
+  "inspection.preReminder": "Complete this full checklist before you start driving to clock in for the day.",
+  "inspection.postReminder":
+    "Complete this full checklist after you finish your route to confirm the vehicle is empty and secured.",
+  "inspection.preCertification":
+    "By signing you certify that you have completed this pre-trip inspection truthfully on today's date.",
+  "inspection.postCertification":
+    "By signing you certify that you have completed this post-trip inspection truthfully on today's date and checked the vehicle for any remaining children or items.",
+  "inspection.preSuccess":
+    "Pre-trip inspection submitted successfully. Thank you for completing your daily check.",
+  "inspection.postSuccess": "Post-trip inspection submitted successfully. Your shift has been closed out.",
+  "inspection.childAlert":
+    "Dispatch has been alerted that a child may still be on the vehicle. Stay with the vehicle, check every seat again and call dispatch.",
+  "inspection.outOfService":
+    "A critical item failed, so this vehicle is now OUT OF SERVICE. Dispatch has been alerted to assign you a spare vehicle.",
+  "inspection.checklistVersion": "Checklist version {version}",
+  "inspection.driver": "Driver:",
+  "inspection.license": "License:",
+  "inspection.vehicleId": "Vehicle ID:",
+  "inspection.plate": "Plate:",
+  "inspection.yearMakeModel": "Year/Make/Model:",
+  "inspection.loadingVehicle": "Loading vehicle...",
+  "inspection.loadChecklistFailed": "Failed to load checklist.",
+  "inspection.loadDefectsFailed": "Failed to load open defects.",
+  "inspection.missingSession": "Missing driver or vehicle information. Please return to the Driver Portal.",
+  "inspection.submitFailed": "Failed to submit inspection. Please retry or contact admin.",
+  "inspection.draftRestored": "Picked up where you left off (saved at {time}). Sign again before submitting.",
+  "inspection.draftDiscard": "Start over",
+  "inspection.carriedTitle": "Carried forward for this vehicle",
+  "inspection.carriedIntro":
+    "These were reported on earlier inspections. Acknowledge each one, or re-check it and record what you find in the checklist below.",
+  "inspection.reportedOn": "Reported {date}",
+  "inspection.deferredUntil": " · deferred until {date}",
+  "inspection.defectNotes": "Notes: {notes}",
+  "inspection.acknowledge": "Acknowledge",
+  "inspection.acknowledged": "Acknowledged",
+  "inspection.rechecked": "Re-checked",
+  "inspection.recheckHint": "Mark “{item}” Pass or Fail below with what you found.",
+  "inspection.noteFrom": "Note from {type} on {date}",
+  "inspection.noteBy": " by {name}",
+  "inspection.odometer": "Odometer (required)",
+  "inspection.odometerPlaceholder": "Current odometer reading (e.g. 123456)",
+  "inspection.odometerFixHint":
+    "Fix the reading above, or explain why it is correct (e.g. odometer replaced) to submit anyway.",
+  "inspection.odometerReasonPlaceholder": "Reason this reading is correct",
+  "inspection.shift": "Shift",
+  "inspection.shiftFromRoute": " (set from route)",
+  "inspection.critical": "Critical",
+  "inspection.criticalFail": "Failing this item puts the vehicle out of service.",
+  "inspection.minorFail": "Minor defect – reported, but the vehicle can still run.",
+  "inspection.notApplicableRule": "Not applicable to this vehicle ({rule})",
+  "inspection.requiredRule": "Required for this vehicle ({rule})",
+  "inspection.notes": "Notes / defects (if anything failed)",
+  "inspection.notesPlaceholder": "Describe any failed items, defects, or other notes.",
+  "inspection.signature": "Signature",
+  "inspection.signaturePlaceholder": "Print your full name",
+  "inspection.result": "Result: {status}",
+  "inspection.submitting": "Submitting...",
+  "inspection.submit": "Submit {type} inspection",
+  "inspection.hintAnswers":
+    "Please select Pass, Fail, or N/A for every checklist item before submitting. Items required for this vehicle must be Pass or Fail.",
+  "inspection.hintCarried": "Acknowledge or re-check every item carried forward from earlier inspections.",
+  "inspection.hintOdometer": "Please enter the current odometer reading in miles (numbers only).",
+  "inspection.hintShift": "Please choose your shift (AM, Midday, or PM).",
+  "inspection.hintSignatureName": "Print your name under the signature to enable submission.",
+  "inspection.hintSignatureImage": "Sign in the signature box to enable submission.",
+
+  "answer.pass": "Pass",
+  "answer.fail": "Fail",
+  "answer.na": "N/A",
+  "answer.passShort": "P",
+  "answer.failShort": "F",
+  "answer.naShort": "N",
+
+  "status.pass": "Pass",
+  "status.pass_minor_defects": "Pass with minor defects",
+  "status.fail": "Fail",
+  "status.fail_out_of_service": "Fail – out of service",
+
+  "defect.open": "Open",
+  "defect.deferred": "Deferred",
+  "defect.in_repair": "In repair",
+  "defect.repaired": "Repaired – please verify",
+
+  "applicability.wheelchair": "Wheelchair-equipped",
+  "applicability.lift": "Lift installed",
+  "applicability.minYear": "{year} and newer",
+  "applicability.minSeats": "{seats}+ seats",
+
+  "photos.defectPhoto": "Defect photo",
+  "photos.remove": "Remove photo",
+  "photos.uploading": "Uploading photo...",
+  "photos.add": "📷 Add photo of defect",
+  "photos.uploadFailed": "Failed to upload photo.",
+  "photos.removeFailed": "Failed to remove photo.",
+
+  "signature.pad": "Signature pad",
+  "signature.signed": "Signed",
+  "signature.prompt": "Sign above with your finger or stylus",
+  "signature.clear": "Clear",
+
+  "errors.sessionExpired": "Your driver session has expired. Please sign in again.",
+  "errors.notYourRecord": "You can only act on your own driver record.",
+  "errors.notSignedIn": "Not signed in.",
+  "errors.unexpected": "An unexpected error occurred. Please try again.",
+  "errors.invalidLanguage": "Choose one of the supported languages.",
+  "errors.notABadge": "That QR code is not a Transafe driver badge.",
+  "errors.loginIdentityRequired": "Employee number (or name) and PIN are required.",
+  "errors.tooManyDeviceAttemptsOne":
+    "Too many sign-in attempts from this device. Please try again in {minutes} minute.",
+  "errors.tooManyDeviceAttemptsMany":
+    "Too many sign-in attempts from this device. Please try again in {minutes} minutes.",
+  "errors.noDriverWithNumber":
+    "No active driver found with that employee number. Please contact your admin.",
+  "errors.noDriverWithName":
+    "No active driver found with that name. Please contact your admin to register you.",
+  "errors.duplicateName":
+    "More than one driver has that name. Please sign in with your employee number or scan your badge.",
+  "errors.noPinSet": "This driver does not have a PIN set yet. Please contact your admin.",
+  "errors.pinLocked":
+    "Too many incorrect PINs. This driver is locked until {time}. Ask your admin to unlock it sooner.",
+  "errors.loginIncorrect": "Name, vehicle, or PIN is incorrect.",
+  "errors.loginVehicleOutOfService":
+    "That vehicle is out of service. Choose a spare vehicle or contact dispatch.",
+  "errors.invalidInspectionType": "Invalid inspection type.",
+  "errors.noChecklist": "No checklist has been published yet. Please contact your admin.",
+  "errors.inspectionNotFound": "Inspection not found.",
+  "errors.photoNotFound": "Photo not found.",
+  "errors.photoMissing": "Missing photo or checklist item.",
+  "errors.photoType": "Photos must be JPEG, PNG, WebP or HEIC images.",
+  "errors.photoTooLarge": "Photo is too large (8 MB max).",
+  "errors.photoSubmitted": "This photo is part of a submitted inspection and can't be removed.",
+  "errors.signBeforeSubmit": "Sign the inspection and print your name before submitting.",
+  "errors.invalidShift": "Choose your shift (AM, Midday or PM) before submitting.",
+  "errors.checklistVersionInvalid": "This checklist version is not valid. Please reload the page.",
+  "errors.vehicleNotFound": "Vehicle not found.",
+  "errors.vehicleOutOfService":
+    "This vehicle is out of service. Sign in again with a spare vehicle or contact dispatch.",
+  "errors.answerItem": 'Answer "{item}" before submitting.',
+  "errors.itemApplies": '"{item}" applies to this vehicle. Mark it Pass or Fail.',
+  "errors.odometerFormat": "Enter the odometer reading as a number of miles (e.g. 123456).",
+  "errors.odometerBackwards":
+    "The odometer can't go backwards: the last reading for this vehicle was {last} miles.",
+  "errors.odometerJump": "That is {difference} miles more than the last reading ({last}). Check the number.",
+  "errors.carriedDefectMissing": "Acknowledge or re-check {item} before submitting.",
+  "errors.carriedNoteMissing": 'Acknowledge or re-check the note "{note}" before submitting.',
+  "errors.timecardSignatureMissing": "Sign in the signature box first.",
+  "errors.timecardNoHours": "There are no hours to sign for this week.",
+  "errors.timecardOpenSession":
+    "Finish your open session (submit your post-trip) before signing this week.",
+  "errors.noOpenTimeEntry": "No open time entry found to pause",
+  "errors.timeEntryAlreadyOpen": "An open time entry already exists",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,321 @@
+import type { MessageKey } from "./en";
+
+// Spanish (Español) driver portal strings.
+
+export const es: Record<MessageKey, string> = {
+  "language.label": "Idioma",
+  "language.saveFailed": "No se pudo guardar su idioma. Volverá al anterior la próxima vez que inicie sesión.",
+
+  "common.backToPortal": "← Volver al Portal del Conductor",
+  "common.loading": "Cargando...",
+  "common.na": "N/A",
+
+  "shift.AM": "AM",
+  "shift.Midday": "Mediodía",
+  "shift.PM": "PM",
+
+  "login.title": "Portal del Conductor",
+  "login.intro":
+    "Ingrese su número de empleado (o escanee su credencial), su PIN y seleccione su vehículo asignado para comenzar su inspección diaria y su reloj de horas.",
+  "login.modeEmployee": "N.º de empleado / credencial",
+  "login.modeName": "Nombre",
+  "login.employeeNumber": "Número de empleado",
+  "login.employeeNumberPlaceholder": "p. ej. 0042",
+  "login.scanBadge": "Escanear credencial",
+  "login.employeeNumberHint": "Impreso en su credencial de Transafe debajo del código QR.",
+  "login.scanTitle": "Escanee su credencial",
+  "login.scanCancel": "Cancelar",
+  "login.scanHint": "Mantenga el código QR de su credencial dentro del recuadro.",
+  "login.scanUnsupported":
+    "Este dispositivo no puede escanear credenciales. Escriba el número de empleado impreso en su credencial.",
+  "login.scanCameraUnavailable":
+    "No se pudo abrir la cámara. Permita el acceso a la cámara o escriba su número de empleado.",
+  "login.fullName": "Su nombre completo",
+  "login.fullNamePlaceholder": "p. ej. Juan Pérez",
+  "login.fullNameHint":
+    'Debe coincidir con el nombre que ingresó el administrador (p. ej. "Julio Duarte"). Si otro conductor tiene el mismo nombre, use su número de empleado.',
+  "login.pin": "PIN del conductor",
+  "login.pinPlaceholder": "PIN de 4 a 6 dígitos",
+  "login.pinHint": "Este es su código secreto personal. No lo comparta con nadie.",
+  "login.vehicle": "Vehículo asignado",
+  "login.vehicleLocked": "Ingrese su PIN para ver los vehículos",
+  "login.vehiclesLoading": "Cargando vehículos...",
+  "login.vehicleSelect": "Seleccione un vehículo",
+  "login.vehicleOutOfService": "(fuera de servicio)",
+  "login.vehicleHint":
+    "Debe ingresar su PIN antes de elegir un vehículo. Si su vehículo no aparece, pida a su administrador que lo agregue en el Portal de Administración.",
+  "login.checking": "Verificando conductor...",
+  "login.continue": "Continuar al panel del conductor",
+  "login.missingEmployee": "Ingrese su número de empleado, su PIN y seleccione un vehículo.",
+  "login.missingName": "Ingrese su nombre, su PIN y seleccione un vehículo.",
+  "login.missingPin": "Ingrese su PIN.",
+  "login.failed": "No se pudo iniciar sesión. Inténtelo de nuevo.",
+  "login.lookupFailed":
+    "No se pudo encontrar al conductor. Revise cómo escribió su nombre o comuníquese con el administrador.",
+
+  "portal.title": "Portal del Conductor",
+  "portal.license": "Lic. n.º {number}",
+  "portal.bus": "Autobús",
+  "portal.plate": "Placa",
+  "portal.vehicle": "Vehículo",
+  "portal.unknownVehicle": "Vehículo desconocido",
+  "portal.vehicleOutOfService":
+    "Este vehículo está FUERA DE SERVICIO. No lo maneje: despacho le asignará uno de reemplazo.",
+  "portal.routesHiddenOne":
+    "{count} de sus rutas está oculta porque el vehículo asignado está fuera de servicio.",
+  "portal.routesHiddenMany":
+    "{count} de sus rutas están ocultas porque el vehículo asignado está fuera de servicio.",
+  "portal.todaysHours": "Horas de hoy",
+  "portal.navTimeLog": "Registro de horas",
+  "portal.navHistory": "Historial de inspecciones",
+  "portal.navHelp": "Ayuda",
+  "portal.assignmentsToday": "Sus rutas asignadas para hoy.",
+  "portal.clockPaused": "Reloj en pausa",
+  "portal.pmGapResume":
+    "Próxima recogida a las {pickup}. El reloj se reanuda automáticamente a las {resume}.",
+  "portal.completeAfterLastDropOff":
+    "Marque la ruta como completada solo después de dejar al último estudiante.",
+  "portal.submitPostTripToResume":
+    "Envíe su inspección posterior al viaje de {shift} para reanudar el reloj.",
+  "portal.startPreTrip": "Iniciar inspección previa de {shift}",
+  "portal.startPostTrip": "Iniciar inspección posterior de {shift}",
+  "portal.shiftHeading": "Turno {shift}",
+  "portal.checkingShift": "Verificando el turno {shift}...",
+  "portal.preTripNeededTitle": "Complete su inspección previa al viaje de {shift}",
+  "portal.preTripNeededBody":
+    "Envíe su inspección previa al viaje de {shift} para desbloquear sus rutas de {shift}.",
+  "portal.noRoutes": "No tiene rutas de {shift} asignadas para hoy.",
+  "portal.postTripNeededTitle": "Envíe su inspección posterior al viaje de {shift}",
+  "portal.postTripNeededBody":
+    "Todas las rutas de {shift} están completas. Envíe su inspección posterior al viaje de {shift}.",
+  "portal.shiftComplete": "Turno {shift} completado",
+  "portal.shiftLockedTitle": "Turno {shift} bloqueado",
+  "portal.shiftLockedBody":
+    "Complete sus inspecciones previa y posterior al viaje de {previous} antes de comenzar su turno {shift}.",
+  "portal.sessionNotLoaded": "Su sesión de conductor todavía no se ha cargado por completo.",
+  "portal.confirmComplete":
+    "¿Seguro que desea marcar esta ruta como COMPLETADA por hoy? Una vez confirmada, desaparecerá de la lista de hoy en este dispositivo.",
+  "portal.childCheckAlert":
+    "Un estudiante de esta ruta fue recogido pero nunca se marcó como dejado. Se alertó a despacho. Revise ahora cada asiento del vehículo y llame a despacho.",
+  "portal.completeFailed":
+    "No se pudo marcar la ruta como completada. Inténtelo de nuevo o comuníquese con el administrador.",
+  "portal.routesLoadFailed":
+    "No se pudieron cargar las rutas de hoy. Comuníquese con el administrador.",
+  "portal.signOut": "Cerrar sesión en la aplicación",
+  "portal.signOutHint":
+    "Esto solo cierra su sesión en la aplicación de Transafe. No registra su salida. Sus horas de trabajo se registran por separado cuando empieza y termina sus turnos.",
+  "portal.build": "Versión {version}",
+
+  "route.AM": "Ruta de la mañana",
+  "route.MIDDAY": "Ruta del mediodía",
+  "route.PM": "Ruta de la tarde",
+  "route.starts": "Inicia:",
+  "route.ends": "Termina:",
+  "route.attendanceProgress": "Asistencia: {confirmed}/{total} estudiantes confirmados",
+  "route.allConfirmed": "Todos confirmados",
+  "route.noStops":
+    "Todavía no se han agregado paradas a esta ruta. Comuníquese con la oficina si esto parece un error.",
+  "route.completing": "Marcando la ruta como completada...",
+  "route.confirmAllFirst": "Confirme a los {total} estudiantes antes de completar",
+  "route.markComplete": "Marcar esta ruta como completada por hoy",
+  "route.studentsRemaining": "A {count} estudiante(s) todavía les falta confirmar la asistencia.",
+  "route.disappearsWhenComplete":
+    "Una vez marcada como completada, esta ruta desaparecerá de la lista de hoy.",
+
+  "stop.stop": "Parada",
+  "stop.pickUp": "Recoger a",
+  "stop.dropOff": "Dejar a",
+  "stop.student": "estudiante",
+  "stop.planned": "Hora prevista:",
+  "stop.addressNotSet": "Dirección no registrada",
+  "stop.school": "Escuela:",
+  "stop.callGuardian": "Llamar al tutor:",
+  "stop.callSchool": "Llamar a la escuela:",
+  "stop.attendance": "Asistencia",
+
+  "attendance.picked_up": "Recogido",
+  "attendance.dropped_off": "Dejado",
+  "attendance.absent": "Ausente",
+  "attendance.no_show": "No se presentó",
+  "attendance.cancelled": "Cancelado",
+
+  "help.title": "Ayuda para conductores",
+  "help.intro":
+    "Si tiene problemas con el Portal del Conductor, las inspecciones o el registro de horas, siga los pasos a continuación o comuníquese con la oficina.",
+  "help.commonIssues": "Problemas comunes",
+  "help.issueInternet": "Asegúrese de estar conectado a internet.",
+  "help.issueName":
+    "Si su nombre no aparece, comuníquese con la oficina para que un administrador lo agregue como conductor.",
+  "help.issuePin": "Si su PIN no funciona, pida a la oficina que lo restablezca.",
+  "help.issueVehicles":
+    "Si la lista de vehículos está vacía, confirme que su vehículo asignado esté activo en el sistema.",
+  "help.contact": "Contactar a Transafe",
+  "help.contactBody":
+    "Llame a la oficina o envíe un mensaje de texto o correo electrónico para informar cualquier problema con la aplicación o sus inspecciones.",
+  "help.phone": "Teléfono: {phone}",
+  "help.email": "Correo electrónico: {email}",
+  "help.languageHint": "Elija el idioma del Portal del Conductor y de sus listas de inspección.",
+
+  "inspection.pre": "Previa al viaje",
+  "inspection.post": "Posterior al viaje",
+  "inspection.preLower": "previa al viaje",
+  "inspection.postLower": "posterior al viaje",
+  "inspection.eyebrow": "Inspección {name}",
+  "inspection.heading": "Lista de inspección {name}",
+  "inspection.loadingForm": "Cargando su inspección {type}…",
+  "inspection.preReminder":
+    "Complete toda esta lista antes de empezar a manejar para registrar su entrada del día.",
+  "inspection.postReminder":
+    "Complete toda esta lista después de terminar su ruta para confirmar que el vehículo está vacío y asegurado.",
+  "inspection.preCertification":
+    "Al firmar, usted certifica que completó esta inspección previa al viaje de forma veraz en la fecha de hoy.",
+  "inspection.postCertification":
+    "Al firmar, usted certifica que completó esta inspección posterior al viaje de forma veraz en la fecha de hoy y que revisó el vehículo para asegurarse de que no quedan niños ni objetos.",
+  "inspection.preSuccess":
+    "Inspección previa al viaje enviada correctamente. Gracias por completar su revisión diaria.",
+  "inspection.postSuccess": "Inspección posterior al viaje enviada correctamente. Su turno ha sido cerrado.",
+  "inspection.childAlert":
+    "Se alertó a despacho de que un niño podría seguir en el vehículo. Quédese con el vehículo, revise de nuevo cada asiento y llame a despacho.",
+  "inspection.outOfService":
+    "Falló un punto crítico, por lo que este vehículo ahora está FUERA DE SERVICIO. Se alertó a despacho para que le asigne un vehículo de reemplazo.",
+  "inspection.checklistVersion": "Versión de la lista {version}",
+  "inspection.driver": "Conductor:",
+  "inspection.license": "Licencia:",
+  "inspection.vehicleId": "ID del vehículo:",
+  "inspection.plate": "Placa:",
+  "inspection.yearMakeModel": "Año/Marca/Modelo:",
+  "inspection.loadingVehicle": "Cargando vehículo...",
+  "inspection.loadChecklistFailed": "No se pudo cargar la lista de inspección.",
+  "inspection.loadDefectsFailed": "No se pudieron cargar los defectos pendientes.",
+  "inspection.missingSession":
+    "Falta información del conductor o del vehículo. Vuelva al Portal del Conductor.",
+  "inspection.submitFailed":
+    "No se pudo enviar la inspección. Inténtelo de nuevo o comuníquese con el administrador.",
+  "inspection.draftRestored": "Continúe donde lo dejó (guardado a las {time}). Vuelva a firmar antes de enviar.",
+  "inspection.draftDiscard": "Empezar de nuevo",
+  "inspection.carriedTitle": "Pendientes de este vehículo",
+  "inspection.carriedIntro":
+    "Esto se reportó en inspecciones anteriores. Confirme cada uno, o vuelva a revisarlo y anote lo que encuentre en la lista de abajo.",
+  "inspection.reportedOn": "Reportado el {date}",
+  "inspection.deferredUntil": " · aplazado hasta el {date}",
+  "inspection.defectNotes": "Notas: {notes}",
+  "inspection.acknowledge": "Confirmar",
+  "inspection.acknowledged": "Confirmado",
+  "inspection.rechecked": "Revisado de nuevo",
+  "inspection.recheckHint": "Marque “{item}” como Pasa o Falla abajo según lo que encontró.",
+  "inspection.noteFrom": "Nota de la inspección {type} del {date}",
+  "inspection.noteBy": " por {name}",
+  "inspection.odometer": "Odómetro (obligatorio)",
+  "inspection.odometerPlaceholder": "Lectura actual del odómetro (p. ej. 123456)",
+  "inspection.odometerFixHint":
+    "Corrija la lectura de arriba, o explique por qué es correcta (p. ej. se cambió el odómetro) para enviarla de todos modos.",
+  "inspection.odometerReasonPlaceholder": "Motivo por el que esta lectura es correcta",
+  "inspection.shift": "Turno",
+  "inspection.shiftFromRoute": " (según la ruta)",
+  "inspection.critical": "Crítico",
+  "inspection.criticalFail": "Si este punto falla, el vehículo queda fuera de servicio.",
+  "inspection.minorFail": "Defecto menor: se reporta, pero el vehículo puede seguir funcionando.",
+  "inspection.notApplicableRule": "No aplica a este vehículo ({rule})",
+  "inspection.requiredRule": "Obligatorio para este vehículo ({rule})",
+  "inspection.notes": "Notas / defectos (si algo falló)",
+  "inspection.notesPlaceholder": "Describa los puntos que fallaron, los defectos u otras notas.",
+  "inspection.signature": "Firma",
+  "inspection.signaturePlaceholder": "Escriba su nombre completo",
+  "inspection.result": "Resultado: {status}",
+  "inspection.submitting": "Enviando...",
+  "inspection.submit": "Enviar inspección {type}",
+  "inspection.hintAnswers":
+    "Seleccione Pasa, Falla o N/A para cada punto de la lista antes de enviar. Los puntos obligatorios para este vehículo deben ser Pasa o Falla.",
+  "inspection.hintCarried": "Confirme o vuelva a revisar cada punto pendiente de inspecciones anteriores.",
+  "inspection.hintOdometer": "Ingrese la lectura actual del odómetro en millas (solo números).",
+  "inspection.hintShift": "Elija su turno (AM, Mediodía o PM).",
+  "inspection.hintSignatureName": "Escriba su nombre debajo de la firma para poder enviar.",
+  "inspection.hintSignatureImage": "Firme en el recuadro de firma para poder enviar.",
+
+  "answer.pass": "Pasa",
+  "answer.fail": "Falla",
+  "answer.na": "N/A",
+  "answer.passShort": "P",
+  "answer.failShort": "F",
+  "answer.naShort": "N",
+
+  "status.pass": "Pasa",
+  "status.pass_minor_defects": "Pasa con defectos menores",
+  "status.fail": "Falla",
+  "status.fail_out_of_service": "Falla – fuera de servicio",
+
+  "defect.open": "Abierto",
+  "defect.deferred": "Aplazado",
+  "defect.in_repair": "En reparación",
+  "defect.repaired": "Reparado – verifíquelo",
+
+  "applicability.wheelchair": "Equipado para silla de ruedas",
+  "applicability.lift": "Con elevador",
+  "applicability.minYear": "{year} y más nuevos",
+  "applicability.minSeats": "{seats}+ asientos",
+
+  "photos.defectPhoto": "Foto del defecto",
+  "photos.remove": "Quitar foto",
+  "photos.uploading": "Subiendo foto...",
+  "photos.add": "📷 Agregar foto del defecto",
+  "photos.uploadFailed": "No se pudo subir la foto.",
+  "photos.removeFailed": "No se pudo quitar la foto.",
+
+  "signature.pad": "Recuadro de firma",
+  "signature.signed": "Firmado",
+  "signature.prompt": "Firme arriba con el dedo o un lápiz táctil",
+  "signature.clear": "Borrar",
+
+  "errors.sessionExpired": "Su sesión de conductor expiró. Inicie sesión de nuevo.",
+  "errors.notYourRecord": "Solo puede hacer cambios en su propio registro de conductor.",
+  "errors.notSignedIn": "No ha iniciado sesión.",
+  "errors.unexpected": "Ocurrió un error inesperado. Inténtelo de nuevo.",
+  "errors.invalidLanguage": "Elija uno de los idiomas disponibles.",
+  "errors.notABadge": "Ese código QR no es una credencial de conductor de Transafe.",
+  "errors.loginIdentityRequired": "Se requieren el número de empleado (o el nombre) y el PIN.",
+  "errors.tooManyDeviceAttemptsOne":
+    "Demasiados intentos de inicio de sesión desde este dispositivo. Inténtelo de nuevo en {minutes} minuto.",
+  "errors.tooManyDeviceAttemptsMany":
+    "Demasiados intentos de inicio de sesión desde este dispositivo. Inténtelo de nuevo en {minutes} minutos.",
+  "errors.noDriverWithNumber":
+    "No se encontró ningún conductor activo con ese número de empleado. Comuníquese con su administrador.",
+  "errors.noDriverWithName":
+    "No se encontró ningún conductor activo con ese nombre. Pida a su administrador que lo registre.",
+  "errors.duplicateName":
+    "Hay más de un conductor con ese nombre. Inicie sesión con su número de empleado o escanee su credencial.",
+  "errors.noPinSet": "Este conductor todavía no tiene un PIN. Comuníquese con su administrador.",
+  "errors.pinLocked":
+    "Demasiados PIN incorrectos. Este conductor está bloqueado hasta las {time}. Pida a su administrador que lo desbloquee antes.",
+  "errors.loginIncorrect": "El nombre, el vehículo o el PIN son incorrectos.",
+  "errors.loginVehicleOutOfService":
+    "Ese vehículo está fuera de servicio. Elija un vehículo de reemplazo o comuníquese con despacho.",
+  "errors.invalidInspectionType": "Tipo de inspección no válido.",
+  "errors.noChecklist": "Todavía no se ha publicado una lista de inspección. Comuníquese con su administrador.",
+  "errors.inspectionNotFound": "No se encontró la inspección.",
+  "errors.photoNotFound": "No se encontró la foto.",
+  "errors.photoMissing": "Falta la foto o el punto de la lista.",
+  "errors.photoType": "Las fotos deben ser imágenes JPEG, PNG, WebP o HEIC.",
+  "errors.photoTooLarge": "La foto es demasiado grande (máximo 8 MB).",
+  "errors.photoSubmitted": "Esta foto es parte de una inspección enviada y no se puede quitar.",
+  "errors.signBeforeSubmit": "Firme la inspección y escriba su nombre antes de enviar.",
+  "errors.invalidShift": "Elija su turno (AM, Mediodía o PM) antes de enviar.",
+  "errors.checklistVersionInvalid": "Esta versión de la lista no es válida. Vuelva a cargar la página.",
+  "errors.vehicleNotFound": "No se encontró el vehículo.",
+  "errors.vehicleOutOfService":
+    "Este vehículo está fuera de servicio. Inicie sesión de nuevo con un vehículo de reemplazo o comuníquese con despacho.",
+  "errors.answerItem": "Responda “{item}” antes de enviar.",
+  "errors.itemApplies": "“{item}” aplica a este vehículo. Márquelo como Pasa o Falla.",
+  "errors.odometerFormat": "Ingrese la lectura del odómetro como un número de millas (p. ej. 123456).",
+  "errors.odometerBackwards":
+    "El odómetro no puede retroceder: la última lectura de este vehículo fue de {last} millas.",
+  "errors.odometerJump":
+    "Son {difference} millas más que la última lectura ({last}). Revise el número.",
+  "errors.carriedDefectMissing": "Confirme o vuelva a revisar {item} antes de enviar.",
+  "errors.carriedNoteMissing": "Confirme o vuelva a revisar la nota “{note}” antes de enviar.",
+  "errors.timecardSignatureMissing": "Primero firme en el recuadro de firma.",
+  "errors.timecardNoHours": "No hay horas que firmar esta semana.",
+  "errors.timecardOpenSession":
+    "Termine su sesión abierta (envíe su inspección posterior al viaje) antes de firmar esta semana.",
+  "errors.noOpenTimeEntry": "No hay un registro de horas abierto para pausar",
+  "errors.timeEntryAlreadyOpen": "Ya existe un registro de horas abierto",
+};
@@ -0,0 +1,318 @@
+import type { MessageKey } from "./en";
+
+// Haitian Creole (Kreyòl ayisyen) driver portal strings.
+
+export const ht: Record<MessageKey, string> = {
+  "language.label": "Lang",
+  "language.saveFailed": "Nou pa t ka anrejistre lang ou. L ap retounen jan l te ye pwochen fwa ou konekte.",
+
+  "common.backToPortal": "← Retounen nan Pòtay Chofè a",
+  "common.loading": "Ap chaje...",
+  "common.na": "N/A",
+
+  "shift.AM": "AM",
+  "shift.Midday": "Midi",
+  "shift.PM": "PM",
+
+  "login.title": "Pòtay Chofè",
+  "login.intro":
+    "Antre nimewo anplwaye ou (oswa eskane badj ou), PIN ou, epi chwazi machin yo ba ou pou kòmanse enspeksyon chak jou ak revèy travay ou.",
+  "login.modeEmployee": "Nimewo anplwaye / badj",
+  "login.modeName": "Non",
+  "login.employeeNumber": "Nimewo anplwaye",
+  "login.employeeNumberPlaceholder": "egz. 0042",
+  "login.scanBadge": "Eskane badj",
+  "login.employeeNumberHint": "Li enprime sou badj Transafe ou, anba kòd QR la.",
+  "login.scanTitle": "Eskane badj ou",
+  "login.scanCancel": "Anile",
+  "login.scanHint": "Kenbe kòd QR ki sou badj ou a anndan kad la.",
+  "login.scanUnsupported":
+    "Aparèy sa a pa ka eskane badj. Tape nimewo anplwaye ki enprime sou badj ou a pito.",
+  "login.scanCameraUnavailable":
+    "Nou pa t ka louvri kamera a. Bay aksè kamera a oswa tape nimewo anplwaye ou pito.",
+  "login.fullName": "Non konplè ou",
+  "login.fullNamePlaceholder": "egz. Jan Batis",
+  "login.fullNameHint":
+    'Li dwe menm jan administratè a antre non ou (egz. "Julio Duarte"). Si yon lòt chofè gen menm non ak ou, sèvi ak nimewo anplwaye ou pito.',
+  "login.pin": "PIN chofè",
+  "login.pinPlaceholder": "PIN 4 a 6 chif",
+  "login.pinHint": "Sa se kòd sekrè pèsonèl ou. Pa bay pèsonn li.",
+  "login.vehicle": "Machin yo ba ou",
+  "login.vehicleLocked": "Antre PIN ou pou wè machin yo",
+  "login.vehiclesLoading": "Ap chaje machin yo...",
+  "login.vehicleSelect": "Chwazi yon machin",
+  "login.vehicleOutOfService": "(pa an sèvis)",
+  "login.vehicleHint":
+    "Ou dwe antre PIN ou anvan ou chwazi yon machin. Si machin ou pa parèt, mande administratè a ajoute l nan Pòtay Administratè a.",
+  "login.checking": "Ap verifye chofè a...",
+  "login.continue": "Kontinye nan tablo chofè a",
+  "login.missingEmployee": "Tanpri antre nimewo anplwaye ou, PIN ou, epi chwazi yon machin.",
+  "login.missingName": "Tanpri antre non ou, PIN ou, epi chwazi yon machin.",
+  "login.missingPin": "Tanpri antre PIN ou.",
+  "login.failed": "Koneksyon an echwe. Tanpri eseye ankò.",
+  "login.lookupFailed":
+    "Nou pa t ka jwenn chofè a. Tanpri verifye jan ou ekri non ou oswa kontakte administratè a.",
+
+  "portal.title": "Pòtay Chofè",
+  "portal.license": "Lisans #{number}",
+  "portal.bus": "Bis",
+  "portal.plate": "Plak",
+  "portal.vehicle": "Machin",
+  "portal.unknownVehicle": "Machin nou pa konnen",
+  "portal.vehicleOutOfService":
+    "Machin sa a PA AN SÈVIS. Pa kondui l – dispatch ap ba ou yon machin rechanj.",
+  "portal.routesHiddenOne":
+    "{count} nan wout ou yo kache paske machin yo te ba ou a pa an sèvis.",
+  "portal.routesHiddenMany":
+    "{count} nan wout ou yo kache paske machin yo te ba ou a pa an sèvis.",
+  "portal.todaysHours": "Lè travay jodi a",
+  "portal.navTimeLog": "Kaye lè travay",
+  "portal.navHistory": "Istwa enspeksyon",
+  "portal.navHelp": "Èd",
+  "portal.assignmentsToday": "Wout yo ba ou pou jodi a.",
+  "portal.clockPaused": "Revèy la an poz",
+  "portal.pmGapResume": "Pwochen pran elèv la a {pickup}. Revèy la ap rekòmanse poukont li a {resume}.",
+  "portal.completeAfterLastDropOff":
+    "Make wout la fini sèlman apre ou fin depoze dènye elèv la.",
+  "portal.submitPostTripToResume":
+    "Voye enspeksyon apre vwayaj {shift} ou a pou revèy la rekòmanse.",
+  "portal.startPreTrip": "Kòmanse enspeksyon anvan vwayaj {shift}",
+  "portal.startPostTrip": "Kòmanse enspeksyon apre vwayaj {shift}",
+  "portal.shiftHeading": "Peryòd {shift}",
+  "portal.checkingShift": "Ap verifye peryòd {shift} la...",
+  "portal.preTripNeededTitle": "Fè enspeksyon anvan vwayaj {shift} ou a",
+  "portal.preTripNeededBody":
+    "Voye enspeksyon anvan vwayaj {shift} ou a pou debloke wout {shift} ou yo.",
+  "portal.noRoutes": "Pa gen okenn wout {shift} pou ou jodi a.",
+  "portal.postTripNeededTitle": "Voye enspeksyon apre vwayaj {shift} ou a",
+  "portal.postTripNeededBody":
+    "Tout wout {shift} yo fini. Tanpri voye enspeksyon apre vwayaj {shift} ou a.",
+  "portal.shiftComplete": "Peryòd {shift} la fini",
+  "portal.shiftLockedTitle": "Peryòd {shift} la bloke",
+  "portal.shiftLockedBody":
+    "Fè enspeksyon anvan ak apre vwayaj {previous} ou yo anvan ou kòmanse peryòd {shift} ou a.",
+  "portal.sessionNotLoaded": "Sesyon chofè ou a poko fin chaje.",
+  "portal.confirmComplete":
+    "Èske ou sèten ou vle make wout sa a FINI pou jodi a? Lè ou konfime, li p ap parèt ankò nan lis jodi a sou aparèy sa a.",
+  "portal.childCheckAlert":
+    "Yo te pran yon elèv sou wout sa a men yo pa janm make li te depoze. Nou avèti dispatch. Tcheke chak syèj nan machin nan kounye a epi rele dispatch.",
+  "portal.completeFailed":
+    "Nou pa t ka make wout la fini. Tanpri eseye ankò oswa kontakte administratè a.",
+  "portal.routesLoadFailed": "Nou pa t ka chaje wout jodi a yo. Tanpri kontakte administratè a.",
+  "portal.signOut": "Dekonekte nan aplikasyon an",
+  "portal.signOutHint":
+    "Sa a dekonekte ou nan aplikasyon Transafe la sèlman. Li pa fèmen revèy travay ou. Lè travay ou yo anrejistre apa lè ou kòmanse ak lè ou fini peryòd ou yo.",
+  "portal.build": "Vèsyon {version}",
+
+  "route.AM": "Wout maten",
+  "route.MIDDAY": "Wout midi",
+  "route.PM": "Wout apremidi",
+  "route.starts": "Kòmanse:",
+  "route.ends": "Fini:",
+  "route.attendanceProgress": "Prezans: {confirmed}/{total} elèv konfime",
+  "route.allConfirmed": "Tout konfime",
+  "route.noStops":
+    "Poko gen okenn arè sou wout sa a. Kontakte biwo a si sa pa sanble kòrèk.",
+  "route.completing": "Ap make wout la fini...",
+  "route.confirmAllFirst": "Konfime tout {total} elèv yo anvan ou fini",
+  "route.markComplete": "Make wout sa a fini pou jodi a",
+  "route.studentsRemaining": "{count} elèv toujou bezwen konfimasyon prezans.",
+  "route.disappearsWhenComplete": "Lè ou make l fini, wout sa a p ap parèt ankò nan lis jodi a.",
+
+  "stop.stop": "Arè",
+  "stop.pickUp": "Pran",
+  "stop.dropOff": "Depoze",
+  "stop.student": "elèv",
+  "stop.planned": "Prevwa:",
+  "stop.addressNotSet": "Pa gen adrès",
+  "stop.school": "Lekòl:",
+  "stop.callGuardian": "Rele responsab la:",
+  "stop.callSchool": "Rele lekòl la:",
+  "stop.attendance": "Prezans",
+
+  "attendance.picked_up": "Pran",
+  "attendance.dropped_off": "Depoze",
+  "attendance.absent": "Absan",
+  "attendance.no_show": "Pa vini",
+  "attendance.cancelled": "Anile",
+
+  "help.title": "Èd pou chofè",
+  "help.intro":
+    "Si ou gen pwoblèm ak Pòtay Chofè a, enspeksyon yo oswa kaye lè travay la, swiv etap ki anba yo oswa kontakte biwo a.",
+  "help.commonIssues": "Pwoblèm kouran",
+  "help.issueInternet": "Asire ou konekte sou entènèt.",
+  "help.issueName":
+    "Si non ou pa parèt, kontakte biwo a pou yon administratè ka ajoute ou kòm chofè.",
+  "help.issuePin": "Si PIN ou pa mache, mande biwo a pou yo chanje PIN ou.",
+  "help.issueVehicles":
+    "Si lis machin yo vid, verifye si machin yo ba ou a aktif nan sistèm nan.",
+  "help.contact": "Kontakte Transafe",
+  "help.contactBody":
+    "Rele biwo a oswa voye yon tèks/imèl pou rapòte nenpòt pwoblèm ak aplikasyon an oswa enspeksyon ou yo.",
+  "help.phone": "Telefòn: {phone}",
+  "help.email": "Imèl: {email}",
+  "help.languageHint": "Chwazi lang pou Pòtay Chofè a ak lis enspeksyon ou yo.",
+
+  "inspection.pre": "Anvan vwayaj",
+  "inspection.post": "Apre vwayaj",
+  "inspection.preLower": "anvan vwayaj",
+  "inspection.postLower": "apre vwayaj",
+  "inspection.eyebrow": "Enspeksyon {name}",
+  "inspection.heading": "Lis enspeksyon {name}",
+  "inspection.loadingForm": "Ap chaje enspeksyon {type} ou a…",
+  "inspection.preReminder":
+    "Ranpli tout lis sa a anvan ou kòmanse kondui pou antre nan revèy travay la pou jounen an.",
+  "inspection.postReminder":
+    "Ranpli tout lis sa a apre ou fin fè wout ou pou konfime machin nan vid epi an sekirite.",
+  "inspection.preCertification":
+    "Lè ou siyen, ou sètifye ou fè enspeksyon anvan vwayaj sa a onètman jodi a.",
+  "inspection.postCertification":
+    "Lè ou siyen, ou sètifye ou fè enspeksyon apre vwayaj sa a onètman jodi a epi ou tcheke machin nan pou wè si pa gen okenn timoun oswa bagay ki rete ladan l.",
+  "inspection.preSuccess":
+    "Enspeksyon anvan vwayaj la voye byen. Mèsi paske ou fè tcheke chak jou ou a.",
+  "inspection.postSuccess": "Enspeksyon apre vwayaj la voye byen. Peryòd ou a fèmen.",
+  "inspection.childAlert":
+    "Nou avèti dispatch ke yon timoun ka toujou nan machin nan. Rete ak machin nan, tcheke chak syèj ankò epi rele dispatch.",
+  "inspection.outOfService":
+    "Yon atik kritik echwe, kidonk machin sa a PA AN SÈVIS kounye a. Nou avèti dispatch pou ba ou yon machin rechanj.",
+  "inspection.checklistVersion": "Vèsyon lis la {version}",
+  "inspection.driver": "Chofè:",
+  "inspection.license": "Lisans:",
+  "inspection.vehicleId": "ID machin:",
+  "inspection.plate": "Plak:",
+  "inspection.yearMakeModel": "Ane/Mak/Modèl:",
+  "inspection.loadingVehicle": "Ap chaje machin nan...",
+  "inspection.loadChecklistFailed": "Nou pa t ka chaje lis enspeksyon an.",
+  "inspection.loadDefectsFailed": "Nou pa t ka chaje defo ki toujou ouvè yo.",
+  "inspection.missingSession":
+    "Enfòmasyon chofè a oswa machin nan manke. Tanpri retounen nan Pòtay Chofè a.",
+  "inspection.submitFailed":
+    "Nou pa t ka voye enspeksyon an. Tanpri eseye ankò oswa kontakte administratè a.",
+  "inspection.draftRestored": "Ou kontinye kote ou te rive a (anrejistre a {time}). Siyen ankò anvan ou voye.",
+  "inspection.draftDiscard": "Rekòmanse",
+  "inspection.carriedTitle": "Sa ki rete pou machin sa a",
+  "inspection.carriedIntro":
+    "Yo te rapòte bagay sa yo nan enspeksyon anvan yo. Konfime chak youn, oswa tcheke l ankò epi ekri sa ou jwenn nan lis ki anba a.",
+  "inspection.reportedOn": "Rapòte {date}",
+  "inspection.deferredUntil": " · ranvwaye jiska {date}",
+  "inspection.defectNotes": "Nòt: {notes}",
+  "inspection.acknowledge": "Konfime",
+  "inspection.acknowledged": "Konfime",
+  "inspection.rechecked": "Tcheke ankò",
+  "inspection.recheckHint": "Make “{item}” Pase oswa Echwe anba a dapre sa ou jwenn.",
+  "inspection.noteFrom": "Nòt enspeksyon {type} {date}",
+  "inspection.noteBy": " pa {name}",
+  "inspection.odometer": "Odomèt (obligatwa)",
+  "inspection.odometerPlaceholder": "Kantite mil sou odomèt la kounye a (egz. 123456)",
+  "inspection.odometerFixHint":
+    "Korije chif ki anwo a, oswa eksplike poukisa li kòrèk (egz. yo te chanje odomèt la) pou voye l kanmenm.",
+  "inspection.odometerReasonPlaceholder": "Poukisa chif sa a kòrèk",
+  "inspection.shift": "Peryòd",
+  "inspection.shiftFromRoute": " (dapre wout la)",
+  "inspection.critical": "Kritik",
+  "inspection.criticalFail": "Si atik sa a echwe, machin nan pa an sèvis ankò.",
+  "inspection.minorFail": "Ti defo – n ap rapòte l, men machin nan ka toujou woule.",
+  "inspection.notApplicableRule": "Pa konsène machin sa a ({rule})",
+  "inspection.requiredRule": "Obligatwa pou machin sa a ({rule})",
+  "inspection.notes": "Nòt / defo (si yon bagay echwe)",
+  "inspection.notesPlaceholder": "Dekri atik ki echwe yo, defo yo oswa lòt nòt.",
+  "inspection.signature": "Siyati",
+  "inspection.signaturePlaceholder": "Ekri non konplè ou",
+  "inspection.result": "Rezilta: {status}",
+  "inspection.submitting": "Ap voye...",
+  "inspection.submit": "Voye enspeksyon {type}",
+  "inspection.hintAnswers":
+    "Tanpri chwazi Pase, Echwe oswa N/A pou chak atik nan lis la anvan ou voye l. Atik ki obligatwa pou machin sa a dwe Pase oswa Echwe.",
+  "inspection.hintCarried": "Konfime oswa tcheke ankò chak bagay ki soti nan enspeksyon anvan yo.",
+  "inspection.hintOdometer": "Tanpri antre kantite mil ki sou odomèt la kounye a (chif sèlman).",
+  "inspection.hintShift": "Tanpri chwazi peryòd ou (AM, Midi oswa PM).",
+  "inspection.hintSignatureName": "Ekri non ou anba siyati a pou ka voye l.",
+  "inspection.hintSignatureImage": "Siyen nan bwat siyati a pou ka voye l.",
+
+  "answer.pass": "Pase",
+  "answer.fail": "Echwe",
+  "answer.na": "N/A",
+  "answer.passShort": "P",
+  "answer.failShort": "E",
+  "answer.naShort": "N",
+
+  "status.pass": "Pase",
+  "status.pass_minor_defects": "Pase ak ti defo",
+  "status.fail": "Echwe",
+  "status.fail_out_of_service": "Echwe – pa an sèvis",
+
+  "defect.open": "Ouvè",
+  "defect.deferred": "Ranvwaye",
+  "defect.in_repair": "Nan reparasyon",
+  "defect.repaired": "Repare – tanpri verifye",
+
+  "applicability.wheelchair": "Ekipe pou chèz woulant",
+  "applicability.lift": "Gen asansè",
+  "applicability.minYear": "{year} oswa pi nouvo",
+  "applicability.minSeats": "{seats}+ syèj",
+
+  "photos.defectPhoto": "Foto defo a",
+  "photos.remove": "Retire foto a",
+  "photos.uploading": "Ap voye foto a...",
+  "photos.add": "📷 Ajoute yon foto defo a",
+  "photos.uploadFailed": "Nou pa t ka voye foto a.",
+  "photos.removeFailed": "Nou pa t ka retire foto a.",
+
+  "signature.pad": "Bwat siyati",
+  "signature.signed": "Siyen",
+  "signature.prompt": "Siyen anwo a ak dwèt ou oswa yon kreyon",
+  "signature.clear": "Efase",
+
+  "errors.sessionExpired": "Sesyon chofè ou a fini. Tanpri konekte ankò.",
+  "errors.notYourRecord": "Ou ka chanje pwòp dosye chofè ou sèlman.",
+  "errors.notSignedIn": "Ou pa konekte.",
+  "errors.unexpected": "Yon erè nou pa t prevwa rive. Tanpri eseye ankò.",
+  "errors.invalidLanguage": "Chwazi youn nan lang ki disponib yo.",
+  "errors.notABadge": "Kòd QR sa a se pa yon badj chofè Transafe.",
+  "errors.loginIdentityRequired": "Nimewo anplwaye (oswa non) ak PIN obligatwa.",
+  "errors.tooManyDeviceAttemptsOne":
+    "Twòp esè koneksyon sou aparèy sa a. Tanpri eseye ankò nan {minutes} minit.",
+  "errors.tooManyDeviceAttemptsMany":
+    "Twòp esè koneksyon sou aparèy sa a. Tanpri eseye ankò nan {minutes} minit.",
+  "errors.noDriverWithNumber":
+    "Nou pa jwenn okenn chofè aktif ak nimewo anplwaye sa a. Tanpri kontakte administratè a.",
+  "errors.noDriverWithName":
+    "Nou pa jwenn okenn chofè aktif ak non sa a. Tanpri mande administratè a anrejistre ou.",
+  "errors.duplicateName":
+    "Gen plis pase yon chofè ki gen non sa a. Tanpri konekte ak nimewo anplwaye ou oswa eskane badj ou.",
+  "errors.noPinSet": "Chofè sa a poko gen PIN. Tanpri kontakte administratè a.",
+  "errors.pinLocked":
+    "Twòp PIN ki pa bon. Chofè sa a bloke jiska {time}. Mande administratè a debloke l pi bonè.",
+  "errors.loginIncorrect": "Non, machin oswa PIN nan pa bon.",
+  "errors.loginVehicleOutOfService":
+    "Machin sa a pa an sèvis. Chwazi yon machin rechanj oswa kontakte dispatch.",
+  "errors.invalidInspectionType": "Kalite enspeksyon an pa bon.",
+  "errors.noChecklist": "Poko gen okenn lis enspeksyon ki pibliye. Tanpri kontakte administratè a.",
+  "errors.inspectionNotFound": "Nou pa jwenn enspeksyon an.",
+  "errors.photoNotFound": "Nou pa jwenn foto a.",
+  "errors.photoMissing": "Foto a oswa atik lis la manke.",
+  "errors.photoType": "Foto yo dwe imaj JPEG, PNG, WebP oswa HEIC.",
+  "errors.photoTooLarge": "Foto a twò gwo (8 MB maksimòm).",
+  "errors.photoSubmitted": "Foto sa a fè pati yon enspeksyon ki deja voye, ou pa ka retire l.",
+  "errors.signBeforeSubmit": "Siyen enspeksyon an epi ekri non ou anvan ou voye l.",
+  "errors.invalidShift": "Chwazi peryòd ou (AM, Midi oswa PM) anvan ou voye.",
+  "errors.checklistVersionInvalid": "Vèsyon lis sa a pa valab. Tanpri rechaje paj la.",
+  "errors.vehicleNotFound": "Nou pa jwenn machin nan.",
+  "errors.vehicleOutOfService":
+    "Machin sa a pa an sèvis. Konekte ankò ak yon machin rechanj oswa kontakte dispatch.",
+  "errors.answerItem": "Reponn “{item}” anvan ou voye.",
+  "errors.itemApplies": "“{item}” konsène machin sa a. Make l Pase oswa Echwe.",
+  "errors.odometerFormat": "Antre chif odomèt la kòm yon kantite mil (egz. 123456).",
+  "errors.odometerBackwards":
+    "Odomèt la pa ka desann: dènye chif pou machin sa a te {last} mil.",
+  "errors.odometerJump":
+    "Sa fè {difference} mil plis pase dènye chif la ({last}). Verifye chif la.",
+  "errors.carriedDefectMissing": "Konfime oswa tcheke {item} ankò anvan ou voye.",
+  "errors.carriedNoteMissing": "Konfime oswa tcheke nòt “{note}” la ankò anvan ou voye.",
+  "errors.timecardSignatureMissing": "Siyen nan bwat siyati a anvan.",
+  "errors.timecardNoHours": "Pa gen okenn lè travay pou siyen semèn sa a.",
+  "errors.timecardOpenSession":
+    "Fini sesyon ki ouvè a (voye enspeksyon apre vwayaj ou) anvan ou siyen semèn sa a.",
+  "errors.noOpenTimeEntry": "Pa gen okenn lè travay ouvè pou mete an poz",
+  "errors.timeEntryAlreadyOpen": "Gen yon lè travay ki deja ouvè",
+};
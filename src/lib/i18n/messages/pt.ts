@@ -0,0 +1,319 @@
+import type { MessageKey } from "./en";
+
+// Portuguese (Português, Brazilian usage) driver portal strings.
+
+export const pt: Record<MessageKey, string> = {
+  "language.label": "Idioma",
+  "language.saveFailed": "Não foi possível salvar seu idioma. Ele voltará ao anterior no próximo login.",
+
+  "common.backToPortal": "← Voltar ao Portal do Motorista",
+  "common.loading": "Carregando...",
+  "common.na": "N/A",
+
+  "shift.AM": "AM",
+  "shift.Midday": "Meio-dia",
+  "shift.PM": "PM",
+
+  "login.title": "Portal do Motorista",
+  "login.intro":
+    "Digite seu número de funcionário (ou escaneie seu crachá), seu PIN e selecione o veículo designado para começar sua inspeção diária e o registro de horas.",
+  "login.modeEmployee": "Nº de funcionário / crachá",
+  "login.modeName": "Nome",
+  "login.employeeNumber": "Número de funcionário",
+  "login.employeeNumberPlaceholder": "ex.: 0042",
+  "login.scanBadge": "Escanear crachá",
+  "login.employeeNumberHint": "Impresso no seu crachá da Transafe, abaixo do código QR.",
+  "login.scanTitle": "Escaneie seu crachá",
+  "login.scanCancel": "Cancelar",
+  "login.scanHint": "Mantenha o código QR do seu crachá dentro do quadro.",
+  "login.scanUnsupported":
+    "Este dispositivo não consegue escanear crachás. Digite o número de funcionário impresso no seu crachá.",
+  "login.scanCameraUnavailable":
+    "Não foi possível abrir a câmera. Permita o acesso à câmera ou digite seu número de funcionário.",
+  "login.fullName": "Seu nome completo",
+  "login.fullNamePlaceholder": "ex.: João Silva",
+  "login.fullNameHint":
+    'Deve ser igual ao nome cadastrado pelo administrador (ex.: "Julio Duarte"). Se outro motorista tiver o mesmo nome, use seu número de funcionário.',
+  "login.pin": "PIN do motorista",
+  "login.pinPlaceholder": "PIN de 4 a 6 dígitos",
+  "login.pinHint": "Este é o seu código secreto pessoal. Não o compartilhe com ninguém.",
+  "login.vehicle": "Veículo designado",
+  "login.vehicleLocked": "Digite seu PIN para ver os veículos",
+  "login.vehiclesLoading": "Carregando veículos...",
+  "login.vehicleSelect": "Selecione um veículo",
+  "login.vehicleOutOfService": "(fora de serviço)",
+  "login.vehicleHint":
+    "Você precisa digitar seu PIN antes de escolher um veículo. Se o seu veículo não aparecer, peça ao administrador para adicioná-lo no Portal do Administrador.",
+  "login.checking": "Verificando motorista...",
+  "login.continue": "Continuar para o painel do motorista",
+  "login.missingEmployee": "Digite seu número de funcionário, seu PIN e selecione um veículo.",
+  "login.missingName": "Digite seu nome, seu PIN e selecione um veículo.",
+  "login.missingPin": "Digite seu PIN.",
+  "login.failed": "Falha no login. Tente novamente.",
+  "login.lookupFailed":
+    "Não foi possível encontrar o motorista. Verifique a grafia do seu nome ou fale com o administrador.",
+
+  "portal.title": "Portal do Motorista",
+  "portal.license": "CNH nº {number}",
+  "portal.bus": "Ônibus",
+  "portal.plate": "Placa",
+  "portal.vehicle": "Veículo",
+  "portal.unknownVehicle": "Veículo desconhecido",
+  "portal.vehicleOutOfService":
+    "Este veículo está FORA DE SERVIÇO. Não o dirija – a central vai designar um veículo reserva.",
+  "portal.routesHiddenOne":
+    "{count} das suas rotas está oculta porque o veículo designado está fora de serviço.",
+  "portal.routesHiddenMany":
+    "{count} das suas rotas estão ocultas porque o veículo designado está fora de serviço.",
+  "portal.todaysHours": "Horas de hoje",
+  "portal.navTimeLog": "Registro de horas",
+  "portal.navHistory": "Histórico de inspeções",
+  "portal.navHelp": "Ajuda",
+  "portal.assignmentsToday": "Suas rotas designadas para hoje.",
+  "portal.clockPaused": "Relógio pausado",
+  "portal.pmGapResume":
+    "Próxima coleta às {pickup}. O relógio volta a contar automaticamente às {resume}.",
+  "portal.completeAfterLastDropOff":
+    "Só marque a rota como concluída depois de deixar o último aluno.",
+  "portal.submitPostTripToResume":
+    "Envie sua inspeção pós-viagem do turno {shift} para retomar o relógio.",
+  "portal.startPreTrip": "Iniciar pré-viagem {shift}",
+  "portal.startPostTrip": "Iniciar pós-viagem {shift}",
+  "portal.shiftHeading": "Turno {shift}",
+  "portal.checkingShift": "Verificando o turno {shift}...",
+  "portal.preTripNeededTitle": "Faça sua inspeção pré-viagem do turno {shift}",
+  "portal.preTripNeededBody":
+    "Envie sua inspeção pré-viagem do turno {shift} para liberar suas rotas do turno {shift}.",
+  "portal.noRoutes": "Nenhuma rota do turno {shift} designada para hoje.",
+  "portal.postTripNeededTitle": "Envie sua inspeção pós-viagem do turno {shift}",
+  "portal.postTripNeededBody":
+    "Todas as rotas do turno {shift} foram concluídas. Envie sua inspeção pós-viagem do turno {shift}.",
+  "portal.shiftComplete": "Turno {shift} concluído",
+  "portal.shiftLockedTitle": "Turno {shift} bloqueado",
+  "portal.shiftLockedBody":
+    "Faça suas inspeções pré-viagem e pós-viagem do turno {previous} antes de começar o turno {shift}.",
+  "portal.sessionNotLoaded": "Sua sessão de motorista ainda não carregou por completo.",
+  "portal.confirmComplete":
+    "Tem certeza de que deseja marcar esta rota como CONCLUÍDA hoje? Depois de confirmada, ela vai sumir da lista de hoje neste aparelho.",
+  "portal.childCheckAlert":
+    "Um aluno desta rota foi pego mas nunca foi marcado como deixado. A central foi alertada. Verifique agora todos os assentos do veículo e ligue para a central.",
+  "portal.completeFailed":
+    "Não foi possível marcar a rota como concluída. Tente novamente ou fale com o administrador.",
+  "portal.routesLoadFailed": "Não foi possível carregar as rotas de hoje. Fale com o administrador.",
+  "portal.signOut": "Sair do aplicativo",
+  "portal.signOutHint":
+    "Isto só encerra sua sessão no aplicativo da Transafe. Não registra sua saída. Suas horas de trabalho são registradas separadamente quando você começa e termina seus turnos.",
+  "portal.build": "Versão {version}",
+
+  "route.AM": "Rota da manhã",
+  "route.MIDDAY": "Rota do meio-dia",
+  "route.PM": "Rota da tarde",
+  "route.starts": "Início:",
+  "route.ends": "Fim:",
+  "route.attendanceProgress": "Presença: {confirmed}/{total} alunos confirmados",
+  "route.allConfirmed": "Todos confirmados",
+  "route.noStops":
+    "Ainda não há paradas nesta rota. Fale com o escritório se isso parecer errado.",
+  "route.completing": "Marcando a rota como concluída...",
+  "route.confirmAllFirst": "Confirme todos os {total} alunos antes de concluir",
+  "route.markComplete": "Marcar esta rota como concluída hoje",
+  "route.studentsRemaining": "{count} aluno(s) ainda precisa(m) de confirmação de presença.",
+  "route.disappearsWhenComplete": "Depois de concluída, esta rota vai sumir da lista de hoje.",
+
+  "stop.stop": "Parada",
+  "stop.pickUp": "Pegar",
+  "stop.dropOff": "Deixar",
+  "stop.student": "aluno",
+  "stop.planned": "Previsto:",
+  "stop.addressNotSet": "Endereço não cadastrado",
+  "stop.school": "Escola:",
+  "stop.callGuardian": "Ligar para o responsável:",
+  "stop.callSchool": "Ligar para a escola:",
+  "stop.attendance": "Presença",
+
+  "attendance.picked_up": "Pego",
+  "attendance.dropped_off": "Deixado",
+  "attendance.absent": "Ausente",
+  "attendance.no_show": "Não apareceu",
+  "attendance.cancelled": "Cancelado",
+
+  "help.title": "Ajuda para motoristas",
+  "help.intro":
+    "Se estiver com problemas no Portal do Motorista, nas inspeções ou no registro de horas, siga os passos abaixo ou fale com o escritório.",
+  "help.commonIssues": "Problemas comuns",
+  "help.issueInternet": "Verifique se você está conectado à internet.",
+  "help.issueName":
+    "Se o seu nome não aparecer, fale com o escritório para que um administrador cadastre você como motorista.",
+  "help.issuePin": "Se o seu PIN não funcionar, peça ao escritório para redefini-lo.",
+  "help.issueVehicles":
+    "Se a lista de veículos estiver vazia, confirme que o seu veículo designado está ativo no sistema.",
+  "help.contact": "Fale com a Transafe",
+  "help.contactBody":
+    "Ligue para o escritório ou envie uma mensagem de texto ou e-mail para informar qualquer problema com o aplicativo ou suas inspeções.",
+  "help.phone": "Telefone: {phone}",
+  "help.email": "E-mail: {email}",
+  "help.languageHint": "Escolha o idioma do Portal do Motorista e das suas listas de inspeção.",
+
+  "inspection.pre": "Pré-viagem",
+  "inspection.post": "Pós-viagem",
+  "inspection.preLower": "pré-viagem",
+  "inspection.postLower": "pós-viagem",
+  "inspection.eyebrow": "Inspeção {name}",
+  "inspection.heading": "Lista de inspeção {name}",
+  "inspection.loadingForm": "Carregando sua inspeção {type}…",
+  "inspection.preReminder":
+    "Preencha toda esta lista antes de começar a dirigir para registrar sua entrada do dia.",
+  "inspection.postReminder":
+    "Preencha toda esta lista depois de terminar sua rota para confirmar que o veículo está vazio e seguro.",
+  "inspection.preCertification":
+    "Ao assinar, você declara que fez esta inspeção pré-viagem com veracidade na data de hoje.",
+  "inspection.postCertification":
+    "Ao assinar, você declara que fez esta inspeção pós-viagem com veracidade na data de hoje e verificou se não ficou nenhuma criança ou objeto no veículo.",
+  "inspection.preSuccess":
+    "Inspeção pré-viagem enviada com sucesso. Obrigado por fazer sua verificação diária.",
+  "inspection.postSuccess": "Inspeção pós-viagem enviada com sucesso. Seu turno foi encerrado.",
+  "inspection.childAlert":
+    "A central foi alertada de que uma criança pode ainda estar no veículo. Fique com o veículo, verifique todos os assentos de novo e ligue para a central.",
+  "inspection.outOfService":
+    "Um item crítico foi reprovado, então este veículo agora está FORA DE SERVIÇO. A central foi alertada para designar um veículo reserva.",
+  "inspection.checklistVersion": "Versão da lista {version}",
+  "inspection.driver": "Motorista:",
+  "inspection.license": "CNH:",
+  "inspection.vehicleId": "ID do veículo:",
+  "inspection.plate": "Placa:",
+  "inspection.yearMakeModel": "Ano/Marca/Modelo:",
+  "inspection.loadingVehicle": "Carregando veículo...",
+  "inspection.loadChecklistFailed": "Não foi possível carregar a lista de inspeção.",
+  "inspection.loadDefectsFailed": "Não foi possível carregar os defeitos pendentes.",
+  "inspection.missingSession":
+    "Faltam informações do motorista ou do veículo. Volte ao Portal do Motorista.",
+  "inspection.submitFailed":
+    "Não foi possível enviar a inspeção. Tente novamente ou fale com o administrador.",
+  "inspection.draftRestored": "Continuando de onde parou (salvo às {time}). Assine novamente antes de enviar.",
+  "inspection.draftDiscard": "Começar de novo",
+  "inspection.carriedTitle": "Pendências deste veículo",
+  "inspection.carriedIntro":
+    "Isto foi relatado em inspeções anteriores. Confirme cada item, ou verifique de novo e registre o que encontrar na lista abaixo.",
+  "inspection.reportedOn": "Relatado em {date}",
+  "inspection.deferredUntil": " · adiado até {date}",
+  "inspection.defectNotes": "Observações: {notes}",
+  "inspection.acknowledge": "Confirmar",
+  "inspection.acknowledged": "Confirmado",
+  "inspection.rechecked": "Verificado de novo",
+  "inspection.recheckHint": "Marque “{item}” como Aprovado ou Reprovado abaixo conforme o que encontrou.",
+  "inspection.noteFrom": "Observação da inspeção {type} de {date}",
+  "inspection.noteBy": " por {name}",
+  "inspection.odometer": "Hodômetro (obrigatório)",
+  "inspection.odometerPlaceholder": "Leitura atual do hodômetro (ex.: 123456)",
+  "inspection.odometerFixHint":
+    "Corrija a leitura acima, ou explique por que ela está correta (ex.: hodômetro trocado) para enviar mesmo assim.",
+  "inspection.odometerReasonPlaceholder": "Motivo pelo qual esta leitura está correta",
+  "inspection.shift": "Turno",
+  "inspection.shiftFromRoute": " (definido pela rota)",
+  "inspection.critical": "Crítico",
+  "inspection.criticalFail": "Se este item for reprovado, o veículo fica fora de serviço.",
+  "inspection.minorFail": "Defeito leve – é relatado, mas o veículo ainda pode rodar.",
+  "inspection.notApplicableRule": "Não se aplica a este veículo ({rule})",
+  "inspection.requiredRule": "Obrigatório para este veículo ({rule})",
+  "inspection.notes": "Observações / defeitos (se algo foi reprovado)",
+  "inspection.notesPlaceholder": "Descreva os itens reprovados, defeitos ou outras observações.",
+  "inspection.signature": "Assinatura",
+  "inspection.signaturePlaceholder": "Escreva seu nome completo",
+  "inspection.result": "Resultado: {status}",
+  "inspection.submitting": "Enviando...",
+  "inspection.submit": "Enviar inspeção {type}",
+  "inspection.hintAnswers":
+    "Selecione Aprovado, Reprovado ou N/A para cada item da lista antes de enviar. Itens obrigatórios para este veículo precisam ser Aprovado ou Reprovado.",
+  "inspection.hintCarried": "Confirme ou verifique de novo cada pendência de inspeções anteriores.",
+  "inspection.hintOdometer": "Digite a leitura atual do hodômetro em milhas (somente números).",
+  "inspection.hintShift": "Escolha seu turno (AM, Meio-dia ou PM).",
+  "inspection.hintSignatureName": "Escreva seu nome abaixo da assinatura para poder enviar.",
+  "inspection.hintSignatureImage": "Assine no quadro de assinatura para poder enviar.",
+
+  "answer.pass": "Aprovado",
+  "answer.fail": "Reprovado",
+  "answer.na": "N/A",
+  "answer.passShort": "A",
+  "answer.failShort": "R",
+  "answer.naShort": "N",
+
+  "status.pass": "Aprovado",
+  "status.pass_minor_defects": "Aprovado com defeitos leves",
+  "status.fail": "Reprovado",
+  "status.fail_out_of_service": "Reprovado – fora de serviço",
+
+  "defect.open": "Aberto",
+  "defect.deferred": "Adiado",
+  "defect.in_repair": "Em reparo",
+  "defect.repaired": "Reparado – verifique",
+
+  "applicability.wheelchair": "Adaptado para cadeira de rodas",
+  "applicability.lift": "Com elevador",
+  "applicability.minYear": "{year} ou mais novo",
+  "applicability.minSeats": "{seats}+ assentos",
+
+  "photos.defectPhoto": "Foto do defeito",
+  "photos.remove": "Remover foto",
+  "photos.uploading": "Enviando foto...",
+  "photos.add": "📷 Adicionar foto do defeito",
+  "photos.uploadFailed": "Não foi possível enviar a foto.",
+  "photos.removeFailed": "Não foi possível remover a foto.",
+
+  "signature.pad": "Quadro de assinatura",
+  "signature.signed": "Assinado",
+  "signature.prompt": "Assine acima com o dedo ou uma caneta",
+  "signature.clear": "Limpar",
+
+  "errors.sessionExpired": "Sua sessão de motorista expirou. Entre novamente.",
+  "errors.notYourRecord": "Você só pode alterar o seu próprio cadastro de motorista.",
+  "errors.notSignedIn": "Você não está conectado.",
+  "errors.unexpected": "Ocorreu um erro inesperado. Tente novamente.",
+  "errors.invalidLanguage": "Escolha um dos idiomas disponíveis.",
+  "errors.notABadge": "Esse código QR não é um crachá de motorista da Transafe.",
+  "errors.loginIdentityRequired": "O número de funcionário (ou nome) e o PIN são obrigatórios.",
+  "errors.tooManyDeviceAttemptsOne":
+    "Muitas tentativas de login neste aparelho. Tente novamente em {minutes} minuto.",
+  "errors.tooManyDeviceAttemptsMany":
+    "Muitas tentativas de login neste aparelho. Tente novamente em {minutes} minutos.",
+  "errors.noDriverWithNumber":
+    "Nenhum motorista ativo encontrado com esse número de funcionário. Fale com o administrador.",
+  "errors.noDriverWithName":
+    "Nenhum motorista ativo encontrado com esse nome. Peça ao administrador para cadastrar você.",
+  "errors.duplicateName":
+    "Há mais de um motorista com esse nome. Entre com seu número de funcionário ou escaneie seu crachá.",
+  "errors.noPinSet": "Este motorista ainda não tem PIN. Fale com o administrador.",
+  "errors.pinLocked":
+    "Muitos PINs incorretos. Este motorista está bloqueado até {time}. Peça ao administrador para desbloquear antes.",
+  "errors.loginIncorrect": "Nome, veículo ou PIN incorreto.",
+  "errors.loginVehicleOutOfService":
+    "Esse veículo está fora de serviço. Escolha um veículo reserva ou fale com a central.",
+  "errors.invalidInspectionType": "Tipo de inspeção inválido.",
+  "errors.noChecklist": "Nenhuma lista de inspeção foi publicada ainda. Fale com o administrador.",
+  "errors.inspectionNotFound": "Inspeção não encontrada.",
+  "errors.photoNotFound": "Foto não encontrada.",
+  "errors.photoMissing": "Falta a foto ou o item da lista.",
+  "errors.photoType": "As fotos precisam ser imagens JPEG, PNG, WebP ou HEIC.",
+  "errors.photoTooLarge": "A foto é grande demais (máximo de 8 MB).",
+  "errors.photoSubmitted": "Esta foto faz parte de uma inspeção enviada e não pode ser removida.",
+  "errors.signBeforeSubmit": "Assine a inspeção e escreva seu nome antes de enviar.",
+  "errors.invalidShift": "Escolha seu turno (AM, Meio-dia ou PM) antes de enviar.",
+  "errors.checklistVersionInvalid": "Esta versão da lista não é válida. Recarregue a página.",
+  "errors.vehicleNotFound": "Veículo não encontrado.",
+  "errors.vehicleOutOfService":
+    "Este veículo está fora de serviço. Entre novamente com um veículo reserva ou fale com a central.",
+  "errors.answerItem": "Responda “{item}” antes de enviar.",
+  "errors.itemApplies": "“{item}” se aplica a este veículo. Marque Aprovado ou Reprovado.",
+  "errors.odometerFormat": "Digite a leitura do hodômetro como um número de milhas (ex.: 123456).",
+  "errors.odometerBackwards":
+    "O hodômetro não pode voltar: a última leitura deste veículo foi {last} milhas.",
+  "errors.odometerJump":
+    "São {difference} milhas a mais que a última leitura ({last}). Confira o número.",
+  "errors.carriedDefectMissing": "Confirme ou verifique de novo {item} antes de enviar.",
+  "errors.carriedNoteMissing": "Confirme ou verifique de novo a observação “{note}” antes de enviar.",
+  "errors.timecardSignatureMissing": "Assine primeiro no quadro de assinatura.",
+  "errors.timecardNoHours": "Não há horas para assinar nesta semana.",
+  "errors.timecardOpenSession":
+    "Encerre sua sessão aberta (envie sua pós-viagem) antes de assinar esta semana.",
+  "errors.noOpenTimeEntry": "Nenhum registro de horas aberto para pausar",
+  "errors.timeEntryAlreadyOpen": "Já existe um registro de horas aberto",
+};
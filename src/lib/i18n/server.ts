@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_LOCALE,
+  DRIVER_LANGUAGE_COOKIE,
+  DRIVER_LANGUAGE_COOKIE_MAX_AGE,
+  isLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+} from "@/lib/i18n";
+
+// Server-only helpers for answering driver API requests in the driver's
+// language. Developer-facing errors (missing ids, bad parameters) stay in
+// English.
+
+export const driverLanguageCookieOptions = {
+  httpOnly: false,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: DRIVER_LANGUAGE_COOKIE_MAX_AGE,
+};
+
+export function requestLocale(req: NextRequest): Locale {
+  const value = req.cookies.get(DRIVER_LANGUAGE_COOKIE)?.value;
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * A JSON error response with the message in the requesting driver's language.
+ */
+export function driverError(
+  req: NextRequest,
+  key: MessageKey,
+  status: number,
+  vars?: Record<string, string | number>
+) {
+  return NextResponse.json({ error: translate(requestLocale(req), key, vars) }, { status });
+}
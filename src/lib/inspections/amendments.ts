@@ -0,0 +1,138 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { appendToChain } from "@/lib/inspections/chain";
+import { parseOdometer } from "@/lib/vehicles/odometer";
+
+// Server-only corrections to submitted inspections. The inspection row itself
+// never changes; each amendment records what changed, who changed it and why.
+
+const ANSWER_VALUES = ["pass", "fail", "na"];
+const AMENDABLE_FIELDS = ["notes", "odometer_reading", "shift"] as const;
+
+type AmendableField = (typeof AMENDABLE_FIELDS)[number];
+
+export type AmendmentChange = { from: unknown; to: unknown };
+
+export type InspectionAmendment = {
+  id: string;
+  inspection_id: string;
+  amended_by: string;
+  amended_by_admin_id: string | null;
+  reason: string;
+  changes: Record<string, AmendmentChange>;
+  created_at: string;
+};
+
+type InspectionRow = Record<string, unknown> & {
+  id: string;
+  vehicle_id: string;
+  answers: Record<string, string> | null;
+};
+
+export async function listAmendments(inspectionId: string): Promise<InspectionAmendment[]> {
+  const { data, error } = await supabaseAdmin
+    .from("inspection_amendments")
+    .select("*")
+    .eq("inspection_id", inspectionId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as InspectionAmendment[];
+}
+
+/**
+ * The inspection as it reads after applying its amendments in order.
+ */
+export function applyAmendments<T extends InspectionRow>(
+  inspection: T,
+  amendments: InspectionAmendment[]
+): T {
+  const current: T = { ...inspection, answers: { ...(inspection.answers ?? {}) } };
+  for (const amendment of amendments) {
+    for (const [field, change] of Object.entries(amendment.changes)) {
+      if (field.startsWith("answers.")) {
+        current.answers![field.slice("answers.".length)] = String(change.to);
+      } else {
+        (current as Record<string, unknown>)[field] = change.to;
+      }
+    }
+  }
+  return current;
+}
+
+/**
+ * Validates the requested corrections against the inspection's current
+ * (already amended) values and returns only the fields that actually change,
+ * or an error message.
+ */
+export function buildAmendmentChanges(
+  current: InspectionRow,
+  requested: unknown
+): { changes: Record<string, AmendmentChange> } | { error: string } {
+  if (!requested || typeof requested !== "object") {
+    return { error: "changes must be an object." };
+  }
+
+  const changes: Record<string, AmendmentChange> = {};
+  const input = requested as Record<string, unknown>;
+
+  for (const field of AMENDABLE_FIELDS as readonly AmendableField[]) {
+    if (!(field in input)) continue;
+    const raw = input[field];
+    const to = typeof raw === "string" && raw.trim() ? raw.trim() : null;
+    if (field === "odometer_reading" && to !== null && parseOdometer(to) === null) {
+      return { error: "The corrected odometer must be a number of miles." };
+    }
+    if (to !== (current[field] ?? null)) {
+      changes[field] = { from: current[field] ?? null, to };
+    }
+  }
+
+  if (input.answers !== undefined) {
+    if (!input.answers || typeof input.answers !== "object") {
+      return { error: "answers must map checklist items to pass, fail or na." };
+    }
+    const answers = current.answers ?? {};
+    for (const [itemKey, value] of Object.entries(input.answers as Record<string, unknown>)) {
+      if (!(itemKey in answers)) {
+        return { error: `"${itemKey}" is not on this inspection's checklist.` };
+      }
+      if (typeof value !== "string" || !ANSWER_VALUES.includes(value)) {
+        return { error: `Answer for "${itemKey}" must be pass, fail or na.` };
+      }
+      if (value !== answers[itemKey]) {
+        changes[`answers.${itemKey}`] = { from: answers[itemKey], to: value };
+      }
+    }
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { error: "Nothing to amend; the values are unchanged." };
+  }
+  return { changes };
+}
+
+/**
+ * Records an amendment and seals it into the vehicle's hash chain.
+ */
+export async function createAmendment(params: {
+  inspection: InspectionRow;
+  changes: Record<string, AmendmentChange>;
+  reason: string;
+  amendedBy: string;
+  amendedByAdminId: string | null;
+}): Promise<InspectionAmendment> {
+  const { data, error } = await supabaseAdmin
+    .from("inspection_amendments")
+    .insert({
+      inspection_id: params.inspection.id,
+      amended_by: params.amendedBy,
+      amended_by_admin_id: params.amendedByAdminId,
+      reason: params.reason,
+      changes: params.changes,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  await appendToChain(params.inspection.vehicle_id, "amendment", data);
+  return data as InspectionAmendment;
+}
@@ -0,0 +1,325 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { applyAmendments, type InspectionAmendment } from "@/lib/inspections/amendments";
+import { listItemColumns } from "@/lib/inspections/templates";
+
+// Server-only failure analytics over submitted inspections. Answers are read
+// as amended, and an inspection counts as failed when any item failed.
+
+export type AnalyticsBucket = "week" | "month";
+
+export const MAX_ANALYTICS_DAYS = 366;
+
+// Supabase caps each response, so large ranges are read in pages
+const PAGE_SIZE = 1000;
+
+type Rate = { failed: number; failure_rate: number };
+
+export type ItemFailureRow = Rate & {
+  item_key: string;
+  label: string;
+  category: string | null;
+  checked: number;
+};
+
+export type VehicleFailureRow = Rate & {
+  vehicle_id: string;
+  vehicle_label: string;
+  make_model: string;
+  inspections: number;
+  failed_items: number;
+  repairs: number;
+  mean_repair_hours: number | null;
+};
+
+export type MakeModelFailureRow = Rate & {
+  make_model: string;
+  vehicles: number;
+  inspections: number;
+};
+
+export type DriverFailureRow = Rate & {
+  driver_id: string;
+  driver_name: string;
+  inspections: number;
+  periods: Record<string, { inspections: number; failed: number }>;
+};
+
+export type RepeatFailureRow = {
+  vehicle_id: string;
+  vehicle_label: string;
+  item_key: string;
+  label: string;
+  failures: number;
+  first_failed: string;
+  last_failed: string;
+  inspection_ids: string[];
+};
+
+export type FailureAnalytics = {
+  from: string;
+  to: string;
+  bucket: AnalyticsBucket;
+  periods: string[];
+  totals: Rate & { inspections: number };
+  trend: { period: string; inspections: number; failed: number }[];
+  items: ItemFailureRow[];
+  vehicles: VehicleFailureRow[];
+  makeModels: MakeModelFailureRow[];
+  drivers: DriverFailureRow[];
+  repeatFailures: RepeatFailureRow[];
+  repairs: { repaired: number; still_open: number; mean_repair_hours: number | null };
+};
+
+type InspectionRow = {
+  id: string;
+  vehicle_id: string;
+  driver_id: string | null;
+  driver_name: string | null;
+  vehicle_label: string | null;
+  inspection_date: string;
+  answers: Record<string, string> | null;
+  inspection_amendments: InspectionAmendment[] | null;
+};
+
+type DefectRow = {
+  vehicle_id: string;
+  created_at: string;
+  repaired_at: string | null;
+};
+
+/**
+ * The start of the week (Monday) or month containing `ymd`.
+ */
+export function periodFor(ymd: string, bucket: AnalyticsBucket) {
+  if (bucket === "month") return `${ymd.slice(0, 7)}-01`;
+  const d = new Date(`${ymd}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function periodsBetween(from: string, to: string, bucket: AnalyticsBucket) {
+  const periods: string[] = [];
+  const cursor = new Date(`${periodFor(from, bucket)}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (cursor <= end) {
+    periods.push(cursor.toISOString().slice(0, 10));
+    if (bucket === "month") cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    else cursor.setUTCDate(cursor.getUTCDate() + 7);
+  }
+  return periods;
+}
+
+function rate(failed: number, total: number): Rate {
+  return { failed, failure_rate: total > 0 ? failed / total : 0 };
+}
+
+function hoursBetween(from: string, to: string) {
+  return (new Date(to).getTime() - new Date(from).getTime()) / 3_600_000;
+}
+
+function mean(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+async function fetchInspections(from: string, to: string): Promise<InspectionRow[]> {
+  const rows: InspectionRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from("inspections")
+      .select(
+        "id, vehicle_id, driver_id, driver_name, vehicle_label, inspection_date, answers, inspection_amendments(*)"
+      )
+      .gte("inspection_date", from)
+      .lte("inspection_date", to)
+      .order("id", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as unknown as InspectionRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Failure rates by item, vehicle, make/model and driver, repeat failures of
+ * the same item on a vehicle, and mean time to repair, for inspections dated
+ * `from` to `to` inclusive.
+ */
+export async function buildFailureAnalytics(
+  from: string,
+  to: string,
+  bucket: AnalyticsBucket
+): Promise<FailureAnalytics> {
+  const [inspections, itemColumns, vehiclesRes, defectsRes] = await Promise.all([
+    fetchInspections(from, to),
+    listItemColumns(),
+    supabaseAdmin.from("vehicles").select("id, label, make, model"),
+    supabaseAdmin
+      .from("vehicle_defects")
+      .select("vehicle_id, created_at, repaired_at")
+      .gte("created_at", `${from}T00:00:00Z`)
+      .lte("created_at", `${to}T23:59:59.999Z`),
+  ]);
+  if (vehiclesRes.error) throw vehiclesRes.error;
+  if (defectsRes.error) throw defectsRes.error;
+
+  const vehicleInfo = new Map(
+    (vehiclesRes.data ?? []).map((v) => [
+      v.id as string,
+      {
+        label: v.label as string,
+        make_model: [v.make, v.model].filter(Boolean).join(" ") || "Unknown make/model",
+      },
+    ])
+  );
+  const labels = new Map(itemColumns.map((column) => [column.item_key, column]));
+  const labelFor = (key: string) => labels.get(key)?.label ?? key;
+
+  const periods = periodsBetween(from, to, bucket);
+  const trend = new Map(periods.map((p) => [p, { period: p, inspections: 0, failed: 0 }]));
+  const items = new Map<string, { checked: number; failed: number }>();
+  const vehicles = new Map<string, { label: string; inspections: number; failed: number; failed_items: number }>();
+  const drivers = new Map<string, DriverFailureRow>();
+  const repeats = new Map<string, { dates: string[]; inspection_ids: string[] }>();
+  let failedInspections = 0;
+
+  for (const row of inspections) {
+    const amendments = [...(row.inspection_amendments ?? [])].sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    );
+    const inspection = applyAmendments(row, amendments);
+    const answers = inspection.answers ?? {};
+    const failedKeys = Object.keys(answers).filter((key) => answers[key] === "fail");
+    const failed = failedKeys.length > 0 ? 1 : 0;
+    failedInspections += failed;
+
+    for (const [key, answer] of Object.entries(answers)) {
+      if (answer !== "pass" && answer !== "fail") continue;
+      const item = items.get(key) ?? { checked: 0, failed: 0 };
+      item.checked++;
+      if (answer === "fail") item.failed++;
+      items.set(key, item);
+    }
+
+    const period = trend.get(periodFor(row.inspection_date, bucket));
+    if (period) {
+      period.inspections++;
+      period.failed += failed;
+    }
+
+    const vehicle = vehicles.get(row.vehicle_id) ?? {
+      label: vehicleInfo.get(row.vehicle_id)?.label ?? row.vehicle_label ?? "Unknown vehicle",
+      inspections: 0,
+      failed: 0,
+      failed_items: 0,
+    };
+    vehicle.inspections++;
+    vehicle.failed += failed;
+    vehicle.failed_items += failedKeys.length;
+    vehicles.set(row.vehicle_id, vehicle);
+
+    const driverId = row.driver_id ?? "unknown";
+    const driver = drivers.get(driverId) ?? {
+      driver_id: driverId,
+      driver_name: row.driver_name ?? "Unknown driver",
+      inspections: 0,
+      failed: 0,
+      failure_rate: 0,
+      periods: {},
+    };
+    driver.inspections++;
+    driver.failed += failed;
+    const driverPeriod = periodFor(row.inspection_date, bucket);
+    driver.periods[driverPeriod] ??= { inspections: 0, failed: 0 };
+    driver.periods[driverPeriod].inspections++;
+    driver.periods[driverPeriod].failed += failed;
+    drivers.set(driverId, driver);
+
+    for (const key of failedKeys) {
+      const repeat = repeats.get(`${row.vehicle_id}:${key}`) ?? { dates: [], inspection_ids: [] };
+      repeat.dates.push(row.inspection_date);
+      repeat.inspection_ids.push(row.id);
+      repeats.set(`${row.vehicle_id}:${key}`, repeat);
+    }
+  }
+
+  const defects = (defectsRes.data ?? []) as DefectRow[];
+  const repairHours = (rows: DefectRow[]) =>
+    rows.filter((d) => d.repaired_at).map((d) => hoursBetween(d.created_at, d.repaired_at!));
+
+  const vehicleRows: VehicleFailureRow[] = [...vehicles.entries()].map(([vehicleId, v]) => {
+    const hours = repairHours(defects.filter((d) => d.vehicle_id === vehicleId));
+    return {
+      vehicle_id: vehicleId,
+      vehicle_label: v.label,
+      make_model: vehicleInfo.get(vehicleId)?.make_model ?? "Unknown make/model",
+      inspections: v.inspections,
+      failed_items: v.failed_items,
+      repairs: hours.length,
+      mean_repair_hours: mean(hours),
+      ...rate(v.failed, v.inspections),
+    };
+  });
+
+  const makeModels = new Map<string, { vehicles: number; inspections: number; failed: number }>();
+  for (const v of vehicleRows) {
+    const group = makeModels.get(v.make_model) ?? { vehicles: 0, inspections: 0, failed: 0 };
+    group.vehicles++;
+    group.inspections += v.inspections;
+    group.failed += v.failed;
+    makeModels.set(v.make_model, group);
+  }
+
+  const allRepairHours = repairHours(defects);
+
+  return {
+    from,
+    to,
+    bucket,
+    periods,
+    totals: { inspections: inspections.length, ...rate(failedInspections, inspections.length) },
+    trend: [...trend.values()],
+    items: [...items.entries()]
+      .map(([key, item]) => ({
+        item_key: key,
+        label: labelFor(key),
+        category: labels.get(key)?.category ?? null,
+        checked: item.checked,
+        ...rate(item.failed, item.checked),
+      }))
+      .sort((a, b) => b.failed - a.failed || b.failure_rate - a.failure_rate),
+    vehicles: vehicleRows.sort((a, b) => b.failure_rate - a.failure_rate || b.failed - a.failed),
+    makeModels: [...makeModels.entries()]
+      .map(([makeModel, group]) => ({
+        make_model: makeModel,
+        vehicles: group.vehicles,
+        inspections: group.inspections,
+        ...rate(group.failed, group.inspections),
+      }))
+      .sort((a, b) => b.failure_rate - a.failure_rate),
+    drivers: [...drivers.values()]
+      .map((driver) => ({ ...driver, ...rate(driver.failed, driver.inspections) }))
+      .sort((a, b) => b.failure_rate - a.failure_rate || a.driver_name.localeCompare(b.driver_name)),
+    repeatFailures: [...repeats.entries()]
+      .filter(([, repeat]) => repeat.inspection_ids.length > 1)
+      .map(([key, repeat]) => {
+        const [vehicleId, itemKey] = key.split(":");
+        const dates = [...repeat.dates].sort();
+        return {
+          vehicle_id: vehicleId,
+          vehicle_label: vehicles.get(vehicleId)?.label ?? "Unknown vehicle",
+          item_key: itemKey,
+          label: labelFor(itemKey),
+          failures: repeat.inspection_ids.length,
+          first_failed: dates[0],
+          last_failed: dates[dates.length - 1],
+          inspection_ids: repeat.inspection_ids,
+        };
+      })
+      .sort((a, b) => b.failures - a.failures),
+    repairs: {
+      repaired: allRepairHours.length,
+      still_open: defects.length - allRepairHours.length,
+      mean_repair_hours: mean(allRepairHours),
+    },
+  };
+}
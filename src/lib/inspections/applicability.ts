@@ -0,0 +1,66 @@
+// Which checklist items apply to a vehicle, based on its equipment and year
+
+export type ApplicabilityRule = {
+  requires_wheelchair: boolean;
+  requires_lift: boolean;
+  min_vehicle_year: number | null;
+  min_seating_capacity: number | null;
+};
+
+export type VehicleEquipment = {
+  year: number | null;
+  wheelchair_equipped: boolean;
+  lift_installed: boolean;
+  seating_capacity: number | null;
+};
+
+export function hasApplicabilityRule(rule: ApplicabilityRule): boolean {
+  return (
+    rule.requires_wheelchair ||
+    rule.requires_lift ||
+    rule.min_vehicle_year != null ||
+    rule.min_seating_capacity != null
+  );
+}
+
+/**
+ * Whether the item must be answered for this vehicle. A missing year or
+ * seating capacity counts as applicable so the driver still checks the item.
+ */
+export function isItemApplicable(
+  rule: ApplicabilityRule,
+  vehicle: VehicleEquipment
+): boolean {
+  if (rule.requires_wheelchair && !vehicle.wheelchair_equipped) return false;
+  if (rule.requires_lift && !vehicle.lift_installed) return false;
+  if (
+    rule.min_vehicle_year != null &&
+    vehicle.year != null &&
+    vehicle.year < rule.min_vehicle_year
+  ) {
+    return false;
+  }
+  if (
+    rule.min_seating_capacity != null &&
+    vehicle.seating_capacity != null &&
+    vehicle.seating_capacity < rule.min_seating_capacity
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Short description of the rule for admin and driver screens, e.g.
+ * "Wheelchair-equipped · 2018 and newer".
+ */
+export function describeApplicability(rule: ApplicabilityRule): string | null {
+  const parts: string[] = [];
+  if (rule.requires_wheelchair) parts.push("Wheelchair-equipped");
+  if (rule.requires_lift) parts.push("Lift installed");
+  if (rule.min_vehicle_year != null) parts.push(`${rule.min_vehicle_year} and newer`);
+  if (rule.min_seating_capacity != null) {
+    parts.push(`${rule.min_seating_capacity}+ seats`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
@@ -0,0 +1,128 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { DefectStatus } from "@/lib/inspections/defects";
+
+// Server-only: what a driver must see and acknowledge before a pre-trip –
+// the vehicle's outstanding defect tickets and notes left on its most recent
+// inspections.
+
+const RECENT_INSPECTIONS = 3;
+
+export type CarryForwardAction = "acknowledged" | "rechecked";
+
+export type CarriedDefect = {
+  id: string;
+  item_key: string;
+  item_label: string;
+  status: DefectStatus;
+  driver_notes: string | null;
+  deferred_until: string | null;
+  created_at: string;
+};
+
+export type CarriedNote = {
+  inspection_id: string;
+  inspection_type: string;
+  driver_name: string | null;
+  submitted_at: string;
+  notes: string;
+};
+
+export type CarryForward = {
+  defects: CarriedDefect[];
+  notes: CarriedNote[];
+};
+
+// What gets stored on the new inspection. A re-checked defect keeps the
+// answer the driver gave that item on this inspection's checklist.
+export type CarryForwardAck =
+  | ({
+      kind: "defect";
+      defect_id: string;
+      action: CarryForwardAction;
+      recheck_answer: string | null;
+    } & Pick<CarriedDefect, "item_key" | "item_label" | "status">)
+  | { kind: "note"; inspection_id: string; notes: string; action: "acknowledged" };
+
+export async function getCarryForward(vehicleId: string): Promise<CarryForward> {
+  const [defectsRes, notesRes] = await Promise.all([
+    supabaseAdmin
+      .from("vehicle_defects")
+      .select("id, item_key, item_label, status, driver_notes, deferred_until, created_at")
+      .eq("vehicle_id", vehicleId)
+      .neq("status", "verified")
+      .order("created_at", { ascending: true }),
+    supabaseAdmin
+      .from("inspections")
+      .select("id, inspection_type, driver_name, submitted_at, notes")
+      .eq("vehicle_id", vehicleId)
+      .order("submitted_at", { ascending: false })
+      .limit(RECENT_INSPECTIONS),
+  ]);
+  if (defectsRes.error) throw defectsRes.error;
+  if (notesRes.error) throw notesRes.error;
+
+  return {
+    defects: (defectsRes.data ?? []) as CarriedDefect[],
+    notes: (notesRes.data ?? [])
+      .filter((row) => typeof row.notes === "string" && row.notes.trim())
+      .map((row) => ({
+        inspection_id: row.id,
+        inspection_type: row.inspection_type,
+        driver_name: row.driver_name,
+        submitted_at: row.submitted_at,
+        notes: row.notes.trim(),
+      })),
+  };
+}
+
+// The first carried-forward item a submission left unanswered
+export type CarryForwardMissing =
+  | { kind: "defect"; item_key: string; item_label: string }
+  | { kind: "note"; notes: string };
+
+/**
+ * Matches the driver's submitted acknowledgments against what is actually
+ * outstanding. Returns the records to store, or the first item the driver
+ * hasn't dealt with.
+ */
+export function buildCarryForwardAcks(
+  carryForward: CarryForward,
+  submitted: unknown,
+  answers: Record<string, string>
+): { acks: CarryForwardAck[] } | { missing: CarryForwardMissing } {
+  const byId = new Map<string, string>();
+  if (submitted && typeof submitted === "object") {
+    for (const [id, action] of Object.entries(submitted as Record<string, unknown>)) {
+      if (action === "acknowledged" || action === "rechecked") byId.set(id, action);
+    }
+  }
+
+  const acks: CarryForwardAck[] = [];
+  for (const defect of carryForward.defects) {
+    const action = byId.get(defect.id) as CarryForwardAction | undefined;
+    if (!action) {
+      return {
+        missing: { kind: "defect", item_key: defect.item_key, item_label: defect.item_label },
+      };
+    }
+    acks.push({
+      kind: "defect",
+      defect_id: defect.id,
+      item_key: defect.item_key,
+      item_label: defect.item_label,
+      status: defect.status,
+      action,
+      recheck_answer: action === "rechecked" ? answers[defect.item_key] ?? null : null,
+    });
+  }
+  for (const note of carryForward.notes) {
+    if (!byId.has(note.inspection_id)) return { missing: { kind: "note", notes: note.notes } };
+    acks.push({
+      kind: "note",
+      inspection_id: note.inspection_id,
+      notes: note.notes,
+      action: "acknowledged",
+    });
+  }
+  return { acks };
+}
@@ -0,0 +1,244 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { sha256Hex } from "@/lib/signatures/capture";
+
+// Server-only per-vehicle hash chain over inspections and their amendments.
+// Each entry's hash covers the record's content and the previous entry's hash,
+// so any edit, removal or back-filled record shows up on verification.
+
+export type ChainRecordType = "inspection" | "amendment";
+
+export type ChainEntry = {
+  id: string;
+  vehicle_id: string;
+  seq: number;
+  record_type: ChainRecordType;
+  record_id: string;
+  prev_hash: string | null;
+  record_hash: string;
+  created_at: string;
+};
+
+// The columns each record is sealed over. Columns added later are not part of
+// the hash, so existing chains keep verifying.
+const CHAINED_FIELDS: Record<ChainRecordType, string[]> = {
+  inspection: [
+    "id",
+    "vehicle_id",
+    "driver_id",
+    "driver_name",
+    "driver_license_number",
+    "vehicle_label",
+    "inspection_type",
+    "shift",
+    "inspection_date",
+    "submitted_at",
+    "template_id",
+    "template_version",
+    "answers",
+    "overall_status",
+    "notes",
+    "odometer_reading",
+    "carried_forward",
+    "signature_name",
+    "signature_image",
+    "signature_signed_at",
+    "signature_device",
+    "answers_hash",
+  ],
+  amendment: [
+    "id",
+    "inspection_id",
+    "amended_by",
+    "amended_by_admin_id",
+    "reason",
+    "changes",
+    "created_at",
+  ],
+};
+
+const APPEND_ATTEMPTS = 5;
+
+function hashRecord(
+  recordType: ChainRecordType,
+  record: Record<string, unknown>,
+  prevHash: string | null
+) {
+  const content: Record<string, unknown> = {};
+  for (const field of CHAINED_FIELDS[recordType]) content[field] = record[field] ?? null;
+  return sha256Hex({ record_type: recordType, prev_hash: prevHash, content });
+}
+
+/**
+ * Appends a freshly inserted inspection or amendment to its vehicle's chain.
+ * `record` must be the row as stored (e.g. from `.insert().select()`).
+ */
+export async function appendToChain(
+  vehicleId: string,
+  recordType: ChainRecordType,
+  record: Record<string, unknown> & { id: string }
+): Promise<ChainEntry> {
+  for (let attempt = 0; attempt < APPEND_ATTEMPTS; attempt += 1) {
+    const { data: last, error: lastErr } = await supabaseAdmin
+      .from("inspection_chain")
+      .select("seq, record_hash")
+      .eq("vehicle_id", vehicleId)
+      .order("seq", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (lastErr) throw lastErr;
+
+    const prevHash = last?.record_hash ?? null;
+    const { data, error } = await supabaseAdmin
+      .from("inspection_chain")
+      .insert({
+        vehicle_id: vehicleId,
+        seq: (last?.seq ?? 0) + 1,
+        record_type: recordType,
+        record_id: record.id,
+        prev_hash: prevHash,
+        record_hash: hashRecord(recordType, record, prevHash),
+      })
+      .select()
+      .single();
+
+    // Another record for this vehicle took the same seq; read the new tip and retry
+    if (error?.code === "23505") continue;
+    if (error) throw error;
+    return data as ChainEntry;
+  }
+  throw new Error("Could not append to the inspection chain. Please retry.");
+}
+
+export type ChainProblem = {
+  seq: number | null;
+  record_type: ChainRecordType;
+  record_id: string;
+  problem: "hash_mismatch" | "broken_link" | "missing_record" | "unchained_record";
+  detail: string;
+};
+
+export type ChainVerification = {
+  vehicle_id: string;
+  entries: number;
+  ok: boolean;
+  problems: ChainProblem[];
+  // Inspections submitted before the chain started for this vehicle
+  unsealed_inspections: number;
+  verified_at: string;
+};
+
+/**
+ * Recomputes a vehicle's chain from the stored records and reports every
+ * entry that doesn't match, every record missing from the chain and every
+ * chain entry whose record is gone.
+ */
+export async function verifyVehicleChain(vehicleId: string): Promise<ChainVerification> {
+  const [chainRes, inspectionsRes] = await Promise.all([
+    supabaseAdmin
+      .from("inspection_chain")
+      .select("*")
+      .eq("vehicle_id", vehicleId)
+      .order("seq", { ascending: true }),
+    supabaseAdmin.from("inspections").select("*").eq("vehicle_id", vehicleId),
+  ]);
+  if (chainRes.error) throw chainRes.error;
+  if (inspectionsRes.error) throw inspectionsRes.error;
+
+  const chain = (chainRes.data ?? []) as ChainEntry[];
+  const inspections = (inspectionsRes.data ?? []) as (Record<string, unknown> & {
+    id: string;
+    submitted_at: string;
+  })[];
+
+  const inspectionIds = inspections.map((i) => i.id);
+  const { data: amendmentRows, error: amendErr } = inspectionIds.length
+    ? await supabaseAdmin.from("inspection_amendments").select("*").in("inspection_id", inspectionIds)
+    : { data: [], error: null };
+  if (amendErr) throw amendErr;
+
+  const records: Record<ChainRecordType, Map<string, Record<string, unknown>>> = {
+    inspection: new Map(inspections.map((r) => [r.id, r])),
+    amendment: new Map(
+      ((amendmentRows ?? []) as (Record<string, unknown> & { id: string })[]).map((r) => [r.id, r])
+    ),
+  };
+
+  const problems: ChainProblem[] = [];
+  const chained = new Set<string>();
+  let prevHash: string | null = null;
+
+  chain.forEach((entry, index) => {
+    chained.add(`${entry.record_type}:${entry.record_id}`);
+
+    if (entry.seq !== index + 1 || entry.prev_hash !== prevHash) {
+      problems.push({
+        seq: entry.seq,
+        record_type: entry.record_type,
+        record_id: entry.record_id,
+        problem: "broken_link",
+        detail:
+          entry.seq !== index + 1
+            ? `Expected entry #${index + 1}, found #${entry.seq}.`
+            : "Does not point at the previous entry's hash.",
+      });
+    }
+
+    const record = records[entry.record_type].get(entry.record_id);
+    if (!record) {
+      problems.push({
+        seq: entry.seq,
+        record_type: entry.record_type,
+        record_id: entry.record_id,
+        problem: "missing_record",
+        detail: `The ${entry.record_type} this entry seals no longer exists.`,
+      });
+    } else if (hashRecord(entry.record_type, record, entry.prev_hash) !== entry.record_hash) {
+      problems.push({
+        seq: entry.seq,
+        record_type: entry.record_type,
+        record_id: entry.record_id,
+        problem: "hash_mismatch",
+        detail: `The ${entry.record_type} was changed after it was sealed.`,
+      });
+    }
+
+    prevHash = entry.record_hash;
+  });
+
+  // Records from after the chain started must all be in it
+  const chainStart = chain[0]?.created_at ?? null;
+  let unsealed = 0;
+  for (const inspection of inspections) {
+    if (chained.has(`inspection:${inspection.id}`)) continue;
+    if (!chainStart || inspection.submitted_at < chainStart) {
+      unsealed += 1;
+      continue;
+    }
+    problems.push({
+      seq: null,
+      record_type: "inspection",
+      record_id: inspection.id,
+      problem: "unchained_record",
+      detail: "Inspection was added without being sealed into the chain.",
+    });
+  }
+  for (const amendmentId of records.amendment.keys()) {
+    if (chained.has(`amendment:${amendmentId}`)) continue;
+    problems.push({
+      seq: null,
+      record_type: "amendment",
+      record_id: amendmentId,
+      problem: "unchained_record",
+      detail: "Amendment was added without being sealed into the chain.",
+    });
+  }
+
+  return {
+    vehicle_id: vehicleId,
+    entries: chain.length,
+    ok: problems.length === 0,
+    problems,
+    unsealed_inspections: unsealed,
+    verified_at: new Date().toISOString(),
+  };
+}
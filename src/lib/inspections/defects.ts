@@ -0,0 +1,151 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { ChecklistItem } from "@/lib/inspections/templates";
+
+// Server-only defect ticket workflow. Tickets are opened and verified from
+// driver inspections; admins move them through deferral and repair.
+
+export const DEFECT_STATUSES = ["open", "deferred", "in_repair", "repaired", "verified"] as const;
+
+export type DefectStatus = (typeof DEFECT_STATUSES)[number];
+
+export type VehicleDefect = {
+  id: string;
+  vehicle_id: string;
+  item_key: string;
+  item_label: string;
+  status: DefectStatus;
+  inspection_id: string | null;
+  reported_by_driver_id: string | null;
+  driver_notes: string | null;
+  deferred_until: string | null;
+  repaired_at: string | null;
+  verified_at: string | null;
+  verified_inspection_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Statuses an admin can move a ticket to. "verified" is only ever set by a
+// driver passing the item on a later inspection.
+const ADMIN_TRANSITIONS: Record<DefectStatus, DefectStatus[]> = {
+  open: ["deferred", "in_repair", "repaired"],
+  deferred: ["open", "in_repair", "repaired"],
+  in_repair: ["open", "deferred", "repaired"],
+  repaired: ["open"],
+  verified: [],
+};
+
+export function isDefectStatus(value: unknown): value is DefectStatus {
+  return typeof value === "string" && (DEFECT_STATUSES as readonly string[]).includes(value);
+}
+
+export function canAdminMoveDefect(from: DefectStatus, to: DefectStatus) {
+  return ADMIN_TRANSITIONS[from].includes(to);
+}
+
+export async function addDefectEvent(event: {
+  defect_id: string;
+  status: DefectStatus;
+  note?: string | null;
+  actor: string;
+  inspection_id?: string | null;
+}) {
+  const { error } = await supabaseAdmin.from("vehicle_defect_events").insert({
+    ...event,
+    note: event.note ?? null,
+    inspection_id: event.inspection_id ?? null,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Opens, re-opens or verifies defect tickets for one submitted inspection:
+ * - a failed item opens a ticket (or notes the repeat on the outstanding one,
+ *   re-opening it if it had been marked repaired)
+ * - a passed item verifies a ticket that is waiting on driver verification
+ */
+export async function syncDefectsFromInspection(params: {
+  inspection: { id: string; vehicle_id: string; driver_id: string; driver_name: string; notes: string | null };
+  items: ChecklistItem[];
+  answers: Record<string, string>;
+}) {
+  const { inspection, items, answers } = params;
+  const actor = `Driver: ${inspection.driver_name}`;
+
+  const { data, error } = await supabaseAdmin
+    .from("vehicle_defects")
+    .select("*")
+    .eq("vehicle_id", inspection.vehicle_id)
+    .neq("status", "verified");
+  if (error) throw error;
+
+  const outstanding = new Map(
+    ((data ?? []) as VehicleDefect[]).map((d) => [d.item_key, d])
+  );
+  const now = new Date().toISOString();
+
+  for (const item of items) {
+    const answer = answers[item.item_key];
+    const existing = outstanding.get(item.item_key);
+
+    if (answer === "fail") {
+      if (!existing) {
+        const { data: created, error: createErr } = await supabaseAdmin
+          .from("vehicle_defects")
+          .insert({
+            vehicle_id: inspection.vehicle_id,
+            item_key: item.item_key,
+            item_label: item.label,
+            status: "open",
+            inspection_id: inspection.id,
+            reported_by_driver_id: inspection.driver_id,
+            driver_notes: inspection.notes,
+          })
+          .select("id")
+          .single();
+        if (createErr) throw createErr;
+        await addDefectEvent({
+          defect_id: created.id,
+          status: "open",
+          note: "Failed on inspection",
+          actor,
+          inspection_id: inspection.id,
+        });
+      } else {
+        const reopen = existing.status === "repaired";
+        if (reopen) {
+          const { error: reopenErr } = await supabaseAdmin
+            .from("vehicle_defects")
+            .update({ status: "open", repaired_at: null, updated_at: now })
+            .eq("id", existing.id);
+          if (reopenErr) throw reopenErr;
+        }
+        await addDefectEvent({
+          defect_id: existing.id,
+          status: reopen ? "open" : existing.status,
+          note: reopen ? "Failed again after repair" : "Failed again on inspection",
+          actor,
+          inspection_id: inspection.id,
+        });
+      }
+    } else if (answer === "pass" && existing?.status === "repaired") {
+      const { error: verifyErr } = await supabaseAdmin
+        .from("vehicle_defects")
+        .update({
+          status: "verified",
+          verified_at: now,
+          verified_inspection_id: inspection.id,
+          updated_at: now,
+        })
+        .eq("id", existing.id);
+      if (verifyErr) throw verifyErr;
+      await addDefectEvent({
+        defect_id: existing.id,
+        status: "verified",
+        note: "Passed on inspection after repair",
+        actor,
+        inspection_id: inspection.id,
+      });
+    }
+  }
+}
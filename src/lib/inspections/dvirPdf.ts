@@ -0,0 +1,441 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { getTemplate, type ChecklistItem } from "@/lib/inspections/templates";
+import { applyAmendments, type InspectionAmendment } from "@/lib/inspections/amendments";
+import { answersMatchSignature } from "@/lib/signatures/capture";
+import { overallStatusLabel } from "@/lib/inspections/status";
+
+// Server-only DVIR (driver vehicle inspection report) PDFs: one inspection per
+// record, each starting on a new page, so a batch reads as a packet.
+
+const COMPANY_NAME = "Transafe Transportation";
+const REPORT_TITLE = "Daily 7D Vehicle Inspection Record (DVIR)";
+
+// Keeps a single request from building an unbounded document
+export const MAX_DVIR_BATCH = 400;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type InspectionRow = Record<string, unknown> & {
+  id: string;
+  vehicle_id: string;
+  driver_id: string;
+  driver_name: string;
+  driver_license_number: string | null;
+  vehicle_label: string | null;
+  inspection_type: string;
+  shift: string | null;
+  inspection_date: string;
+  submitted_at: string;
+  template_id: string | null;
+  template_version: number | null;
+  answers: Record<string, string> | null;
+  overall_status: string | null;
+  notes: string | null;
+  odometer_reading: string | null;
+  signature_name: string | null;
+  signature_image: string | null;
+  signature_signed_at: string | null;
+  signature_device: string | null;
+  answers_hash: string | null;
+  carried_forward: { kind: string; item_label?: string; notes?: string; action: string }[] | null;
+};
+
+type DvirVehicle = {
+  id: string;
+  label: string;
+  year: number | null;
+  make: string | null;
+  model: string | null;
+  plate: string | null;
+  vin: string | null;
+};
+
+export type DvirRecord = {
+  original: InspectionRow;
+  current: InspectionRow;
+  amendments: InspectionAmendment[];
+  checklist: ChecklistItem[];
+  vehicle: DvirVehicle | null;
+};
+
+export type DvirFilter =
+  | { ids: string[] }
+  | { vehicleId?: string; driverId?: string; from: string; to: string };
+
+/**
+ * Loads inspections with everything a DVIR shows. Returns null when a batch
+ * filter matches more than MAX_DVIR_BATCH inspections; ids that aren't uuids
+ * match nothing.
+ */
+export async function loadDvirRecords(filter: DvirFilter): Promise<DvirRecord[] | null> {
+  const filterIds = "ids" in filter ? filter.ids : [filter.vehicleId, filter.driverId];
+  if (filterIds.some((id) => id !== undefined && !UUID_RE.test(id))) return [];
+
+  let query = supabaseAdmin
+    .from("inspections")
+    .select("*")
+    .order("submitted_at", { ascending: true })
+    .limit(MAX_DVIR_BATCH + 1);
+
+  if ("ids" in filter) {
+    query = query.in("id", filter.ids);
+  } else {
+    query = query.gte("inspection_date", filter.from).lte("inspection_date", filter.to);
+    if (filter.vehicleId) query = query.eq("vehicle_id", filter.vehicleId);
+    if (filter.driverId) query = query.eq("driver_id", filter.driverId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  const rows = (data ?? []) as InspectionRow[];
+  if (rows.length > MAX_DVIR_BATCH) return null;
+  if (rows.length === 0) return [];
+
+  const ids = rows.map((r) => r.id);
+  const vehicleIds = [...new Set(rows.map((r) => r.vehicle_id).filter(Boolean))];
+  const [amendmentsRes, vehiclesRes] = await Promise.all([
+    supabaseAdmin
+      .from("inspection_amendments")
+      .select("*")
+      .in("inspection_id", ids)
+      .order("created_at", { ascending: true }),
+    supabaseAdmin
+      .from("vehicles")
+      .select("id, label, year, make, model, plate, vin")
+      .in("id", vehicleIds),
+  ]);
+  if (amendmentsRes.error) throw amendmentsRes.error;
+  if (vehiclesRes.error) throw vehiclesRes.error;
+
+  const vehicles = new Map(((vehiclesRes.data ?? []) as DvirVehicle[]).map((v) => [v.id, v]));
+  const amendmentsByInspection = new Map<string, InspectionAmendment[]>();
+  for (const amendment of (amendmentsRes.data ?? []) as InspectionAmendment[]) {
+    const list = amendmentsByInspection.get(amendment.inspection_id) ?? [];
+    list.push(amendment);
+    amendmentsByInspection.set(amendment.inspection_id, list);
+  }
+
+  const checklists = new Map<string, ChecklistItem[]>();
+  for (const templateId of new Set(rows.map((r) => r.template_id))) {
+    if (!templateId) continue;
+    checklists.set(templateId, (await getTemplate(templateId))?.items ?? []);
+  }
+
+  return rows.map((row) => {
+    const amendments = amendmentsByInspection.get(row.id) ?? [];
+    return {
+      original: row,
+      current: applyAmendments(row, amendments),
+      amendments,
+      checklist: row.template_id ? checklists.get(row.template_id) ?? [] : [],
+      vehicle: vehicles.get(row.vehicle_id) ?? null,
+    };
+  });
+}
+
+// ---- rendering ----
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = MARGIN + 20;
+
+// The standard PDF fonts only cover Windows-1252
+const EXTRA_WIN_ANSI = "–—‘’“”•…€™";
+
+function pdfSafe(text: string) {
+  return text.replace(/[^\n\x20-\x7e\xa0-\xff]/g, (ch) => (EXTRA_WIN_ANSI.includes(ch) ? ch : "?"));
+}
+
+function formatDateTime(iso: string | null) {
+  if (!iso) return "N/A";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("en-US", {
+    timeZone: "America/New_York",
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+function describeAnswer(value: unknown) {
+  if (value == null || value === "") return "—";
+  return String(value).toUpperCase();
+}
+
+class DvirWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(
+    private doc: PDFDocument,
+    private regular: PDFFont,
+    private bold: PDFFont,
+    private continuationTitle: () => string
+  ) {}
+
+  newPage(continued = false) {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+    if (continued) {
+      this.text(`${this.continuationTitle()} (continued)`, { size: 8, color: 0.4 });
+      this.y -= 4;
+    }
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < BOTTOM) this.newPage(true);
+  }
+
+  wrap(text: string, size: number, width: number, bold = false) {
+    const font = bold ? this.bold : this.regular;
+    const lines: string[] = [];
+    for (const paragraph of pdfSafe(text).split("\n")) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width || !line) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(
+    text: string,
+    opts: { size?: number; bold?: boolean; x?: number; width?: number; color?: number } = {}
+  ) {
+    const size = opts.size ?? 9;
+    const x = opts.x ?? MARGIN;
+    const lines = this.wrap(text, size, opts.width ?? CONTENT_WIDTH - (x - MARGIN), opts.bold);
+    for (const line of lines) {
+      this.ensureSpace(size + 3);
+      this.page.drawText(line, {
+        x,
+        y: this.y - size,
+        size,
+        font: opts.bold ? this.bold : this.regular,
+        color: rgb(opts.color ?? 0, opts.color ?? 0, opts.color ?? 0),
+      });
+      this.y -= size + 3;
+    }
+  }
+
+  heading(text: string) {
+    this.y -= 6;
+    this.ensureSpace(30);
+    this.text(text.toUpperCase(), { size: 9, bold: true });
+    this.rule();
+  }
+
+  rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: rgb(0.6, 0.6, 0.6),
+    });
+    this.y -= 4;
+  }
+
+  // Two columns of "Label: value" pairs
+  fields(pairs: [string, string][]) {
+    const half = CONTENT_WIDTH / 2;
+    for (let i = 0; i < pairs.length; i += 2) {
+      const rowTop = this.y;
+      let lowest = rowTop;
+      for (const [col, pair] of [pairs[i], pairs[i + 1]].entries()) {
+        if (!pair) continue;
+        this.y = rowTop;
+        this.text(`${pair[0]}: ${pair[1]}`, { x: MARGIN + col * half, width: half - 8 });
+        lowest = Math.min(lowest, this.y);
+      }
+      this.y = lowest;
+    }
+  }
+
+  // One checklist row: label on the left, answer in a right-hand column
+  itemRow(label: string, answer: string, note: string | null) {
+    const answerX = PAGE_WIDTH - MARGIN - 150;
+    const labelLines = this.wrap(label, 9, answerX - MARGIN - 8);
+    this.ensureSpace(labelLines.length * 12 + (note ? 12 : 0));
+    const rowTop = this.y;
+    this.text(label, { width: answerX - MARGIN - 8 });
+    const labelBottom = this.y;
+    this.y = rowTop;
+    this.text(answer, { x: answerX, bold: true, width: 150 });
+    if (note) this.text(note, { x: answerX, size: 7, color: 0.35, width: 150 });
+    this.y = Math.min(this.y, labelBottom) - 1;
+  }
+
+  async image(pngBytes: Uint8Array, maxWidth: number, maxHeight: number) {
+    const png = await this.doc.embedPng(pngBytes);
+    const scale = Math.min(maxWidth / png.width, maxHeight / png.height, 1);
+    const width = png.width * scale;
+    const height = png.height * scale;
+    this.ensureSpace(height + 4);
+    this.page.drawImage(png, { x: MARGIN, y: this.y - height, width, height });
+    this.y -= height + 4;
+  }
+}
+
+async function writeRecord(writer: DvirWriter, record: DvirRecord) {
+  const { original, current, amendments, checklist, vehicle } = record;
+  const typeLabel = original.inspection_type === "pre" ? "Pre-trip" : "Post-trip";
+  const amended = new Set(amendments.flatMap((a) => Object.keys(a.changes)));
+  const amendedNote = (field: string) => (amended.has(field) ? " (amended)" : "");
+
+  writer.newPage();
+  writer.text(COMPANY_NAME, { size: 14, bold: true });
+  writer.text(REPORT_TITLE, { size: 10 });
+  writer.text(`${typeLabel} inspection · Record ${original.id}`, { size: 7, color: 0.4 });
+  writer.rule();
+
+  writer.fields([
+    ["Driver", original.driver_name],
+    ["Driver license #", original.driver_license_number ?? "N/A"],
+    ["Vehicle", vehicle?.label ?? original.vehicle_label ?? "N/A"],
+    ["Plate", vehicle?.plate ?? "N/A"],
+    ["VIN", vehicle?.vin ?? "N/A"],
+    [
+      "Year/Make/Model",
+      [vehicle?.year, vehicle?.make, vehicle?.model].filter(Boolean).join(" ") || "N/A",
+    ],
+    ["Inspection date", original.inspection_date],
+    ["Submitted", formatDateTime(original.submitted_at)],
+    ["Shift", `${current.shift ?? "N/A"}${amendedNote("shift")}`],
+    ["Odometer", `${current.odometer_reading ?? "N/A"}${amendedNote("odometer_reading")}`],
+    ["Overall status", `${overallStatusLabel(current.overall_status)}${amendedNote("overall_status")}`],
+    ["Checklist version", original.template_version != null ? `v${original.template_version}` : "N/A"],
+  ]);
+
+  writer.heading("Checklist");
+  const answers = current.answers ?? {};
+  const listed = new Set<string>();
+  let category: string | null = null;
+  for (const item of checklist) {
+    if (item.category !== category) {
+      category = item.category;
+      writer.space(2);
+      writer.text(category, { size: 8, bold: true, color: 0.3 });
+    }
+    listed.add(item.item_key);
+    const field = `answers.${item.item_key}`;
+    writer.itemRow(
+      item.label,
+      describeAnswer(answers[item.item_key]),
+      amended.has(field) ? `amended; originally ${describeAnswer(original.answers?.[item.item_key])}` : null
+    );
+  }
+  for (const [key, value] of Object.entries(answers)) {
+    if (!listed.has(key)) writer.itemRow(key, describeAnswer(value), null);
+  }
+
+  if (original.carried_forward?.length) {
+    writer.heading("Carried forward from earlier inspections");
+    for (const ack of original.carried_forward) {
+      writer.text(
+        ack.kind === "defect"
+          ? `${ack.item_label} – ${ack.action}`
+          : `Note "${ack.notes}" – ${ack.action}`
+      );
+    }
+  }
+
+  writer.heading(`Notes / defects${amendedNote("notes")}`);
+  writer.text(current.notes?.trim() || "None reported.");
+
+  writer.heading("Driver certification");
+  writer.text(
+    "I certify that I have completed this inspection and reported all known defects accurately.",
+    { size: 8 }
+  );
+  if (original.signature_image?.startsWith("data:image/png;base64,")) {
+    const base64 = original.signature_image.slice("data:image/png;base64,".length);
+    try {
+      await writer.image(Buffer.from(base64, "base64"), 220, 70);
+    } catch {
+      // One unreadable image must not abort a whole packet
+      writer.text("Signature image unreadable.", { size: 8, color: 0.35 });
+    }
+  }
+  writer.text(`Name: ${original.signature_name ?? "N/A"}`, { bold: true });
+  if (original.signature_signed_at) {
+    writer.text(`Signed (server time): ${formatDateTime(original.signature_signed_at)}`, { size: 7, color: 0.35 });
+  }
+  if (original.signature_device) {
+    writer.text(`Device: ${original.signature_device}`, { size: 7, color: 0.35 });
+  }
+  if (original.answers_hash) {
+    const match = answersMatchSignature(original);
+    writer.text(
+      `Answers SHA-256: ${original.answers_hash}${match === false ? " (DOES NOT MATCH RECORD)" : ""}`,
+      { size: 7, color: 0.35 }
+    );
+  }
+
+  if (amendments.length > 0) {
+    writer.heading("Amendments");
+    for (const amendment of amendments) {
+      writer.text(
+        `${formatDateTime(amendment.created_at)} by ${amendment.amended_by}: ${amendment.reason}`,
+        { bold: true, size: 8 }
+      );
+      for (const [field, change] of Object.entries(amendment.changes)) {
+        const key = field.startsWith("answers.") ? field.slice("answers.".length) : null;
+        const label = key ? checklist.find((i) => i.item_key === key)?.label ?? key : field;
+        writer.text(`${label}: ${describeAnswer(change.from)} -> ${describeAnswer(change.to)}`, {
+          size: 8,
+          x: MARGIN + 10,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Renders one or more inspections into a single PDF.
+ */
+export async function renderDvirPdf(records: DvirRecord[], subtitle: string): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${COMPANY_NAME} – ${REPORT_TITLE}`);
+  doc.setCreator(COMPANY_NAME);
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  let currentTitle = "";
+  const writer = new DvirWriter(doc, regular, bold, () => currentTitle);
+  for (const record of records) {
+    currentTitle = `${record.original.driver_name} · ${
+      record.vehicle?.label ?? record.original.vehicle_label ?? ""
+    } · ${record.original.inspection_date}`;
+    await writeRecord(writer, record);
+  }
+
+  const generated = `Generated ${formatDateTime(new Date().toISOString())} · ${pdfSafe(subtitle)}`;
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    page.drawText(generated, { x: MARGIN, y: MARGIN - 10, size: 7, font: regular, color: rgb(0.4, 0.4, 0.4) });
+    const label = `Page ${index + 1} of ${pages.length}`;
+    page.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(label, 7),
+      y: MARGIN - 10,
+      size: 7,
+      font: regular,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+  });
+
+  return doc.save();
+}
@@ -0,0 +1,82 @@
+import ExcelJS from "exceljs";
+import { EXPORT_FIELDS, type ExportRecord } from "@/lib/inspections/search";
+import type { ItemColumn } from "@/lib/inspections/templates";
+
+// Server-only rendering of inspection exports. Every format has the record
+// fields first and then one column per checklist item, keyed by item_key.
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+function headerRow(items: ItemColumn[]) {
+  return [...EXPORT_FIELDS, ...items.map((item) => `${item.label} [${item.item_key}]`)];
+}
+
+function valueRow(record: ExportRecord, items: ItemColumn[]): (string | number | null)[] {
+  return [
+    ...EXPORT_FIELDS.map((field) => {
+      const value = record[field];
+      return typeof value === "boolean" ? (value ? "yes" : "no") : value;
+    }),
+    ...items.map((item) => record.answers[item.item_key] ?? null),
+  ];
+}
+
+function toCsv(records: ExportRecord[], items: ItemColumn[]) {
+  const escape = (field: string | number | null) => {
+    let str = String(field ?? "");
+    // Driver-entered text must not run as a spreadsheet formula
+    if (typeof field === "string" && /^[=+\-@]/.test(str)) str = `'${str}`;
+    if (/[",\r\n]/.test(str)) {
+      return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+  };
+  return [headerRow(items), ...records.map((r) => valueRow(r, items))]
+    .map((row) => row.map(escape).join(","))
+    .join("\n");
+}
+
+async function toXlsx(records: ExportRecord[], items: ItemColumn[]) {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Inspections", { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.addRow(headerRow(items)).font = { bold: true };
+  for (const record of records) sheet.addRow(valueRow(record, items));
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * The export file body and content type for `format`.
+ */
+export async function renderInspectionExport(
+  format: ExportFormat,
+  records: ExportRecord[],
+  items: ItemColumn[]
+): Promise<{ body: string | Buffer; contentType: string }> {
+  if (format === "xlsx") {
+    return {
+      body: await toXlsx(records, items),
+      contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    };
+  }
+  if (format === "json") {
+    return {
+      body: JSON.stringify(
+        {
+          exported_at: new Date().toISOString(),
+          checklist_items: items,
+          inspections: records,
+        },
+        null,
+        2
+      ),
+      contentType: "application/json",
+    };
+  }
+  return { body: toCsv(records, items), contentType: "text/csv;charset=utf-8" };
+}
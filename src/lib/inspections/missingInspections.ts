@@ -0,0 +1,149 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { SHIFTS, shiftForDirection, type Shift } from "@/lib/inspections/shifts";
+
+// Server-only detection of assigned drivers who are missing a pre-trip or
+// post-trip inspection for a shift. Work dates are YYYY-MM-DD, stamped the
+// same way as route completions and attendance records.
+
+export type MissingInspection = {
+  work_date: string;
+  driver_id: string;
+  driver_name: string;
+  shift: Shift;
+  vehicles: { id: string; label: string }[];
+  routes: { id: string; name: string; direction: string }[];
+  // A route completion or attendance record shows the route was actually run
+  ran_route: boolean;
+  pre_trip_id: string | null;
+  post_trip_id: string | null;
+  missing: ("pre" | "post")[];
+};
+
+function dayOfWeek(ymd: string) {
+  return new Date(`${ymd}T00:00:00Z`).getUTCDay();
+}
+
+type AssignmentRow = {
+  driver_id: string;
+  vehicle_id: string | null;
+  route_id: string;
+  drivers: { full_name: string } | null;
+  vehicles: { label: string } | null;
+  routes: {
+    name: string;
+    direction: string | null;
+    is_active: boolean;
+    effective_start_date: string | null;
+    effective_end_date: string | null;
+  } | null;
+};
+
+/**
+ * Every driver/shift on `workDate` that is missing a pre-trip or post-trip,
+ * based on the driver's route assignments for that weekday.
+ */
+export async function detectMissingInspections(workDate: string): Promise<MissingInspection[]> {
+  const { data: assignmentData, error: assignErr } = await supabaseAdmin
+    .from("driver_route_assignments")
+    .select(
+      "driver_id, vehicle_id, route_id, drivers(full_name), vehicles(label), routes(name, direction, is_active, effective_start_date, effective_end_date)"
+    )
+    .eq("day_of_week", dayOfWeek(workDate))
+    .eq("is_active", true);
+  if (assignErr) throw assignErr;
+
+  const assignments = ((assignmentData ?? []) as unknown as AssignmentRow[]).filter((a) => {
+    const route = a.routes;
+    if (!a.driver_id || !route || route.is_active === false) return false;
+    if (route.effective_start_date && workDate < route.effective_start_date) return false;
+    if (route.effective_end_date && workDate > route.effective_end_date) return false;
+    return true;
+  });
+  if (assignments.length === 0) return [];
+
+  const driverIds = [...new Set(assignments.map((a) => a.driver_id))];
+  const [inspectionsRes, completionsRes, attendanceRes] = await Promise.all([
+    supabaseAdmin
+      .from("inspections")
+      .select("id, driver_id, inspection_type, shift")
+      .eq("inspection_date", workDate)
+      .in("driver_id", driverIds),
+    supabaseAdmin
+      .from("driver_route_completions")
+      .select("driver_id, route_id")
+      .eq("work_date", workDate)
+      .in("driver_id", driverIds),
+    supabaseAdmin
+      .from("attendance_records")
+      .select("driver_id, route_id")
+      .eq("record_date", workDate)
+      .in("driver_id", driverIds),
+  ]);
+  if (inspectionsRes.error) throw inspectionsRes.error;
+  if (completionsRes.error) throw completionsRes.error;
+  if (attendanceRes.error) throw attendanceRes.error;
+
+  const ranRoutes = new Set(
+    [...(completionsRes.data ?? []), ...(attendanceRes.data ?? [])].map((r) => `${r.driver_id}:${r.route_id}`)
+  );
+
+  const inspectionFor = (driverId: string, shift: Shift, type: "pre" | "post") =>
+    (inspectionsRes.data ?? []).find(
+      (i) => i.driver_id === driverId && i.inspection_type === type && shiftForDirection(i.shift) === shift
+    )?.id ?? null;
+
+  const byDriverShift = new Map<string, MissingInspection>();
+  for (const a of assignments) {
+    const shift = shiftForDirection(a.routes!.direction);
+    const key = `${a.driver_id}:${shift}`;
+    let row = byDriverShift.get(key);
+    if (!row) {
+      row = {
+        work_date: workDate,
+        driver_id: a.driver_id,
+        driver_name: a.drivers?.full_name ?? "Unknown driver",
+        shift,
+        vehicles: [],
+        routes: [],
+        ran_route: false,
+        pre_trip_id: inspectionFor(a.driver_id, shift, "pre"),
+        post_trip_id: inspectionFor(a.driver_id, shift, "post"),
+        missing: [],
+      };
+      byDriverShift.set(key, row);
+    }
+    if (a.vehicle_id && !row.vehicles.some((v) => v.id === a.vehicle_id)) {
+      row.vehicles.push({ id: a.vehicle_id, label: a.vehicles?.label ?? "Unknown vehicle" });
+    }
+    row.routes.push({ id: a.route_id, name: a.routes!.name, direction: a.routes!.direction ?? "" });
+    if (ranRoutes.has(`${a.driver_id}:${a.route_id}`)) row.ran_route = true;
+  }
+
+  const rows = [...byDriverShift.values()];
+  for (const row of rows) {
+    if (!row.pre_trip_id) row.missing.push("pre");
+    if (!row.post_trip_id) row.missing.push("post");
+  }
+
+  return rows
+    .filter((row) => row.missing.length > 0)
+    .sort((a, b) =>
+      a.shift !== b.shift
+        ? SHIFTS.indexOf(a.shift) - SHIFTS.indexOf(b.shift)
+        : a.driver_name.localeCompare(b.driver_name)
+    );
+}
+
+/**
+ * Missing inspections for each date from `from` to `to`, inclusive.
+ */
+export async function detectMissingInspectionsBetween(from: string, to: string) {
+  const rows: MissingInspection[] = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (cursor <= end) {
+    rows.push(...(await detectMissingInspections(cursor.toISOString().slice(0, 10))));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return rows;
+}
@@ -0,0 +1,139 @@
+import { randomUUID } from "node:crypto";
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { getBucket, INSPECTION_PHOTOS_BUCKET } from "@/lib/storage";
+
+// Server-only helpers for photo evidence on failed checklist items.
+
+export const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+};
+
+export type InspectionPhoto = {
+  id: string;
+  driver_id: string;
+  inspection_id: string | null;
+  item_key: string;
+  storage_path: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+};
+
+export function isAllowedPhotoType(contentType: string) {
+  return contentType in PHOTO_EXTENSIONS;
+}
+
+/**
+ * Stores an uploaded photo for `itemKey` that isn't linked to an inspection
+ * yet. It is attached when the driver submits the form.
+ */
+export async function savePendingPhoto(
+  driverId: string,
+  itemKey: string,
+  file: File
+): Promise<InspectionPhoto> {
+  const storagePath = `${driverId}/${randomUUID()}.${PHOTO_EXTENSIONS[file.type]}`;
+  const data = Buffer.from(await file.arrayBuffer());
+
+  await getBucket(INSPECTION_PHOTOS_BUCKET).put(storagePath, data, file.type);
+
+  const { data: photo, error } = await supabaseAdmin
+    .from("inspection_photos")
+    .insert({
+      driver_id: driverId,
+      item_key: itemKey,
+      storage_path: storagePath,
+      content_type: file.type,
+      size_bytes: data.length,
+    })
+    .select()
+    .single();
+  if (error) {
+    await getBucket(INSPECTION_PHOTOS_BUCKET).remove(storagePath);
+    throw error;
+  }
+  return photo as InspectionPhoto;
+}
+
+/**
+ * Links the driver's pending photos to a submitted inspection. Only photos of
+ * items that were actually marked failed are attached.
+ */
+export async function attachPhotos(
+  inspectionId: string,
+  driverId: string,
+  photoIds: string[],
+  failedItemKeys: string[]
+) {
+  if (photoIds.length === 0 || failedItemKeys.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from("inspection_photos")
+    .update({ inspection_id: inspectionId })
+    .in("id", photoIds)
+    .in("item_key", failedItemKeys)
+    .eq("driver_id", driverId)
+    .is("inspection_id", null);
+  if (error) throw error;
+}
+
+export async function getPhoto(id: string): Promise<InspectionPhoto | null> {
+  const { data, error } = await supabaseAdmin
+    .from("inspection_photos")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as InspectionPhoto | null) ?? null;
+}
+
+/**
+ * Photo metadata for an inspection (no file contents), oldest first.
+ */
+export async function listInspectionPhotos(inspectionId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("inspection_photos")
+    .select("id, item_key, created_at")
+    .eq("inspection_id", inspectionId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Deletes a photo the driver took but no longer wants. Photos that are
+ * already part of a submitted inspection are kept.
+ */
+export async function deletePendingPhoto(photo: InspectionPhoto) {
+  if (photo.inspection_id) return false;
+
+  const { error } = await supabaseAdmin
+    .from("inspection_photos")
+    .delete()
+    .eq("id", photo.id)
+    .is("inspection_id", null);
+  if (error) throw error;
+
+  await getBucket(INSPECTION_PHOTOS_BUCKET).remove(photo.storage_path);
+  return true;
+}
+
+/**
+ * Streams the stored file back as an image response.
+ */
+export async function photoResponse(photo: InspectionPhoto) {
+  const file = await getBucket(INSPECTION_PHOTOS_BUCKET).get(photo.storage_path);
+  if (!file) return null;
+
+  return new Response(new Uint8Array(file.data), {
+    headers: {
+      "Content-Type": file.contentType,
+      "Cache-Control": "private, max-age=3600",
+    },
+  });
+}
@@ -0,0 +1,151 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { applyAmendments, type InspectionAmendment } from "@/lib/inspections/amendments";
+import { isFailingStatus } from "@/lib/inspections/status";
+
+// Server-only supervisor review of failed or noted inspections. The review is
+// a separate, final sign-off record; the inspection itself never changes.
+
+const QUEUE_COLUMNS =
+  "id, driver_id, driver_name, vehicle_id, vehicle_label, inspection_type, shift, inspection_date, submitted_at, overall_status, notes, answers";
+
+export type InspectionReview = {
+  id: string;
+  inspection_id: string;
+  action_taken: string;
+  reviewed_by: string;
+  reviewed_by_admin_id: string | null;
+  reviewed_at: string;
+};
+
+export type ReviewQueueItem = {
+  id: string;
+  driver_id: string | null;
+  driver_name: string;
+  vehicle_id: string | null;
+  vehicle_label: string | null;
+  inspection_type: string;
+  shift: string | null;
+  inspection_date: string;
+  submitted_at: string;
+  overall_status: string | null;
+  notes: string | null;
+  answers: Record<string, string> | null;
+};
+
+/**
+ * Whether an inspection (as amended) needs a supervisor's sign-off: it failed,
+ * passed with minor defects, or the driver left notes. The
+ * inspection_review_queue view applies the same rule in SQL.
+ */
+export function needsReview(inspection: { overall_status: string | null; notes: string | null }) {
+  return (
+    isFailingStatus(inspection.overall_status) ||
+    inspection.overall_status === "pass_minor_defects" ||
+    Boolean(inspection.notes?.trim())
+  );
+}
+
+export async function getReview(inspectionId: string): Promise<InspectionReview | null> {
+  const { data, error } = await supabaseAdmin
+    .from("inspection_reviews")
+    .select("*")
+    .eq("inspection_id", inspectionId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as InspectionReview | null) ?? null;
+}
+
+type QueueRow = ReviewQueueItem & {
+  inspection_amendments: InspectionAmendment[] | null;
+};
+
+export type ReviewQueueSummary = {
+  total: number;
+  out_of_service: number;
+  oldest_submitted_at: string | null;
+};
+
+function queueView() {
+  return supabaseAdmin.from("inspection_review_queue");
+}
+
+/**
+ * One page (1-based) of unreviewed inspections that need a sign-off,
+ * out-of-service failures first and then oldest first. The queue is the
+ * inspection_review_queue view, which applies amended status and notes, so a
+ * record corrected to a failure joins the queue and one corrected to a clean
+ * pass leaves it.
+ */
+export async function listReviewQueue(page: number, pageSize: number): Promise<ReviewQueueItem[]> {
+  const offset = (page - 1) * pageSize;
+  const { data: queued, error: queueErr } = await queueView()
+    .select("id")
+    .order("out_of_service", { ascending: false })
+    .order("submitted_at", { ascending: true })
+    .order("id", { ascending: true })
+    .range(offset, offset + pageSize - 1);
+  if (queueErr) throw queueErr;
+
+  const ids = (queued ?? []).map((row) => row.id as string);
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from("inspections")
+    .select(`${QUEUE_COLUMNS}, inspection_amendments(*)`)
+    .in("id", ids);
+  if (error) throw error;
+
+  const rows = new Map(((data ?? []) as unknown as QueueRow[]).map((row) => [row.id, row]));
+  return ids.flatMap((id) => {
+    const row = rows.get(id);
+    if (!row) return [];
+    const amendments = [...(row.inspection_amendments ?? [])].sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    );
+    const inspection = { ...row } as Partial<QueueRow> & ReviewQueueItem & { vehicle_id: string };
+    delete inspection.inspection_amendments;
+    return [applyAmendments(inspection, amendments) as ReviewQueueItem];
+  });
+}
+
+/**
+ * Queue size, out-of-service count and the oldest waiting submission.
+ */
+export async function reviewQueueSummary(): Promise<ReviewQueueSummary> {
+  const [totalRes, outOfServiceRes, oldestRes] = await Promise.all([
+    queueView().select("id", { count: "exact", head: true }),
+    queueView().select("id", { count: "exact", head: true }).eq("out_of_service", true),
+    queueView().select("submitted_at").order("submitted_at", { ascending: true }).limit(1).maybeSingle(),
+  ]);
+  if (totalRes.error) throw totalRes.error;
+  if (outOfServiceRes.error) throw outOfServiceRes.error;
+  if (oldestRes.error) throw oldestRes.error;
+
+  return {
+    total: totalRes.count ?? 0,
+    out_of_service: outOfServiceRes.count ?? 0,
+    oldest_submitted_at: (oldestRes.data?.submitted_at as string | undefined) ?? null,
+  };
+}
+
+export async function createReview(params: {
+  inspectionId: string;
+  actionTaken: string;
+  reviewedBy: string;
+  reviewedByAdminId: string | null;
+}): Promise<InspectionReview | null> {
+  const { data, error } = await supabaseAdmin
+    .from("inspection_reviews")
+    .insert({
+      inspection_id: params.inspectionId,
+      action_taken: params.actionTaken,
+      reviewed_by: params.reviewedBy,
+      reviewed_by_admin_id: params.reviewedByAdminId,
+    })
+    .select()
+    .single();
+  // Someone else signed off first
+  if (error?.code === "23505") return null;
+  if (error) throw error;
+  return data as InspectionReview;
+}
@@ -0,0 +1,261 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { applyAmendments, type InspectionAmendment } from "@/lib/inspections/amendments";
+import {
+  isInspectionType,
+  listItemColumns,
+  type InspectionType,
+  type ItemColumn,
+} from "@/lib/inspections/templates";
+
+// Server-only inspection search for the admin Inspections tab and its
+// exports. Filters match the record as submitted; exports show it as amended.
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const MAX_PAGE_SIZE = 200;
+
+// Supabase caps each response, so exports are read in pages
+const EXPORT_PAGE_SIZE = 1000;
+
+export type InspectionFilters = {
+  from: string | null;
+  to: string | null;
+  driverId: string | null;
+  vehicleId: string | null;
+  type: InspectionType | null;
+  shift: string | null;
+  status: string | null;
+};
+
+/**
+ * Reads the filters from a query string, or returns an error message.
+ */
+export function parseInspectionFilters(
+  params: URLSearchParams
+): { filters: InspectionFilters } | { error: string } {
+  const from = params.get("from") || null;
+  const to = params.get("to") || null;
+  if ((from && !DATE_RE.test(from)) || (to && !DATE_RE.test(to)) || (from && to && from > to)) {
+    return { error: "Choose a valid date range." };
+  }
+
+  const type = params.get("type") || null;
+  if (type && !isInspectionType(type)) {
+    return { error: "type must be pre or post." };
+  }
+
+  return {
+    filters: {
+      from,
+      to,
+      driverId: params.get("driverId") || null,
+      vehicleId: params.get("vehicleId") || null,
+      type: type && isInspectionType(type) ? type : null,
+      shift: params.get("shift") || null,
+      status: params.get("status") || null,
+    },
+  };
+}
+
+function filteredQuery(columns: string, filters: InspectionFilters, count?: "exact") {
+  let query = supabaseAdmin.from("inspections").select(columns, count ? { count } : undefined);
+  if (filters.from) query = query.gte("inspection_date", filters.from);
+  if (filters.to) query = query.lte("inspection_date", filters.to);
+  if (filters.driverId) query = query.eq("driver_id", filters.driverId);
+  if (filters.vehicleId) query = query.eq("vehicle_id", filters.vehicleId);
+  if (filters.type) query = query.eq("inspection_type", filters.type);
+  if (filters.shift) query = query.eq("shift", filters.shift);
+  if (filters.status) query = query.eq("overall_status", filters.status);
+  return query
+    .order("submitted_at", { ascending: false })
+    .order("id", { ascending: false });
+}
+
+export type InspectionSearchRow = {
+  id: string;
+  inspection_type: string;
+  shift: string | null;
+  submitted_at: string | null;
+  inspection_date: string | null;
+  overall_status: string | null;
+  driver_name: string;
+  vehicle_label: string | null;
+  driver_id: string | null;
+  vehicle_id: string | null;
+  photo_count: number;
+};
+
+/**
+ * One page (1-based) of matching inspections, newest first, with the total
+ * number of matches.
+ */
+export async function searchInspections(
+  filters: InspectionFilters,
+  page: number,
+  pageSize: number
+): Promise<{ inspections: InspectionSearchRow[]; total: number }> {
+  // Older records used other names for some columns
+  type Row = {
+    id: string;
+    driver_id: string | null;
+    vehicle_id: string | null;
+    inspection_photos: { id: string }[] | null;
+  } & Partial<
+    Record<
+      | "inspection_type"
+      | "type"
+      | "shift"
+      | "shift_name"
+      | "submitted_at"
+      | "created_at"
+      | "inspection_date"
+      | "date"
+      | "overall_status"
+      | "status"
+      | "driver_name"
+      | "driver"
+      | "driver_full_name"
+      | "vehicle_label"
+      | "vehicle"
+      | "vehicle_label_full",
+      string | null
+    >
+  >;
+
+  const offset = (page - 1) * pageSize;
+  const { data, error, count } = await filteredQuery("*, inspection_photos(id)", filters, "exact").range(
+    offset,
+    offset + pageSize - 1
+  );
+  if (error) throw error;
+
+  // Normalize the column name variations older records used
+  const inspections = ((data ?? []) as unknown as Row[]).map((row) => ({
+    id: row.id,
+    inspection_type: row.inspection_type ?? row.type ?? "pre",
+    shift: row.shift ?? row.shift_name ?? null,
+    submitted_at: row.submitted_at ?? row.created_at ?? null,
+    inspection_date: row.inspection_date ?? row.date ?? null,
+    overall_status: row.overall_status ?? row.status ?? null,
+    driver_name:
+      row.driver_name ??
+      row.driver ??
+      row.driver_full_name ??
+      (row.driver_id ? `Driver ${row.driver_id}` : "Unknown driver"),
+    vehicle_label:
+      row.vehicle_label ??
+      row.vehicle ??
+      row.vehicle_label_full ??
+      (row.vehicle_id ? `Vehicle ${row.vehicle_id}` : null),
+    driver_id: row.driver_id ?? null,
+    vehicle_id: row.vehicle_id ?? null,
+    photo_count: row.inspection_photos?.length ?? 0,
+  }));
+
+  return { inspections, total: count ?? 0 };
+}
+
+export type ExportRecord = {
+  id: string;
+  inspection_date: string | null;
+  submitted_at: string | null;
+  driver_name: string | null;
+  driver_license_number: string | null;
+  vehicle_label: string | null;
+  inspection_type: string;
+  shift: string | null;
+  overall_status: string | null;
+  odometer_reading: string | null;
+  notes: string | null;
+  signature_name: string | null;
+  signature_signed_at: string | null;
+  signature_device: string | null;
+  answers_hash: string | null;
+  template_version: number | null;
+  amended: boolean;
+  answers: Record<string, string>;
+};
+
+// Record fields in export column order; checklist items follow them
+export const EXPORT_FIELDS: (keyof Omit<ExportRecord, "answers">)[] = [
+  "id",
+  "inspection_date",
+  "submitted_at",
+  "driver_name",
+  "driver_license_number",
+  "vehicle_label",
+  "inspection_type",
+  "shift",
+  "overall_status",
+  "odometer_reading",
+  "notes",
+  "signature_name",
+  "signature_signed_at",
+  "signature_device",
+  "answers_hash",
+  "template_version",
+  "amended",
+];
+
+/**
+ * Every matching inspection with its full detail, as amended, and the
+ * checklist items that appear in any of them (one export column each).
+ */
+export async function exportInspections(
+  filters: InspectionFilters
+): Promise<{ records: ExportRecord[]; items: ItemColumn[] }> {
+  type Row = Record<string, unknown> & {
+    id: string;
+    vehicle_id: string;
+    answers: Record<string, string> | null;
+    inspection_amendments: InspectionAmendment[] | null;
+  };
+
+  const rows: Row[] = [];
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const { data, error } = await filteredQuery("*, inspection_amendments(*)", filters).range(
+      offset,
+      offset + EXPORT_PAGE_SIZE - 1
+    );
+    if (error) throw error;
+    rows.push(...((data ?? []) as unknown as Row[]));
+    if (!data || data.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  const records: ExportRecord[] = rows.map((row) => {
+    const amendments = [...(row.inspection_amendments ?? [])].sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    );
+    const current = applyAmendments(row, amendments) as Row;
+    const text = (value: unknown) => (value == null || value === "" ? null : String(value));
+    return {
+      id: row.id,
+      inspection_date: text(current.inspection_date),
+      submitted_at: text(current.submitted_at),
+      driver_name: text(current.driver_name),
+      driver_license_number: text(current.driver_license_number),
+      vehicle_label: text(current.vehicle_label),
+      inspection_type: String(current.inspection_type ?? ""),
+      shift: text(current.shift),
+      overall_status: text(current.overall_status),
+      odometer_reading: text(current.odometer_reading),
+      notes: text(current.notes),
+      signature_name: text(current.signature_name),
+      signature_signed_at: text(current.signature_signed_at),
+      signature_device: text(current.signature_device),
+      answers_hash: text(current.answers_hash),
+      template_version: typeof current.template_version === "number" ? current.template_version : null,
+      amended: amendments.length > 0,
+      answers: current.answers ?? {},
+    };
+  });
+
+  const used = new Set(records.flatMap((r) => Object.keys(r.answers)));
+  const known = (await listItemColumns()).filter((column) => used.has(column.item_key));
+  const unknown = [...used]
+    .filter((key) => !known.some((column) => column.item_key === key))
+    .sort()
+    .map((key) => ({ item_key: key, label: key, category: "", inspection_type: "pre" as const }));
+
+  return { records, items: [...known, ...unknown] };
+}
@@ -0,0 +1,29 @@
+// The inspection shifts of a driver's day, in the order they are driven
+
+export const SHIFTS = ["AM", "Midday", "PM"] as const;
+
+export type Shift = (typeof SHIFTS)[number];
+
+export function isShift(value: unknown): value is Shift {
+  return SHIFTS.includes(value as Shift);
+}
+
+/**
+ * The shift that covers a route direction ("AM", "MIDDAY", "PM") or an
+ * inspection's stored shift ("AM", "Midday", "PM").
+ */
+export function shiftForDirection(direction: string | null): Shift {
+  const value = direction?.toUpperCase();
+  if (value === "MIDDAY") return "Midday";
+  if (value === "PM") return "PM";
+  return "AM";
+}
+
+/**
+ * Route counts per shift, for the portal's pre-trip/post-trip gating.
+ */
+export function countRoutesByShift(routes: { direction: string | null }[]): Record<Shift, number> {
+  const counts: Record<Shift, number> = { AM: 0, Midday: 0, PM: 0 };
+  for (const route of routes) counts[shiftForDirection(route.direction)] += 1;
+  return counts;
+}
@@ -0,0 +1,52 @@
+// Item severities and the overall inspection status computed from them
+
+export const ITEM_SEVERITIES = ["minor", "major", "critical"] as const;
+
+export type ItemSeverity = (typeof ITEM_SEVERITIES)[number];
+
+export const SEVERITY_LABELS: Record<ItemSeverity, string> = {
+  minor: "Minor",
+  major: "Major",
+  critical: "Critical",
+};
+
+export type OverallStatus = "pass" | "pass_minor_defects" | "fail" | "fail_out_of_service";
+
+const OVERALL_STATUS_LABELS: Record<OverallStatus, string> = {
+  pass: "Pass",
+  pass_minor_defects: "Pass with minor defects",
+  fail: "Fail",
+  fail_out_of_service: "Fail – out of service",
+};
+
+export function isItemSeverity(value: unknown): value is ItemSeverity {
+  return ITEM_SEVERITIES.includes(value as ItemSeverity);
+}
+
+/**
+ * Worst failure wins: any critical failure takes the vehicle out of service,
+ * any major failure fails the inspection, and minor failures alone still pass.
+ */
+export function computeOverallStatus(
+  items: { item_key: string; severity: ItemSeverity }[],
+  answers: Record<string, string | undefined>
+): OverallStatus {
+  const failed = items.filter((item) => answers[item.item_key] === "fail");
+  if (failed.some((item) => item.severity === "critical")) return "fail_out_of_service";
+  if (failed.some((item) => item.severity === "major")) return "fail";
+  if (failed.length > 0) return "pass_minor_defects";
+  return "pass";
+}
+
+/**
+ * Display label for a stored status, including the plain "pass"/"fail" of
+ * inspections submitted before statuses were computed on the server.
+ */
+export function overallStatusLabel(status: string | null | undefined) {
+  if (!status) return "N/A";
+  return OVERALL_STATUS_LABELS[status as OverallStatus] ?? status.toUpperCase();
+}
+
+export function isFailingStatus(status: string | null | undefined) {
+  return status === "fail" || status === "fail_out_of_service";
+}
@@ -0,0 +1,153 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { ApplicabilityRule } from "@/lib/inspections/applicability";
+import type { ItemSeverity } from "@/lib/inspections/status";
+import type { ItemTranslations } from "@/lib/i18n";
+
+// Server-only access to versioned checklist templates. Versions are immutable;
+// inspections store template_id/template_version and answers keyed by item_key.
+
+export type InspectionType = "pre" | "post";
+
+export type ChecklistItem = ApplicabilityRule & {
+  item_key: string;
+  label: string;
+  category: string;
+  sort_order: number;
+  // minor failures still pass; critical failures take the vehicle out of service
+  severity: ItemSeverity;
+  // driver-portal wording per language; the English label above is canonical
+  translations: ItemTranslations;
+};
+
+export type ChecklistTemplate = {
+  id: string;
+  inspection_type: InspectionType;
+  version: number;
+  is_active: boolean;
+  notes: string | null;
+  created_at: string;
+  items: ChecklistItem[];
+};
+
+const TEMPLATE_COLUMNS =
+  "id, inspection_type, version, is_active, notes, created_at, checklist_template_items(item_key, label, category, sort_order, severity, translations, requires_wheelchair, requires_lift, min_vehicle_year, min_seating_capacity)";
+
+type TemplateRow = Omit<ChecklistTemplate, "items"> & {
+  checklist_template_items: ChecklistItem[] | null;
+};
+
+function toTemplate(row: TemplateRow): ChecklistTemplate {
+  const { checklist_template_items, ...template } = row;
+  return {
+    ...template,
+    items: [...(checklist_template_items ?? [])].sort(
+      (a, b) => a.sort_order - b.sort_order
+    ),
+  };
+}
+
+export function isInspectionType(value: unknown): value is InspectionType {
+  return value === "pre" || value === "post";
+}
+
+export async function getActiveTemplate(
+  inspectionType: InspectionType
+): Promise<ChecklistTemplate | null> {
+  const { data, error } = await supabaseAdmin
+    .from("checklist_templates")
+    .select(TEMPLATE_COLUMNS)
+    .eq("inspection_type", inspectionType)
+    .eq("is_active", true)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toTemplate(data as TemplateRow) : null;
+}
+
+export async function getTemplate(id: string): Promise<ChecklistTemplate | null> {
+  const { data, error } = await supabaseAdmin
+    .from("checklist_templates")
+    .select(TEMPLATE_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toTemplate(data as TemplateRow) : null;
+}
+
+export async function listTemplates(inspectionType?: InspectionType) {
+  let query = supabaseAdmin
+    .from("checklist_templates")
+    .select(TEMPLATE_COLUMNS)
+    .order("inspection_type", { ascending: false })
+    .order("version", { ascending: false });
+  if (inspectionType) query = query.eq("inspection_type", inspectionType);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data ?? []) as TemplateRow[]).map(toTemplate);
+}
+
+export type ItemColumn = {
+  item_key: string;
+  label: string;
+  category: string;
+  inspection_type: InspectionType;
+};
+
+/**
+ * Every item_key used by any version, with its newest wording. Pre-trip items
+ * come first, each in the order of the newest version that has it.
+ */
+export async function listItemColumns(): Promise<ItemColumn[]> {
+  const columns = new Map<string, ItemColumn>();
+  for (const template of await listTemplates()) {
+    for (const item of template.items) {
+      if (columns.has(item.item_key)) continue;
+      columns.set(item.item_key, {
+        item_key: item.item_key,
+        label: item.label,
+        category: item.category,
+        inspection_type: template.inspection_type,
+      });
+    }
+  }
+  return [...columns.values()];
+}
+
+/**
+ * Makes `templateId` the version drivers see for its inspection type.
+ */
+export async function activateTemplate(templateId: string, inspectionType: InspectionType) {
+  const { error: clearErr } = await supabaseAdmin
+    .from("checklist_templates")
+    .update({ is_active: false })
+    .eq("inspection_type", inspectionType)
+    .eq("is_active", true)
+    .neq("id", templateId);
+  if (clearErr) throw clearErr;
+
+  const { error } = await supabaseAdmin
+    .from("checklist_templates")
+    .update({ is_active: true })
+    .eq("id", templateId);
+  if (error) throw error;
+}
+
+/**
+ * Turns a label into an item_key, avoiding keys already in use.
+ */
+export function makeItemKey(label: string, taken: Set<string>): string {
+  const base =
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 40) || "item";
+
+  let key = base;
+  let n = 2;
+  while (taken.has(key)) {
+    key = `${base}_${n}`;
+    n += 1;
+  }
+  return key;
+}
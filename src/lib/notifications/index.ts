@@ -0,0 +1,30 @@
+import type { NotificationChannel, Notifier } from "@/lib/notifications/notifier";
+import { localNotifier } from "@/lib/notifications/localNotifier";
+import { webhookNotifier } from "@/lib/notifications/webhookNotifier";
+
+// Server-only SMS/email delivery. NOTIFICATIONS_DRIVER=webhook posts messages
+// to NOTIFICATIONS_WEBHOOK_URL; anything else (the default, for local
+// development) writes them to a local outbox file instead of sending them.
+
+export type { NotificationChannel, Notifier, OutgoingNotification } from "@/lib/notifications/notifier";
+
+export function getNotifier(): Notifier {
+  const url = process.env.NOTIFICATIONS_WEBHOOK_URL;
+  return process.env.NOTIFICATIONS_DRIVER === "webhook" && url ? webhookNotifier(url) : localNotifier();
+}
+
+/**
+ * Who dispatch escalations go to: comma-separated phone numbers in
+ * DISPATCH_ALERT_SMS and email addresses in DISPATCH_ALERT_EMAIL.
+ */
+export function dispatchRecipients(): { channel: NotificationChannel; to: string }[] {
+  const list = (value: string | undefined) =>
+    (value ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+  return [
+    ...list(process.env.DISPATCH_ALERT_SMS).map((to) => ({ channel: "sms" as const, to })),
+    ...list(process.env.DISPATCH_ALERT_EMAIL).map((to) => ({ channel: "email" as const, to })),
+  ];
+}
@@ -0,0 +1,25 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import type { Notifier } from "@/lib/notifications/notifier";
+
+// Local stand-in for an SMS/email gateway. Each message is appended as one
+// JSON line to "outbox.jsonl" under NOTIFICATIONS_LOCAL_DIR and logged to the
+// server console.
+
+function outboxFile() {
+  return path.join(path.resolve(process.env.NOTIFICATIONS_LOCAL_DIR || ".outbox"), "outbox.jsonl");
+}
+
+export function localNotifier(): Notifier {
+  return {
+    async send(notification) {
+      const file = outboxFile();
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(
+        file,
+        `${JSON.stringify({ ...notification, sent_at: new Date().toISOString() })}\n`
+      );
+      console.warn(`[${notification.channel} to ${notification.to}] ${notification.subject}: ${notification.body}`);
+    },
+  };
+}
@@ -0,0 +1,15 @@
+// Shared notification types. Implementations live next to this file; callers
+// get one through getNotifier() in "@/lib/notifications".
+
+export type NotificationChannel = "sms" | "email";
+
+export type OutgoingNotification = {
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  body: string;
+};
+
+export type Notifier = {
+  send(notification: OutgoingNotification): Promise<void>;
+};
@@ -0,0 +1,24 @@
+import type { Notifier } from "@/lib/notifications/notifier";
+
+// Hands each message to an SMS/email gateway as a JSON POST to
+// NOTIFICATIONS_WEBHOOK_URL, with NOTIFICATIONS_WEBHOOK_SECRET as a bearer
+// token when set.
+
+export function webhookNotifier(url: string): Notifier {
+  return {
+    async send(notification) {
+      const secret = process.env.NOTIFICATIONS_WEBHOOK_SECRET;
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(secret ? { Authorization: `Bearer ${secret}` } : {}),
+        },
+        body: JSON.stringify(notification),
+      });
+      if (!res.ok) {
+        throw new Error(`Notification webhook returned ${res.status}`);
+      }
+    },
+  };
+}
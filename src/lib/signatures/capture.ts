@@ -0,0 +1,83 @@
+import { createHash } from "node:crypto";
+import type { NextRequest } from "next/server";
+
+// Server-only helpers for drawn signatures on inspections and timecards. The
+// image is kept with the signed record together with the device it was drawn
+// on, the server time it was received and a hash of what was signed.
+
+// A signature PNG from the pad is a few kilobytes; anything larger is not one
+const MAX_SIGNATURE_BYTES = 200 * 1024;
+const SIGNATURE_PREFIX = "data:image/png;base64,";
+
+export type SignatureCapture = {
+  image: string;
+  device: string | null;
+  signedAt: string;
+};
+
+/**
+ * Returns the signature as a PNG data URL, or null if `value` isn't one.
+ */
+export function parseSignatureImage(value: unknown): string | null {
+  if (typeof value !== "string" || !value.startsWith(SIGNATURE_PREFIX)) return null;
+  const base64 = value.slice(SIGNATURE_PREFIX.length);
+  if (!base64 || !/^[A-Za-z0-9+/]+=*$/.test(base64)) return null;
+  if (Buffer.byteLength(base64, "base64") > MAX_SIGNATURE_BYTES) return null;
+  return value;
+}
+
+export function captureSignature(req: NextRequest, image: string): SignatureCapture {
+  return {
+    image,
+    device: req.headers.get("user-agent")?.slice(0, 512) || null,
+    signedAt: new Date().toISOString(),
+  };
+}
+
+// JSON with object keys sorted, so the same content always hashes the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function sha256Hex(value: unknown): string {
+  return createHash("sha256").update(canonicalJson(value)).digest("hex");
+}
+
+export function hashInspectionAnswers(answers: Record<string, string>): string {
+  return sha256Hex(answers);
+}
+
+/**
+ * Whether the stored answers still match the hash taken when the driver
+ * signed. Null for inspections signed before hashes were recorded.
+ */
+export function answersMatchSignature(inspection: {
+  answers: Record<string, string> | null;
+  answers_hash: string | null;
+}): boolean | null {
+  if (!inspection.answers_hash) return null;
+  return hashInspectionAnswers(inspection.answers ?? {}) === inspection.answers_hash;
+}
+
+export function hashTimecardEntries(
+  entries: {
+    id: string;
+    work_date: string;
+    start_time: string;
+    end_time: string | null;
+    duration_seconds: number | null;
+  }[]
+): string {
+  return sha256Hex(
+    [...entries]
+      .sort((a, b) => (a.start_time < b.start_time ? -1 : a.start_time > b.start_time ? 1 : 0))
+      .map((e) => [e.id, e.work_date, e.start_time, e.end_time, e.duration_seconds])
+  );
+}
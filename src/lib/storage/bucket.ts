@@ -0,0 +1,23 @@
+// Shared storage types. Implementations live next to this file; callers get
+// one through getBucket() in "@/lib/storage".
+
+export type StoredObject = {
+  data: Buffer;
+  contentType: string;
+};
+
+export type StorageBucket = {
+  put(path: string, data: Buffer, contentType: string): Promise<void>;
+  get(path: string): Promise<StoredObject | null>;
+  remove(path: string): Promise<void>;
+};
+
+/**
+ * Object paths are generated server-side, but refuse anything that could
+ * escape the bucket just in case.
+ */
+export function assertSafeObjectPath(path: string) {
+  if (!path || path.startsWith("/") || path.split("/").some((part) => part === ".." || part === "")) {
+    throw new Error(`Invalid storage path "${path}".`);
+  }
+}
@@ -0,0 +1,16 @@
+import type { StorageBucket } from "@/lib/storage/bucket";
+import { localBucket } from "@/lib/storage/localBucket";
+import { supabaseBucket } from "@/lib/storage/supabaseBucket";
+
+// Server-only file storage. STORAGE_DRIVER=supabase stores objects in Supabase
+// Storage; anything else (the default, for local development) writes them
+// under STORAGE_LOCAL_DIR on this machine.
+
+export type { StorageBucket, StoredObject } from "@/lib/storage/bucket";
+
+export const INSPECTION_PHOTOS_BUCKET = "inspection-photos";
+export const DRIVER_DOCUMENTS_BUCKET = "driver-documents";
+
+export function getBucket(name: string): StorageBucket {
+  return process.env.STORAGE_DRIVER === "supabase" ? supabaseBucket(name) : localBucket(name);
+}
@@ -0,0 +1,46 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { assertSafeObjectPath, type StorageBucket } from "@/lib/storage/bucket";
+
+// Filesystem stand-in for a storage bucket. Each object is written next to a
+// small ".meta.json" file holding its content type.
+
+function rootDir() {
+  return path.resolve(process.env.STORAGE_LOCAL_DIR || ".storage");
+}
+
+export function localBucket(name: string): StorageBucket {
+  const objectFile = (objectPath: string) => {
+    assertSafeObjectPath(objectPath);
+    return path.join(rootDir(), name, objectPath);
+  };
+
+  return {
+    async put(objectPath, data, contentType) {
+      const file = objectFile(objectPath);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+      await writeFile(`${file}.meta.json`, JSON.stringify({ contentType }));
+    },
+
+    async get(objectPath) {
+      const file = objectFile(objectPath);
+      try {
+        const [data, meta] = await Promise.all([
+          readFile(file),
+          readFile(`${file}.meta.json`, "utf8"),
+        ]);
+        return { data, contentType: JSON.parse(meta).contentType };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+
+    async remove(objectPath) {
+      const file = objectFile(objectPath);
+      await rm(file, { force: true });
+      await rm(`${file}.meta.json`, { force: true });
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { assertSafeObjectPath, type StorageBucket } from "@/lib/storage/bucket";
+
+// Supabase Storage implementation. The bucket must exist and be private;
+// files are only ever served back through our own API routes.
+
+export function supabaseBucket(name: string): StorageBucket {
+  const bucket = () => supabaseAdmin.storage.from(name);
+
+  return {
+    async put(objectPath, data, contentType) {
+      assertSafeObjectPath(objectPath);
+      const { error } = await bucket().upload(objectPath, data, { contentType, upsert: false });
+      if (error) throw error;
+    },
+
+    async get(objectPath) {
+      assertSafeObjectPath(objectPath);
+      const { data, error } = await bucket().download(objectPath);
+      if (error) {
+        if ("statusCode" in error && error.statusCode === "404") return null;
+        throw error;
+      }
+      return {
+        data: Buffer.from(await data.arrayBuffer()),
+        contentType: data.type || "application/octet-stream",
+      };
+    },
+
+    async remove(objectPath) {
+      assertSafeObjectPath(objectPath);
+      const { error } = await bucket().remove([objectPath]);
+      if (error) throw error;
+    },
+  };
+}
@@ -0,0 +1,8 @@
+// Supabase returns errors as plain objects rather than Error instances, so
+// API routes read the message from whatever was thrown
+
+export function errorMessage(err: unknown): string {
+  return typeof err === "object" && err !== null && "message" in err
+    ? String(err.message)
+    : "Unexpected error";
+}
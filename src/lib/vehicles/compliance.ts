@@ -0,0 +1,90 @@
+// Vehicle compliance expiry dates and their status
+
+export const COMPLIANCE_ITEMS = [
+  { field: "registration_expires_on", label: "Registration" },
+  { field: "insurance_expires_on", label: "Insurance" },
+  { field: "state_inspection_expires_on", label: "Annual state inspection" },
+  { field: "seven_d_inspection_expires_on", label: "7D inspection" },
+] as const;
+
+export type ComplianceField = (typeof COMPLIANCE_ITEMS)[number]["field"];
+
+export type VehicleComplianceDates = Record<ComplianceField, string | null>;
+
+export type ComplianceStatus = "expired" | "due_soon" | "ok" | "missing";
+
+export type ComplianceEntry = {
+  field: ComplianceField;
+  label: string;
+  expires_on: string | null;
+  status: ComplianceStatus;
+  // Negative once expired; null when no date is on file
+  days_left: number | null;
+};
+
+// Items expiring within this many days show as due soon
+export const EXPIRY_WARNING_DAYS = 30;
+
+/**
+ * Today's date (YYYY-MM-DD) in the operating time zone.
+ */
+export function complianceToday(now = new Date()) {
+  return now.toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+}
+
+function daysBetween(fromYmd: string, toYmd: string) {
+  const from = Date.parse(`${fromYmd}T00:00:00Z`);
+  const to = Date.parse(`${toYmd}T00:00:00Z`);
+  return Math.round((to - from) / 86_400_000);
+}
+
+/**
+ * Status of a single expiry date. A document is valid through its expiry
+ * date and expired the day after.
+ */
+export function expiryStatus(
+  expiresOn: string | null,
+  today = complianceToday()
+): { status: ComplianceStatus; days_left: number | null } {
+  if (!expiresOn) return { status: "missing", days_left: null };
+  const daysLeft = daysBetween(today, expiresOn);
+  const status: ComplianceStatus =
+    daysLeft < 0 ? "expired" : daysLeft <= EXPIRY_WARNING_DAYS ? "due_soon" : "ok";
+  return { status, days_left: daysLeft };
+}
+
+/**
+ * Status of every compliance item for a vehicle.
+ */
+export function vehicleCompliance(
+  vehicle: Partial<VehicleComplianceDates>,
+  today = complianceToday()
+): ComplianceEntry[] {
+  return COMPLIANCE_ITEMS.map(({ field, label }) => {
+    const expiresOn = vehicle[field] ?? null;
+    return { field, label, expires_on: expiresOn, ...expiryStatus(expiresOn, today) };
+  });
+}
+
+/**
+ * The compliance items that have expired, e.g. ["Registration"].
+ */
+export function expiredComplianceItems(
+  vehicle: Partial<VehicleComplianceDates>,
+  today = complianceToday()
+): string[] {
+  return vehicleCompliance(vehicle, today)
+    .filter((entry) => entry.status === "expired")
+    .map((entry) => entry.label);
+}
+
+/**
+ * The most urgent status across a vehicle's items.
+ */
+export function overallComplianceStatus(entries: { status: ComplianceStatus }[]): ComplianceStatus {
+  const order: ComplianceStatus[] = ["expired", "due_soon", "missing", "ok"];
+  for (const status of order) {
+    if (entries.some((entry) => entry.status === status)) return status;
+  }
+  return "ok";
+}
@@ -0,0 +1,233 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import type { InspectionAmendment } from "@/lib/inspections/amendments";
+
+// Server-only odometer checks and the per-vehicle mileage ledger. Readings
+// come from inspections (pre-trip and post-trip), with any amended odometer
+// value taking the place of the one the driver typed.
+
+const MAX_ODOMETER_MILES = 2_000_000;
+
+// More than this between two consecutive readings is almost always a typo
+export const MAX_MILES_BETWEEN_READINGS = 1_000;
+
+export type OdometerReading = {
+  inspection_id: string;
+  inspection_type: string;
+  inspection_date: string;
+  submitted_at: string;
+  driver_name: string;
+  miles: number;
+  override_reason: string | null;
+  amended: boolean;
+};
+
+export type OdometerProblem = {
+  code: "backwards" | "jump";
+  message: string;
+  last_miles: number;
+  last_submitted_at: string;
+};
+
+/**
+ * Parses a reading as typed ("123,456", "123456.7") into whole miles.
+ */
+export function parseOdometer(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 && value < MAX_ODOMETER_MILES ? Math.floor(value) : null;
+  }
+  if (typeof value !== "string") return null;
+  const cleaned = value.replace(/[,\s]/g, "");
+  if (!/^\d{1,7}(\.\d+)?$/.test(cleaned)) return null;
+  const miles = Math.floor(Number(cleaned));
+  return miles < MAX_ODOMETER_MILES ? miles : null;
+}
+
+type ReadingRow = {
+  id: string;
+  inspection_type: string;
+  inspection_date: string;
+  submitted_at: string;
+  driver_name: string;
+  odometer_reading: string | null;
+  odometer_miles: number | null;
+  odometer_override_reason: string | null;
+};
+
+/**
+ * A vehicle's odometer readings in submission order, oldest first.
+ */
+export async function listOdometerReadings(
+  vehicleId: string,
+  range: { from?: string; to?: string; latest?: number } = {}
+): Promise<OdometerReading[]> {
+  let query = supabaseAdmin
+    .from("inspections")
+    .select(
+      "id, inspection_type, inspection_date, submitted_at, driver_name, odometer_reading, odometer_miles, odometer_override_reason"
+    )
+    .eq("vehicle_id", vehicleId)
+    .order("submitted_at", { ascending: false });
+  if (range.from) query = query.gte("inspection_date", range.from);
+  if (range.to) query = query.lte("inspection_date", range.to);
+  if (range.latest) query = query.limit(range.latest);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  const rows = (data ?? []) as ReadingRow[];
+  if (rows.length === 0) return [];
+
+  // The latest odometer amendment per inspection wins
+  const { data: amendmentRows, error: amendErr } = await supabaseAdmin
+    .from("inspection_amendments")
+    .select("inspection_id, changes, created_at")
+    .in("inspection_id", rows.map((r) => r.id))
+    .order("created_at", { ascending: true });
+  if (amendErr) throw amendErr;
+  const amendedValue = new Map<string, unknown>();
+  for (const amendment of (amendmentRows ?? []) as Pick<InspectionAmendment, "inspection_id" | "changes">[]) {
+    const change = amendment.changes.odometer_reading;
+    if (change) amendedValue.set(amendment.inspection_id, change.to);
+  }
+
+  const readings: OdometerReading[] = [];
+  for (const row of rows.reverse()) {
+    const amended = amendedValue.has(row.id);
+    const miles = amended
+      ? parseOdometer(amendedValue.get(row.id))
+      : row.odometer_miles ?? parseOdometer(row.odometer_reading);
+    if (miles === null) continue;
+    readings.push({
+      inspection_id: row.id,
+      inspection_type: row.inspection_type,
+      inspection_date: row.inspection_date,
+      submitted_at: row.submitted_at,
+      driver_name: row.driver_name,
+      miles,
+      override_reason: row.odometer_override_reason,
+      amended,
+    });
+  }
+  return readings;
+}
+
+/**
+ * Checks a new reading against the vehicle's most recent one. Returns null
+ * when it is plausible.
+ */
+export async function checkOdometerReading(
+  vehicleId: string,
+  miles: number
+): Promise<OdometerProblem | null> {
+  const readings = await listOdometerReadings(vehicleId, { latest: 10 });
+  const last = readings[readings.length - 1];
+  if (!last) return null;
+
+  if (miles < last.miles) {
+    return {
+      code: "backwards",
+      message: `The odometer can't go backwards: the last reading for this vehicle was ${last.miles.toLocaleString()} miles.`,
+      last_miles: last.miles,
+      last_submitted_at: last.submitted_at,
+    };
+  }
+  if (miles - last.miles > MAX_MILES_BETWEEN_READINGS) {
+    return {
+      code: "jump",
+      message: `That is ${(miles - last.miles).toLocaleString()} miles more than the last reading (${last.miles.toLocaleString()}). Check the number.`,
+      last_miles: last.miles,
+      last_submitted_at: last.submitted_at,
+    };
+  }
+  return null;
+}
+
+export type MileageDay = {
+  date: string;
+  start_miles: number | null;
+  end_miles: number | null;
+  // Driven between the first and last reading of the day
+  miles: number | null;
+  // Driven between the previous day's last reading and this day's first one
+  unlogged_miles: number | null;
+  estimated_miles: number | null;
+  readings: OdometerReading[];
+};
+
+type RouteEstimate = {
+  day_of_week: number;
+  routes: {
+    estimated_round_trip_mileage: number | null;
+    effective_start_date: string | null;
+    effective_end_date: string | null;
+    is_active: boolean;
+  } | null;
+};
+
+function dayOfWeek(ymd: string) {
+  return new Date(`${ymd}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Daily mileage for a vehicle from its pre/post-trip readings, alongside the
+ * estimated round-trip mileage of the routes assigned to it that weekday.
+ */
+export async function getMileageLedger(vehicleId: string, from: string, to: string) {
+  const [readings, assignmentsRes] = await Promise.all([
+    listOdometerReadings(vehicleId, { from, to }),
+    supabaseAdmin
+      .from("driver_route_assignments")
+      .select("day_of_week, routes(estimated_round_trip_mileage, effective_start_date, effective_end_date, is_active)")
+      .eq("vehicle_id", vehicleId)
+      .eq("is_active", true),
+  ]);
+  if (assignmentsRes.error) throw assignmentsRes.error;
+  const assignments = (assignmentsRes.data ?? []) as unknown as RouteEstimate[];
+
+  const estimateFor = (date: string) => {
+    let total: number | null = null;
+    for (const a of assignments) {
+      const route = a.routes;
+      if (a.day_of_week !== dayOfWeek(date) || !route?.is_active) continue;
+      if (route.effective_start_date && date < route.effective_start_date) continue;
+      if (route.effective_end_date && date > route.effective_end_date) continue;
+      if (route.estimated_round_trip_mileage == null) continue;
+      total = (total ?? 0) + Number(route.estimated_round_trip_mileage);
+    }
+    return total;
+  };
+
+  const byDate = new Map<string, OdometerReading[]>();
+  for (const reading of readings) {
+    const list = byDate.get(reading.inspection_date) ?? [];
+    list.push(reading);
+    byDate.set(reading.inspection_date, list);
+  }
+
+  const days: MileageDay[] = [];
+  let previousEnd: number | null = null;
+  for (const [date, dayReadings] of [...byDate.entries()].sort(([a], [b]) => (a < b ? -1 : 1))) {
+    const start = dayReadings[0].miles;
+    const end = dayReadings[dayReadings.length - 1].miles;
+    days.push({
+      date,
+      start_miles: start,
+      end_miles: end,
+      miles: dayReadings.length > 1 ? end - start : null,
+      unlogged_miles: previousEnd !== null ? start - previousEnd : null,
+      estimated_miles: estimateFor(date),
+      readings: dayReadings,
+    });
+    previousEnd = end;
+  }
+
+  const totals = days.reduce(
+    (sum, day) => ({
+      miles: sum.miles + (day.miles ?? 0),
+      estimated_miles: sum.estimated_miles + (day.estimated_miles ?? 0),
+      unlogged_miles: sum.unlogged_miles + Math.max(0, day.unlogged_miles ?? 0),
+    }),
+    { miles: 0, estimated_miles: 0, unlogged_miles: 0 }
+  );
+
+  return { days, totals };
+}
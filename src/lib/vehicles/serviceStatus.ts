@@ -0,0 +1,84 @@
+import { supabaseAdmin } from "@/lib/supabase/admin";
+import { createDispatchAlert, resolveDispatchAlerts } from "@/lib/alerts/dispatch";
+
+// Server-only out-of-service handling for vehicles.
+
+/**
+ * Takes a vehicle out of service and alerts dispatch to assign a spare.
+ * Does nothing (and sends no duplicate alert) if it is already out of service.
+ */
+export async function takeVehicleOutOfService(params: {
+  vehicleId: string;
+  reason: string;
+  inspectionId?: string | null;
+  driverId?: string | null;
+}) {
+  const { data: vehicle, error } = await supabaseAdmin
+    .from("vehicles")
+    .update({
+      out_of_service: true,
+      out_of_service_reason: params.reason,
+      out_of_service_at: new Date().toISOString(),
+      out_of_service_inspection_id: params.inspectionId ?? null,
+    })
+    .eq("id", params.vehicleId)
+    .eq("out_of_service", false)
+    .select("id, label")
+    .maybeSingle();
+  if (error) throw error;
+  if (!vehicle) return false;
+
+  await createDispatchAlert({
+    kind: "vehicle_out_of_service",
+    message: `${vehicle.label} is out of service (${params.reason}). Assign a spare vehicle to its routes.`,
+    vehicle_id: vehicle.id,
+    driver_id: params.driverId ?? null,
+    inspection_id: params.inspectionId ?? null,
+  });
+  return true;
+}
+
+/**
+ * Clears the out-of-service flag and resolves the matching dispatch alerts.
+ */
+export async function returnVehicleToService(vehicleId: string, clearedBy: string, note?: string | null) {
+  const { data, error } = await supabaseAdmin
+    .from("vehicles")
+    .update({
+      out_of_service: false,
+      out_of_service_reason: null,
+      out_of_service_at: null,
+      out_of_service_inspection_id: null,
+    })
+    .eq("id", vehicleId)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  await resolveDispatchAlerts(
+    { kind: "vehicle_out_of_service", vehicle_id: vehicleId },
+    clearedBy,
+    note || "Vehicle returned to service"
+  );
+  return data;
+}
+
+export async function isVehicleOutOfService(vehicleId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("vehicles")
+    .select("out_of_service")
+    .eq("id", vehicleId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.out_of_service === true;
+}
+
+export async function listOutOfServiceVehicleIds(): Promise<Set<string>> {
+  const { data, error } = await supabaseAdmin
+    .from("vehicles")
+    .select("id")
+    .eq("out_of_service", true);
+  if (error) throw error;
+  return new Set((data ?? []).map((v) => v.id as string));
+}
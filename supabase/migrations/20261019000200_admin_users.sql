@@ -0,0 +1,16 @@
+-- Named admin accounts with roles, replacing the shared ADMIN_ACCESS_CODE.
+-- Passwords are stored as scrypt hashes (see src/lib/auth/password.ts).
+
+create table if not exists public.admin_users (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  full_name text not null,
+  role text not null check (role in ('owner', 'dispatcher', 'payroll', 'read_only')),
+  password_hash text not null,
+  is_active boolean not null default true,
+  last_login_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- Only the service-role client (server routes) may read or write admin accounts
+alter table public.admin_users enable row level security;
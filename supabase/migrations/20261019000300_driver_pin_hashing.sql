@@ -0,0 +1,21 @@
+-- Hashed driver PINs with per-driver lockout and per-IP throttling.
+-- Existing plain-text PINs in drivers.pin keep working: the first successful
+-- sign-in re-saves them as drivers.pin_hash and clears drivers.pin.
+
+alter table public.drivers
+  add column if not exists pin_hash text,
+  add column if not exists pin_failed_attempts integer not null default 0,
+  add column if not exists pin_locked_until timestamptz;
+
+create table if not exists public.driver_login_attempts (
+  id bigint generated always as identity primary key,
+  ip_address text not null,
+  driver_id uuid references public.drivers(id) on delete cascade,
+  success boolean not null,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists driver_login_attempts_ip_idx
+  on public.driver_login_attempts (ip_address, attempted_at desc);
+
+alter table public.driver_login_attempts enable row level security;
@@ -0,0 +1,29 @@
+-- Unique employee numbers so drivers who share a name can still sign in.
+-- Existing drivers are numbered in the order they were created; new drivers
+-- get the next number unless the admin enters one.
+
+create sequence if not exists public.driver_employee_number_seq;
+
+alter table public.drivers
+  add column if not exists employee_number text;
+
+with numbered as (
+  select id, row_number() over (order by created_at, id) as n
+  from public.drivers
+  where employee_number is null
+)
+update public.drivers d
+set employee_number = lpad(numbered.n::text, 4, '0')
+from numbered
+where d.id = numbered.id;
+
+select setval(
+  'public.driver_employee_number_seq',
+  (select count(*) from public.drivers) + 1,
+  false
+);
+
+alter table public.drivers
+  alter column employee_number set default lpad(nextval('public.driver_employee_number_seq')::text, 4, '0'),
+  alter column employee_number set not null,
+  add constraint drivers_employee_number_key unique (employee_number);
@@ -0,0 +1,112 @@
+-- Versioned inspection checklist templates.
+-- A template version is never edited in place: the admin editor publishes a
+-- new version, so historical inspections keep pointing at the exact items
+-- (and labels) the driver saw. item_key stays the same across versions and
+-- is what inspections.answers is keyed by.
+
+create table if not exists public.checklist_templates (
+  id uuid primary key default gen_random_uuid(),
+  inspection_type text not null check (inspection_type in ('pre', 'post')),
+  version integer not null,
+  is_active boolean not null default false,
+  notes text,
+  created_by uuid references public.admin_users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (inspection_type, version)
+);
+
+-- At most one active version per inspection type
+create unique index if not exists checklist_templates_one_active_idx
+  on public.checklist_templates (inspection_type)
+  where is_active;
+
+create table if not exists public.checklist_template_items (
+  id uuid primary key default gen_random_uuid(),
+  template_id uuid not null references public.checklist_templates(id) on delete cascade,
+  item_key text not null,
+  label text not null,
+  category text not null,
+  sort_order integer not null,
+  unique (template_id, item_key)
+);
+
+alter table public.checklist_templates enable row level security;
+alter table public.checklist_template_items enable row level security;
+
+alter table public.inspections
+  add column if not exists template_id uuid references public.checklist_templates(id),
+  add column if not exists template_version integer;
+
+-- Version 1 = the checklists that were previously hard-coded in the driver pages
+with pre as (
+  insert into public.checklist_templates (inspection_type, version, is_active, notes)
+  values ('pre', 1, true, 'Initial checklist')
+  on conflict (inspection_type, version) do nothing
+  returning id
+)
+insert into public.checklist_template_items (template_id, item_key, label, category, sort_order)
+select pre.id, item.item_key, item.label, item.category, item.sort_order
+from pre, (values
+  ('tires', 'Tires – pressure and minimum 4/32" tread depth', 'Lights & exterior', 1),
+  ('headlights', 'Headlights – high and low beams', 'Lights & exterior', 2),
+  ('directionals', 'Turn signals – front and rear', 'Lights & exterior', 3),
+  ('stop_lights', 'Brake / stop lights', 'Lights & exterior', 4),
+  ('reverse_lights', 'Reverse lights', 'Lights & exterior', 5),
+  ('four_way_flashers', 'Four-way hazard flashers', 'Lights & exterior', 6),
+  ('plate_light', 'License plate light', 'Lights & exterior', 7),
+  ('school_bus_lights', 'School bus / warning lights', 'Lights & exterior', 8),
+  ('brakes', 'Brakes – service and parking', 'Controls & safety', 9),
+  ('mirrors', 'Mirrors adjusted and secure', 'Controls & safety', 10),
+  ('exhaust', 'Exhaust system – leaks or damage', 'Controls & safety', 11),
+  ('fluid_leaks', 'Fluid leaks under vehicle', 'Controls & safety', 12),
+  ('doors', 'Doors – open/close properly, latches working', 'Controls & safety', 13),
+  ('wipers_fluid', 'Windshield wipers and washer fluid', 'Controls & safety', 14),
+  ('horn', 'Horn', 'Controls & safety', 15),
+  ('pupil_plates', 'Front and rear pupil plates', 'Required equipment', 16),
+  ('state_inspection', 'Annual state inspection sticker', 'Required equipment', 17),
+  ('semi_annual_7d', 'Semi-annual 7D inspection sticker', 'Required equipment', 18),
+  ('chock_blocks', 'Two chock blocks', 'Required equipment', 19),
+  ('first_aid', 'First aid kit', 'Required equipment', 20),
+  ('fire_ext', 'Fire extinguisher mounted and reachable by driver (2A:10BC with hose)', 'Required equipment', 21),
+  ('triangles', 'Three reflective warning triangles', 'Required equipment', 22),
+  ('body_fluid_kit', 'Body fluid clean-up kit', 'Required equipment', 23),
+  ('seat_belt_cutter', 'Seat belt cutter', 'Required equipment', 24),
+  ('fire_blanket', 'Fire / evacuation blanket (only for wheelchair-equipped vehicles)', 'Required equipment', 25),
+  ('child_reminder', 'Child reminder system present and working (2018 and newer vehicles)', 'Required equipment', 26),
+  ('wheelchair_lift', 'Wheelchair lift, if installed', 'Required equipment', 27)
+) as item(item_key, label, category, sort_order);
+
+with post as (
+  insert into public.checklist_templates (inspection_type, version, is_active, notes)
+  values ('post', 1, true, 'Initial checklist')
+  on conflict (inspection_type, version) do nothing
+  returning id
+)
+insert into public.checklist_template_items (template_id, item_key, label, category, sort_order)
+select post.id, item.item_key, item.label, item.category, item.sort_order
+from post, (values
+  ('seat_check', 'Checked in, around and under every seat', 'Interior & children check', 1),
+  ('no_children', 'Confirmed no sleeping or hiding children; child reminder system disengaged (if installed)', 'Interior & children check', 2),
+  ('items_left', 'Verified no backpacks, clothing or other items left; inspected for rips in seats, trip hazards, broken seats', 'Interior & children check', 3),
+  ('walk_around', 'Walked around exterior – checked for any irregularities', 'Exterior walk-around', 4)
+) as item(item_key, label, category, sort_order);
+
+-- Re-key existing answers from label text to item_key and link them to v1.
+-- Labels that no longer match any v1 item are kept under their label text.
+update public.inspections i
+set
+  answers = (
+    select jsonb_object_agg(coalesce(ti.item_key, a.key), a.value)
+    from jsonb_each(i.answers::jsonb) a
+    left join public.checklist_template_items ti
+      on ti.template_id = t.id and ti.label = a.key
+  ),
+  template_id = t.id,
+  template_version = t.version
+from public.checklist_templates t
+where t.inspection_type = i.inspection_type
+  and t.version = 1
+  and i.template_id is null
+  and i.answers is not null
+  and jsonb_typeof(i.answers::jsonb) = 'object'
+  and i.answers::jsonb <> '{}'::jsonb;
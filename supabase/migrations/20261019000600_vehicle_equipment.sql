@@ -0,0 +1,29 @@
+-- Vehicle equipment attributes and the checklist items that depend on them.
+-- An item with no rule applies to every vehicle. Items with a rule are
+-- answered as N/A automatically on vehicles they don't apply to, and must be
+-- answered Pass or Fail on vehicles they do.
+
+alter table public.vehicles
+  add column if not exists wheelchair_equipped boolean not null default false,
+  add column if not exists lift_installed boolean not null default false,
+  add column if not exists seating_capacity integer check (seating_capacity is null or seating_capacity > 0);
+
+alter table public.checklist_template_items
+  add column if not exists requires_wheelchair boolean not null default false,
+  add column if not exists requires_lift boolean not null default false,
+  add column if not exists min_vehicle_year integer,
+  add column if not exists min_seating_capacity integer;
+
+-- These rules were previously only written into the labels. Applying them to
+-- existing versions changes who must answer an item, not what it asks.
+update public.checklist_template_items
+set requires_wheelchair = true
+where item_key = 'fire_blanket';
+
+update public.checklist_template_items
+set min_vehicle_year = 2018
+where item_key = 'child_reminder';
+
+update public.checklist_template_items
+set requires_lift = true
+where item_key = 'wheelchair_lift';
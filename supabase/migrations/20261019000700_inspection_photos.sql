@@ -0,0 +1,29 @@
+-- Photos a driver takes of failed checklist items. A photo is uploaded while
+-- the form is still open (inspection_id null) and linked to the inspection
+-- when it is submitted. The file itself lives in the "inspection-photos"
+-- storage bucket at storage_path.
+
+create table if not exists public.inspection_photos (
+  id uuid primary key default gen_random_uuid(),
+  driver_id uuid not null references public.drivers(id) on delete cascade,
+  inspection_id uuid references public.inspections(id) on delete cascade,
+  item_key text not null,
+  storage_path text not null unique,
+  content_type text not null,
+  size_bytes integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists inspection_photos_inspection_idx
+  on public.inspection_photos (inspection_id);
+
+create index if not exists inspection_photos_pending_idx
+  on public.inspection_photos (driver_id)
+  where inspection_id is null;
+
+alter table public.inspection_photos enable row level security;
+
+-- Private bucket; photos are served through /api/*/inspection-photos
+insert into storage.buckets (id, name, public)
+values ('inspection-photos', 'inspection-photos', false)
+on conflict (id) do nothing;
@@ -0,0 +1,47 @@
+-- Defect tickets opened from failed inspection items.
+-- One ticket per vehicle + checklist item while it is outstanding; failing the
+-- same item again adds an event to the existing ticket instead of a new one.
+-- Lifecycle: open -> (deferred | in_repair) -> repaired -> verified, where
+-- "verified" is set when a driver later passes the item on that vehicle.
+
+create table if not exists public.vehicle_defects (
+  id uuid primary key default gen_random_uuid(),
+  vehicle_id uuid not null references public.vehicles(id) on delete cascade,
+  item_key text not null,
+  item_label text not null,
+  status text not null default 'open'
+    check (status in ('open', 'deferred', 'in_repair', 'repaired', 'verified')),
+  inspection_id uuid references public.inspections(id) on delete set null,
+  reported_by_driver_id uuid references public.drivers(id) on delete set null,
+  driver_notes text,
+  deferred_until date,
+  repaired_at timestamptz,
+  verified_at timestamptz,
+  verified_inspection_id uuid references public.inspections(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- At most one outstanding ticket per vehicle + item
+create unique index if not exists vehicle_defects_one_outstanding_idx
+  on public.vehicle_defects (vehicle_id, item_key)
+  where status <> 'verified';
+
+create index if not exists vehicle_defects_status_idx
+  on public.vehicle_defects (status);
+
+create table if not exists public.vehicle_defect_events (
+  id uuid primary key default gen_random_uuid(),
+  defect_id uuid not null references public.vehicle_defects(id) on delete cascade,
+  status text not null,
+  note text,
+  actor text not null,
+  inspection_id uuid references public.inspections(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vehicle_defect_events_defect_idx
+  on public.vehicle_defect_events (defect_id, created_at);
+
+alter table public.vehicle_defects enable row level security;
+alter table public.vehicle_defect_events enable row level security;
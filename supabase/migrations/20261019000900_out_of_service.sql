@@ -0,0 +1,36 @@
+-- Critical checklist items and out-of-service vehicles.
+-- Failing a critical item takes the vehicle out of service: drivers can't pick
+-- it, its routes are hidden from the Driver Portal, and dispatch gets an alert
+-- to assign a spare. Only an admin can return it to service.
+
+alter table public.checklist_template_items
+  add column if not exists is_critical boolean not null default false;
+
+update public.checklist_template_items
+set is_critical = true
+where item_key in ('brakes', 'tires', 'exhaust', 'doors');
+
+alter table public.vehicles
+  add column if not exists out_of_service boolean not null default false,
+  add column if not exists out_of_service_reason text,
+  add column if not exists out_of_service_at timestamptz,
+  add column if not exists out_of_service_inspection_id uuid references public.inspections(id) on delete set null;
+
+create table if not exists public.dispatch_alerts (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null,
+  message text not null,
+  vehicle_id uuid references public.vehicles(id) on delete cascade,
+  driver_id uuid references public.drivers(id) on delete set null,
+  inspection_id uuid references public.inspections(id) on delete set null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by text,
+  resolution_note text
+);
+
+create index if not exists dispatch_alerts_open_idx
+  on public.dispatch_alerts (created_at desc)
+  where resolved_at is null;
+
+alter table public.dispatch_alerts enable row level security;
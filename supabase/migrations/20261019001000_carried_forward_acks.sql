@@ -0,0 +1,7 @@
+-- Carried-forward defects on pre-trip inspections.
+-- Before a pre-trip the driver sees the vehicle's outstanding defect tickets
+-- and the notes from its most recent inspections, and must acknowledge or
+-- re-check each one. What they acknowledged is stored on the new inspection.
+
+alter table public.inspections
+  add column if not exists carried_forward jsonb not null default '[]'::jsonb;
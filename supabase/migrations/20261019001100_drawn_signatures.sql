@@ -0,0 +1,24 @@
+-- Drawn signatures on inspections and weekly timecards.
+-- The signature image (PNG data URL) is stored with the signed record along
+-- with the device, the time the server received it and a SHA-256 hash of what
+-- was signed, so a later change to the record can be detected.
+
+alter table public.inspections
+  add column if not exists signature_image text,
+  add column if not exists signature_signed_at timestamptz,
+  add column if not exists signature_device text,
+  add column if not exists answers_hash text;
+
+create table if not exists public.timecard_signatures (
+  id uuid primary key default gen_random_uuid(),
+  driver_id uuid not null references public.drivers(id) on delete cascade,
+  week_start date not null,
+  signature_image text not null,
+  signed_at timestamptz not null default now(),
+  device text,
+  entries_hash text not null,
+  total_seconds integer not null,
+  unique (driver_id, week_start)
+);
+
+alter table public.timecard_signatures enable row level security;
@@ -0,0 +1,63 @@
+-- Tamper-evident, amend-only inspection records.
+-- Submitted inspections can no longer be updated or deleted, even with the
+-- service role. Corrections are recorded as amendments (who, when, why and the
+-- before/after values). Every inspection and amendment is appended to a
+-- per-vehicle hash chain: each entry hashes the record together with the
+-- previous entry's hash, so editing, removing or back-filling a record breaks
+-- the chain from that point on. Inspections submitted before this migration
+-- are not part of any chain.
+
+create table if not exists public.inspection_amendments (
+  id uuid primary key default gen_random_uuid(),
+  inspection_id uuid not null references public.inspections(id) on delete restrict,
+  amended_by text not null,
+  amended_by_admin_id uuid references public.admin_users(id) on delete restrict,
+  reason text not null,
+  -- { "<field>": { "from": ..., "to": ... } }, answers as "answers.<item_key>"
+  changes jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists inspection_amendments_inspection_idx
+  on public.inspection_amendments (inspection_id, created_at);
+
+create table if not exists public.inspection_chain (
+  id uuid primary key default gen_random_uuid(),
+  vehicle_id uuid not null references public.vehicles(id) on delete restrict,
+  seq integer not null,
+  record_type text not null check (record_type in ('inspection', 'amendment')),
+  record_id uuid not null,
+  prev_hash text,
+  record_hash text not null,
+  created_at timestamptz not null default now(),
+  unique (vehicle_id, seq),
+  unique (record_type, record_id)
+);
+
+create or replace function public.reject_record_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception '% records are immutable; record an amendment instead', tg_table_name
+    using errcode = 'restrict_violation';
+end;
+$$;
+
+drop trigger if exists inspections_immutable on public.inspections;
+create trigger inspections_immutable
+  before update or delete on public.inspections
+  for each row execute function public.reject_record_changes();
+
+drop trigger if exists inspection_amendments_immutable on public.inspection_amendments;
+create trigger inspection_amendments_immutable
+  before update or delete on public.inspection_amendments
+  for each row execute function public.reject_record_changes();
+
+drop trigger if exists inspection_chain_immutable on public.inspection_chain;
+create trigger inspection_chain_immutable
+  before update or delete on public.inspection_chain
+  for each row execute function public.reject_record_changes();
+
+alter table public.inspection_amendments enable row level security;
+alter table public.inspection_chain enable row level security;
@@ -0,0 +1,23 @@
+-- Numeric odometer readings.
+-- odometer_reading stays as the driver typed it (it is part of the sealed
+-- record); odometer_miles is the parsed value used for the never-backwards
+-- check and the per-vehicle mileage ledger. A reading lower than the
+-- vehicle's last one (or an implausible jump) needs an override reason.
+
+alter table public.inspections
+  add column if not exists odometer_miles integer,
+  add column if not exists odometer_override_reason text;
+
+create index if not exists inspections_vehicle_submitted_idx
+  on public.inspections (vehicle_id, submitted_at desc);
+
+-- Backfill the parsed value for existing records. Inspections are otherwise
+-- immutable, so the guard trigger is lifted for this one derived column.
+alter table public.inspections disable trigger inspections_immutable;
+
+update public.inspections
+set odometer_miles = floor(regexp_replace(odometer_reading, '[,\s]', '', 'g')::numeric)::integer
+where odometer_miles is null
+  and regexp_replace(coalesce(odometer_reading, ''), '[,\s]', '', 'g') ~ '^\d{1,7}(\.\d+)?$';
+
+alter table public.inspections enable trigger inspections_immutable;
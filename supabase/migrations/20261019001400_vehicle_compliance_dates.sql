@@ -0,0 +1,10 @@
+-- Vehicle compliance expiry dates.
+-- Registration, insurance, the annual state inspection sticker and the
+-- semi-annual 7D inspection sticker each expire on a date. A vehicle with any
+-- of them past due can't be assigned to a route.
+
+alter table public.vehicles
+  add column if not exists registration_expires_on date,
+  add column if not exists insurance_expires_on date,
+  add column if not exists state_inspection_expires_on date,
+  add column if not exists seven_d_inspection_expires_on date;
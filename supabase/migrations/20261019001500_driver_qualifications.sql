@@ -0,0 +1,32 @@
+-- Expiry-dated driver qualifications: license, 7D school-pupil certificate,
+-- CORI/background check, first aid/CPR and medical card. One current record
+-- per driver and kind; renewing replaces the dates and document. Scanned
+-- documents live in the "driver-documents" storage bucket at document_path.
+
+create table if not exists public.driver_qualifications (
+  id uuid primary key default gen_random_uuid(),
+  driver_id uuid not null references public.drivers(id) on delete cascade,
+  kind text not null check (
+    kind in ('license', 'seven_d_certificate', 'background_check', 'first_aid_cpr', 'medical_card')
+  ),
+  reference text,
+  issued_on date,
+  expires_on date,
+  document_path text unique,
+  document_name text,
+  document_content_type text,
+  updated_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (driver_id, kind)
+);
+
+create index if not exists driver_qualifications_expires_idx
+  on public.driver_qualifications (expires_on);
+
+alter table public.driver_qualifications enable row level security;
+
+-- Private bucket; documents are served through /api/admin/driver-qualification-documents
+insert into storage.buckets (id, name, public)
+values ('driver-documents', 'driver-documents', false)
+on conflict (id) do nothing;
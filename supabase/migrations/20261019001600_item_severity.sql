@@ -0,0 +1,15 @@
+-- Checklist item severities and server-computed overall status.
+-- minor: a failure is recorded but the vehicle still passes ("pass with minor
+-- defects"); major: the inspection fails; critical: the inspection fails and
+-- the vehicle goes out of service. Replaces the is_critical flag.
+
+alter table public.checklist_template_items
+  add column if not exists severity text not null default 'major'
+    check (severity in ('minor', 'major', 'critical'));
+
+update public.checklist_template_items
+set severity = 'critical'
+where is_critical;
+
+alter table public.checklist_template_items
+  drop column if exists is_critical;
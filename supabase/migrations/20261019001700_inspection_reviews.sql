@@ -0,0 +1,20 @@
+-- Supervisor review of failed or noted inspections.
+-- Inspections are immutable, so the review lives in its own table: one
+-- sign-off per inspection recording the action taken and who signed off.
+-- A sign-off is final; like amendments it can't be edited or removed.
+
+create table if not exists public.inspection_reviews (
+  id uuid primary key default gen_random_uuid(),
+  inspection_id uuid not null unique references public.inspections(id) on delete restrict,
+  action_taken text not null,
+  reviewed_by text not null,
+  reviewed_by_admin_id uuid references public.admin_users(id) on delete restrict,
+  reviewed_at timestamptz not null default now()
+);
+
+drop trigger if exists inspection_reviews_immutable on public.inspection_reviews;
+create trigger inspection_reviews_immutable
+  before update or delete on public.inspection_reviews
+  for each row execute function public.reject_record_changes();
+
+alter table public.inspection_reviews enable row level security;
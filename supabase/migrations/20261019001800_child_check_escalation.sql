@@ -0,0 +1,26 @@
+-- Child-left-on-vehicle escalation.
+-- A post-trip that fails the seat check or "no children left" item, or a
+-- route where attendance shows a student picked up but never dropped off,
+-- raises a high-priority dispatch alert that is also sent by SMS/email.
+-- Each message sent (or failed) is logged against the alert, and these alerts
+-- can only be resolved with a note saying how the child was accounted for.
+
+alter table public.dispatch_alerts
+  add column if not exists priority text not null default 'normal'
+    check (priority in ('normal', 'high')),
+  add column if not exists route_id uuid references public.routes(id) on delete set null;
+
+create table if not exists public.dispatch_alert_notifications (
+  id uuid primary key default gen_random_uuid(),
+  alert_id uuid not null references public.dispatch_alerts(id) on delete cascade,
+  channel text not null check (channel in ('sms', 'email')),
+  recipient text not null,
+  status text not null check (status in ('sent', 'failed')),
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists dispatch_alert_notifications_alert_idx
+  on public.dispatch_alert_notifications (alert_id, created_at);
+
+alter table public.dispatch_alert_notifications enable row level security;
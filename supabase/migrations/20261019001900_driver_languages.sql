@@ -0,0 +1,147 @@
+-- Multilingual driver portal.
+-- Each driver has a preferred language (English, Spanish, Portuguese or
+-- Haitian Creole) that the portal switches to at sign-in. Checklist items
+-- carry their translated label and category next to the English text, e.g.
+-- {"es": {"label": "...", "category": "..."}}; answers stay keyed by the
+-- English item_key, so reports and exports are unaffected.
+
+alter table public.drivers
+  add column if not exists preferred_language text not null default 'en'
+    check (preferred_language in ('en', 'es', 'pt', 'ht'));
+
+alter table public.checklist_template_items
+  add column if not exists translations jsonb not null default '{}'::jsonb;
+
+-- Translations for the version 1 items. Items whose English label has since
+-- been edited are left for the admin to translate in the checklist editor.
+update public.checklist_template_items ti
+set translations = t.translations::jsonb
+from (values
+  ('tires', 'Tires – pressure and minimum 4/32" tread depth', '{
+    "es": {"label": "Llantas – presión y profundidad mínima de banda de 4/32\"", "category": "Luces y exterior"},
+    "pt": {"label": "Pneus – calibragem e sulco mínimo de 4/32\"", "category": "Luzes e exterior"},
+    "ht": {"label": "Kawoutchou – presyon ak pwofondè tras minimòm 4/32\"", "category": "Limyè ak deyò"}}'),
+  ('headlights', 'Headlights – high and low beams', '{
+    "es": {"label": "Faros – luces altas y bajas", "category": "Luces y exterior"},
+    "pt": {"label": "Faróis – alto e baixo", "category": "Luzes e exterior"},
+    "ht": {"label": "Limyè devan – gwo limyè ak ti limyè", "category": "Limyè ak deyò"}}'),
+  ('directionals', 'Turn signals – front and rear', '{
+    "es": {"label": "Direccionales – delanteras y traseras", "category": "Luces y exterior"},
+    "pt": {"label": "Setas – dianteiras e traseiras", "category": "Luzes e exterior"},
+    "ht": {"label": "Siyal vire – devan ak dèyè", "category": "Limyè ak deyò"}}'),
+  ('stop_lights', 'Brake / stop lights', '{
+    "es": {"label": "Luces de freno", "category": "Luces y exterior"},
+    "pt": {"label": "Luzes de freio", "category": "Luzes e exterior"},
+    "ht": {"label": "Limyè fren", "category": "Limyè ak deyò"}}'),
+  ('reverse_lights', 'Reverse lights', '{
+    "es": {"label": "Luces de reversa", "category": "Luces y exterior"},
+    "pt": {"label": "Luzes de ré", "category": "Luzes e exterior"},
+    "ht": {"label": "Limyè bak", "category": "Limyè ak deyò"}}'),
+  ('four_way_flashers', 'Four-way hazard flashers', '{
+    "es": {"label": "Luces intermitentes de emergencia", "category": "Luces y exterior"},
+    "pt": {"label": "Pisca-alerta", "category": "Luzes e exterior"},
+    "ht": {"label": "Kat limyè ijans", "category": "Limyè ak deyò"}}'),
+  ('plate_light', 'License plate light', '{
+    "es": {"label": "Luz de la placa", "category": "Luces y exterior"},
+    "pt": {"label": "Luz da placa", "category": "Luzes e exterior"},
+    "ht": {"label": "Limyè plak la", "category": "Limyè ak deyò"}}'),
+  ('school_bus_lights', 'School bus / warning lights', '{
+    "es": {"label": "Luces de autobús escolar / advertencia", "category": "Luces y exterior"},
+    "pt": {"label": "Luzes de ônibus escolar / advertência", "category": "Luzes e exterior"},
+    "ht": {"label": "Limyè bis lekòl / limyè avètisman", "category": "Limyè ak deyò"}}'),
+  ('brakes', 'Brakes – service and parking', '{
+    "es": {"label": "Frenos – de servicio y de estacionamiento", "category": "Controles y seguridad"},
+    "pt": {"label": "Freios – de serviço e de estacionamento", "category": "Controles e segurança"},
+    "ht": {"label": "Fren – fren pye ak fren pakin", "category": "Kontwòl ak sekirite"}}'),
+  ('mirrors', 'Mirrors adjusted and secure', '{
+    "es": {"label": "Espejos ajustados y firmes", "category": "Controles y seguridad"},
+    "pt": {"label": "Espelhos ajustados e firmes", "category": "Controles e segurança"},
+    "ht": {"label": "Retwovizè regle epi byen tache", "category": "Kontwòl ak sekirite"}}'),
+  ('exhaust', 'Exhaust system – leaks or damage', '{
+    "es": {"label": "Sistema de escape – fugas o daños", "category": "Controles y seguridad"},
+    "pt": {"label": "Escapamento – vazamentos ou danos", "category": "Controles e segurança"},
+    "ht": {"label": "Tiyo echapman – fwit oswa domaj", "category": "Kontwòl ak sekirite"}}'),
+  ('fluid_leaks', 'Fluid leaks under vehicle', '{
+    "es": {"label": "Fugas de líquidos debajo del vehículo", "category": "Controles y seguridad"},
+    "pt": {"label": "Vazamentos de fluidos embaixo do veículo", "category": "Controles e segurança"},
+    "ht": {"label": "Likid k ap koule anba machin nan", "category": "Kontwòl ak sekirite"}}'),
+  ('doors', 'Doors – open/close properly, latches working', '{
+    "es": {"label": "Puertas – abren/cierran bien, seguros funcionando", "category": "Controles y seguridad"},
+    "pt": {"label": "Portas – abrem/fecham direito, travas funcionando", "category": "Controles e segurança"},
+    "ht": {"label": "Pòt – louvri/fèmen byen, seri yo mache", "category": "Kontwòl ak sekirite"}}'),
+  ('wipers_fluid', 'Windshield wipers and washer fluid', '{
+    "es": {"label": "Limpiaparabrisas y líquido limpiador", "category": "Controles y seguridad"},
+    "pt": {"label": "Limpadores de para-brisa e fluido do lavador", "category": "Controles e segurança"},
+    "ht": {"label": "Esui-glas ak likid pou lave vit la", "category": "Kontwòl ak sekirite"}}'),
+  ('horn', 'Horn', '{
+    "es": {"label": "Claxon", "category": "Controles y seguridad"},
+    "pt": {"label": "Buzina", "category": "Controles e segurança"},
+    "ht": {"label": "Klaksonn", "category": "Kontwòl ak sekirite"}}'),
+  ('pupil_plates', 'Front and rear pupil plates', '{
+    "es": {"label": "Letreros de transporte escolar delantero y trasero", "category": "Equipo obligatorio"},
+    "pt": {"label": "Placas de transporte escolar dianteira e traseira", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Plak transpò elèv devan ak dèyè", "category": "Ekipman obligatwa"}}'),
+  ('state_inspection', 'Annual state inspection sticker', '{
+    "es": {"label": "Calcomanía de inspección estatal anual", "category": "Equipo obligatorio"},
+    "pt": {"label": "Selo da inspeção estadual anual", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Etikèt enspeksyon eta chak ane", "category": "Ekipman obligatwa"}}'),
+  ('semi_annual_7d', 'Semi-annual 7D inspection sticker', '{
+    "es": {"label": "Calcomanía de inspección 7D semestral", "category": "Equipo obligatorio"},
+    "pt": {"label": "Selo da inspeção 7D semestral", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Etikèt enspeksyon 7D chak sis mwa", "category": "Ekipman obligatwa"}}'),
+  ('chock_blocks', 'Two chock blocks', '{
+    "es": {"label": "Dos calzas para ruedas", "category": "Equipo obligatorio"},
+    "pt": {"label": "Dois calços de roda", "category": "Equipamento obrigatório"},
+    "ht": {"label": "De kal pou wou", "category": "Ekipman obligatwa"}}'),
+  ('first_aid', 'First aid kit', '{
+    "es": {"label": "Botiquín de primeros auxilios", "category": "Equipo obligatorio"},
+    "pt": {"label": "Kit de primeiros socorros", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Twous premye swen", "category": "Ekipman obligatwa"}}'),
+  ('fire_ext', 'Fire extinguisher mounted and reachable by driver (2A:10BC with hose)', '{
+    "es": {"label": "Extintor montado y al alcance del conductor (2A:10BC con manguera)", "category": "Equipo obligatorio"},
+    "pt": {"label": "Extintor fixado e ao alcance do motorista (2A:10BC com mangueira)", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Estenktè tache epi chofè a ka rive sou li (2A:10BC ak tiyo)", "category": "Ekipman obligatwa"}}'),
+  ('triangles', 'Three reflective warning triangles', '{
+    "es": {"label": "Tres triángulos reflectantes de advertencia", "category": "Equipo obligatorio"},
+    "pt": {"label": "Três triângulos refletivos de sinalização", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Twa triyang avètisman ki reflete limyè", "category": "Ekipman obligatwa"}}'),
+  ('body_fluid_kit', 'Body fluid clean-up kit', '{
+    "es": {"label": "Kit de limpieza de fluidos corporales", "category": "Equipo obligatorio"},
+    "pt": {"label": "Kit de limpeza de fluidos corporais", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Twous pou netwaye likid kò", "category": "Ekipman obligatwa"}}'),
+  ('seat_belt_cutter', 'Seat belt cutter', '{
+    "es": {"label": "Cortador de cinturón de seguridad", "category": "Equipo obligatorio"},
+    "pt": {"label": "Cortador de cinto de segurança", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Koupè senti sekirite", "category": "Ekipman obligatwa"}}'),
+  ('fire_blanket', 'Fire / evacuation blanket (only for wheelchair-equipped vehicles)', '{
+    "es": {"label": "Manta contra incendios / de evacuación (solo vehículos con silla de ruedas)", "category": "Equipo obligatorio"},
+    "pt": {"label": "Manta antichamas / de evacuação (só veículos adaptados para cadeira de rodas)", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Lenn pou dife / evakyasyon (sèlman machin ki ekipe pou chèz woulant)", "category": "Ekipman obligatwa"}}'),
+  ('child_reminder', 'Child reminder system present and working (2018 and newer vehicles)', '{
+    "es": {"label": "Sistema recordatorio de niños presente y funcionando (vehículos 2018 y más nuevos)", "category": "Equipo obligatorio"},
+    "pt": {"label": "Sistema de alerta de criança presente e funcionando (veículos 2018 ou mais novos)", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Sistèm rapèl timoun la la epi l mache (machin 2018 oswa pi nouvo)", "category": "Ekipman obligatwa"}}'),
+  ('wheelchair_lift', 'Wheelchair lift, if installed', '{
+    "es": {"label": "Elevador de silla de ruedas, si tiene", "category": "Equipo obligatorio"},
+    "pt": {"label": "Elevador de cadeira de rodas, se houver", "category": "Equipamento obrigatório"},
+    "ht": {"label": "Asansè chèz woulant, si genyen", "category": "Ekipman obligatwa"}}'),
+  ('seat_check', 'Checked in, around and under every seat', '{
+    "es": {"label": "Revisé en, alrededor y debajo de cada asiento", "category": "Interior y revisión de niños"},
+    "pt": {"label": "Verifiquei em cima, em volta e embaixo de cada assento", "category": "Interior e verificação de crianças"},
+    "ht": {"label": "Tcheke sou, bò kote ak anba chak syèj", "category": "Anndan ak tcheke timoun"}}'),
+  ('no_children', 'Confirmed no sleeping or hiding children; child reminder system disengaged (if installed)', '{
+    "es": {"label": "Confirmé que no hay niños dormidos ni escondidos; sistema recordatorio de niños desactivado (si tiene)", "category": "Interior y revisión de niños"},
+    "pt": {"label": "Confirmei que não há crianças dormindo ou escondidas; sistema de alerta de criança desativado (se houver)", "category": "Interior e verificação de crianças"},
+    "ht": {"label": "Konfime pa gen timoun k ap dòmi oswa ki kache; sistèm rapèl timoun la dezaktive (si genyen)", "category": "Anndan ak tcheke timoun"}}'),
+  ('items_left', 'Verified no backpacks, clothing or other items left; inspected for rips in seats, trip hazards, broken seats', '{
+    "es": {"label": "Verifiqué que no quedaron mochilas, ropa u otros objetos; revisé asientos rotos o rasgados y riesgos de tropiezo", "category": "Interior y revisión de niños"},
+    "pt": {"label": "Verifiquei que não ficaram mochilas, roupas ou outros objetos; inspecionei assentos rasgados ou quebrados e riscos de tropeço", "category": "Interior e verificação de crianças"},
+    "ht": {"label": "Verifye pa gen sakado, rad oswa lòt bagay ki rete; tcheke syèj chire oswa kase ak bagay moun ka bite sou yo", "category": "Anndan ak tcheke timoun"}}'),
+  ('walk_around', 'Walked around exterior – checked for any irregularities', '{
+    "es": {"label": "Caminé alrededor del exterior – revisé cualquier irregularidad", "category": "Revisión exterior"},
+    "pt": {"label": "Dei a volta no veículo – verifiquei qualquer irregularidade", "category": "Volta ao redor do veículo"},
+    "ht": {"label": "Fè wonn machin nan deyò – tcheke si gen nenpòt bagay ki pa nòmal", "category": "Fè wonn deyò a"}}')
+) as t(item_key, label, translations)
+where ti.item_key = t.item_key
+  and ti.label = t.label
+  and ti.translations = '{}'::jsonb;
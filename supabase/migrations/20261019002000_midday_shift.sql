@@ -0,0 +1,9 @@
+-- Midday as a shift of its own.
+-- Midday routes now have their own pre-trip and post-trip instead of riding
+-- on the AM shift's inspections. Each time entry records the shift it was
+-- clocked for so timecards can split hours by AM, Midday and PM; entries from
+-- before this change stay unassigned.
+
+alter table public.driver_time_entries
+  add column if not exists shift text
+    check (shift in ('AM', 'Midday', 'PM'));
@@ -0,0 +1,10 @@
+-- Work date on route-level dispatch alerts.
+-- A picked-up-but-never-dropped-off alert is raised once per route and work
+-- date while it is open, so a later day on the same route alerts again.
+
+alter table public.dispatch_alerts
+  add column if not exists work_date date;
+
+create index if not exists dispatch_alerts_open_child_idx
+  on public.dispatch_alerts (kind, inspection_id, route_id, work_date)
+  where resolved_at is null;
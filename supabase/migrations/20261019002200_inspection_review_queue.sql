@@ -0,0 +1,45 @@
+-- The supervisor review queue as a view, so the admin screens can page and
+-- count it in the database instead of reading every flagged inspection.
+-- Amended status and notes are applied (the newest amendment to each field
+-- wins), matching needsReview() in src/lib/inspections/reviews.ts.
+-- Only inspections submitted after this migration ran are queued; earlier
+-- records predate sign-offs and would never be cleared.
+
+do $$
+begin
+  if to_regclass('public.inspection_review_queue') is null then
+    execute format($view$
+      create view public.inspection_review_queue with (security_invoker = true) as
+      select
+        i.id,
+        i.submitted_at,
+        current_values.overall_status,
+        current_values.overall_status = 'fail_out_of_service' as out_of_service
+      from public.inspections i
+      cross join lateral (
+        select
+          case when status_change is null then i.overall_status else status_change ->> 'to' end as overall_status,
+          case when notes_change is null then i.notes else notes_change ->> 'to' end as notes
+        from (
+          select
+            (select a.changes -> 'overall_status'
+               from public.inspection_amendments a
+              where a.inspection_id = i.id and a.changes ? 'overall_status'
+              order by a.created_at desc
+              limit 1) as status_change,
+            (select a.changes -> 'notes'
+               from public.inspection_amendments a
+              where a.inspection_id = i.id and a.changes ? 'notes'
+              order by a.created_at desc
+              limit 1) as notes_change
+        ) latest
+      ) current_values
+      where i.submitted_at >= %L
+        and not exists (select 1 from public.inspection_reviews r where r.inspection_id = i.id)
+        and (
+          current_values.overall_status in ('fail', 'fail_out_of_service', 'pass_minor_defects')
+          or nullif(btrim(current_values.notes), '') is not null
+        )
+    $view$, now());
+  end if;
+end $$;